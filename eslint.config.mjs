@@ -0,0 +1,19 @@
+import { dirname } from "path";
+import { fileURLToPath } from "url";
+import { FlatCompat } from "@eslint/eslintrc";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const compat = new FlatCompat({
+  baseDirectory: __dirname,
+});
+
+const eslintConfig = [
+  ...compat.extends("next/core-web-vitals"),
+  {
+    ignores: ["node_modules/**", ".next/**", "out/**", "build/**", "dist-seed/**", "next-env.d.ts"],
+  },
+];
+
+export default eslintConfig;
@@ -0,0 +1,57 @@
+/**
+ * Runs the scheduled audit jobs: archives the records the retention policies
+ * no longer keep, once the archive job has not run for a day, then signs a
+ * checkpoint of the chain once the last one is older than
+ * AUDIT_CHECKPOINT_INTERVAL_HOURS.
+ *
+ * Meant to be run from cron or another scheduler; running it more often than
+ * the jobs are due does nothing. Exits non-zero when a job fails, so the
+ * scheduler reports it, and the job is tried again on the next run.
+ *
+ * Usage: npm run audit:maintain
+ */
+
+import { prisma } from '@/lib/db';
+import { StorageError } from '@/lib/storage';
+import { AuditArchiveError, runDueAuditArchive } from '@/lib/audit-archive';
+import { AuditChainError, runDueAuditCheckpoint } from '@/lib/audit-chain';
+
+async function main() {
+  let failed = false;
+
+  try {
+    const { ran, archive } = await runDueAuditArchive();
+    console.log(
+      !ran
+        ? 'Archive: not due yet'
+        : archive
+          ? `Archive: ${archive.recordCount} record(s) written to ${archive.fileName}`
+          : 'Archive: no records were due'
+    );
+  } catch (error) {
+    if (!(error instanceof AuditArchiveError) && !(error instanceof StorageError)) throw error;
+    console.error(`Archive: failed, ${error.message}`);
+    failed = true;
+  }
+
+  // A failed archive does not hold up the checkpoint
+  try {
+    const { ran, checkpoint } = await runDueAuditCheckpoint();
+    console.log(
+      !ran
+        ? 'Checkpoint: not due yet'
+        : checkpoint
+          ? `Checkpoint: signed at record ${checkpoint.sequence}`
+          : 'Checkpoint: nothing recorded since the last one'
+    );
+  } catch (error) {
+    if (!(error instanceof AuditChainError)) throw error;
+    console.error(`Checkpoint: failed, ${error.message}`);
+    failed = true;
+  }
+
+  if (failed) process.exitCode = 1;
+}
+
+main().catch(e => { console.error(e); process.exit(1); })
+  .finally(async () => { await prisma.$disconnect(); });
@@ -0,0 +1,105 @@
+/**
+ * Moves attachments stored as base64 data URLs in RegistryEntry.attachments
+ * into the configured file store, one Attachment row per slot.
+ *
+ * Safe to re-run: slots that already have a stored file are skipped, and an
+ * entry's JSON column is only cleared once every slot has been converted.
+ *
+ * Usage: npm run attachments:migrate [-- --dry-run]
+ */
+
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { createStorageKey, getStorageDriver } from '../src/lib/storage';
+import { decodePdfDataUrl, FileValidationError } from '../src/lib/file-validation';
+
+const prisma = new PrismaClient();
+const dryRun = process.argv.includes('--dry-run');
+const BATCH_SIZE = 20;
+
+type LegacyAttachment = { name?: unknown; dataUrl?: unknown };
+
+async function main() {
+  const driver = getStorageDriver();
+  let converted = 0;
+  let failed = 0;
+  let scanned = 0;
+  let cursor: string | undefined;
+
+  // Data URLs are large, so walk the table a few entries at a time
+  for (;;) {
+    const entries = await prisma.registryEntry.findMany({
+      where: { attachments: { not: Prisma.DbNull }, ...(cursor && { id: { gt: cursor } }) },
+      select: { id: true, no: true, attachments: true, createdById: true, files: { select: { slot: true } } },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+    if (entries.length === 0) break;
+    cursor = entries[entries.length - 1].id;
+    scanned += entries.length;
+
+    for (const entry of entries) {
+      const legacy = (entry.attachments ?? {}) as Record<string, LegacyAttachment | null>;
+      const storedSlots = new Set(entry.files.map((file: { slot: string | null }) => file.slot));
+      let pending = 0;
+
+      for (const [slot, value] of Object.entries(legacy)) {
+        if (typeof value?.dataUrl !== 'string' || !value.dataUrl || storedSlots.has(slot)) continue;
+
+        let bytes: Buffer;
+        try {
+          bytes = decodePdfDataUrl(value.dataUrl);
+        } catch (error) {
+          const reason = error instanceof FileValidationError ? error.message : String(error);
+          console.warn(`${entry.no} ${slot}: skipped, ${reason}`);
+          failed += 1;
+          pending += 1;
+          continue;
+        }
+
+        const fileName = typeof value.name === 'string' && value.name ? value.name : `${slot}.pdf`;
+        if (dryRun) {
+          console.log(`${entry.no} ${slot}: would store ${fileName} (${bytes.length} bytes)`);
+          converted += 1;
+          continue;
+        }
+
+        const storageKey = createStorageKey();
+        await driver.put(storageKey, Readable.from([bytes]), 'application/pdf');
+        try {
+          await prisma.attachment.create({
+            data: {
+              entryId: entry.id,
+              slot,
+              fileName,
+              mimeType: 'application/pdf',
+              size: bytes.length,
+              sha256: createHash('sha256').update(bytes).digest('hex'),
+              driver: driver.name,
+              storageKey,
+              uploadedById: entry.createdById,
+            },
+          });
+        } catch (error) {
+          await driver.delete(storageKey).catch(() => undefined);
+          throw error;
+        }
+        converted += 1;
+      }
+
+      // Keep the JSON column until nothing in it is left to convert
+      if (!dryRun && pending === 0) {
+        await prisma.registryEntry.update({ where: { id: entry.id }, data: { attachments: Prisma.DbNull } });
+      }
+    }
+  }
+
+  console.log(
+    `${dryRun ? 'Dry run: ' : ''}${converted} attachment(s) ${dryRun ? 'to convert' : 'converted'} across ${scanned} entr${scanned === 1 ? 'y' : 'ies'}` +
+      (failed > 0 ? `, ${failed} skipped (see warnings above)` : '')
+  );
+}
+
+main().catch(e => { console.error(e); process.exit(1); })
+  .finally(async () => { await prisma.$disconnect(); });
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."SequenceOverflow" AS ENUM ('EXPAND', 'ERROR');
+
+-- CreateTable
+CREATE TABLE "public"."RegistrySequence" (
+    "id" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "format" TEXT NOT NULL DEFAULT '{prefix}{seq}/{year}',
+    "width" INTEGER NOT NULL DEFAULT 3,
+    "overflow" "public"."SequenceOverflow" NOT NULL DEFAULT 'EXPAND',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RegistrySequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RegistrySequence_prefix_year_key" ON "public"."RegistrySequence"("prefix", "year");
+
+-- Backfill counters from registry numbers issued before the sequence table existed
+INSERT INTO "public"."RegistrySequence" ("id", "prefix", "year", "lastValue", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    'RGST',
+    CAST(substring("no" FROM '/(\d{4})$') AS INTEGER),
+    MAX(CAST(substring("no" FROM '^RGST(\d+)/') AS INTEGER)),
+    CURRENT_TIMESTAMP
+FROM "public"."RegistryEntry"
+WHERE "no" ~ '^RGST\d+/\d{4}$'
+GROUP BY substring("no" FROM '/(\d{4})$');
@@ -0,0 +1,39 @@
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'NUMBER_RESERVED';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'NUMBER_VOIDED';
+
+-- CreateEnum
+CREATE TYPE "public"."ReservationStatus" AS ENUM ('ACTIVE', 'CONSUMED', 'RELEASED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "public"."NumberReservation" (
+    "id" TEXT NOT NULL,
+    "no" TEXT NOT NULL,
+    "status" "public"."ReservationStatus" NOT NULL DEFAULT 'ACTIVE',
+    "userId" TEXT,
+    "entryId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "releasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NumberReservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NumberReservation_no_key" ON "public"."NumberReservation"("no");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NumberReservation_entryId_key" ON "public"."NumberReservation"("entryId");
+
+-- CreateIndex
+CREATE INDEX "NumberReservation_userId_status_idx" ON "public"."NumberReservation"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "NumberReservation_status_expiresAt_idx" ON "public"."NumberReservation"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."NumberReservation" ADD CONSTRAINT "NumberReservation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."NumberReservation" ADD CONSTRAINT "NumberReservation_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "public"."RegistryEntry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "public"."Attachment" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT,
+    "slot" TEXT,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "sha256" TEXT NOT NULL,
+    "driver" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Attachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attachment_storageKey_key" ON "public"."Attachment"("storageKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attachment_entryId_slot_key" ON "public"."Attachment"("entryId", "slot");
+
+-- CreateIndex
+CREATE INDEX "Attachment_uploadedById_createdAt_idx" ON "public"."Attachment"("uploadedById", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."Attachment" ADD CONSTRAINT "Attachment_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "public"."RegistryEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Attachment" ADD CONSTRAINT "Attachment_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- DropIndex
+DROP INDEX "public"."Attachment_entryId_slot_key";
+
+-- AlterTable
+ALTER TABLE "public"."Attachment" ADD COLUMN     "supersededAt" TIMESTAMP(3),
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attachment_entryId_slot_version_key" ON "public"."Attachment"("entryId", "slot", "version");
+
+-- CreateIndex
+CREATE INDEX "Attachment_entryId_supersededAt_idx" ON "public"."Attachment"("entryId", "supersededAt");
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "public"."SystemSetting" ADD COLUMN     "config" JSONB;
+
+-- Turn the seeded document types into slot definitions keyed by the attachment slot names
+UPDATE "public"."SystemSetting" SET "value" = 'bankLetter', "config" = '{"statuses":[],"requiredForStatuses":["ONGOING","CANCELLED","COMPLETED"],"mimeTypes":["application/pdf"],"maxSizeMB":10}'
+WHERE "category" = 'DOCUMENT_TYPE' AND "value" = 'Bank Letter';
+
+UPDATE "public"."SystemSetting" SET "value" = 'agreementDocument', "config" = '{"statuses":[],"requiredForStatuses":["ONGOING","CANCELLED","COMPLETED"],"mimeTypes":["application/pdf"],"maxSizeMB":10}'
+WHERE "category" = 'DOCUMENT_TYPE' AND "value" = 'Agreement Document';
+
+UPDATE "public"."SystemSetting" SET "value" = 'landRegistry', "config" = '{"statuses":[],"requiredForStatuses":["ONGOING","CANCELLED","COMPLETED"],"mimeTypes":["application/pdf"],"maxSizeMB":10}'
+WHERE "category" = 'DOCUMENT_TYPE' AND "value" = 'Land Registry';
+
+-- Fresh databases get the standard slots
+INSERT INTO "public"."SystemSetting" ("id", "category", "value", "displayName", "isActive", "sortOrder", "config", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, 'DOCUMENT_TYPE', v."value", v."displayName", true, v."sortOrder", v."config"::jsonb, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM (VALUES
+  ('bankLetter', 'Bank Letter', 1, '{"statuses":[],"requiredForStatuses":["ONGOING","CANCELLED","COMPLETED"],"mimeTypes":["application/pdf"],"maxSizeMB":10}'),
+  ('agreementDocument', 'Agreement Document', 2, '{"statuses":[],"requiredForStatuses":["ONGOING","CANCELLED","COMPLETED"],"mimeTypes":["application/pdf"],"maxSizeMB":10}'),
+  ('landRegistry', 'Land Registry', 3, '{"statuses":[],"requiredForStatuses":["ONGOING","CANCELLED","COMPLETED"],"mimeTypes":["application/pdf"],"maxSizeMB":10}')
+) AS v("value", "displayName", "sortOrder", "config")
+WHERE NOT EXISTS (SELECT 1 FROM "public"."SystemSetting" WHERE "category" = 'DOCUMENT_TYPE');
+
+-- The status documents used to be fixed in code
+INSERT INTO "public"."SystemSetting" ("id", "category", "value", "displayName", "isActive", "sortOrder", "config", "createdAt", "updatedAt")
+VALUES
+  (gen_random_uuid()::text, 'DOCUMENT_TYPE', 'cancellationBankDocument', 'Bank Document (Cancellation)', true, 4, '{"statuses":["CANCELLED"],"requiredForStatuses":["CANCELLED"],"mimeTypes":["application/pdf"],"maxSizeMB":10}', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 'DOCUMENT_TYPE', 'completionBankDocument', 'Bank Letter of Completion', true, 5, '{"statuses":["COMPLETED"],"requiredForStatuses":["COMPLETED"],"mimeTypes":["application/pdf"],"maxSizeMB":10}', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+ON CONFLICT ("category", "value") DO NOTHING;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."Attachment" ADD COLUMN     "pageCount" INTEGER,
+ADD COLUMN     "producer" TEXT,
+ADD COLUMN     "title" TEXT;
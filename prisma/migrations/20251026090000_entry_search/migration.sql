@@ -0,0 +1,60 @@
+-- Extensions
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+CREATE EXTENSION IF NOT EXISTS "unaccent";
+
+-- AlterTable
+ALTER TABLE "public"."RegistryEntry" ADD COLUMN     "searchText" TEXT,
+ADD COLUMN     "searchVector" tsvector;
+
+-- Search document: registry and agreement numbers and borrower names rank
+-- highest, then address and island, then branch and form number. Accents are
+-- stripped so "Muḥammad" and "Muhammad" match. searchText holds the same words
+-- plus borrower national IDs in lower case for trigram and substring matching.
+CREATE OR REPLACE FUNCTION "public"."registry_entry_search_update"() RETURNS trigger AS $$
+DECLARE
+  borrower_names TEXT;
+  borrower_ids TEXT;
+BEGIN
+  SELECT coalesce(string_agg("fullName", ' '), ''), coalesce(string_agg("nationalId", ' '), '')
+    INTO borrower_names, borrower_ids
+    FROM "public"."Borrower"
+    WHERE "registryEntryId" = NEW."id";
+
+  NEW."searchVector" :=
+    setweight(to_tsvector('simple', unaccent(concat_ws(' ', NEW."no", NEW."agreementNumber", borrower_names))), 'A') ||
+    setweight(to_tsvector('simple', unaccent(concat_ws(' ', NEW."address", NEW."island"))), 'B') ||
+    setweight(to_tsvector('simple', unaccent(concat_ws(' ', NEW."branch", NEW."formNumber", borrower_ids))), 'C');
+  NEW."searchText" := lower(unaccent(concat_ws(' ', NEW."no", NEW."agreementNumber", borrower_names, borrower_ids, NEW."address", NEW."island")));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "RegistryEntry_search_update"
+  BEFORE INSERT OR UPDATE ON "public"."RegistryEntry"
+  FOR EACH ROW EXECUTE FUNCTION "public"."registry_entry_search_update"();
+
+-- Borrowers are saved after their entry, so touching the entry re-runs the trigger above
+CREATE OR REPLACE FUNCTION "public"."borrower_search_touch"() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    UPDATE "public"."RegistryEntry" SET "searchText" = NULL WHERE "id" = OLD."registryEntryId";
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW."registryEntryId" IS DISTINCT FROM OLD."registryEntryId") THEN
+    UPDATE "public"."RegistryEntry" SET "searchText" = NULL WHERE "id" = NEW."registryEntryId";
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Borrower_search_touch"
+  AFTER INSERT OR UPDATE OR DELETE ON "public"."Borrower"
+  FOR EACH ROW EXECUTE FUNCTION "public"."borrower_search_touch"();
+
+-- Backfill existing entries
+UPDATE "public"."RegistryEntry" SET "searchText" = NULL;
+
+-- CreateIndex
+CREATE INDEX "RegistryEntry_searchVector_idx" ON "public"."RegistryEntry" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "RegistryEntry_searchText_idx" ON "public"."RegistryEntry" USING GIN ("searchText" gin_trgm_ops);
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "public"."SavedView" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "shared" BOOLEAN NOT NULL DEFAULT false,
+    "pinned" BOOLEAN NOT NULL DEFAULT false,
+    "ownerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SavedView_shared_idx" ON "public"."SavedView"("shared");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SavedView_ownerId_name_key" ON "public"."SavedView"("ownerId", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."SavedView" ADD CONSTRAINT "SavedView_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,68 @@
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'BORROWER_MERGED';
+
+-- CreateEnum
+CREATE TYPE "public"."BorrowerRole" AS ENUM ('PRIMARY', 'CO_BORROWER', 'GUARANTOR');
+
+-- CreateTable
+CREATE TABLE "public"."Person" (
+    "id" TEXT NOT NULL,
+    "nationalId" TEXT NOT NULL,
+    "fullName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Person_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Person_nationalId_key" ON "public"."Person"("nationalId");
+
+-- AlterTable
+ALTER TABLE "public"."Borrower" ADD COLUMN     "personId" TEXT,
+ADD COLUMN     "role" "public"."BorrowerRole" NOT NULL DEFAULT 'CO_BORROWER';
+
+-- One person per national ID, named as on their most recently updated agreement
+INSERT INTO "public"."Person" ("id", "nationalId", "fullName", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, p."nationalId", p."fullName", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM (
+  SELECT DISTINCT ON (upper(btrim(b."nationalId")))
+    upper(btrim(b."nationalId")) AS "nationalId",
+    btrim(b."fullName") AS "fullName"
+  FROM "public"."Borrower" b
+  JOIN "public"."RegistryEntry" e ON e."id" = b."registryEntryId"
+  ORDER BY upper(btrim(b."nationalId")), e."updatedAt" DESC
+) p;
+
+-- Links carry the ID in the same form as their person, so lookups by ID find both
+UPDATE "public"."Borrower" b
+SET "personId" = p."id", "nationalId" = p."nationalId"
+FROM "public"."Person" p
+WHERE p."nationalId" = upper(btrim(b."nationalId"));
+
+-- A person listed twice on the same agreement keeps one link
+DELETE FROM "public"."Borrower" b
+USING "public"."Borrower" other
+WHERE b."registryEntryId" = other."registryEntryId"
+  AND b."personId" = other."personId"
+  AND b."id" > other."id";
+
+-- The first borrower recorded on each agreement becomes its primary borrower
+UPDATE "public"."Borrower" b
+SET "role" = 'PRIMARY'
+WHERE b."id" IN (
+  SELECT DISTINCT ON ("registryEntryId") "id"
+  FROM "public"."Borrower"
+  ORDER BY "registryEntryId", "id"
+);
+
+ALTER TABLE "public"."Borrower" ALTER COLUMN "personId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Borrower_personId_idx" ON "public"."Borrower"("personId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Borrower_registryEntryId_personId_key" ON "public"."Borrower"("registryEntryId", "personId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Borrower" ADD CONSTRAINT "Borrower_personId_fkey" FOREIGN KEY ("personId") REFERENCES "public"."Person"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "public"."NationalIdType" AS ENUM ('MALDIVIAN_ID', 'PASSPORT', 'WORK_PERMIT');
+
+-- AlterTable
+ALTER TABLE "public"."Person" ADD COLUMN     "idType" "public"."NationalIdType" NOT NULL DEFAULT 'MALDIVIAN_ID';
+
+-- AlterTable
+ALTER TABLE "public"."Borrower" ADD COLUMN     "idType" "public"."NationalIdType" NOT NULL DEFAULT 'MALDIVIAN_ID';
+
+-- Work permit numbers were previously recorded as plain IDs
+UPDATE "public"."Person" SET "idType" = 'WORK_PERMIT' WHERE "nationalId" ~ '^WP[0-9]{6,10}$';
+UPDATE "public"."Borrower" SET "idType" = 'WORK_PERMIT' WHERE upper("nationalId") ~ '^WP[0-9]{6,10}$';
@@ -0,0 +1,29 @@
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'ENTRY_STATUS_CHANGED';
+
+-- CreateTable
+CREATE TABLE "public"."EntryStatusChange" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "fromStatus" "public"."Status",
+    "toStatus" "public"."Status" NOT NULL,
+    "reason" TEXT,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EntryStatusChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EntryStatusChange_entryId_createdAt_idx" ON "public"."EntryStatusChange"("entryId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."EntryStatusChange" ADD CONSTRAINT "EntryStatusChange_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "public"."RegistryEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EntryStatusChange" ADD CONSTRAINT "EntryStatusChange_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Start each existing entry's timeline with the status it was recorded in
+INSERT INTO "public"."EntryStatusChange" ("id", "entryId", "fromStatus", "toStatus", "actorId", "createdAt")
+SELECT gen_random_uuid()::text, "id", NULL, "status", "createdById", "createdAt"
+FROM "public"."RegistryEntry";
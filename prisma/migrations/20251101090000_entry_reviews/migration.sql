@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'ENTRY_SUBMITTED_FOR_REVIEW';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'ENTRY_APPROVED';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'ENTRY_REJECTED';
+
+-- CreateEnum
+CREATE TYPE "public"."ReviewState" AS ENUM ('DRAFT', 'PENDING_REVIEW', 'APPROVED');
+
+-- CreateEnum
+CREATE TYPE "public"."ReviewDecision" AS ENUM ('SUBMITTED', 'APPROVED', 'REJECTED');
+
+-- Entries recorded before reviews existed are treated as approved; new entries wait for review
+ALTER TABLE "public"."RegistryEntry" ADD COLUMN "reviewState" "public"."ReviewState" NOT NULL DEFAULT 'APPROVED';
+ALTER TABLE "public"."RegistryEntry" ALTER COLUMN "reviewState" SET DEFAULT 'PENDING_REVIEW';
+
+-- CreateIndex
+CREATE INDEX "RegistryEntry_reviewState_idx" ON "public"."RegistryEntry"("reviewState");
+
+-- CreateTable
+CREATE TABLE "public"."EntryReview" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "decision" "public"."ReviewDecision" NOT NULL,
+    "comment" TEXT,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EntryReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EntryReview_entryId_createdAt_idx" ON "public"."EntryReview"("entryId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."EntryReview" ADD CONSTRAINT "EntryReview_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "public"."RegistryEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EntryReview" ADD CONSTRAINT "EntryReview_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "public"."Draft" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "entryId" TEXT,
+    "payload" JSONB NOT NULL,
+    "summary" TEXT NOT NULL,
+    "attachmentIds" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Draft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Draft_ownerId_entryId_key" ON "public"."Draft"("ownerId", "entryId");
+
+-- CreateIndex
+CREATE INDEX "Draft_ownerId_updatedAt_idx" ON "public"."Draft"("ownerId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "Draft_attachmentIds_idx" ON "public"."Draft" USING GIN ("attachmentIds");
+
+-- AddForeignKey
+ALTER TABLE "public"."Draft" ADD CONSTRAINT "Draft_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Draft" ADD CONSTRAINT "Draft_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "public"."RegistryEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'ENTRIES_IMPORTED';
+
+-- CreateEnum
+CREATE TYPE "public"."ImportStatus" AS ENUM ('UPLOADED', 'VALIDATED', 'IMPORTING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."RegistryEntry" ADD COLUMN "importJobId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."ImportJob" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "status" "public"."ImportStatus" NOT NULL DEFAULT 'UPLOADED',
+    "headers" TEXT[],
+    "rows" JSONB,
+    "rowCount" INTEGER NOT NULL,
+    "mapping" JSONB,
+    "errors" JSONB,
+    "errorCount" INTEGER,
+    "importedCount" INTEGER NOT NULL DEFAULT 0,
+    "failure" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ImportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportJob_createdAt_idx" ON "public"."ImportJob"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "RegistryEntry_importJobId_idx" ON "public"."RegistryEntry"("importJobId");
+
+-- AddForeignKey
+ALTER TABLE "public"."RegistryEntry" ADD CONSTRAINT "RegistryEntry_importJobId_fkey" FOREIGN KEY ("importJobId") REFERENCES "public"."ImportJob"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ImportJob" ADD CONSTRAINT "ImportJob_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
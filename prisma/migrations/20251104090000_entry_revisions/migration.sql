@@ -0,0 +1,68 @@
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'ENTRY_REVERTED';
+
+-- CreateEnum
+CREATE TYPE "public"."RevisionSource" AS ENUM ('CREATED', 'UPDATED', 'STATUS_CHANGED', 'DELETED', 'RESTORED', 'REVERTED', 'IMPORTED');
+
+-- CreateTable
+CREATE TABLE "public"."EntryRevision" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "source" "public"."RevisionSource" NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EntryRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EntryRevision_entryId_version_key" ON "public"."EntryRevision"("entryId", "version");
+
+-- CreateIndex
+CREATE INDEX "EntryRevision_entryId_createdAt_idx" ON "public"."EntryRevision"("entryId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."EntryRevision" ADD CONSTRAINT "EntryRevision_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "public"."RegistryEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EntryRevision" ADD CONSTRAINT "EntryRevision_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Record each existing entry as it is now, so history starts from its last save
+INSERT INTO "public"."EntryRevision" ("id", "entryId", "version", "source", "snapshot", "actorId", "createdAt")
+SELECT
+    'rev' || md5(e."id" || ':' || e."version"),
+    e."id",
+    e."version",
+    (CASE WHEN e."version" = 1 THEN 'CREATED' ELSE 'UPDATED' END)::"public"."RevisionSource",
+    jsonb_build_object(
+        'no', e."no",
+        'agreementNumber', e."agreementNumber",
+        'formNumber', e."formNumber",
+        'date', to_char(e."date", 'YYYY-MM-DD'),
+        'branch', e."branch",
+        'island', e."island",
+        'address', e."address",
+        'status', e."status",
+        'loanAmount', e."loanAmount"::text,
+        'dateOfCancelled', to_char(e."dateOfCancelled", 'YYYY-MM-DD'),
+        'dateOfCompleted', to_char(e."dateOfCompleted", 'YYYY-MM-DD'),
+        'isDeleted', e."isDeleted",
+        'borrowers', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object('personId', b."personId", 'fullName', b."fullName", 'nationalId', b."nationalId", 'idType', b."idType", 'role', b."role")
+                ORDER BY b."role", b."fullName"
+            )
+            FROM "public"."Borrower" b
+            WHERE b."registryEntryId" = e."id"
+        ), '[]'::jsonb),
+        'attachments', COALESCE((
+            SELECT jsonb_object_agg(a."slot", jsonb_build_object('id', a."id", 'name', a."fileName", 'version', a."version"))
+            FROM "public"."Attachment" a
+            WHERE a."entryId" = e."id" AND a."supersededAt" IS NULL AND a."slot" IS NOT NULL
+        ), '{}'::jsonb)
+    ),
+    COALESCE(e."updatedById", e."createdById"),
+    e."updatedAt"
+FROM "public"."RegistryEntry" e;
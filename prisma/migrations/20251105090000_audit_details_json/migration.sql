@@ -0,0 +1,49 @@
+-- Audit details become JSON tagged with the version of their schema. Details
+-- that were never valid JSON are kept as version 0 with the original text.
+CREATE FUNCTION "public"."audit_details_to_jsonb"(value TEXT) RETURNS JSONB AS $$
+BEGIN
+  RETURN value::jsonb;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- AlterTable
+ALTER TABLE "public"."AuditLog" ALTER COLUMN "details" TYPE JSONB USING (
+  CASE
+    WHEN "details" IS NULL THEN '{"v": 1}'::jsonb
+    WHEN jsonb_typeof("public"."audit_details_to_jsonb"("details")) = 'object'
+      THEN "public"."audit_details_to_jsonb"("details") || '{"v": 1}'::jsonb
+    ELSE jsonb_build_object('v', 0, 'text', "details")
+  END
+);
+ALTER TABLE "public"."AuditLog" ALTER COLUMN "details" SET NOT NULL;
+
+DROP FUNCTION "public"."audit_details_to_jsonb"(TEXT);
+
+-- Entry views named the registry number entryNo
+UPDATE "public"."AuditLog"
+SET "details" = ("details" - 'entryNo') || jsonb_build_object('no', "details"->'entryNo')
+WHERE "action" = 'ENTRY_VIEWED' AND "details" ? 'entryNo';
+
+-- Settings changes named their operation action, which read as the audit action
+UPDATE "public"."AuditLog"
+SET "details" = ("details" - 'action') || jsonb_build_object('operation', "details"->'action')
+WHERE "action" = 'SETTINGS_UPDATED' AND "details" ? 'action';
+
+-- Merged people keep only what identifies them
+UPDATE "public"."AuditLog"
+SET "details" = "details"
+  || jsonb_build_object('kept', jsonb_build_object('id', "details"->'kept'->'id', 'fullName', "details"->'kept'->'fullName', 'nationalId', "details"->'kept'->'nationalId'))
+  || jsonb_build_object('merged', (
+    SELECT COALESCE(jsonb_agg(jsonb_build_object('id', person->'id', 'fullName', person->'fullName', 'nationalId', person->'nationalId')), '[]'::jsonb)
+    FROM jsonb_array_elements("details"->'merged') AS person
+  ))
+WHERE "action" = 'BORROWER_MERGED' AND jsonb_typeof("details"->'merged') = 'array';
+
+-- Entry changes list the names of the fields they touched, so the log can be filtered on them
+UPDATE "public"."AuditLog"
+SET "details" = "details" || jsonb_build_object('fields', (
+  SELECT COALESCE(jsonb_agg(key ORDER BY key), '[]'::jsonb) FROM jsonb_object_keys("details"->'changes') AS key
+))
+WHERE "action" IN ('ENTRY_UPDATED', 'ENTRY_REVERTED') AND jsonb_typeof("details"->'changes') = 'object';
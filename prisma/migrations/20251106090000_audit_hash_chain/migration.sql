@@ -0,0 +1,141 @@
+-- AlterTable
+ALTER TABLE "public"."AuditLog" ADD COLUMN "sequence" SERIAL NOT NULL,
+ADD COLUMN "actorRef" TEXT,
+ADD COLUMN "targetUserRef" TEXT,
+ADD COLUMN "targetEntryRef" TEXT,
+ADD COLUMN "prevHash" TEXT,
+ADD COLUMN "hash" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."AuditCheckpoint" (
+    "id" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "hash" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "keyId" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditCheckpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditCheckpoint_sequence_key" ON "public"."AuditCheckpoint"("sequence");
+
+-- AddForeignKey
+ALTER TABLE "public"."AuditCheckpoint" ADD CONSTRAINT "AuditCheckpoint_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- The hash of an audit record covers the previous record's hash and the record's
+-- own content, one value per line. src/lib/audit-chain.ts computes the same hash
+-- independently when verifying the chain, so the two must be changed together.
+CREATE FUNCTION "public"."audit_log_hash"(
+  prev_hash TEXT,
+  seq INTEGER,
+  id TEXT,
+  action TEXT,
+  actor_ref TEXT,
+  target_user_ref TEXT,
+  target_entry_ref TEXT,
+  details JSONB,
+  created_at TIMESTAMP
+) RETURNS TEXT AS $$
+  SELECT encode(sha256(convert_to(concat_ws(E'\n',
+    coalesce(prev_hash, ''),
+    seq::text,
+    id,
+    action,
+    coalesce(actor_ref, ''),
+    coalesce(target_user_ref, ''),
+    coalesce(target_entry_ref, ''),
+    details::text,
+    to_char(created_at, 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+  ), 'UTF8')), 'hex')
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Chain the records written so far in the order they were written
+DO $$
+DECLARE
+  logged RECORD;
+  previous TEXT := NULL;
+  counter INTEGER := 0;
+BEGIN
+  FOR logged IN SELECT * FROM "public"."AuditLog" ORDER BY "createdAt", "id" LOOP
+    counter := counter + 1;
+    UPDATE "public"."AuditLog"
+    SET "sequence" = -counter,
+        "actorRef" = logged."actorId",
+        "targetUserRef" = logged."targetUserId",
+        "targetEntryRef" = logged."targetEntryId",
+        "prevHash" = previous,
+        "hash" = "public"."audit_log_hash"(previous, counter, logged."id", logged."action"::text, logged."actorId",
+          logged."targetUserId", logged."targetEntryId", logged."details", logged."createdAt")
+    WHERE "id" = logged."id"
+    RETURNING "hash" INTO previous;
+  END LOOP;
+  -- Numbered negative first so the new numbers never collide with the ones SERIAL handed out
+  UPDATE "public"."AuditLog" SET "sequence" = -"sequence";
+  PERFORM setval(pg_get_serial_sequence('"public"."AuditLog"', 'sequence'), GREATEST(counter, 1), counter > 0);
+END $$;
+
+ALTER TABLE "public"."AuditLog" ALTER COLUMN "hash" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditLog_sequence_key" ON "public"."AuditLog"("sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditLog_hash_key" ON "public"."AuditLog"("hash");
+
+-- New records are numbered and linked one writer at a time, so each links to the
+-- record committed before it
+CREATE FUNCTION "public"."audit_log_chain"() RETURNS TRIGGER AS $$
+DECLARE
+  last_sequence INTEGER;
+  last_hash TEXT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('audit_log_chain'));
+  SELECT "sequence", "hash" INTO last_sequence, last_hash
+  FROM "public"."AuditLog" ORDER BY "sequence" DESC LIMIT 1;
+
+  NEW."sequence" := coalesce(last_sequence, 0) + 1;
+  NEW."prevHash" := last_hash;
+  NEW."actorRef" := NEW."actorId";
+  NEW."targetUserRef" := NEW."targetUserId";
+  NEW."targetEntryRef" := NEW."targetEntryId";
+  NEW."hash" := "public"."audit_log_hash"(NEW."prevHash", NEW."sequence", NEW."id", NEW."action"::text, NEW."actorRef",
+    NEW."targetUserRef", NEW."targetEntryRef", NEW."details", NEW."createdAt");
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+CREATE TRIGGER "audit_log_chain"
+BEFORE INSERT ON "public"."AuditLog"
+FOR EACH ROW EXECUTE FUNCTION "public"."audit_log_chain"();
+
+-- Recorded content cannot be changed; only the relations may be cleared when a
+-- user or entry is deleted
+CREATE FUNCTION "public"."audit_log_guard"() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW."id" IS DISTINCT FROM OLD."id"
+    OR NEW."action" IS DISTINCT FROM OLD."action"
+    OR NEW."details" IS DISTINCT FROM OLD."details"
+    OR NEW."createdAt" IS DISTINCT FROM OLD."createdAt"
+    OR NEW."sequence" IS DISTINCT FROM OLD."sequence"
+    OR NEW."actorRef" IS DISTINCT FROM OLD."actorRef"
+    OR NEW."targetUserRef" IS DISTINCT FROM OLD."targetUserRef"
+    OR NEW."targetEntryRef" IS DISTINCT FROM OLD."targetEntryRef"
+    OR NEW."prevHash" IS DISTINCT FROM OLD."prevHash"
+    OR NEW."hash" IS DISTINCT FROM OLD."hash"
+    OR (NEW."actorId" IS NOT NULL AND NEW."actorId" IS DISTINCT FROM OLD."actorId")
+    OR (NEW."targetUserId" IS NOT NULL AND NEW."targetUserId" IS DISTINCT FROM OLD."targetUserId")
+    OR (NEW."targetEntryId" IS NOT NULL AND NEW."targetEntryId" IS DISTINCT FROM OLD."targetEntryId")
+  THEN
+    RAISE EXCEPTION 'Audit records cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_log_guard"
+BEFORE UPDATE ON "public"."AuditLog"
+FOR EACH ROW EXECUTE FUNCTION "public"."audit_log_guard"();
@@ -0,0 +1,86 @@
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'AUDIT_EXPORTED';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'AUDIT_ARCHIVED';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'AUDIT_RETENTION_CHANGED';
+
+-- CreateTable
+CREATE TABLE "public"."AuditRetentionPolicy" (
+    "action" "public"."AuditAction" NOT NULL,
+    "retainDays" INTEGER NOT NULL,
+    "updatedById" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AuditRetentionPolicy_pkey" PRIMARY KEY ("action")
+);
+
+-- CreateTable
+CREATE TABLE "public"."AuditArchive" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "driver" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "sha256" TEXT NOT NULL,
+    "recordCount" INTEGER NOT NULL,
+    "firstSequence" INTEGER NOT NULL,
+    "lastSequence" INTEGER NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditArchive_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ArchivedAuditLog" (
+    "sequence" INTEGER NOT NULL,
+    "auditLogId" TEXT NOT NULL,
+    "action" "public"."AuditAction" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL,
+    "prevHash" TEXT,
+    "hash" TEXT NOT NULL,
+    "archiveId" TEXT NOT NULL,
+
+    CONSTRAINT "ArchivedAuditLog_pkey" PRIMARY KEY ("sequence")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditArchive_storageKey_key" ON "public"."AuditArchive"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "AuditArchive_createdAt_idx" ON "public"."AuditArchive"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ArchivedAuditLog_auditLogId_key" ON "public"."ArchivedAuditLog"("auditLogId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ArchivedAuditLog_hash_key" ON "public"."ArchivedAuditLog"("hash");
+
+-- CreateIndex
+CREATE INDEX "ArchivedAuditLog_archiveId_idx" ON "public"."ArchivedAuditLog"("archiveId");
+
+-- AddForeignKey
+ALTER TABLE "public"."AuditRetentionPolicy" ADD CONSTRAINT "AuditRetentionPolicy_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AuditArchive" ADD CONSTRAINT "AuditArchive_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ArchivedAuditLog" ADD CONSTRAINT "ArchivedAuditLog_archiveId_fkey" FOREIGN KEY ("archiveId") REFERENCES "public"."AuditArchive"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- An audit record can only be removed once it has been archived, leaving its
+-- place in the chain behind
+CREATE FUNCTION "public"."audit_log_archive_guard"() RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM "public"."ArchivedAuditLog"
+    WHERE "auditLogId" = OLD."id" AND "sequence" = OLD."sequence" AND "hash" = OLD."hash"
+  ) THEN
+    RAISE EXCEPTION 'Audit records can only be removed once archived';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_log_archive_guard"
+BEFORE DELETE ON "public"."AuditLog"
+FOR EACH ROW EXECUTE FUNCTION "public"."audit_log_archive_guard"();
@@ -0,0 +1,90 @@
+-- AlterTable
+ALTER TABLE "public"."AuditLog" ADD COLUMN "ipAddress" TEXT,
+ADD COLUMN "userAgent" TEXT,
+ADD COLUMN "searchText" TEXT GENERATED ALWAYS AS (lower("details"::text)) STORED;
+
+-- CreateIndex
+CREATE INDEX "AuditLog_actorRef_createdAt_idx" ON "public"."AuditLog"("actorRef", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_createdAt_idx" ON "public"."AuditLog"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_searchText_idx" ON "public"."AuditLog" USING GIN ("searchText" gin_trgm_ops);
+
+-- The hash now covers where a record came from as well. Records without an IP
+-- address or user agent hash exactly as before, so the existing chain still
+-- verifies. src/lib/audit-chain.ts must be changed in step.
+CREATE FUNCTION "public"."audit_log_hash"(
+  prev_hash TEXT,
+  seq INTEGER,
+  id TEXT,
+  action TEXT,
+  actor_ref TEXT,
+  target_user_ref TEXT,
+  target_entry_ref TEXT,
+  details JSONB,
+  created_at TIMESTAMP,
+  ip_address TEXT,
+  user_agent TEXT
+) RETURNS TEXT AS $$
+  SELECT encode(sha256(convert_to(concat_ws(E'\n',
+    coalesce(prev_hash, ''),
+    seq::text,
+    id,
+    action,
+    coalesce(actor_ref, ''),
+    coalesce(target_user_ref, ''),
+    coalesce(target_entry_ref, ''),
+    details::text,
+    to_char(created_at, 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+    CASE WHEN ip_address IS NULL AND user_agent IS NULL THEN NULL ELSE coalesce(ip_address, '') END,
+    CASE WHEN ip_address IS NULL AND user_agent IS NULL THEN NULL ELSE coalesce(user_agent, '') END
+  ), 'UTF8')), 'hex')
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION "public"."audit_log_chain"() RETURNS TRIGGER AS $$
+DECLARE
+  last_sequence INTEGER;
+  last_hash TEXT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('audit_log_chain'));
+  SELECT "sequence", "hash" INTO last_sequence, last_hash
+  FROM "public"."AuditLog" ORDER BY "sequence" DESC LIMIT 1;
+
+  NEW."sequence" := coalesce(last_sequence, 0) + 1;
+  NEW."prevHash" := last_hash;
+  NEW."actorRef" := NEW."actorId";
+  NEW."targetUserRef" := NEW."targetUserId";
+  NEW."targetEntryRef" := NEW."targetEntryId";
+  NEW."hash" := "public"."audit_log_hash"(NEW."prevHash", NEW."sequence", NEW."id", NEW."action"::text, NEW."actorRef",
+    NEW."targetUserRef", NEW."targetEntryRef", NEW."details", NEW."createdAt", NEW."ipAddress", NEW."userAgent");
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+DROP FUNCTION "public"."audit_log_hash"(TEXT, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB, TIMESTAMP);
+
+CREATE OR REPLACE FUNCTION "public"."audit_log_guard"() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW."id" IS DISTINCT FROM OLD."id"
+    OR NEW."action" IS DISTINCT FROM OLD."action"
+    OR NEW."details" IS DISTINCT FROM OLD."details"
+    OR NEW."createdAt" IS DISTINCT FROM OLD."createdAt"
+    OR NEW."sequence" IS DISTINCT FROM OLD."sequence"
+    OR NEW."actorRef" IS DISTINCT FROM OLD."actorRef"
+    OR NEW."targetUserRef" IS DISTINCT FROM OLD."targetUserRef"
+    OR NEW."targetEntryRef" IS DISTINCT FROM OLD."targetEntryRef"
+    OR NEW."prevHash" IS DISTINCT FROM OLD."prevHash"
+    OR NEW."hash" IS DISTINCT FROM OLD."hash"
+    OR NEW."ipAddress" IS DISTINCT FROM OLD."ipAddress"
+    OR NEW."userAgent" IS DISTINCT FROM OLD."userAgent"
+    OR (NEW."actorId" IS NOT NULL AND NEW."actorId" IS DISTINCT FROM OLD."actorId")
+    OR (NEW."targetUserId" IS NOT NULL AND NEW."targetUserId" IS DISTINCT FROM OLD."targetUserId")
+    OR (NEW."targetEntryId" IS NOT NULL AND NEW."targetEntryId" IS DISTINCT FROM OLD."targetEntryId")
+  THEN
+    RAISE EXCEPTION 'Audit records cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,48 @@
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'ROLE_CREATED';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'ROLE_UPDATED';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'ROLE_DELETED';
+
+-- AlterTable: the role enum must go before the Role table can take its name
+ALTER TABLE "public"."User" ALTER COLUMN "role" DROP DEFAULT;
+ALTER TABLE "public"."User" ALTER COLUMN "role" TYPE TEXT USING "role"::TEXT;
+ALTER TABLE "public"."User" ALTER COLUMN "role" SET DEFAULT 'VIEWER';
+
+-- DropEnum
+DROP TYPE "public"."Role";
+
+-- CreateTable
+CREATE TABLE "public"."Role" (
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[],
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Role_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Role_name_key" ON "public"."Role"("name");
+
+-- The built-in roles, with the access they had when roles were fixed
+INSERT INTO "public"."Role" ("key", "name", "description", "permissions", "isSystem", "updatedAt") VALUES
+  ('ADMIN', 'Administrator', 'Full access to the registry and its administration',
+   ARRAY['entry.read', 'entry.create', 'entry.update', 'entry.reopen', 'entry.delete', 'entry.restore', 'entry.import',
+         'report.export', 'report.duplicates', 'borrower.manage', 'reservation.manage', 'view.manage',
+         'settings.manage', 'user.manage', 'role.manage', 'audit.read', 'audit.manage'],
+   true, CURRENT_TIMESTAMP),
+  ('DATA_ENTRY', 'Data Entry', 'Records and maintains registry entries',
+   ARRAY['entry.read', 'entry.create', 'entry.update', 'entry.delete', 'report.export'],
+   true, CURRENT_TIMESTAMP),
+  ('VIEWER', 'Viewer', 'Reads the registry and runs reports',
+   ARRAY['entry.read', 'report.export'],
+   true, CURRENT_TIMESTAMP);
+
+-- CreateIndex
+CREATE INDEX "User_role_idx" ON "public"."User"("role");
+
+-- AddForeignKey
+ALTER TABLE "public"."User" ADD CONSTRAINT "User_role_fkey" FOREIGN KEY ("role") REFERENCES "public"."Role"("key") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- New records link to the newest record in the chain, which may have been
+-- archived, leaving only its stand-in
+CREATE OR REPLACE FUNCTION "public"."audit_log_chain"() RETURNS TRIGGER AS $$
+DECLARE
+  last_sequence INTEGER;
+  last_hash TEXT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('audit_log_chain'));
+  SELECT "sequence", "hash" INTO last_sequence, last_hash
+  FROM (
+    SELECT "sequence", "hash" FROM "public"."AuditLog"
+    UNION ALL
+    SELECT "sequence", "hash" FROM "public"."ArchivedAuditLog"
+  ) AS chained
+  ORDER BY "sequence" DESC LIMIT 1;
+
+  NEW."sequence" := coalesce(last_sequence, 0) + 1;
+  NEW."prevHash" := last_hash;
+  NEW."actorRef" := NEW."actorId";
+  NEW."targetUserRef" := NEW."targetUserId";
+  NEW."targetEntryRef" := NEW."targetEntryId";
+  NEW."hash" := "public"."audit_log_hash"(NEW."prevHash", NEW."sequence", NEW."id", NEW."action"::text, NEW."actorRef",
+    NEW."targetUserRef", NEW."targetEntryRef", NEW."details", NEW."createdAt", NEW."ipAddress", NEW."userAgent");
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "public"."AuditJobRun" (
+    "job" TEXT NOT NULL,
+    "lastRunAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AuditJobRun_pkey" PRIMARY KEY ("job")
+);
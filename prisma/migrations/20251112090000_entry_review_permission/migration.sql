@@ -0,0 +1,5 @@
+-- Approving and rejecting entries now takes its own permission; roles that
+-- could review before, by editing entries, keep doing so
+UPDATE "public"."Role"
+SET "permissions" = array_append("permissions", 'entry.review'), "updatedAt" = CURRENT_TIMESTAMP
+WHERE 'entry.update' = ANY("permissions") AND NOT 'entry.review' = ANY("permissions");
@@ -1,5 +1,6 @@
-import { PrismaClient, Role, Status, AuditAction, SettingCategory } from '@prisma/client';
+import { PrismaClient, Status, AuditAction, SettingCategory, BorrowerRole } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { DEFAULT_DOCUMENT_TYPES } from '../src/lib/document-types';
 const prisma = new PrismaClient();
 
 async function main() {
@@ -11,12 +12,12 @@ async function main() {
     create: {
       email: adminEmail,
       name: "Admin",
-      role: Role.ADMIN,
+      role: "ADMIN",
       passwordHash: await bcrypt.hash("Password1!", 10)
     }
   });
   if (!adminExists) {
-    await prisma.auditLog.create({ data: { action: AuditAction.USER_CREATED, actorId: admin.id, targetUserId: admin.id, details: JSON.stringify({ email: admin.email }) } });
+    await prisma.auditLog.create({ data: { action: AuditAction.USER_CREATED, actorId: admin.id, targetUserId: admin.id, details: { v: 1, email: admin.email } } });
   }
 
   await prisma.user.upsert({
@@ -25,7 +26,7 @@ async function main() {
     create: {
       email: "viewer@example.com",
       name: "Viewer",
-      role: Role.VIEWER,
+      role: "VIEWER",
       passwordHash: await bcrypt.hash("Password1!", 10)
     }
   });
@@ -41,7 +42,15 @@ async function main() {
     loanAmount: "700000.00"
   } as const;
 
-  const borrowerData = [{ fullName: "Mariyam Mahaa Abdul Samad", nationalId: "A354960" }];
+  const borrowerData = [{ fullName: "Mariyam Mahaa Abdul Samad", nationalId: "A354960", role: BorrowerRole.PRIMARY }].map((borrower) => ({
+    ...borrower,
+    person: {
+      connectOrCreate: {
+        where: { nationalId: borrower.nationalId },
+        create: { nationalId: borrower.nationalId, fullName: borrower.fullName }
+      }
+    }
+  }));
 
   const registryNumber = "RGST001/2025";
   const existingEntry = await prisma.registryEntry.findUnique({ where: { no: registryNumber } });
@@ -64,12 +73,22 @@ async function main() {
         no: registryNumber,
         ...entryCoreData,
         createdById: admin.id,
-        borrowers: { create: borrowerData }
+        borrowers: { create: borrowerData },
+        statusChanges: { create: { toStatus: entryCoreData.status, actorId: admin.id } },
+        // Sample agreements start out approved so reports have data
+        reviewState: "APPROVED"
       }
     });
-    await prisma.auditLog.create({ data: { action: AuditAction.ENTRY_CREATED, actorId: admin.id, targetEntryId: entry.id, details: JSON.stringify({ no: entry.no, agreementNumber: entry.agreementNumber }) } });
+    await prisma.auditLog.create({ data: { action: AuditAction.ENTRY_CREATED, actorId: admin.id, targetEntryId: entry.id, details: { v: 1, no: entry.no, agreementNumber: entry.agreementNumber } } });
   }
 
+  // Keep the registry number counter ahead of the seeded entry
+  await prisma.registrySequence.upsert({
+    where: { prefix_year: { prefix: "RGST", year: 2025 } },
+    update: {},
+    create: { prefix: "RGST", year: 2025, lastValue: 1 }
+  });
+
   // Seed system settings
   const settingsData = [
     // Islands
@@ -91,9 +110,13 @@ async function main() {
     { category: SettingCategory.REGION, value: "Fuvahmulah", displayName: "Fuvahmulah", sortOrder: 3 },
     
     // Document Types
-    { category: SettingCategory.DOCUMENT_TYPE, value: "Bank Letter", displayName: "Bank Letter", sortOrder: 1 },
-    { category: SettingCategory.DOCUMENT_TYPE, value: "Agreement Document", displayName: "Agreement Document", sortOrder: 2 },
-    { category: SettingCategory.DOCUMENT_TYPE, value: "Land Registry", displayName: "Land Registry", sortOrder: 3 },
+    ...DEFAULT_DOCUMENT_TYPES.map(({ key, label, ...config }, index) => ({
+      category: SettingCategory.DOCUMENT_TYPE,
+      value: key,
+      displayName: label,
+      sortOrder: index + 1,
+      config,
+    })),
   ];
 
   for (const setting of settingsData) {
@@ -0,0 +1,261 @@
+'use client';
+import { useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { format } from 'date-fns';
+import { Download, ShieldCheck, ShieldX, Stamp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+
+type BreakKind = 'MISSING' | 'LINK' | 'CONTENT' | 'REFERENCE' | 'CHECKPOINT' | 'SIGNATURE' | 'TRUNCATED';
+
+type ChainReport = {
+  checked: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  headHash: string | null;
+  breaks: { kind: BreakKind; sequence: number; auditLogId?: string; message: string }[];
+  breakCount: number;
+  checkpoints: { checked: number; verified: number; otherKey: number };
+  verifiedAt: string;
+};
+
+type Checkpoint = {
+  id: string;
+  sequence: number;
+  hash: string;
+  algorithm: string;
+  keyId: string;
+  createdAt: string;
+  createdBy: { id: string; name: string | null; email: string } | null;
+};
+
+const breakLabels: Record<BreakKind, string> = {
+  MISSING: 'Missing records',
+  LINK: 'Broken link',
+  CONTENT: 'Changed record',
+  REFERENCE: 'Moved relation',
+  CHECKPOINT: 'Differs from checkpoint',
+  SIGNATURE: 'Bad signature',
+  TRUNCATED: 'Records removed from the end',
+};
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+const shortHash = (hash: string) => `${hash.slice(0, 12)}…`;
+
+export default function IntegrityClient() {
+  const { data, isLoading, mutate } = useSWR<{ checkpoints?: Checkpoint[]; headSequence?: number | null; error?: string }>(
+    '/api/admin/audit/checkpoints',
+    fetcher,
+  );
+  const checkpoints = data?.checkpoints ?? [];
+
+  const [report, setReport] = useState<ChainReport | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const verify = async () => {
+    setIsVerifying(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/audit/verify', { method: 'POST' });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(body.error ?? 'The audit trail could not be verified');
+        return;
+      }
+      setReport(body.report);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const createCheckpoint = async () => {
+    setIsSigning(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/audit/checkpoints', { method: 'POST' });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(body.error ?? 'The checkpoint could not be signed');
+        return;
+      }
+      await mutate();
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-semibold text-foreground">Audit integrity</h1>
+          <p className="text-sm text-muted-foreground">
+            Each audit record carries a hash of its content and of the record before it, so any change to the trail breaks
+            the chain. Checkpoints sign the head of the chain and can be exported for safekeeping outside the registry.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/audit">Audit log</Link>
+        </Button>
+      </div>
+
+      {error ? <p className="text-sm text-destructive">{error}</p> : null}
+
+      <Card>
+        <CardHeader className="flex flex-col gap-4 border-b border-border/60 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="text-xl text-foreground">Verify the chain</CardTitle>
+            <CardDescription>
+              Recomputes the hash of every record and checks each link and checkpoint along the way.
+            </CardDescription>
+          </div>
+          <Button onClick={verify} disabled={isVerifying} className="gap-2">
+            <ShieldCheck className="h-4 w-4" />
+            {isVerifying ? 'Verifying…' : 'Verify now'}
+          </Button>
+        </CardHeader>
+        <CardContent className="px-0 pb-0">
+          {!report ? (
+            <p className="px-6 py-6 text-sm text-muted-foreground">The chain has not been verified in this session.</p>
+          ) : report.breakCount === 0 ? (
+            <div className="flex items-start gap-3 px-6 py-6">
+              <ShieldCheck className="mt-0.5 h-5 w-5 text-emerald-600" />
+              <div className="space-y-1 text-sm">
+                <p className="font-medium text-foreground">The chain is intact</p>
+                <p className="text-muted-foreground">
+                  {report.checked} records checked
+                  {report.lastSequence !== null ? `, up to record ${report.lastSequence}` : ''}. {report.checkpoints.verified}{' '}
+                  checkpoint signature{report.checkpoints.verified === 1 ? '' : 's'} verified
+                  {report.checkpoints.otherKey > 0
+                    ? `; ${report.checkpoints.otherKey} signed with another key could not be checked`
+                    : ''}
+                  . Verified {format(new Date(report.verifiedAt), 'dd MMM yyyy HH:mm')}.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4 pt-6">
+              <div className="flex items-start gap-3 px-6">
+                <ShieldX className="mt-0.5 h-5 w-5 text-destructive" />
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium text-foreground">
+                    {report.breakCount} break{report.breakCount === 1 ? '' : 's'} found in {report.checked} records
+                  </p>
+                  {report.breakCount > report.breaks.length ? (
+                    <p className="text-muted-foreground">The first {report.breaks.length} are listed.</p>
+                  ) : null}
+                </div>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-28">Record</TableHead>
+                    <TableHead className="w-56">Problem</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.breaks.map((found, index) => (
+                    <TableRow key={`${found.kind}-${found.sequence}-${index}`}>
+                      <TableCell className="font-mono">#{found.sequence}</TableCell>
+                      <TableCell>
+                        <Badge variant="destructive">{breakLabels[found.kind]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {found.message}
+                        {found.auditLogId ? <span className="block font-mono text-xs">{found.auditLogId}</span> : null}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-4 border-b border-border/60 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="text-xl text-foreground">Checkpoints</CardTitle>
+            <CardDescription>
+              Signed by the scheduled audit job, or on demand.
+              {data?.headSequence ? ` The chain currently ends at record ${data.headSequence}.` : ''}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={createCheckpoint} disabled={isSigning} className="gap-2">
+              <Stamp className="h-4 w-4" />
+              {isSigning ? 'Signing…' : 'Create checkpoint'}
+            </Button>
+            <Button variant="outline" className="gap-2" asChild>
+              <a href="/api/admin/audit/checkpoints?format=json">
+                <Download className="h-4 w-4" />
+                Export
+              </a>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="px-0 pb-0">
+          {isLoading ? (
+            <div className="p-6">
+              <Skeleton className="h-24 w-full" />
+            </div>
+          ) : data?.error ? (
+            <p className="px-6 py-6 text-sm text-muted-foreground">{data.error}</p>
+          ) : checkpoints.length === 0 ? (
+            <Empty>
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <Stamp className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>No checkpoints yet</EmptyTitle>
+                <EmptyDescription>Create one to sign the audit trail as it stands now.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Hash</TableHead>
+                  <TableHead>Signed with</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>When</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {checkpoints.map((checkpoint) => (
+                  <TableRow key={checkpoint.id}>
+                    <TableCell className="font-mono">#{checkpoint.sequence}</TableCell>
+                    <TableCell className="font-mono text-xs" title={checkpoint.hash}>
+                      {shortHash(checkpoint.hash)}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {checkpoint.algorithm}
+                      <span className="block font-mono text-xs text-muted-foreground">{checkpoint.keyId}</span>
+                    </TableCell>
+                    <TableCell>
+                      {checkpoint.createdBy ? checkpoint.createdBy.name || checkpoint.createdBy.email : 'Automatic'}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(checkpoint.createdAt), 'dd MMM yyyy HH:mm')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
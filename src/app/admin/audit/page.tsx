@@ -1,12 +1,10 @@
 import AuditClient from './table';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/auth/options';
+import { getAccess } from '@/lib/rbac';
 
 export default async function Page() {
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
+  const access = await getAccess();
 
-  if (role !== 'ADMIN') {
+  if (!access?.can('audit.read')) {
     return (
       <main className="flex min-h-[60vh] flex-col items-center justify-center gap-4 text-center">
         <span className="rounded-full border border-border/60 bg-muted px-3 py-1 text-xs font-semibold uppercase tracking-widest text-muted-foreground">
@@ -15,7 +13,7 @@ export default async function Page() {
         <div className="space-y-2">
           <h2 className="text-2xl font-semibold text-foreground">Access denied</h2>
           <p className="text-sm text-muted-foreground">
-            You need admin privileges to view audit trails for this registry.
+            You do not have permission to view audit trails for this registry.
           </p>
         </div>
       </main>
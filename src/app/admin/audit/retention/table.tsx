@@ -0,0 +1,270 @@
+'use client';
+import { useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { format } from 'date-fns';
+import { Archive, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import {
+  RETENTION_PRESETS,
+  formatRetention,
+  isAlwaysRetained,
+  type AuditArchiveItem,
+  type AuditRetentionItem,
+} from '@/lib/audit-retention';
+import { auditActionGroups } from '../utils';
+
+const FOREVER = 'forever';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export default function RetentionClient() {
+  const { data, isLoading, mutate } = useSWR<{ policies?: AuditRetentionItem[]; error?: string }>(
+    '/api/admin/audit/retention',
+    fetcher,
+  );
+  const { data: archiveData, isLoading: isArchivesLoading, mutate: mutateArchives } = useSWR<{
+    archives?: AuditArchiveItem[];
+    lastRunAt?: string | null;
+    error?: string;
+  }>('/api/admin/audit/archives', fetcher);
+
+  const policyFor = new Map((data?.policies ?? []).map((policy) => [policy.action, policy]));
+  const archives = archiveData?.archives ?? [];
+  const due = (data?.policies ?? []).reduce((total, policy) => total + policy.due, 0);
+
+  const [saving, setSaving] = useState<string | null>(null);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const setRetention = async (action: string, value: string) => {
+    setSaving(action);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/admin/audit/retention', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, retainDays: value === FOREVER ? null : Number(value) }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(body.error ?? 'The retention policy could not be saved');
+        return;
+      }
+      await mutate();
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const archiveNow = async () => {
+    setIsArchiving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/admin/audit/archives', { method: 'POST' });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(body.error ?? 'The archive could not be written');
+        return;
+      }
+      setNotice(
+        body.archive
+          ? `Archived ${body.archive.recordCount} record${body.archive.recordCount === 1 ? '' : 's'} to ${body.archive.fileName}.`
+          : 'No records are due to be archived.',
+      );
+      await Promise.all([mutate(), mutateArchives()]);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-semibold text-foreground">Audit retention</h1>
+          <p className="text-sm text-muted-foreground">
+            Choose how long records of each action are kept. Older records are written to an archive file and removed
+            from the log by the daily audit job, or when you archive now. Archived records keep their place in the hash
+            chain.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/audit">Audit log</Link>
+        </Button>
+      </div>
+
+      {error ? <p className="text-sm text-destructive">{error}</p> : null}
+      {notice ? <p className="text-sm text-muted-foreground">{notice}</p> : null}
+
+      <Card>
+        <CardHeader className="border-b border-border/60">
+          <CardTitle className="text-xl text-foreground">Policies</CardTitle>
+          <CardDescription>Actions without a policy are kept forever.</CardDescription>
+        </CardHeader>
+        <CardContent className="px-0 pb-0">
+          {isLoading ? (
+            <div className="p-6">
+              <Skeleton className="h-40 w-full" />
+            </div>
+          ) : data?.error ? (
+            <p className="px-6 py-6 text-sm text-muted-foreground">{data.error}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Action</TableHead>
+                  <TableHead className="w-48">Keep for</TableHead>
+                  <TableHead>Due for archiving</TableHead>
+                  <TableHead>Last changed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {auditActionGroups.flatMap((group) =>
+                  group.actions.map((item) => {
+                    const policy = policyFor.get(item.value);
+                    const retainDays = policy?.retainDays ?? null;
+                    const isCustom = retainDays !== null && !RETENTION_PRESETS.some((preset) => preset.days === retainDays);
+                    return (
+                      <TableRow key={item.value}>
+                        <TableCell>
+                          <span className="font-medium">{item.label}</span>
+                          <span className="block text-xs text-muted-foreground">{group.label}</span>
+                        </TableCell>
+                        <TableCell>
+                          {isAlwaysRetained(item.value) ? (
+                            <span className="text-sm text-muted-foreground">Always kept</span>
+                          ) : (
+                            <Select
+                              value={retainDays === null ? FOREVER : String(retainDays)}
+                              onValueChange={(value) => setRetention(item.value, value)}
+                              disabled={saving === item.value}
+                            >
+                              <SelectTrigger className="w-full">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={FOREVER}>Forever</SelectItem>
+                                {RETENTION_PRESETS.map((preset) => (
+                                  <SelectItem key={preset.days} value={String(preset.days)}>
+                                    {preset.label}
+                                  </SelectItem>
+                                ))}
+                                {isCustom ? (
+                                  <SelectItem value={String(retainDays)}>{formatRetention(retainDays)}</SelectItem>
+                                ) : null}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{policy?.due ? policy.due : '—'}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {policy?.updatedAt ? format(new Date(policy.updatedAt), 'dd MMM yyyy') : '—'}
+                          {policy?.updatedBy ? (
+                            <span className="block text-xs">{policy.updatedBy.name || policy.updatedBy.email}</span>
+                          ) : null}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  }),
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-4 border-b border-border/60 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="text-xl text-foreground">Archives</CardTitle>
+            <CardDescription>
+              Each file holds the removed records as JSON Lines, with everything needed to recompute their hashes.
+              {due > 0 ? ` ${due} record${due === 1 ? ' is' : 's are'} due now.` : ''}
+              {archiveData?.lastRunAt
+                ? ` Last run ${format(new Date(archiveData.lastRunAt), 'dd MMM yyyy HH:mm')}.`
+                : archiveData?.archives
+                  ? ' The archive job has not run yet.'
+                  : ''}
+            </CardDescription>
+          </div>
+          <Button onClick={archiveNow} disabled={isArchiving} className="gap-2">
+            <Archive className="h-4 w-4" />
+            {isArchiving ? 'Archiving…' : 'Archive now'}
+          </Button>
+        </CardHeader>
+        <CardContent className="px-0 pb-0">
+          {isArchivesLoading ? (
+            <div className="p-6">
+              <Skeleton className="h-24 w-full" />
+            </div>
+          ) : archives.length === 0 ? (
+            <Empty>
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <Archive className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>No archives yet</EmptyTitle>
+                <EmptyDescription>Records are archived once a retention policy no longer keeps them.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Records</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead className="text-right">Download</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {archives.map((archive) => (
+                  <TableRow key={archive.id}>
+                    <TableCell>
+                      <span className="font-medium">{archive.fileName}</span>
+                      <span className="block font-mono text-xs text-muted-foreground" title={archive.sha256}>
+                        sha256 {archive.sha256.slice(0, 12)}…
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {archive.recordCount}
+                      <span className="block text-xs text-muted-foreground">
+                        #{archive.firstSequence}–#{archive.lastSequence}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{formatSize(archive.size)}</TableCell>
+                    <TableCell>{archive.createdBy ? archive.createdBy.name || archive.createdBy.email : 'Automatic'}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(archive.createdAt), 'dd MMM yyyy HH:mm')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={`/api/admin/audit/archives/${archive.id}`} aria-label={`Download ${archive.fileName}`}>
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
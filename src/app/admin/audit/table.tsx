@@ -1,6 +1,7 @@
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
 import useSWR from 'swr';
 
 import { Badge } from '@/components/ui/badge';
@@ -32,9 +33,11 @@ import {
 } from '@/components/ui/table';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
-import { actionBadgeStyles, formatActionLabel, formatAuditDetails } from './utils';
+import { REVISION_FIELDS, REVISION_FIELD_LABELS } from '@/lib/entry-revisions';
+import { AUDIT_EXPORT_FORMATS } from '@/lib/audit-retention';
+import { actionBadgeStyles, auditActionGroups, formatActionLabel, formatAuditDetails } from './utils';
 import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
-import { FileText } from 'lucide-react';
+import { Download, FileText } from 'lucide-react';
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
@@ -46,32 +49,34 @@ const entityOptions = [
   { value: 'entry', label: 'Entry' },
 ] as const;
 
-const actionGroups = [
-  {
-    label: 'User',
-    actions: [
-      { value: 'USER_CREATED', label: 'User created' },
-      { value: 'USER_ROLE_CHANGED', label: 'Role changed' },
-      { value: 'USER_PASSWORD_RESET', label: 'Password reset' },
-      { value: 'USER_STATUS_CHANGED', label: 'Status changed' },
-      { value: 'USER_SIGNED_IN', label: 'Signed in' },
-    ],
-  },
-  {
-    label: 'Entry',
-    actions: [
-      { value: 'ENTRY_CREATED', label: 'Entry created' },
-      { value: 'ENTRY_UPDATED', label: 'Entry updated' },
-      { value: 'ENTRY_DELETED', label: 'Entry deleted' },
-      { value: 'ENTRY_VIEWED', label: 'Entry viewed' },
-    ],
-  },
-] as const;
-
 export default function AuditClient() {
   const [entity, setEntity] = useState<string>(DEFAULT_FILTER_VALUE);
   const [action, setAction] = useState<string>(DEFAULT_FILTER_VALUE);
   const [limit, setLimit] = useState<string>('100');
+  const [field, setField] = useState<string>(DEFAULT_FILTER_VALUE);
+  const [reason, setReason] = useState('');
+  const [debouncedReason, setDebouncedReason] = useState('');
+  const [actor, setActor] = useState<string>(DEFAULT_FILTER_VALUE);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+
+  const { data: usersData } = useSWR<{ users?: { id: string; email: string | null; name: string | null }[] }>(
+    '/api/admin/users',
+    fetcher,
+  );
+  const users = usersData?.users ?? [];
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setDebouncedReason(reason.trim()), 300);
+    return () => window.clearTimeout(timeout);
+  }, [reason]);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => window.clearTimeout(timeout);
+  }, [search]);
 
   const queryString = useMemo(() => {
     const search = new URLSearchParams();
@@ -84,12 +89,43 @@ export default function AuditClient() {
       search.set('action', action);
     }
 
+    if (actor !== DEFAULT_FILTER_VALUE) {
+      search.set('actor', actor);
+    }
+
+    if (from) {
+      search.set('from', from);
+    }
+
+    if (to) {
+      search.set('to', to);
+    }
+
+    if (debouncedSearch) {
+      search.set('q', debouncedSearch);
+    }
+
+    if (field !== DEFAULT_FILTER_VALUE) {
+      search.set('field', field);
+    }
+
+    if (debouncedReason) {
+      search.set('reason', debouncedReason);
+    }
+
     if (limit) {
       search.set('limit', limit);
     }
 
     return search.toString();
-  }, [action, entity, limit]);
+  }, [action, entity, actor, from, to, debouncedSearch, field, debouncedReason, limit]);
+
+  // Exports take every record matching the filters, so the limit is left out
+  const exportQuery = useMemo(() => {
+    const search = new URLSearchParams(queryString);
+    search.delete('limit');
+    return search.toString();
+  }, [queryString]);
 
   const [page, setPage] = useState<number>(1);
 
@@ -132,24 +168,40 @@ export default function AuditClient() {
 
   return (
     <div className="space-y-6">
-      <div className="flex flex-col gap-2">
-        <h1 className="text-3xl font-semibold text-foreground">Audit Trail</h1>
-        <p className="text-sm text-muted-foreground">
-          Review administrative actions across the registry and trace changes to records.
-        </p>
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-semibold text-foreground">Audit Trail</h1>
+          <p className="text-sm text-muted-foreground">
+            Review administrative actions across the registry and trace changes to records.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/admin/audit/retention">Retention</Link>
+          </Button>
+          {AUDIT_EXPORT_FORMATS.map((format) => (
+            <Button key={format} variant="outline" className="gap-2" asChild>
+              <a href={`/api/admin/audit/export?${exportQuery}${exportQuery ? '&' : ''}format=${format}`}>
+                <Download className="h-4 w-4" />
+                Export {format.toUpperCase()}
+              </a>
+            </Button>
+          ))}
+        </div>
       </div>
 
       <Card>
         <CardHeader className="border-b border-border/60">
           <CardTitle className="text-xl text-foreground">Activity Log</CardTitle>
           <CardDescription>
-            Filter by entity, action type, or limit the window of recent events.
+            Filter by entity, action type, who acted and when, text in the details, a changed field or a recorded reason, or
+            limit the window of recent events.
           </CardDescription>
         </CardHeader>
         <CardContent className="px-0 pb-0">
           <div className="space-y-4 px-6 py-6">
             <div className="flex flex-col gap-4 rounded-lg border border-border/60 bg-muted p-4 lg:grid lg:grid-cols-[minmax(0,1fr)_auto] lg:items-end lg:gap-6">
-              <div className="grid w-full gap-4 sm:grid-cols-2 md:grid-cols-3">
+              <div className="grid w-full gap-4 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-5">
                 <div className="space-y-2">
                   <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">Entity</p>
                   <Select value={entity} onValueChange={setEntity}>
@@ -173,7 +225,7 @@ export default function AuditClient() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value={DEFAULT_FILTER_VALUE}>All actions</SelectItem>
-                      {actionGroups.map((group) => (
+                      {auditActionGroups.map((group) => (
                         <SelectGroup key={group.label}>
                           <SelectLabel>{group.label}</SelectLabel>
                           {group.actions.map((item) => (
@@ -186,6 +238,72 @@ export default function AuditClient() {
                     </SelectContent>
                   </Select>
                 </div>
+                <div className="space-y-2">
+                  <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">Actor</p>
+                  <Select value={actor} onValueChange={(value) => { setActor(value); setPage(1); }}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Anyone" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_FILTER_VALUE}>Anyone</SelectItem>
+                      {users.map((user) => (
+                        <SelectItem key={user.id} value={user.id}>
+                          {user.name || user.email || user.id}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">From</p>
+                  <Input
+                    type="date"
+                    value={from}
+                    max={to || undefined}
+                    onChange={(event) => { setFrom(event.target.value); setPage(1); }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">To</p>
+                  <Input
+                    type="date"
+                    value={to}
+                    min={from || undefined}
+                    onChange={(event) => { setTo(event.target.value); setPage(1); }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">Search details</p>
+                  <Input
+                    value={search}
+                    onChange={(event) => { setSearch(event.target.value); setPage(1); }}
+                    placeholder="Any text in the details"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">Changed field</p>
+                  <Select value={field} onValueChange={(value) => { setField(value); setPage(1); }}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Any field" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_FILTER_VALUE}>Any field</SelectItem>
+                      {REVISION_FIELDS.filter((name) => name !== 'isDeleted').map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {REVISION_FIELD_LABELS[name]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">Reason</p>
+                  <Input
+                    value={reason}
+                    onChange={(event) => { setReason(event.target.value); setPage(1); }}
+                    placeholder="Text in the reason"
+                  />
+                </div>
                 <div className="space-y-2">
                   <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">Limit</p>
                   <Input
@@ -207,6 +325,12 @@ export default function AuditClient() {
                   onClick={() => {
                     setEntity(DEFAULT_FILTER_VALUE);
                     setAction(DEFAULT_FILTER_VALUE);
+                    setActor(DEFAULT_FILTER_VALUE);
+                    setFrom('');
+                    setTo('');
+                    setSearch('');
+                    setField(DEFAULT_FILTER_VALUE);
+                    setReason('');
                     setLimit("100");
                     setPage(1);
                     mutate();
@@ -288,6 +412,7 @@ export default function AuditClient() {
                                 Actor
                               </p>
                               <p className="text-muted-foreground">{log.actor?.email ?? "—"}</p>
+                              <RequestOrigin log={log} />
                             </div>
                             <div className="space-y-1">
                               <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">
@@ -389,7 +514,10 @@ export default function AuditClient() {
                                   {log.action ? formatActionLabel(log.action) : "—"}
                                 </Badge>
                               </TableCell>
-                              <TableCell className="align-top text-muted-foreground">{log.actor?.email ?? "—"}</TableCell>
+                              <TableCell className="align-top text-muted-foreground">
+                                {log.actor?.email ?? "—"}
+                                <RequestOrigin log={log} />
+                              </TableCell>
                               <TableCell className="align-top text-muted-foreground">{target}</TableCell>
                               <TableCell className="align-top">
                                 <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted/80 p-3 text-xs leading-relaxed text-muted-foreground">
@@ -440,3 +568,14 @@ export default function AuditClient() {
     </div>
   );
 }
+
+// Where the request that wrote the record came from, when it was captured
+function RequestOrigin({ log }: { log: { ipAddress?: string | null; userAgent?: string | null } }) {
+  if (!log.ipAddress && !log.userAgent) return null;
+  return (
+    <span className="mt-1 block text-xs text-muted-foreground/80" title={log.userAgent ?? undefined}>
+      {log.ipAddress ?? 'Unknown address'}
+      {log.userAgent ? <span className="block max-w-[12rem] truncate">{log.userAgent}</span> : null}
+    </span>
+  );
+}
@@ -1,12 +1,90 @@
+import { REVIEW_STATE_LABELS } from '@/lib/entry-review';
+import { readAuditDetails, type AuditEventDetails, type DuplicateOverride } from '@/lib/audit-details';
+import { formatRetention } from '@/lib/audit-retention';
+import { permissionLabel } from '@/lib/permissions';
+
+export const auditActionGroups = [
+  {
+    label: 'User',
+    actions: [
+      { value: 'USER_CREATED', label: 'User created' },
+      { value: 'USER_ROLE_CHANGED', label: 'Role changed' },
+      { value: 'USER_PASSWORD_RESET', label: 'Password reset' },
+      { value: 'USER_STATUS_CHANGED', label: 'Status changed' },
+      { value: 'USER_SIGNED_IN', label: 'Signed in' },
+    ],
+  },
+  {
+    label: 'Role',
+    actions: [
+      { value: 'ROLE_CREATED', label: 'Role created' },
+      { value: 'ROLE_UPDATED', label: 'Role updated' },
+      { value: 'ROLE_DELETED', label: 'Role deleted' },
+    ],
+  },
+  {
+    label: 'Entry',
+    actions: [
+      { value: 'ENTRY_CREATED', label: 'Entry created' },
+      { value: 'ENTRY_UPDATED', label: 'Entry updated' },
+      { value: 'ENTRY_STATUS_CHANGED', label: 'Entry status changed' },
+      { value: 'ENTRY_SUBMITTED_FOR_REVIEW', label: 'Entry submitted for review' },
+      { value: 'ENTRY_APPROVED', label: 'Entry approved' },
+      { value: 'ENTRY_REJECTED', label: 'Entry rejected' },
+      { value: 'ENTRY_REVERTED', label: 'Entry reverted' },
+      { value: 'ENTRY_DELETED', label: 'Entry deleted' },
+      { value: 'ENTRY_RESTORED', label: 'Entry restored' },
+      { value: 'ENTRY_VIEWED', label: 'Entry viewed' },
+      { value: 'ENTRIES_IMPORTED', label: 'Entries imported' },
+    ],
+  },
+  {
+    label: 'Registry number',
+    actions: [
+      { value: 'NUMBER_RESERVED', label: 'Number reserved' },
+      { value: 'NUMBER_VOIDED', label: 'Number voided' },
+    ],
+  },
+  {
+    label: 'Borrower',
+    actions: [{ value: 'BORROWER_MERGED', label: 'Borrowers merged' }],
+  },
+  {
+    label: 'System',
+    actions: [
+      { value: 'SETTINGS_UPDATED', label: 'Settings updated' },
+      { value: 'AUDIT_EXPORTED', label: 'Audit log exported' },
+      { value: 'AUDIT_ARCHIVED', label: 'Audit log archived' },
+      { value: 'AUDIT_RETENTION_CHANGED', label: 'Audit retention changed' },
+    ],
+  },
+] as const;
+
 export const actionBadgeStyles = (action: string) => {
   if (action.startsWith('USER_')) {
     return 'bg-sky-500/15 text-sky-600 dark:text-sky-200';
   }
 
-  if (action.startsWith('ENTRY_')) {
+  if (action.startsWith('ROLE_')) {
+    return 'bg-indigo-500/15 text-indigo-600 dark:text-indigo-200';
+  }
+
+  if (action.startsWith('ENTRY_') || action.startsWith('ENTRIES_')) {
     return 'bg-emerald-500/15 text-emerald-600 dark:text-emerald-200';
   }
 
+  if (action.startsWith('NUMBER_')) {
+    return 'bg-amber-500/15 text-amber-600 dark:text-amber-200';
+  }
+
+  if (action.startsWith('BORROWER_')) {
+    return 'bg-violet-500/15 text-violet-600 dark:text-violet-200';
+  }
+
+  if (action.startsWith('AUDIT_')) {
+    return 'bg-rose-500/15 text-rose-600 dark:text-rose-200';
+  }
+
   return 'bg-accent text-accent-foreground';
 };
 
@@ -19,53 +97,84 @@ export const formatActionLabel = (value: string) =>
 /**
  * Formats audit log details in a user-friendly, human-readable format
  */
-export const formatAuditDetails = (action: string, details: any): string => {
-  if (!details || details === 'null' || details === null) {
-    return 'No additional details recorded.';
-  }
-
-  // Parse details if it's a string
-  let parsed = details;
-  if (typeof details === 'string') {
-    try {
-      parsed = JSON.parse(details);
-    } catch {
-      return details; // Return as-is if not valid JSON
-    }
+export const formatAuditDetails = (action: string, details: unknown): string => {
+  const event = readAuditDetails(action, details);
+  if (!event) {
+    return formatUnrecognisedDetails(details);
   }
 
   // Format based on action type
-  switch (action) {
+  switch (event.action) {
     case 'ENTRY_VIEWED':
-      return formatEntryViewedDetails(parsed);
+      return formatEntryViewedDetails(event.details);
     case 'ENTRY_CREATED':
-      return formatEntryCreatedDetails(parsed);
+      return formatEntryCreatedDetails(event.details);
     case 'ENTRY_UPDATED':
-      return formatEntryUpdatedDetails(parsed);
+      return formatEntryUpdatedDetails(event.details);
     case 'ENTRY_DELETED':
-      return formatEntryDeletedDetails(parsed);
+      return formatEntryDeletedDetails(event.details);
     case 'ENTRY_RESTORED':
-      return formatEntryRestoredDetails(parsed);
+      return formatEntryRestoredDetails(event.details);
+    case 'ENTRY_REVERTED':
+      return formatEntryRevertedDetails(event.details);
     case 'USER_ROLE_CHANGED':
-      return formatUserRoleChangedDetails(parsed);
+      return formatUserRoleChangedDetails(event.details);
     case 'USER_STATUS_CHANGED':
-      return formatUserStatusChangedDetails(parsed);
+      return formatUserStatusChangedDetails(event.details);
     case 'USER_PASSWORD_RESET':
       return 'User password was reset by an administrator.';
     case 'USER_CREATED':
-      return formatUserCreatedDetails(parsed);
+      return formatUserCreatedDetails(event.details);
     case 'USER_SIGNED_IN':
       return 'User signed in to the system.';
-    default:
-      return JSON.stringify(parsed, null, 2);
+    case 'SETTINGS_UPDATED':
+      return formatSettingsUpdatedDetails(event.details);
+    case 'NUMBER_RESERVED':
+      return formatNumberReservedDetails(event.details);
+    case 'NUMBER_VOIDED':
+      return formatNumberVoidedDetails(event.details);
+    case 'BORROWER_MERGED':
+      return formatBorrowerMergedDetails(event.details);
+    case 'ENTRY_STATUS_CHANGED':
+      return formatEntryStatusChangedDetails(event.details);
+    case 'ENTRY_SUBMITTED_FOR_REVIEW':
+    case 'ENTRY_APPROVED':
+    case 'ENTRY_REJECTED':
+      return formatEntryReviewDetails(event.details);
+    case 'ENTRIES_IMPORTED':
+      return formatEntriesImportedDetails(event.details);
+    case 'AUDIT_EXPORTED':
+      return formatAuditExportedDetails(event.details);
+    case 'AUDIT_ARCHIVED':
+      return formatAuditArchivedDetails(event.details);
+    case 'AUDIT_RETENTION_CHANGED':
+      return `${formatActionLabel(event.details.auditAction)} records: kept ${formatRetention(event.details.from).toLowerCase()} → ${formatRetention(event.details.to).toLowerCase()}`;
+    case 'ROLE_CREATED':
+      return `Role ${event.details.name} created with ${formatPermissionList(event.details.permissions)}`;
+    case 'ROLE_UPDATED':
+      return formatRoleUpdatedDetails(event.details);
+    case 'ROLE_DELETED':
+      return `Role ${event.details.name} deleted`;
   }
 };
 
-const formatEntryViewedDetails = (details: any): string => {
+// Legacy text is shown as it was written; details that no longer match their schema are shown raw
+const formatUnrecognisedDetails = (details: unknown): string => {
+  if (!details || typeof details !== 'object') {
+    return 'No additional details recorded.';
+  }
+  const { v, ...rest } = details as { v?: number; text?: string };
+  if (v === 0 && typeof rest.text === 'string') {
+    return rest.text;
+  }
+  return Object.keys(rest).length > 0 ? JSON.stringify(rest, null, 2) : 'No additional details recorded.';
+};
+
+const formatEntryViewedDetails = (details: AuditEventDetails<'ENTRY_VIEWED'>): string => {
   const parts = [];
   
-  if (details.entryNo || details.no) {
-    parts.push(`Entry #${details.entryNo || details.no}`);
+  if (details.no) {
+    parts.push(`Entry #${details.no}`);
   }
   if (details.agreementNumber) {
     parts.push(`Agreement: ${details.agreementNumber}`);
@@ -84,11 +193,11 @@ const formatEntryViewedDetails = (details: any): string => {
   return parts.join(', ');
 };
 
-const formatEntryCreatedDetails = (details: any): string => {
+const formatEntryCreatedDetails = (details: AuditEventDetails<'ENTRY_CREATED'>): string => {
   const parts: string[] = [];
   
-  if (details.entryNo || details.no) {
-    parts.push(`Entry #${details.entryNo || details.no} created`);
+  if (details.no) {
+    parts.push(`Entry #${details.no} created`);
   } else {
     parts.push('New entry created');
   }
@@ -103,28 +212,30 @@ const formatEntryCreatedDetails = (details: any): string => {
   if (details.borrowersCount) {
     parts.push(`${details.borrowersCount} borrower${details.borrowersCount > 1 ? 's' : ''}`);
   }
-  if (details.branch) {
-    parts.push(`Branch: ${details.branch}`);
-  }
-  if (details.island) {
-    parts.push(`Island: ${details.island}`);
+  if (details.duplicateOverride) {
+    parts.push(formatDuplicateOverride(details.duplicateOverride));
   }
   
   return parts.join(' • ');
 };
 
-const formatEntryUpdatedDetails = (details: any): string => {
+const formatEntryUpdatedDetails = (details: Pick<AuditEventDetails<'ENTRY_UPDATED'>, 'changes' | 'duplicateOverride'>): string => {
   if (!details.changes || Object.keys(details.changes).length === 0) {
     return 'Entry was updated';
   }
 
   const changes = details.changes;
   const parts: string[] = [];
+  if (details.duplicateOverride) {
+    parts.push(formatDuplicateOverride(details.duplicateOverride));
+  }
   
   Object.entries(changes).forEach(([field, change]: [string, any]) => {
     const fieldName = formatEntryFieldName(field);
     
-    if (change.from !== undefined && change.to !== undefined) {
+    if (field === 'attachments' && isAttachmentVersionChange(change)) {
+      parts.push(...formatAttachmentVersionChanges(change));
+    } else if (change.from !== undefined && change.to !== undefined) {
       const formattedFrom = formatEntryFieldValue(field, change.from);
       const formattedTo = formatEntryFieldValue(field, change.to);
       parts.push(`• ${fieldName}: ${formattedFrom} → ${formattedTo}`);
@@ -140,7 +251,20 @@ const formatEntryUpdatedDetails = (details: any): string => {
   return parts.join('\n');
 };
 
-const formatEntryDeletedDetails = (details: any): string => {
+const formatEntryRevertedDetails = (details: AuditEventDetails<'ENTRY_REVERTED'>): string => {
+  const heading = `Entry #${details.no || ''} reverted to version ${details.toVersion ?? '?'}`;
+  if (!details.changes || Object.keys(details.changes).length === 0) {
+    return heading;
+  }
+  return `${heading}\n${formatEntryUpdatedDetails(details)}`;
+};
+
+const formatDuplicateOverride = (override: DuplicateOverride): string => {
+  const matches = override.conflicts.map((conflict) => `#${conflict.no}`).join(', ');
+  return `Saved despite possible duplicate${matches ? ` of ${matches}` : ''}: "${override.justification}"`;
+};
+
+const formatEntryDeletedDetails = (details: AuditEventDetails<'ENTRY_DELETED'>): string => {
   if (details.permanentlyDeleted) {
     const parts = ['Entry permanently deleted (cannot be restored)'];
     
@@ -173,36 +297,30 @@ const formatEntryDeletedDetails = (details: any): string => {
   return parts.join('');
 };
 
-const formatEntryRestoredDetails = (details: any): string => {
+const formatEntryRestoredDetails = (details: AuditEventDetails<'ENTRY_RESTORED'>): string => {
   const parts = ['Entry restored from deleted state'];
   
   if (details.agreementNumber) {
     parts.push(`Agreement: ${details.agreementNumber}`);
   }
-  if (details.no || details.entryNo) {
-    parts.push(`Entry #${details.no || details.entryNo}`);
+  if (details.no) {
+    parts.push(`Entry #${details.no}`);
   }
   
   return parts.join(' • ');
 };
 
-const formatUserRoleChangedDetails = (details: any): string => {
-  if (details.from && details.to) {
+const formatUserRoleChangedDetails = (details: AuditEventDetails<'USER_ROLE_CHANGED'>): string => {
+  if (details.from) {
     return `Role changed from ${formatRole(details.from)} to ${formatRole(details.to)}`;
   }
-  return 'User role was changed';
+  return `Role changed to ${formatRole(details.to)}`;
 };
 
-const formatUserStatusChangedDetails = (details: any): string => {
-  if (details.from !== undefined && details.to !== undefined) {
-    const fromStatus = details.from ? 'Active' : 'Inactive';
-    const toStatus = details.to ? 'Active' : 'Inactive';
-    return `Account status changed from ${fromStatus} to ${toStatus}`;
-  }
-  return 'User account status was changed';
-};
+const formatUserStatusChangedDetails = (details: AuditEventDetails<'USER_STATUS_CHANGED'>): string =>
+  details.isActive ? 'Account activated' : 'Account deactivated';
 
-const formatUserCreatedDetails = (details: any): string => {
+const formatUserCreatedDetails = (details: AuditEventDetails<'USER_CREATED'>): string => {
   const parts = ['New user account created'];
   
   if (details.role) {
@@ -215,6 +333,176 @@ const formatUserCreatedDetails = (details: any): string => {
   return parts.join(' • ');
 };
 
+const settingCategoryLabels: Record<string, string> = {
+  ISLAND: 'islands',
+  BANK_BRANCH: 'bank branches',
+  REGION: 'regions',
+  DOCUMENT_TYPE: 'document types',
+};
+
+const formatSettingsUpdatedDetails = (details: AuditEventDetails<'SETTINGS_UPDATED'>): string => {
+  switch (details.operation) {
+    case 'create':
+      return `Added ${details.value} to ${settingCategoryLabels[details.category] ?? details.category}`;
+    case 'update':
+      return `Setting updated • Changed: ${Object.keys(details.changes).map(formatFieldName).join(', ')}`;
+    case 'delete':
+      return `Removed ${details.value} from ${settingCategoryLabels[details.category] ?? details.category}`;
+    case 'sequence_create':
+      return `Registry number sequence ${details.prefix} ${details.year} created, starting after ${details.lastValue}`;
+    case 'sequence_update':
+      return [
+        `Registry number sequence ${details.prefix} ${details.year} updated`,
+        ...Object.entries(details.changes).map(([field, change]) => `• ${formatFieldName(field)}: ${formatValue(change.from)} → ${formatValue(change.to)}`),
+      ].join('\n');
+  }
+};
+
+const formatNumberReservedDetails = (details: AuditEventDetails<'NUMBER_RESERVED'>): string => {
+  const parts = [details.no ? `Registry number ${details.no} reserved` : 'Registry number reserved'];
+
+  if (details.expiresAt) {
+    parts.push(`Held until ${new Date(details.expiresAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}`);
+  }
+
+  return parts.join(' • ');
+};
+
+const formatNumberVoidedDetails = (details: AuditEventDetails<'NUMBER_VOIDED'>): string => {
+  const number = details.no ? `Registry number ${details.no}` : 'Registry number';
+
+  if (details.reason === 'expired') {
+    return `${number} voided (reservation expired unused)`;
+  }
+  if (details.reason === 'released') {
+    return `${number} voided (released by user)`;
+  }
+
+  return `${number} voided`;
+};
+
+const formatBorrowerMergedDetails = (details: AuditEventDetails<'BORROWER_MERGED'>): string => {
+  const describe = (person: { fullName: string; nationalId: string }) => `${person.fullName} (${person.nationalId})`;
+  const parts = [`Kept ${describe(details.kept)}`];
+
+  if (details.merged.length > 0) {
+    parts.push(`Merged ${details.merged.map(describe).join(', ')}`);
+  }
+  parts.push(`${details.agreementsMoved} agreement${details.agreementsMoved === 1 ? '' : 's'} moved`);
+
+  return parts.join(' • ');
+};
+
+const formatEntryStatusChangedDetails = (details: AuditEventDetails<'ENTRY_STATUS_CHANGED'>): string => {
+  const parts = [
+    `${details.no ? `Entry #${details.no}` : 'Entry'}: ${formatEntryFieldValue('status', details.from)} → ${formatEntryFieldValue('status', details.to)}`,
+  ];
+  const date = details.dateOfCompleted ?? details.dateOfCancelled;
+  if (date) {
+    parts.push(`Effective ${new Date(date).toLocaleDateString('en-GB')}`);
+  }
+  if (details.reason) {
+    parts.push(`Reason: ${details.reason}`);
+  }
+  if (details.documents && details.documents.length > 0) {
+    parts.push(`Documents attached: ${details.documents.join(', ')}`);
+  }
+  return parts.join(' • ');
+};
+
+const formatEntryReviewDetails = (details: AuditEventDetails<'ENTRY_APPROVED'>): string => {
+  const to = REVIEW_STATE_LABELS[details.to] ?? details.to;
+  const parts = [
+    details.from
+      ? `${details.no ? `Entry #${details.no}` : 'Entry'}: ${REVIEW_STATE_LABELS[details.from] ?? details.from} → ${to}`
+      : `${details.no ? `Entry #${details.no}` : 'Entry'} recorded as ${to}`,
+  ];
+  if (details.comment) {
+    parts.push(`Comment: ${details.comment}`);
+  }
+  return parts.join(' • ');
+};
+
+const formatEntriesImportedDetails = (details: AuditEventDetails<'ENTRIES_IMPORTED'>): string => {
+  const parts = [`Imported ${details.imported} of ${details.rowCount} rows`];
+  if (details.fileName) {
+    parts.push(`File: ${details.fileName}`);
+  }
+  if (details.resumedAfter) {
+    parts.push(`Resumed after ${details.resumedAfter} rows`);
+  }
+  return parts.join(' • ');
+};
+
+const formatAuditExportedDetails = (details: AuditEventDetails<'AUDIT_EXPORTED'>): string => {
+  const parts = [`Exported ${details.records} record${details.records === 1 ? '' : 's'} as ${details.format.toUpperCase()}`];
+  const filters = Object.entries(details.filters);
+  if (filters.length > 0) {
+    parts.push(`Filters: ${filters.map(([name, value]) => `${name} = ${value}`).join(', ')}`);
+  }
+  return parts.join(' • ');
+};
+
+const formatAuditArchivedDetails = (details: AuditEventDetails<'AUDIT_ARCHIVED'>): string =>
+  [
+    `Archived and removed ${details.records} record${details.records === 1 ? '' : 's'} (${details.firstSequence}–${details.lastSequence}) to ${details.fileName}`,
+    ...Object.entries(details.actions).map(([action, count]) => `• ${formatActionLabel(action)}: ${count}`),
+  ].join('\n');
+
+type AttachmentVersionRef = { id: string; name: string; version: number };
+
+export type ReplacedAttachmentVersion = AttachmentVersionRef & { slot: string };
+
+// Older entries recorded attachment changes without version references
+const isAttachmentVersionChange = (change: any) =>
+  change?.from && typeof change.from === 'object' && change?.to && typeof change.to === 'object' &&
+  Object.values({ ...change.from, ...change.to }).every(
+    (value: any) => value === null || (typeof value === 'object' && typeof value.id === 'string')
+  );
+
+const formatAttachmentVersion = (value: AttachmentVersionRef | null | undefined) =>
+  value ? `${value.name} (v${value.version})` : 'None';
+
+const formatAttachmentVersionChanges = (change: any): string[] =>
+  Object.keys({ ...change.from, ...change.to }).map(
+    (slot) =>
+      `• ${formatFieldName(slot)}: ${formatAttachmentVersion(change.from[slot])} → ${formatAttachmentVersion(change.to[slot])}`
+  );
+
+/**
+ * Lists the attachment versions an ENTRY_UPDATED event replaced or cleared, so they can be linked for download
+ */
+export const getReplacedAttachmentVersions = (action: string, details: unknown): ReplacedAttachmentVersion[] => {
+  const event = readAuditDetails(action, details);
+  if (event?.action !== 'ENTRY_UPDATED') return [];
+
+  const change = event.details.changes.attachments;
+  if (!isAttachmentVersionChange(change)) return [];
+
+  return Object.entries(change.from as Record<string, AttachmentVersionRef | null>)
+    .filter((pair): pair is [string, AttachmentVersionRef] => !!pair[1])
+    .map(([slot, version]) => ({ slot, ...version }));
+};
+
+const formatRoleUpdatedDetails = (details: AuditEventDetails<'ROLE_UPDATED'>): string => {
+  const lines = [`Role ${details.name}`];
+  for (const [field, change] of Object.entries(details.changes)) {
+    lines.push(`${formatFieldName(field)}: ${formatValue(change.from)} → ${formatValue(change.to)}`);
+  }
+  if (details.added.length > 0) {
+    lines.push(`Granted: ${formatPermissionList(details.added)}`);
+  }
+  if (details.removed.length > 0) {
+    lines.push(`Revoked: ${formatPermissionList(details.removed)}`);
+  }
+  return lines.join('\n');
+};
+
+const formatPermissionList = (permissions: string[]): string => {
+  if (permissions.length === 0) return 'no permissions';
+  return permissions.map(permissionLabel).join(', ');
+};
+
 const formatFieldName = (field: string): string => {
   // Convert camelCase to Title Case
   return field
@@ -242,7 +530,7 @@ const formatRole = (role: string): string => {
     case 'VIEWER':
       return 'Viewer';
     default:
-      return role;
+      return formatActionLabel(role);
   }
 };
 
@@ -261,6 +549,7 @@ const formatEntryFieldName = (field: string): string => {
     dateOfCancelled: 'Cancellation Date',
     dateOfCompleted: 'Completion Date',
     attachments: 'Attachments',
+    borrowers: 'Borrowers',
     isDeleted: 'Deleted Status',
     deletedAt: 'Deletion Date',
   };
@@ -0,0 +1,357 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Merge, SearchIcon, UsersRound, X } from 'lucide-react';
+
+type Person = {
+  id: string;
+  nationalId: string;
+  fullName: string;
+  _count: { borrowings: number };
+};
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+const readError = async (res: Response, fallback: string) => {
+  const payload = await res.json().catch(() => null);
+  if (payload?.errors?.fieldErrors) {
+    const firstError = Object.values(payload.errors.fieldErrors)[0] as string[] | undefined;
+    return firstError?.[0] ?? payload.errors.formErrors?.[0] ?? fallback;
+  }
+  if (payload?.errors?.formErrors?.length) return payload.errors.formErrors[0] as string;
+  return (payload?.error as string | undefined) ?? fallback;
+};
+
+const agreementsLabel = (person: Person) =>
+  `${person._count.borrowings} agreement${person._count.borrowings === 1 ? '' : 's'}`;
+
+export default function BorrowersClient() {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [selected, setSelected] = useState<Person[]>([]);
+  const [keepId, setKeepId] = useState<string | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [mergeError, setMergeError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => window.clearTimeout(timeout);
+  }, [query]);
+
+  const duplicates = useSWR<{ groups?: Person[][] }>('/api/admin/borrowers?duplicates=true', fetcher);
+  const search = useSWR<{ people?: Person[] }>(
+    debouncedQuery ? `/api/admin/borrowers?query=${encodeURIComponent(debouncedQuery)}` : null,
+    fetcher
+  );
+  const groups = duplicates.data?.groups ?? [];
+  const results = search.data?.people ?? [];
+
+  const keep = selected.find((person) => person.id === keepId) ?? null;
+  const sources = selected.filter((person) => person.id !== keepId);
+
+  const toggleSelected = (person: Person) => {
+    setNotice(null);
+    if (selected.some((other) => other.id === person.id)) {
+      setSelected((prev) => prev.filter((other) => other.id !== person.id));
+      if (keepId === person.id) setKeepId(null);
+      return;
+    }
+    setSelected((prev) => [...prev, person]);
+    if (!keepId) setKeepId(person.id);
+  };
+
+  // Keep the record on the most agreements; the others are merged into it
+  const selectGroup = (group: Person[]) => {
+    setNotice(null);
+    setSelected(group);
+    setKeepId([...group].sort((a, b) => b._count.borrowings - a._count.borrowings)[0]?.id ?? null);
+  };
+
+  const clearSelection = () => {
+    setSelected([]);
+    setKeepId(null);
+  };
+
+  const handleMerge = async () => {
+    if (!keep || sources.length === 0) return;
+    setMerging(true);
+    setMergeError(null);
+    try {
+      const res = await fetch('/api/admin/borrowers/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetId: keep.id, sourceIds: sources.map((person) => person.id) }),
+      });
+      if (!res.ok) {
+        setMergeError(await readError(res, 'Unable to merge borrowers'));
+        return;
+      }
+      setNotice(`Merged ${sources.length} record${sources.length === 1 ? '' : 's'} into ${keep.fullName} (${keep.nationalId}).`);
+      setConfirmOpen(false);
+      clearSelection();
+      await Promise.all([duplicates.mutate(), search.mutate()]);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const renderPersonRow = (person: Person) => {
+    const isSelected = selected.some((other) => other.id === person.id);
+    return (
+      <TableRow key={person.id}>
+        <TableCell>
+          <input
+            type="checkbox"
+            aria-label={`Select ${person.fullName}`}
+            className="size-4 rounded border-input bg-background text-primary focus:ring-2 focus:ring-ring"
+            checked={isSelected}
+            onChange={() => toggleSelected(person)}
+          />
+        </TableCell>
+        <TableCell className="font-medium">
+          <Link href={`/borrowers/${person.id}`} className="hover:underline">
+            {person.fullName}
+          </Link>
+        </TableCell>
+        <TableCell className="font-mono text-sm">{person.nationalId}</TableCell>
+        <TableCell className="text-muted-foreground">{agreementsLabel(person)}</TableCell>
+      </TableRow>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-semibold text-foreground">Borrowers</h1>
+        <p className="text-sm text-muted-foreground">
+          Merge borrower records that belong to the same person, such as one recorded under a mistyped national ID.
+        </p>
+      </div>
+
+      {notice ? (
+        <Alert>
+          <AlertTitle>Borrowers merged</AlertTitle>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      ) : null}
+
+      <Card>
+        <CardHeader className="border-b border-border/60">
+          <CardTitle className="text-xl text-foreground">Selected for merge</CardTitle>
+          <CardDescription>
+            Choose the record to keep. Agreements of the other records move to it and the other records are deleted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 pt-6">
+          {selected.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Select records from the suggested duplicates or the search below.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {selected.map((person) => (
+                <label
+                  key={person.id}
+                  className="flex cursor-pointer items-center gap-3 rounded-lg border border-border/60 px-3 py-2 text-sm"
+                >
+                  <input
+                    type="radio"
+                    name="keep-person"
+                    className="size-4 border-input text-primary focus:ring-2 focus:ring-ring"
+                    checked={keepId === person.id}
+                    onChange={() => setKeepId(person.id)}
+                  />
+                  <span className="flex-1">
+                    <span className="font-medium text-foreground">{person.fullName}</span>{' '}
+                    <span className="font-mono text-muted-foreground">{person.nationalId}</span>
+                  </span>
+                  <span className="text-xs text-muted-foreground">{agreementsLabel(person)}</span>
+                  {keepId === person.id ? <Badge variant="secondary">Keep</Badge> : null}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    aria-label={`Remove ${person.fullName} from selection`}
+                    onClick={(event) => {
+                      event.preventDefault();
+                      toggleSelected(person);
+                    }}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={clearSelection} disabled={selected.length === 0}>
+              Clear
+            </Button>
+            <Button
+              className="gap-2"
+              onClick={() => {
+                setMergeError(null);
+                setConfirmOpen(true);
+              }}
+              disabled={!keep || sources.length === 0}
+            >
+              <Merge className="h-4 w-4" />
+              Merge {sources.length > 0 ? sources.length : ''} into selected record
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="border-b border-border/60">
+          <CardTitle className="text-xl text-foreground">Suggested duplicates</CardTitle>
+          <CardDescription>Records with the same name under different national IDs.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 pt-6">
+          {duplicates.isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : groups.length === 0 ? (
+            <Empty>
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <UsersRound className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>No likely duplicates</EmptyTitle>
+                <EmptyDescription>Every borrower name belongs to a single national ID.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            groups.map((group) => (
+              <div key={group.map((person) => person.id).join('-')} className="rounded-lg border border-border/60">
+                <div className="flex items-center justify-between border-b border-border/60 px-4 py-2">
+                  <span className="text-sm font-medium text-foreground">{group[0]?.fullName}</span>
+                  <Button variant="outline" size="sm" onClick={() => selectGroup(group)}>
+                    Select group
+                  </Button>
+                </div>
+                <Table>
+                  <TableBody>{group.map(renderPersonRow)}</TableBody>
+                </Table>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="border-b border-border/60">
+          <CardTitle className="text-xl text-foreground">Find borrowers</CardTitle>
+          <CardDescription>Search by name or national ID to select any records to merge.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 px-0 pt-6">
+          <div className="relative px-6">
+            <SearchIcon className="pointer-events-none absolute left-9 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder="Search by name or national ID"
+              className="pl-10"
+            />
+          </div>
+          {debouncedQuery ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Name</TableHead>
+                  <TableHead>National ID</TableHead>
+                  <TableHead>Agreements</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {search.isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={4}>
+                      <Skeleton className="h-8 w-full" />
+                    </TableCell>
+                  </TableRow>
+                ) : results.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="py-8 text-center text-sm text-muted-foreground">
+                      No borrowers match “{debouncedQuery}”.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  results.map(renderPersonRow)
+                )}
+              </TableBody>
+            </Table>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      <Dialog open={confirmOpen} onOpenChange={(open) => (!merging ? setConfirmOpen(open) : null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Merge borrower records</DialogTitle>
+            <DialogDescription>
+              This moves every agreement to the record you keep and deletes the others. It cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          {keep ? (
+            <div className="space-y-2 text-sm">
+              <p>
+                Keep <span className="font-medium">{keep.fullName}</span>{' '}
+                <span className="font-mono text-muted-foreground">{keep.nationalId}</span>
+              </p>
+              <ul className="list-disc space-y-1 pl-5 text-muted-foreground">
+                {sources.map((person) => (
+                  <li key={person.id}>
+                    Merge {person.fullName} <span className="font-mono">{person.nationalId}</span> ({agreementsLabel(person)})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+          {mergeError ? <p className="text-sm text-destructive">{mergeError}</p> : null}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmOpen(false)} disabled={merging}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={merging}>
+              {merging ? 'Merging...' : 'Merge records'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
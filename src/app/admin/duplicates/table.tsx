@@ -0,0 +1,151 @@
+'use client';
+import { useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import { CopyCheck, Download } from 'lucide-react';
+import { STATUS_LABELS, type EntryStatus } from '@/lib/document-types';
+
+type Period = 'WEEK' | 'MONTH' | 'QUARTER' | 'ALL';
+
+type DuplicateGroup = {
+  rule: 'AGREEMENT_AT_BRANCH' | 'FORM_NUMBER';
+  key: string;
+  entries: {
+    id: string;
+    no: string;
+    agreementNumber: string;
+    branch: string;
+    formNumber: string;
+    status: EntryStatus;
+    createdAt: string;
+    createdBy: string | null;
+    justification: string | null;
+  }[];
+};
+
+const periodOptions: { value: Period; label: string }[] = [
+  { value: 'WEEK', label: 'Last 7 days' },
+  { value: 'MONTH', label: 'Last 30 days' },
+  { value: 'QUARTER', label: 'Last 90 days' },
+  { value: 'ALL', label: 'All time' },
+];
+
+const ruleLabels: Record<DuplicateGroup['rule'], string> = {
+  AGREEMENT_AT_BRANCH: 'Same agreement number and branch',
+  FORM_NUMBER: 'Same form number',
+};
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+export default function DuplicatesClient() {
+  const [period, setPeriod] = useState<Period>('WEEK');
+  const { data, isLoading } = useSWR<{ groups?: DuplicateGroup[] }>(`/api/admin/duplicates?period=${period}`, fetcher);
+  const groups = data?.groups ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-semibold text-foreground">Suspected duplicates</h1>
+          <p className="text-sm text-muted-foreground">
+            Entries that share an agreement number at a branch, or a form number. Entries saved despite the duplicate
+            warning show the justification given.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={period} onValueChange={(value) => setPeriod(value as Period)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {periodOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" className="gap-2" asChild>
+            <a href={`/api/admin/duplicates?period=${period}&format=csv`}>
+              <Download className="h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-40 w-full" />
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <Empty>
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <CopyCheck className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>No suspected duplicates</EmptyTitle>
+                <EmptyDescription>No entries in this period share an agreement or form number.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map((group) => (
+          <Card key={`${group.rule}-${group.key}`}>
+            <CardHeader className="border-b border-border/60">
+              <CardTitle className="flex items-center gap-2 text-base text-foreground">
+                <span className="font-mono">{group.key}</span>
+                <Badge variant="secondary">{ruleLabels[group.rule]}</Badge>
+              </CardTitle>
+              <CardDescription>{group.entries.length} entries</CardDescription>
+            </CardHeader>
+            <CardContent className="px-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Registry No</TableHead>
+                    <TableHead>Agreement</TableHead>
+                    <TableHead>Branch</TableHead>
+                    <TableHead>Form No</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Justification</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {group.entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/entries/${entry.id}/edit` as any} className="hover:underline">
+                          {entry.no}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{entry.agreementNumber}</TableCell>
+                      <TableCell>{entry.branch}</TableCell>
+                      <TableCell>{entry.formNumber}</TableCell>
+                      <TableCell>{STATUS_LABELS[entry.status]}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {format(new Date(entry.createdAt), 'dd MMM yyyy')}
+                        {entry.createdBy ? <span className="block text-xs">{entry.createdBy}</span> : null}
+                      </TableCell>
+                      <TableCell className="max-w-xs text-sm text-muted-foreground">{entry.justification ?? '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
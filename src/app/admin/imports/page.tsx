@@ -0,0 +1,24 @@
+import { getAccess } from '@/lib/rbac';
+import ImportsClient from './table';
+
+export default async function Page() {
+  const access = await getAccess();
+
+  if (!access?.can('entry.import')) {
+    return (
+      <main className="flex min-h-[60vh] flex-col items-center justify-center gap-4 text-center">
+        <span className="rounded-full border border-border/60 bg-muted px-3 py-1 text-xs font-semibold uppercase tracking-widest text-muted-foreground">
+          Restricted
+        </span>
+        <div className="space-y-2">
+          <h2 className="text-2xl font-semibold text-foreground">Access denied</h2>
+          <p className="text-sm text-muted-foreground">
+            You do not have permission to import historical entries.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  return <ImportsClient />;
+}
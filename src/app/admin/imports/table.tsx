@@ -0,0 +1,421 @@
+'use client';
+import { useRef, useState } from 'react';
+import useSWR from 'swr';
+import { format } from 'date-fns';
+import { Download, FileUp, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_DEFINITIONS,
+  unmappedRequiredFields,
+  type ImportField,
+  type ImportMapping,
+  type ImportRowError,
+} from '@/lib/import-mapping';
+
+type ImportStatus = 'UPLOADED' | 'VALIDATED' | 'IMPORTING' | 'COMPLETED' | 'FAILED';
+
+type ImportJob = {
+  id: string;
+  fileName: string;
+  status: ImportStatus;
+  headers: string[];
+  rowCount: number;
+  mapping: ImportMapping | null;
+  errorCount: number | null;
+  importedCount: number;
+  failure: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  createdBy: { name?: string | null; email?: string | null } | null;
+};
+
+type DryRunResult = { valid: number; alreadyImported: number; errorCount: number; errors: ImportRowError[] };
+
+const statusLabels: Record<ImportStatus, string> = {
+  UPLOADED: 'Uploaded',
+  VALIDATED: 'Checked',
+  IMPORTING: 'Importing',
+  COMPLETED: 'Imported',
+  FAILED: 'Stopped',
+};
+
+const statusStyles: Record<ImportStatus, string> = {
+  UPLOADED: 'bg-slate-500/15 text-slate-600 dark:text-slate-200',
+  VALIDATED: 'bg-sky-500/15 text-sky-600 dark:text-sky-200',
+  IMPORTING: 'bg-amber-500/15 text-amber-600 dark:text-amber-200',
+  COMPLETED: 'bg-emerald-500/15 text-emerald-600 dark:text-emerald-200',
+  FAILED: 'bg-rose-500/15 text-rose-600 dark:text-rose-200',
+};
+
+// Radix selects cannot hold an empty value
+const UNMAPPED = 'none';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+export default function ImportsClient() {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const { data, isLoading, mutate } = useSWR<{ jobs?: ImportJob[] }>('/api/admin/imports', fetcher);
+  const jobs = data?.jobs ?? [];
+
+  const upload = async (file: File) => {
+    setUploading(true);
+    setUploadError(null);
+    try {
+      const response = await fetch(`/api/admin/imports?name=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        setUploadError(result?.error || 'Unable to read the file.');
+        return;
+      }
+      setJobId(result.job.id);
+      void mutate();
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-semibold text-foreground">Import entries</h1>
+          <p className="text-sm text-muted-foreground">
+            Bring a historical register in from a CSV or Excel file. Match the file&apos;s columns to entry fields, check
+            every row with a dry run, then import. Entries keep the registry numbers in the file.
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) void upload(file);
+            }}
+          />
+          <Button className="gap-2" onClick={() => fileInput.current?.click()} disabled={uploading}>
+            <Upload className="h-4 w-4" />
+            {uploading ? 'Reading file…' : 'Upload file'}
+          </Button>
+          {uploadError ? <p className="text-sm text-destructive">{uploadError}</p> : null}
+        </div>
+      </div>
+
+      {jobId ? <ImportJobPanel key={jobId} jobId={jobId} onChanged={() => void mutate()} /> : null}
+
+      <Card>
+        <CardHeader className="border-b border-border/60">
+          <CardTitle className="text-base text-foreground">Recent imports</CardTitle>
+        </CardHeader>
+        <CardContent className="px-0">
+          {isLoading ? (
+            <Skeleton className="mx-6 my-4 h-24" />
+          ) : jobs.length === 0 ? (
+            <Empty>
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <FileUp className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>No imports yet</EmptyTitle>
+                <EmptyDescription>Uploaded files and finished imports appear here.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">Imported</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id}>
+                    <TableCell className="font-medium">{job.fileName}</TableCell>
+                    <TableCell>
+                      <Badge className={`border-transparent ${statusStyles[job.status]}`}>{statusLabels[job.status]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{job.rowCount}</TableCell>
+                    <TableCell className="text-right">{job.importedCount}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(job.createdAt), 'dd MMM yyyy HH:mm')}
+                      {job.createdBy ? (
+                        <span className="block text-xs">{job.createdBy.name || job.createdBy.email}</span>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {job.status === 'COMPLETED' ? null : (
+                        <Button size="sm" variant="outline" onClick={() => setJobId(job.id)} disabled={job.id === jobId}>
+                          Open
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function ImportJobPanel({ jobId, onChanged }: { jobId: string; onChanged: () => void }) {
+  const { data, isLoading, mutate } = useSWR<{ job?: ImportJob; sample?: string[][]; errors?: ImportRowError[] }>(
+    `/api/admin/imports/${jobId}`,
+    fetcher,
+  );
+
+  if (isLoading || !data?.job) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  return (
+    <MappingEditor
+      job={data.job}
+      sample={data.sample ?? []}
+      onChanged={() => {
+        void mutate();
+        onChanged();
+      }}
+    />
+  );
+}
+
+type MappingEditorProps = {
+  job: ImportJob;
+  sample: string[][];
+  onChanged: () => void;
+};
+
+function MappingEditor({ job, sample, onChanged }: MappingEditorProps) {
+  const [mapping, setMapping] = useState<ImportMapping>(job.mapping ?? {});
+  const [result, setResult] = useState<DryRunResult | null>(null);
+  const [busy, setBusy] = useState<'dry-run' | 'import' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<number | null>(null);
+
+  const missing = unmappedRequiredFields(mapping);
+  const finished = job.status === 'COMPLETED' || done !== null;
+
+  const setColumn = (field: ImportField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === UNMAPPED) delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+    // A changed mapping needs a fresh dry run
+    setResult(null);
+  };
+
+  const dryRun = async () => {
+    setBusy('dry-run');
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/imports/${job.id}/dry-run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mapping }),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(body?.error || 'Unable to check the file.');
+        return;
+      }
+      setResult(body);
+      onChanged();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const runImport = async () => {
+    setBusy('import');
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/imports/${job.id}/commit`, { method: 'POST' });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(body?.error || 'Unable to import the file.');
+        if (body?.errorCount) setResult(null);
+        return;
+      }
+      setDone(body.imported);
+    } finally {
+      setBusy(null);
+      onChanged();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="border-b border-border/60">
+        <CardTitle className="flex items-center gap-2 text-base text-foreground">
+          {job.fileName}
+          <Badge className={`border-transparent ${statusStyles[job.status]}`}>{statusLabels[job.status]}</Badge>
+        </CardTitle>
+        <CardDescription>
+          {job.rowCount} rows
+          {job.importedCount > 0 ? ` · ${job.importedCount} imported so far` : ''}
+          {job.failure ? ` · Stopped: ${job.failure}` : ''}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 pt-6">
+        {finished ? (
+          <p className="text-sm text-foreground">
+            {done !== null ? `${done} entries imported.` : `${job.importedCount} entries imported.`} They keep their original
+            numbers and wait in the review queue until someone other than you approves them.
+          </p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[200px]">Entry field</TableHead>
+                    <TableHead className="w-[240px]">Column in file</TableHead>
+                    <TableHead>First rows</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {IMPORT_FIELDS.map((field) => {
+                    const definition = IMPORT_FIELD_DEFINITIONS[field];
+                    const column = mapping[field];
+                    return (
+                      <TableRow key={field}>
+                        <TableCell className="font-medium">
+                          {definition.label}
+                          {definition.required ? <span className="text-destructive"> *</span> : null}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={column === undefined ? UNMAPPED : String(column)}
+                            onValueChange={(value) => setColumn(field, value)}
+                            disabled={busy !== null}
+                          >
+                            <SelectTrigger className="w-[220px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                              {job.headers.map((header, index) => (
+                                <SelectItem key={index} value={String(index)}>
+                                  {header}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="max-w-md truncate text-sm text-muted-foreground">
+                          {column === undefined
+                            ? '—'
+                            : sample
+                                .map((row) => row[column])
+                                .filter(Boolean)
+                                .join(' · ') || '—'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            {error ? <p className="text-sm text-destructive">{error}</p> : null}
+
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              {missing.length > 0 ? (
+                <p className="mr-auto text-sm text-muted-foreground">
+                  Choose a column for {missing.map((field) => IMPORT_FIELD_DEFINITIONS[field].label).join(', ')}.
+                </p>
+              ) : null}
+              <Button variant="outline" onClick={() => void dryRun()} disabled={busy !== null || missing.length > 0}>
+                {busy === 'dry-run' ? 'Checking…' : 'Dry run'}
+              </Button>
+              <Button
+                onClick={() => void runImport()}
+                disabled={busy !== null || !result || result.errorCount > 0 || result.valid === 0}
+              >
+                {busy === 'import' ? 'Importing…' : result ? `Import ${result.valid} entries` : 'Import'}
+              </Button>
+            </div>
+
+            {result ? <DryRunReport jobId={job.id} result={result} /> : null}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DryRunReport({ jobId, result }: { jobId: string; result: DryRunResult }) {
+  return (
+    <div className="space-y-3 rounded-md border border-border/60 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-foreground">
+          {result.valid} rows ready to import
+          {result.alreadyImported > 0 ? `, ${result.alreadyImported} already imported` : ''}
+          {result.errorCount > 0 ? `, ${result.errorCount} problems to fix` : ', no problems found'}.
+        </p>
+        {result.errorCount > 0 ? (
+          <Button size="sm" variant="outline" className="gap-2" asChild>
+            <a href={`/api/admin/imports/${jobId}?format=csv`}>
+              <Download className="h-4 w-4" />
+              Error report
+            </a>
+          </Button>
+        ) : null}
+      </div>
+      {result.errors.length > 0 ? (
+        <div className="max-h-80 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[80px]">Row</TableHead>
+                <TableHead className="w-[200px]">Field</TableHead>
+                <TableHead>Problem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.errors.map((rowError, index) => (
+                <TableRow key={index}>
+                  <TableCell>{rowError.row}</TableCell>
+                  <TableCell>{rowError.field}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{rowError.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {result.errorCount > result.errors.length ? (
+            <p className="pt-2 text-xs text-muted-foreground">
+              Showing the first {result.errors.length} problems. Fix them and run the dry run again to see the rest.
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
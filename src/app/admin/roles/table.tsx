@@ -0,0 +1,294 @@
+'use client';
+import { useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { format } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { ADMIN_ROLE, PERMISSIONS, roleKeyFromName, type Permission, type RoleItem } from '@/lib/permissions';
+
+type Draft = { key: string | null; name: string; description: string; permissions: Permission[] };
+
+const NEW_ROLE: Draft = { key: null, name: '', description: '', permissions: [] };
+
+const permissionGroups = PERMISSIONS.reduce<{ label: string; permissions: (typeof PERMISSIONS)[number][] }[]>(
+  (groups, permission) => {
+    const group = groups.find((candidate) => candidate.label === permission.group);
+    if (group) group.permissions.push(permission);
+    else groups.push({ label: permission.group, permissions: [permission] });
+    return groups;
+  },
+  [],
+);
+
+const checkboxClass = 'mt-0.5 size-4 rounded border-input bg-background text-primary focus:ring-2 focus:ring-ring';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+const errorMessage = (body: any, fallback: string) =>
+  body.error ?? body.errors?.formErrors?.[0] ?? Object.values(body.errors?.fieldErrors ?? {}).flat()[0] ?? fallback;
+
+export default function RolesClient() {
+  const { data, isLoading, mutate } = useSWR<{ roles?: RoleItem[]; error?: string }>('/api/admin/roles', fetcher);
+  const roles = data?.roles ?? [];
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const selected = draft?.key ? roles.find((role) => role.key === draft.key) : undefined;
+  const isAdminRole = draft?.key === ADMIN_ROLE;
+
+  const edit = (role: RoleItem | null) => {
+    setError(null);
+    setNotice(null);
+    setDraft(
+      role
+        ? { key: role.key, name: role.name, description: role.description ?? '', permissions: role.permissions }
+        : NEW_ROLE,
+    );
+  };
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      permissions: checked
+        ? PERMISSIONS.map((item) => item.key).filter((key) => key === permission || draft.permissions.includes(key))
+        : draft.permissions.filter((key) => key !== permission),
+    });
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(draft.key ? `/api/admin/roles/${draft.key}` : '/api/admin/roles', {
+        method: draft.key ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description,
+          ...(!isAdminRole && { permissions: draft.permissions }),
+        }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(errorMessage(body, 'The role could not be saved'));
+        return;
+      }
+      setNotice(draft.key ? `Saved ${body.role.name}.` : `Created ${body.role.name}.`);
+      edit(body.role);
+      await mutate();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!selected || !confirm(`Delete the ${selected.name} role?`)) return;
+    setIsDeleting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/admin/roles/${selected.key}`, { method: 'DELETE' });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(errorMessage(body, 'The role could not be deleted'));
+        return;
+      }
+      setDraft(null);
+      setNotice(`Deleted ${selected.name}.`);
+      await mutate();
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-semibold text-foreground">Roles</h1>
+          <p className="text-sm text-muted-foreground">
+            Decide what each role may do. Changes apply to everyone holding the role the next time their page loads.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/admin/users">Users</Link>
+          </Button>
+          <Button onClick={() => edit(null)} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New role
+          </Button>
+        </div>
+      </div>
+
+      {error ? <p className="text-sm text-destructive">{error}</p> : null}
+      {notice ? <p className="text-sm text-muted-foreground">{notice}</p> : null}
+
+      <div className="grid gap-6 xl:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        <Card>
+          <CardHeader className="border-b border-border/60">
+            <CardTitle className="text-xl text-foreground">Roles</CardTitle>
+            <CardDescription>Built-in roles can be edited but not deleted.</CardDescription>
+          </CardHeader>
+          <CardContent className="px-0 pb-0">
+            {isLoading ? (
+              <div className="p-6">
+                <Skeleton className="h-40 w-full" />
+              </div>
+            ) : data?.error ? (
+              <p className="px-6 py-6 text-sm text-muted-foreground">{data.error}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Permissions</TableHead>
+                    <TableHead>Users</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roles.map((role) => (
+                    <TableRow
+                      key={role.key}
+                      onClick={() => edit(role)}
+                      className={cn('cursor-pointer', draft?.key === role.key && 'bg-muted/60')}
+                    >
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{role.name}</span>
+                          {role.isSystem ? <Badge variant="secondary">Built-in</Badge> : null}
+                        </div>
+                        <span className="block font-mono text-xs text-muted-foreground">{role.key}</span>
+                        {role.description ? (
+                          <span className="block text-xs text-muted-foreground">{role.description}</span>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {role.key === ADMIN_ROLE ? 'All' : role.permissions.length}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{role.users}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="border-b border-border/60">
+            <CardTitle className="text-xl text-foreground">
+              {draft ? (draft.key ? `Edit ${selected?.name ?? draft.name}` : 'New role') : 'Role'}
+            </CardTitle>
+            <CardDescription>
+              {draft
+                ? selected
+                  ? `Last changed ${format(new Date(selected.updatedAt), 'dd MMM yyyy HH:mm')}.`
+                  : 'The role key is made from its name and cannot be changed later.'
+                : 'Choose a role to edit, or create a new one.'}
+            </CardDescription>
+          </CardHeader>
+          {draft ? (
+            <CardContent className="space-y-6 pt-6">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="role-name">Name</Label>
+                  <Input
+                    id="role-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Senior clerk"
+                  />
+                  {!draft.key && draft.name.trim() ? (
+                    <p className="font-mono text-xs text-muted-foreground">{roleKeyFromName(draft.name)}</p>
+                  ) : null}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="role-description">Description</Label>
+                  <Input
+                    id="role-description"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                {isAdminRole ? (
+                  <p className="text-sm text-muted-foreground">
+                    The Administrator role always holds every permission, so the registry cannot be locked out of its
+                    own settings.
+                  </p>
+                ) : null}
+                {permissionGroups.map((group) => (
+                  <div key={group.label} className="space-y-2">
+                    <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">{group.label}</p>
+                    <div className="grid gap-3 md:grid-cols-2">
+                      {group.permissions.map((permission) => (
+                        <div key={permission.key} className="flex items-start gap-2">
+                          <input
+                            id={`permission-${permission.key}`}
+                            type="checkbox"
+                            className={checkboxClass}
+                            checked={isAdminRole || draft.permissions.includes(permission.key)}
+                            disabled={isAdminRole}
+                            onChange={(e) => togglePermission(permission.key, e.target.checked)}
+                          />
+                          <Label htmlFor={`permission-${permission.key}`} className="block cursor-pointer font-normal">
+                            <span className="font-medium">{permission.label}</span>
+                            <span className="block text-xs text-muted-foreground">{permission.description}</span>
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                {selected && !selected.isSystem ? (
+                  <Button
+                    variant="outline"
+                    onClick={remove}
+                    disabled={isDeleting || selected.users > 0}
+                    title={selected.users > 0 ? 'Give its users another role before deleting it' : undefined}
+                    className="gap-2 text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    {isDeleting ? 'Deleting…' : 'Delete role'}
+                  </Button>
+                ) : (
+                  <span />
+                )}
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                  <Button onClick={save} disabled={isSaving || !draft.name.trim()}>
+                    {isSaving ? 'Saving…' : draft.key ? 'Save role' : 'Create role'}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          ) : null}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,414 @@
+'use client';
+import { useMemo, useState } from 'react';
+import useSWR from 'swr';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Hash, Pencil } from 'lucide-react';
+
+type Overflow = 'EXPAND' | 'ERROR';
+
+type RegistrySequence = {
+  id: string;
+  prefix: string;
+  year: number;
+  lastValue: number;
+  format: string;
+  width: number;
+  overflow: Overflow;
+  nextNumber: string | null;
+  overflowError: string | null;
+  updatedAt: string;
+};
+
+type SequenceFormState = {
+  prefix: string;
+  year: number;
+  lastValue: number;
+  format: string;
+  width: number;
+  overflow: Overflow;
+};
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+const overflowLabels: Record<Overflow, string> = {
+  EXPAND: 'Grow past width',
+  ERROR: 'Block new entries',
+};
+
+const createInitialState = (): SequenceFormState => ({
+  prefix: 'RGST',
+  year: new Date().getFullYear(),
+  lastValue: 0,
+  format: '{prefix}{seq}/{year}',
+  width: 3,
+  overflow: 'EXPAND',
+});
+
+const readError = async (res: Response, fallback: string) => {
+  const payload = await res.json().catch(() => null);
+  if (payload?.errors?.fieldErrors) {
+    const firstError = Object.values(payload.errors.fieldErrors)[0] as string[] | undefined;
+    return firstError?.[0] ?? payload.errors.formErrors?.[0] ?? fallback;
+  }
+  if (payload?.errors?.formErrors?.length) return payload.errors.formErrors[0] as string;
+  return (payload?.error as string | undefined) ?? fallback;
+};
+
+export default function SequencesClient() {
+  const { data, error, isLoading, mutate } = useSWR('/api/admin/sequences', fetcher, {
+    refreshInterval: 30_000,
+  });
+  const sequences = (data?.sequences || []) as RegistrySequence[];
+
+  const [createState, setCreateState] = useState<SequenceFormState>(createInitialState);
+  const [creating, setCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  const [editing, setEditing] = useState<RegistrySequence | null>(null);
+  const [editState, setEditState] = useState<SequenceFormState>(createInitialState);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const createDisabled = useMemo(
+    () => creating || !createState.prefix.trim() || !createState.format.trim(),
+    [createState.prefix, createState.format, creating]
+  );
+
+  const handleCreate = async () => {
+    setCreateError(null);
+    setCreating(true);
+    try {
+      const res = await fetch('/api/admin/sequences', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(createState),
+      });
+      if (!res.ok) {
+        setCreateError(await readError(res, 'Unable to create counter'));
+        return;
+      }
+      setCreateState(createInitialState());
+      mutate();
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const openEditDialog = (sequence: RegistrySequence) => {
+    setEditing(sequence);
+    setEditState({
+      prefix: sequence.prefix,
+      year: sequence.year,
+      lastValue: sequence.lastValue,
+      format: sequence.format,
+      width: sequence.width,
+      overflow: sequence.overflow,
+    });
+    setEditError(null);
+  };
+
+  const closeEditDialog = () => {
+    setEditing(null);
+    setEditError(null);
+  };
+
+  const handleEdit = async () => {
+    if (!editing) return;
+    setEditError(null);
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/sequences/${editing.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lastValue: editState.lastValue,
+          format: editState.format,
+          width: editState.width,
+          overflow: editState.overflow,
+        }),
+      });
+      if (!res.ok) {
+        setEditError(await readError(res, 'Unable to update counter'));
+        return;
+      }
+      closeEditDialog();
+      mutate();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-3xl font-semibold text-foreground">Registry Numbers</h1>
+        <p className="text-sm text-muted-foreground">
+          View the per-year counters used to allocate registry numbers, change their format, or reseed them.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="border-b border-border/60">
+          <CardTitle className="text-xl text-foreground">Add Counter</CardTitle>
+          <CardDescription>
+            Counters are created automatically on the first entry of a year. Add one ahead of time to start from a specific value.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 pt-6">
+          {createError ? (
+            <Alert variant="destructive">
+              <AlertTitle>Unable to save counter</AlertTitle>
+              <AlertDescription>{createError}</AlertDescription>
+            </Alert>
+          ) : null}
+          <SequenceFields state={createState} onChange={setCreateState} mode="create" />
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              disabled={creating}
+              onClick={() => setCreateState(createInitialState())}
+            >
+              Clear
+            </Button>
+            <Button type="button" disabled={createDisabled} onClick={handleCreate}>
+              {creating ? 'Adding…' : 'Add Counter'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="border-b border-border/60">
+          <CardTitle className="text-xl text-foreground">Counters</CardTitle>
+          <CardDescription>The next number shown is what the next saved entry will receive.</CardDescription>
+        </CardHeader>
+        <CardContent className="px-0">
+          {error ? (
+            <div className="py-12 text-center text-sm text-destructive">
+              Unable to load counters. Please retry shortly.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader className="bg-background/80 backdrop-blur">
+                <TableRow>
+                  <TableHead>Prefix</TableHead>
+                  <TableHead className="w-24">Year</TableHead>
+                  <TableHead className="w-28">Last Issued</TableHead>
+                  <TableHead>Format</TableHead>
+                  <TableHead>Next Number</TableHead>
+                  <TableHead>Overflow</TableHead>
+                  <TableHead className="w-20 text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  Array.from({ length: 3 }).map((_, rowIdx) => (
+                    <TableRow key={rowIdx}>
+                      {Array.from({ length: 7 }).map((__, cellIdx) => (
+                        <TableCell key={cellIdx}>
+                          <Skeleton className="h-5 w-full" />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                ) : sequences.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="p-0">
+                      <Empty className="border-0">
+                        <EmptyHeader>
+                          <EmptyMedia variant="icon">
+                            <Hash />
+                          </EmptyMedia>
+                          <EmptyTitle>No Counters Yet</EmptyTitle>
+                          <EmptyDescription>
+                            A counter will be created when the first entry of the year is saved.
+                          </EmptyDescription>
+                        </EmptyHeader>
+                      </Empty>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sequences.map((sequence) => (
+                    <TableRow key={sequence.id}>
+                      <TableCell className="font-medium">{sequence.prefix}</TableCell>
+                      <TableCell className="text-muted-foreground">{sequence.year}</TableCell>
+                      <TableCell className="text-muted-foreground">{sequence.lastValue}</TableCell>
+                      <TableCell className="font-mono text-xs text-muted-foreground">
+                        {sequence.format} · {sequence.width} digits
+                      </TableCell>
+                      <TableCell>
+                        {sequence.nextNumber ? (
+                          <span className="font-mono text-sm">{sequence.nextNumber}</span>
+                        ) : (
+                          <span className="text-xs text-destructive">{sequence.overflowError}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="border-0 bg-muted font-medium">
+                          {overflowLabels[sequence.overflow]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => openEditDialog(sequence)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => (!open ? closeEditDialog() : null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Edit Counter {editing ? `${editing.prefix} · ${editing.year}` : ''}
+            </DialogTitle>
+            <DialogDescription>
+              Reseeding changes the last issued value; the next entry receives the following number.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {editError ? (
+              <Alert variant="destructive">
+                <AlertTitle>Unable to update counter</AlertTitle>
+                <AlertDescription>{editError}</AlertDescription>
+              </Alert>
+            ) : null}
+            <SequenceFields state={editState} onChange={setEditState} mode="edit" />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={closeEditDialog} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleEdit} disabled={saving}>
+              {saving ? 'Saving…' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+type SequenceFieldsProps = {
+  state: SequenceFormState;
+  onChange: (updater: (prev: SequenceFormState) => SequenceFormState) => void;
+  mode: 'create' | 'edit';
+};
+
+function SequenceFields({ state, onChange, mode }: SequenceFieldsProps) {
+  const toInt = (value: string) => parseInt(value, 10) || 0;
+
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-sequence-prefix`}>Prefix</Label>
+        <Input
+          id={`${mode}-sequence-prefix`}
+          value={state.prefix}
+          disabled={mode === 'edit'}
+          onChange={(e) => onChange((prev) => ({ ...prev, prefix: e.target.value.toUpperCase() }))}
+          placeholder="RGST"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-sequence-year`}>Year</Label>
+        <Input
+          id={`${mode}-sequence-year`}
+          type="number"
+          value={state.year}
+          disabled={mode === 'edit'}
+          onChange={(e) => onChange((prev) => ({ ...prev, year: toInt(e.target.value) }))}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-sequence-lastValue`}>Last Issued Value</Label>
+        <Input
+          id={`${mode}-sequence-lastValue`}
+          type="number"
+          min={0}
+          value={state.lastValue}
+          onChange={(e) => onChange((prev) => ({ ...prev, lastValue: toInt(e.target.value) }))}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-sequence-format`}>Format</Label>
+        <Input
+          id={`${mode}-sequence-format`}
+          value={state.format}
+          className="font-mono"
+          onChange={(e) => onChange((prev) => ({ ...prev, format: e.target.value }))}
+          placeholder="{prefix}{seq}/{year}"
+        />
+        <p className="text-xs text-muted-foreground">Tokens: {'{prefix}'}, {'{seq}'}, {'{year}'}</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-sequence-width`}>Digit Width</Label>
+        <Input
+          id={`${mode}-sequence-width`}
+          type="number"
+          min={1}
+          max={12}
+          value={state.width}
+          onChange={(e) => onChange((prev) => ({ ...prev, width: toInt(e.target.value) }))}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-sequence-overflow`}>When Width Is Exceeded</Label>
+        <Select
+          value={state.overflow}
+          onValueChange={(value) => onChange((prev) => ({ ...prev, overflow: value as Overflow }))}
+        >
+          <SelectTrigger id={`${mode}-sequence-overflow`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(overflowLabels) as Overflow[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {overflowLabels[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
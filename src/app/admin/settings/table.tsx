@@ -36,6 +36,16 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Trash2, Pencil, RotateCcw, AlertTriangle, MapPin, Building2, Map, FileText, Archive } from 'lucide-react';
+import {
+  ENTRY_STATUSES,
+  MAX_DOCUMENT_SIZE_MB,
+  STATUS_LABELS,
+  SUPPORTED_DOCUMENT_MIME_TYPES,
+  formatMimeType,
+  parseDocumentTypeConfig,
+  type DocumentTypeConfig,
+} from '@/lib/document-types';
+import { readAuditDetails } from '@/lib/audit-details';
 
 type SettingCategory = 'ISLAND' | 'BANK_BRANCH' | 'REGION' | 'DOCUMENT_TYPE';
 
@@ -49,7 +59,7 @@ type DeletedEntry = {
   loanAmount: string;
   deletedAt: string;
   auditLogs?: Array<{
-    details: string | null;
+    details: unknown;
     action: string;
   }>;
 };
@@ -61,6 +71,7 @@ type SystemSetting = {
   displayName: string | null;
   isActive: boolean;
   sortOrder: number;
+  config: unknown;
   createdAt: string;
   updatedAt: string;
 };
@@ -70,11 +81,13 @@ type CreateSettingState = {
   value: string;
   displayName: string;
   sortOrder: number;
+  config: DocumentTypeConfig;
 };
 
 type EditSettingState = {
   displayName: string;
   sortOrder: number;
+  config: DocumentTypeConfig;
 };
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
@@ -98,9 +111,120 @@ const categoryDescriptions: Record<SettingCategory, string> = {
   ISLAND: 'Manage islands for property locations',
   BANK_BRANCH: 'Manage bank branch locations',
   REGION: 'Manage administrative regions and atolls',
-  DOCUMENT_TYPE: 'Manage document type classifications',
+  DOCUMENT_TYPE: 'Manage the document slots on registry entries and the files they accept',
+};
+
+const toggleItem = <T extends string>(list: T[], item: T, checked: boolean) =>
+  checked ? [...list, item] : list.filter((value) => value !== item);
+
+const summarizeDocumentRules = (config: DocumentTypeConfig) => {
+  const shown = config.statuses.length ? config.statuses.map((s) => STATUS_LABELS[s]).join(', ') : 'All statuses';
+  const required = config.requiredForStatuses.length
+    ? config.requiredForStatuses.map((s) => STATUS_LABELS[s]).join(', ')
+    : 'Optional';
+  const conversion = config.convertImagesToPdf ? ' · Images stored as PDF' : '';
+  return `Shown: ${shown} · Required: ${required} · ${config.mimeTypes.map(formatMimeType).join('/')} up to ${config.maxSizeMB}MB${conversion}`;
 };
 
+function DocumentRulesFields({
+  idPrefix,
+  config,
+  onChange,
+}: {
+  idPrefix: string;
+  config: DocumentTypeConfig;
+  onChange: (config: DocumentTypeConfig) => void;
+}) {
+  const checkboxClass = 'size-4 rounded border-input bg-background text-primary focus:ring-2 focus:ring-ring';
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div className="space-y-2">
+        <Label>Shown For</Label>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {ENTRY_STATUSES.map((status) => (
+            <div key={status} className="flex items-center gap-2">
+              <input
+                id={`${idPrefix}-shown-${status}`}
+                type="checkbox"
+                className={checkboxClass}
+                checked={config.statuses.includes(status)}
+                onChange={(e) => onChange({ ...config, statuses: toggleItem(config.statuses, status, e.target.checked) })}
+              />
+              <Label htmlFor={`${idPrefix}-shown-${status}`} className="cursor-pointer font-normal">
+                {STATUS_LABELS[status]}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">Leave all unchecked to show the slot for every status.</p>
+      </div>
+      <div className="space-y-2">
+        <Label>Required For</Label>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {ENTRY_STATUSES.map((status) => (
+            <div key={status} className="flex items-center gap-2">
+              <input
+                id={`${idPrefix}-required-${status}`}
+                type="checkbox"
+                className={checkboxClass}
+                checked={config.requiredForStatuses.includes(status)}
+                onChange={(e) =>
+                  onChange({ ...config, requiredForStatuses: toggleItem(config.requiredForStatuses, status, e.target.checked) })
+                }
+              />
+              <Label htmlFor={`${idPrefix}-required-${status}`} className="cursor-pointer font-normal">
+                {STATUS_LABELS[status]}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Allowed File Types</Label>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {SUPPORTED_DOCUMENT_MIME_TYPES.map((mimeType) => (
+            <div key={mimeType} className="flex items-center gap-2">
+              <input
+                id={`${idPrefix}-mime-${mimeType}`}
+                type="checkbox"
+                className={checkboxClass}
+                checked={config.mimeTypes.includes(mimeType)}
+                onChange={(e) => onChange({ ...config, mimeTypes: toggleItem(config.mimeTypes, mimeType, e.target.checked) })}
+              />
+              <Label htmlFor={`${idPrefix}-mime-${mimeType}`} className="cursor-pointer font-normal">
+                {formatMimeType(mimeType)}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            id={`${idPrefix}-convert`}
+            type="checkbox"
+            className={checkboxClass}
+            checked={config.convertImagesToPdf}
+            onChange={(e) => onChange({ ...config, convertImagesToPdf: e.target.checked })}
+          />
+          <Label htmlFor={`${idPrefix}-convert`} className="cursor-pointer font-normal">
+            Convert images to PDF on upload
+          </Label>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-maxSize`}>Max File Size (MB)</Label>
+        <Input
+          id={`${idPrefix}-maxSize`}
+          type="number"
+          min={1}
+          max={MAX_DOCUMENT_SIZE_MB}
+          value={config.maxSizeMB}
+          onChange={(e) => onChange({ ...config, maxSizeMB: Number(e.target.value) || 0 })}
+        />
+      </div>
+    </div>
+  );
+}
+
 const statusBadge = (isActive: boolean) =>
   cn(
     'rounded-full px-2 py-1 text-xs font-medium',
@@ -123,6 +247,7 @@ export default function SettingsClient() {
     value: '',
     displayName: '',
     sortOrder: 0,
+    config: parseDocumentTypeConfig(null),
   });
   
   const [editDialogOpen, setEditDialogOpen] = useState(false);
@@ -130,6 +255,7 @@ export default function SettingsClient() {
   const [editState, setEditState] = useState<EditSettingState>({
     displayName: '',
     sortOrder: 0,
+    config: parseDocumentTypeConfig(null),
   });
   const [editError, setEditError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
@@ -222,6 +348,7 @@ export default function SettingsClient() {
       value: '',
       displayName: '',
       sortOrder: 0,
+      config: parseDocumentTypeConfig(null),
     });
   };
 
@@ -229,10 +356,13 @@ export default function SettingsClient() {
     setCreateError(null);
     setCreating(true);
     try {
+      const { config, ...fields } = createState;
+      const category = activeTab === 'DELETED_ENTRIES' ? 'ISLAND' : activeTab;
       const payload = {
-        ...createState,
-        category: activeTab === 'DELETED_ENTRIES' ? 'ISLAND' : activeTab,
+        ...fields,
+        category,
         displayName: createState.displayName.trim() || createState.value.trim(),
+        ...(category === 'DOCUMENT_TYPE' && { config }),
       };
 
       const res = await fetch('/api/admin/settings', {
@@ -266,6 +396,7 @@ export default function SettingsClient() {
     setEditState({
       displayName: setting.displayName || setting.value,
       sortOrder: setting.sortOrder,
+      config: parseDocumentTypeConfig(setting.config),
     });
     setEditError(null);
     setEditDialogOpen(true);
@@ -283,10 +414,14 @@ export default function SettingsClient() {
     setEditError(null);
     setSaving(true);
     try {
+      const { config, ...fields } = editState;
       const res = await fetch(`/api/admin/settings/${editingSetting.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(editState),
+        body: JSON.stringify({
+          ...fields,
+          ...(editingSetting.category === 'DOCUMENT_TYPE' && { config }),
+        }),
       });
 
       if (!res.ok) {
@@ -461,15 +596,10 @@ export default function SettingsClient() {
                           : '—';
                         
                         // Extract deletion reason from audit log
-                        let deletionReason = '—';
-                        if (entry.auditLogs && entry.auditLogs.length > 0) {
-                          try {
-                            const details = JSON.parse(entry.auditLogs[0].details || '{}');
-                            deletionReason = details.reason || '—';
-                          } catch {
-                            deletionReason = '—';
-                          }
-                        }
+                        const deletion = entry.auditLogs?.[0]
+                          ? readAuditDetails(entry.auditLogs[0].action, entry.auditLogs[0].details)
+                          : null;
+                        const deletionReason = (deletion?.action === 'ENTRY_DELETED' && deletion.details.reason) || '—';
 
                         return (
                           <TableRow key={entry.id}>
@@ -547,9 +677,14 @@ export default function SettingsClient() {
                       onChange={(e) =>
                         setCreateState((prev) => ({ ...prev, value: e.target.value }))
                       }
-                      placeholder="e.g. Malé"
+                      placeholder={category === 'DOCUMENT_TYPE' ? 'e.g. valuationReport' : 'e.g. Malé'}
                       required
                     />
+                    {category === 'DOCUMENT_TYPE' ? (
+                      <p className="text-xs text-muted-foreground">
+                        Used as the document key; letters and digits, starting lowercase.
+                      </p>
+                    ) : null}
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="setting-displayName">Display Name (Optional)</Label>
@@ -579,6 +714,14 @@ export default function SettingsClient() {
                   </div>
                 </div>
 
+                {category === 'DOCUMENT_TYPE' ? (
+                  <DocumentRulesFields
+                    idPrefix="setting"
+                    config={createState.config}
+                    onChange={(config) => setCreateState((prev) => ({ ...prev, config }))}
+                  />
+                ) : null}
+
                 <div className="flex justify-end gap-2">
                   <Button
                     type="button"
@@ -653,6 +796,11 @@ export default function SettingsClient() {
                             <TableCell className="font-medium">{setting.value}</TableCell>
                             <TableCell className="text-muted-foreground">
                               {setting.displayName || '—'}
+                              {category === 'DOCUMENT_TYPE' ? (
+                                <div className="text-xs text-muted-foreground/80">
+                                  {summarizeDocumentRules(parseDocumentTypeConfig(setting.config))}
+                                </div>
+                              ) : null}
                             </TableCell>
                             <TableCell>
                               <Input
@@ -716,7 +864,7 @@ export default function SettingsClient() {
           <DialogHeader>
             <DialogTitle>Edit Setting</DialogTitle>
             <DialogDescription>
-              Update the display name and sort order for this setting.
+              Update the display name, sort order and, for document types, the file rules for this setting.
             </DialogDescription>
           </DialogHeader>
 
@@ -767,6 +915,14 @@ export default function SettingsClient() {
                     placeholder="0"
                   />
                 </div>
+
+                {editingSetting.category === 'DOCUMENT_TYPE' ? (
+                  <DocumentRulesFields
+                    idPrefix="edit"
+                    config={editState.config}
+                    onChange={(config) => setEditState((prev) => ({ ...prev, config }))}
+                  />
+                ) : null}
               </>
             )}
           </div>
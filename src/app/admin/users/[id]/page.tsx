@@ -0,0 +1,29 @@
+import UserActivityClient from './timeline';
+import { getAccess } from '@/lib/rbac';
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function Page({ params }: PageProps) {
+  const { id } = await params;
+  const access = await getAccess();
+
+  if (!access?.can('user.manage')) {
+    return (
+      <main className="flex min-h-[60vh] flex-col items-center justify-center gap-4 text-center">
+        <span className="rounded-full border border-border/60 bg-muted px-3 py-1 text-xs font-semibold uppercase tracking-widest text-muted-foreground">
+          Restricted
+        </span>
+        <div className="space-y-2">
+          <h2 className="text-2xl font-semibold text-foreground">Access denied</h2>
+          <p className="text-sm text-muted-foreground">
+            You do not have permission to view a user&apos;s activity.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  return <UserActivityClient userId={id} />;
+}
@@ -0,0 +1,266 @@
+'use client';
+import { useMemo } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import useSWRInfinite from 'swr/infinite';
+import { format } from 'date-fns';
+import { ArrowLeft, History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import { cn } from '@/lib/utils';
+import { actionBadgeStyles, formatActionLabel, formatAuditDetails } from '../../audit/utils';
+
+type ActivitySummary = {
+  user: {
+    id: string;
+    name: string | null;
+    email: string | null;
+    role: string;
+    roleDefinition: { name: string };
+    isActive: boolean;
+    createdAt: string;
+  };
+  lastSignIn: { at: string; ipAddress: string | null; userAgent: string | null } | null;
+  entries: { created: number; updated: number; updates: number };
+  actionTotals: Record<string, number>;
+  activity: { month: string; total: number; counts: Record<string, number> }[];
+  error?: string;
+};
+
+type TimelineLog = {
+  id: string;
+  sequence: number;
+  action: string;
+  details: unknown;
+  createdAt: string;
+  ipAddress: string | null;
+  role: 'actor' | 'target';
+  actor: { id: string; email: string | null; name: string | null } | null;
+  targetUser: { id: string; email: string | null; name: string | null } | null;
+  targetEntry: { id: string; no: string } | null;
+};
+
+type TimelinePage = { logs?: TimelineLog[]; nextBefore?: number | null; error?: string };
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+const monthLabel = (month: string) => format(new Date(`${month}-01T00:00:00`), 'MMM yy');
+
+export default function UserActivityClient({ userId }: { userId: string }) {
+  const { data: summary, isLoading } = useSWR<ActivitySummary>(`/api/admin/users/${userId}`, fetcher);
+
+  const { data: pages, size, setSize, isValidating } = useSWRInfinite<TimelinePage>(
+    (index, previous) => {
+      if (index === 0) return `/api/admin/users/${userId}/activity`;
+      if (!previous?.nextBefore) return null;
+      return `/api/admin/users/${userId}/activity?before=${previous.nextBefore}`;
+    },
+    fetcher,
+  );
+  const logs = useMemo(() => (pages ?? []).flatMap((page) => page.logs ?? []), [pages]);
+  const hasMore = !!pages?.[pages.length - 1]?.nextBefore;
+  const isLoadingMore = isValidating && size > (pages?.length ?? 0);
+
+  // Group the timeline by day
+  const days = useMemo(() => {
+    const groups: { day: string; logs: TimelineLog[] }[] = [];
+    for (const log of logs) {
+      const day = format(new Date(log.createdAt), 'yyyy-MM-dd');
+      const last = groups[groups.length - 1];
+      if (last?.day === day) last.logs.push(log);
+      else groups.push({ day, logs: [log] });
+    }
+    return groups;
+  }, [logs]);
+
+  // Actions shown in the monthly table, most frequent first
+  const actions = useMemo(
+    () =>
+      Object.entries(summary?.actionTotals ?? {})
+        .sort(([, a], [, b]) => b - a)
+        .map(([action]) => action)
+        .filter((action) => summary?.activity.some((month) => month.counts[action])),
+    [summary],
+  );
+  const busiestMonth = Math.max(1, ...(summary?.activity ?? []).map((month) => month.total));
+  const totalActions = Object.values(summary?.actionTotals ?? {}).reduce((sum, count) => sum + count, 0);
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+  if (!summary || summary.error) {
+    return <p className="text-sm text-muted-foreground">{summary?.error ?? 'This user could not be loaded.'}</p>;
+  }
+
+  const { user } = summary;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Button variant="ghost" size="sm" asChild className="-ml-2 gap-2">
+          <Link href="/admin/users">
+            <ArrowLeft className="h-4 w-4" />
+            Users
+          </Link>
+        </Button>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-3xl font-semibold text-foreground">{user.name || user.email}</h1>
+          <Badge variant="secondary">{user.roleDefinition.name}</Badge>
+          {!user.isActive ? <Badge variant="destructive">Inactive</Badge> : null}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {user.email} · Account created {format(new Date(user.createdAt), 'dd MMM yyyy')}
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-4">
+        <StatCard
+          label="Last sign-in"
+          value={summary.lastSignIn ? format(new Date(summary.lastSignIn.at), 'dd MMM yyyy HH:mm') : 'Never'}
+          hint={summary.lastSignIn?.ipAddress ?? undefined}
+        />
+        <StatCard label="Entries created" value={String(summary.entries.created)} />
+        <StatCard
+          label="Entries changed"
+          value={String(summary.entries.updated)}
+          hint={`${summary.entries.updates} change${summary.entries.updates === 1 ? '' : 's'} in all`}
+        />
+        <StatCard label="Actions recorded" value={String(totalActions)} />
+      </div>
+
+      <Card>
+        <CardHeader className="border-b border-border/60">
+          <CardTitle className="text-xl text-foreground">Activity by month</CardTitle>
+          <CardDescription>Actions this user took over the last {summary.activity.length} months.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 pt-6">
+          <div className="flex h-32 items-end gap-2">
+            {summary.activity.map((month) => (
+              <div key={month.month} className="flex flex-1 flex-col items-center gap-1">
+                <span className="text-xs text-muted-foreground">{month.total || ''}</span>
+                <div
+                  className="w-full rounded-t bg-primary/70"
+                  style={{ height: `${(month.total / busiestMonth) * 80}px` }}
+                  title={`${month.total} actions`}
+                />
+                <span className="text-xs text-muted-foreground">{monthLabel(month.month)}</span>
+              </div>
+            ))}
+          </div>
+          {actions.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Action</TableHead>
+                    {summary.activity.map((month) => (
+                      <TableHead key={month.month} className="text-right">
+                        {monthLabel(month.month)}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {actions.map((action) => (
+                    <TableRow key={action}>
+                      <TableCell className="whitespace-nowrap font-medium">{formatActionLabel(action)}</TableCell>
+                      {summary.activity.map((month) => (
+                        <TableCell key={month.month} className="text-right text-muted-foreground">
+                          {month.counts[action] ?? ''}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="border-b border-border/60">
+          <CardTitle className="text-xl text-foreground">Timeline</CardTitle>
+          <CardDescription>Everything this user did, and everything done to their account, newest first.</CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6">
+          {!pages ? (
+            <Skeleton className="h-40 w-full" />
+          ) : logs.length === 0 ? (
+            <Empty>
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <History className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>No activity recorded</EmptyTitle>
+                <EmptyDescription>This user has no audit records yet.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <div className="space-y-6">
+              {days.map((group) => (
+                <div key={group.day} className="space-y-3">
+                  <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">
+                    {format(new Date(`${group.day}T00:00:00`), 'EEEE d MMMM yyyy')}
+                  </p>
+                  <ol className="space-y-3 border-l border-border/60 pl-4">
+                    {group.logs.map((log) => (
+                      <li key={log.id} className="space-y-1">
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          <span className="text-muted-foreground">{format(new Date(log.createdAt), 'HH:mm')}</span>
+                          <Badge variant="outline" className={cn('border-0 font-medium', actionBadgeStyles(log.action))}>
+                            {formatActionLabel(log.action)}
+                          </Badge>
+                          {log.role === 'target' ? (
+                            <span className="text-muted-foreground">
+                              on this account{log.actor ? ` by ${log.actor.name || log.actor.email}` : ''}
+                            </span>
+                          ) : log.targetEntry ? (
+                            <Link href={`/entries/${log.targetEntry.id}/history` as any} className="hover:underline">
+                              #{log.targetEntry.no}
+                            </Link>
+                          ) : log.targetUser && log.targetUser.id !== userId ? (
+                            <Link href={`/admin/users/${log.targetUser.id}` as any} className="hover:underline">
+                              {log.targetUser.name || log.targetUser.email}
+                            </Link>
+                          ) : null}
+                          {log.ipAddress ? <span className="text-xs text-muted-foreground">{log.ipAddress}</span> : null}
+                        </div>
+                        <p className="whitespace-pre-wrap text-sm text-muted-foreground">
+                          {formatAuditDetails(log.action, log.details)}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ))}
+              {hasMore ? (
+                <div className="flex justify-center">
+                  <Button variant="outline" onClick={() => setSize(size + 1)} disabled={isLoadingMore}>
+                    {isLoadingMore ? 'Loading…' : 'Load more'}
+                  </Button>
+                </div>
+              ) : null}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+      </CardHeader>
+      {hint ? <CardContent className="pt-0 text-xs text-muted-foreground">{hint}</CardContent> : null}
+    </Card>
+  );
+}
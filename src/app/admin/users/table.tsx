@@ -1,5 +1,6 @@
 'use client';
 import { useMemo, useState } from 'react';
+import Link from 'next/link';
 import useSWR from 'swr';
 import { Button } from '@/components/ui/button';
 import {
@@ -20,6 +21,7 @@ import {
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
+import { DEFAULT_ROLE, type RoleItem } from '@/lib/permissions';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
@@ -36,12 +38,6 @@ type CreateUserState = {
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
-const roleLabels: Record<string, string> = {
-  VIEWER: 'Viewer',
-  DATA_ENTRY: 'Data Entry',
-  ADMIN: 'Admin',
-};
-
 const statusBadge = (isActive: boolean) =>
   cn(
     "rounded-full px-2 py-1 text-xs font-medium",
@@ -55,6 +51,8 @@ export default function AdminUsersClient() {
     refreshInterval: 30_000,
   });
   const users = data?.users || [];
+  const { data: roleData } = useSWR<{ roles?: RoleItem[] }>('/api/admin/roles', fetcher);
+  const roles = roleData?.roles ?? [];
   const [busy, setBusy] = useState<string | null>(null);
   const [creating, setCreating] = useState(false);
   const [createError, setCreateError] = useState<string | null>(null);
@@ -62,7 +60,7 @@ export default function AdminUsersClient() {
     name: '',
     email: '',
     password: '',
-    role: 'VIEWER',
+    role: DEFAULT_ROLE,
     isActive: true,
   });
 
@@ -88,7 +86,7 @@ export default function AdminUsersClient() {
   };
 
   const resetCreateForm = () => {
-    setCreateState({ name: '', email: '', password: '', role: 'VIEWER', isActive: true });
+    setCreateState({ name: '', email: '', password: '', role: DEFAULT_ROLE, isActive: true });
   };
 
   const handleCreate = async () => {
@@ -185,9 +183,9 @@ export default function AdminUsersClient() {
                   <SelectValue placeholder="Role" />
                 </SelectTrigger>
                 <SelectContent>
-                  {Object.entries(roleLabels).map(([value, label]) => (
-                    <SelectItem key={value} value={value}>
-                      {label}
+                  {roles.map((role) => (
+                    <SelectItem key={role.key} value={role.key}>
+                      {role.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -273,7 +271,11 @@ export default function AdminUsersClient() {
                 ) : (
                   users.map((user: any) => (
                     <TableRow key={user.id}>
-                      <TableCell className="font-medium">{user.name || '—'}</TableCell>
+                      <TableCell className="font-medium">
+                        <Link href={`/admin/users/${user.id}` as any} className="hover:underline">
+                          {user.name || '—'}
+                        </Link>
+                      </TableCell>
                       <TableCell className="text-muted-foreground">{user.email}</TableCell>
                       <TableCell>
                         <Select
@@ -285,9 +287,9 @@ export default function AdminUsersClient() {
                             <SelectValue placeholder="Role" />
                           </SelectTrigger>
                           <SelectContent>
-                            {Object.entries(roleLabels).map(([value, label]) => (
-                              <SelectItem key={value} value={value}>
-                                {label}
+                            {roles.map((role) => (
+                              <SelectItem key={role.key} value={role.key}>
+                                {role.name}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -300,6 +302,9 @@ export default function AdminUsersClient() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" asChild>
+                            <Link href={`/admin/users/${user.id}` as any}>Activity</Link>
+                          </Button>
                           <Button
                             variant="outline"
                             size="sm"
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { StorageError } from "@/lib/storage";
+import { openAuditArchive } from "@/lib/audit-archive";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// GET - Download an archive file
+export async function GET(_: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("audit.read");
+  if (access instanceof NextResponse) return access;
+
+  const archive = await prisma.auditArchive.findUnique({ where: { id: params.id } });
+  if (!archive) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  let stream: Readable;
+  try {
+    stream = await openAuditArchive(archive);
+  } catch (error) {
+    if (error instanceof StorageError) {
+      return NextResponse.json({ error: "File is missing from storage" }, { status: 410 });
+    }
+    throw error;
+  }
+
+  return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Content-Length": String(archive.size),
+      "Content-Disposition": `attachment; filename="${archive.fileName}"`,
+      "Cache-Control": "private, no-store",
+      ETag: `"${archive.sha256}"`,
+    },
+  });
+}
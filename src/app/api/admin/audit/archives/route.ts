@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { StorageError } from "@/lib/storage";
+import { AuditArchiveError, archiveExpiredAuditLogs, auditArchiveSelect, lastAuditArchiveRun } from "@/lib/audit-archive";
+
+// GET - Archive files written under the retention policies, newest first, and when the job last ran
+export async function GET() {
+  const access = await requirePermission("audit.read");
+  if (access instanceof NextResponse) return access;
+
+  const [archives, lastRunAt] = await Promise.all([
+    prisma.auditArchive.findMany({
+      select: auditArchiveSelect,
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    }),
+    lastAuditArchiveRun(),
+  ]);
+  return NextResponse.json({ archives, lastRunAt });
+}
+
+// POST - Run the archive job now instead of waiting for it
+export async function POST() {
+  const access = await requirePermission("audit.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  try {
+    const archive = await archiveExpiredAuditLogs(validActorId);
+    return NextResponse.json({ archive }, { status: archive ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof AuditArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof StorageError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { format as formatDate } from "date-fns";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import {
+  AuditChainError,
+  auditCheckpointSelect,
+  buildCheckpointExport,
+  createAuditCheckpoint,
+} from "@/lib/audit-chain";
+
+// GET - Signed checkpoints of the audit chain, newest first, or every checkpoint as a file with ?format=json
+export async function GET(req: NextRequest) {
+  const access = await requirePermission("audit.read");
+  if (access instanceof NextResponse) return access;
+
+  try {
+    if (new URL(req.url).searchParams.get("format") === "json") {
+      const file = await buildCheckpointExport();
+      return new NextResponse(JSON.stringify(file, null, 2), {
+        headers: {
+          "Content-Type": "application/json; charset=utf-8",
+          "Content-Disposition": `attachment; filename="audit-checkpoints-${formatDate(new Date(), "yyyyMMdd")}.json"`,
+        },
+      });
+    }
+  } catch (error) {
+    if (error instanceof AuditChainError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    throw error;
+  }
+
+  const [checkpoints, head] = await Promise.all([
+    prisma.auditCheckpoint.findMany({ select: auditCheckpointSelect, orderBy: { sequence: "desc" }, take: 100 }),
+    prisma.auditLog.findFirst({ select: { sequence: true }, orderBy: { sequence: "desc" } }),
+  ]);
+
+  return NextResponse.json({ checkpoints, headSequence: head?.sequence ?? null });
+}
+
+// POST - Sign a checkpoint of the chain as it stands now
+export async function POST() {
+  const access = await requirePermission("audit.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  try {
+    const checkpoint = await createAuditCheckpoint(validActorId);
+    if (!checkpoint) {
+      return NextResponse.json({ error: "Nothing has been recorded since the last checkpoint" }, { status: 409 });
+    }
+    return NextResponse.json({ checkpoint }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AuditChainError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    throw error;
+  }
+}
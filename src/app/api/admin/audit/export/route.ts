@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuditAction } from "@prisma/client";
+import { format as formatDate } from "date-fns";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { auditDetails } from "@/lib/audit-details";
+import { auditLogWhere, streamAuditExport } from "@/lib/audit-export";
+import { AUDIT_EXPORT_FORMATS, type AuditExportFormat } from "@/lib/audit-retention";
+
+const CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+};
+
+// GET - Download the audit records matching the audit page's filters, as ?format=csv or jsonl.
+// The file is streamed as it is read, and the export itself is recorded in the audit log.
+export async function GET(req: NextRequest) {
+  const access = await requirePermission("audit.read");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const { searchParams } = new URL(req.url);
+  const format = (searchParams.get("format") || "csv") as AuditExportFormat;
+  if (!AUDIT_EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `format must be one of ${AUDIT_EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+  const { where, filters } = auditLogWhere(searchParams);
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  // Recorded before the file is written, so the export does not include its own record
+  const records = await prisma.auditLog.count({ where });
+  const exported = await prisma.auditLog.create({
+    data: {
+      action: AuditAction.AUDIT_EXPORTED,
+      ...(validActorId && { actorId: validActorId }),
+      details: auditDetails(AuditAction.AUDIT_EXPORTED, { format, filters, records }),
+    },
+    select: { sequence: true },
+  });
+
+  return new NextResponse(streamAuditExport({ AND: [where, { sequence: { lt: exported.sequence } }] }, format), {
+    headers: {
+      "Content-Type": CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="audit-log-${formatDate(new Date(), "yyyyMMdd-HHmm")}.${format}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
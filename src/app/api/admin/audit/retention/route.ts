@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuditAction } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { AuditArchiveError, listAuditRetention, setAuditRetention } from "@/lib/audit-archive";
+
+const retentionSchema = z.object({
+  action: z.nativeEnum(AuditAction),
+  retainDays: z.number().int().nullable(),
+});
+
+// GET - The retention policy of every audit action, with how many records are due to be archived
+export async function GET() {
+  const access = await requirePermission("audit.read");
+  if (access instanceof NextResponse) return access;
+
+  const policies = await listAuditRetention();
+  return NextResponse.json({ policies });
+}
+
+// PUT - Set how long records of an action are kept; a null retainDays keeps them forever
+export async function PUT(req: NextRequest) {
+  const access = await requirePermission("audit.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const parsed = retentionSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  }
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  try {
+    const changed = await setAuditRetention(parsed.data.action, parsed.data.retainDays, validActorId);
+    return NextResponse.json({ ok: true, changed });
+  } catch (error) {
+    if (error instanceof AuditArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
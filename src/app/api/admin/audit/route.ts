@@ -1,32 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/auth/options";
 import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { auditLogWhere } from "@/lib/audit-export";
 
 export async function GET(req: NextRequest){
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  if (role !== "ADMIN") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  const access = await requirePermission("audit.read");
+  if (access instanceof NextResponse) return access;
 
   const { searchParams } = new URL(req.url);
-  const action = searchParams.get("action") || undefined;
-  const entity = searchParams.get("entity") || undefined;
-  const target = searchParams.get("target") || undefined;
   const take = Math.min(200, Number(searchParams.get("limit") || 100));
   const cursorParam = searchParams.get("cursor") || undefined; // ISO date string of createdAt
   const pageParam = searchParams.get("page");
   const pageSizeParam = searchParams.get("pageSize");
 
-  const where:any = {};
-  if (action) where.action = action as any;
-  if (entity === "user") where.targetUserId = { not: null };
-  if (entity === "entry") where.targetEntryId = { not: null };
-  if (target) { if (entity === "user") where.targetUserId = target; if (entity === "entry") where.targetEntryId = target; }
+  const where:any = auditLogWhere(searchParams).where;
   // For forward pagination on descending createdAt, fetch records with createdAt < cursor
   if (cursorParam) {
     const cursorDate = new Date(cursorParam);
     if (!isNaN(cursorDate.getTime())) {
-      where.createdAt = { lt: cursorDate };
+      where.createdAt = { ...where.createdAt, lt: cursorDate };
     }
   }
 
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/rbac";
+import { AuditChainError, verifyAuditChain } from "@/lib/audit-chain";
+
+// POST - Walk the whole audit chain and report where it is broken, if anywhere
+export async function POST() {
+  const access = await requirePermission("audit.read");
+  if (access instanceof NextResponse) return access;
+
+  try {
+    const report = await verifyAuditChain();
+    return NextResponse.json({ report });
+  } catch (error) {
+    if (error instanceof AuditChainError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuditAction, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { PersonMergeSchema } from "@/lib/validation";
+import { mergePeople, PersonMergeError } from "@/lib/people";
+import { auditDetails } from "@/lib/audit-details";
+
+// POST - Merge people recorded under different IDs into the person to keep
+export async function POST(req: NextRequest) {
+  const access = await requirePermission("borrower.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const body = await req.json().catch(() => null);
+  const parsed = PersonMergeSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  }
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true },
+    });
+    validActorId = actorExists?.id;
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const merged = await mergePeople(tx, parsed.data.targetId, parsed.data.sourceIds);
+      await tx.auditLog.create({
+        data: {
+          action: AuditAction.BORROWER_MERGED,
+          ...(validActorId && { actorId: validActorId }),
+          details: auditDetails(AuditAction.BORROWER_MERGED, {
+            kept: { id: merged.target.id, fullName: merged.target.fullName, nationalId: merged.target.nationalId },
+            merged: merged.sources.map((person: any) => ({ id: person.id, fullName: person.fullName, nationalId: person.nationalId })),
+            agreementsMoved: merged.moved,
+          }),
+        },
+      });
+      return merged;
+    });
+    return NextResponse.json({ person: result.target, merged: result.sources.length, agreementsMoved: result.moved });
+  } catch (error) {
+    if (error instanceof PersonMergeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
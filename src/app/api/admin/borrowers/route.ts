@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { findDuplicatePeople } from "@/lib/people";
+
+// GET - Search people by name or national ID, or list likely duplicates with ?duplicates=true
+export async function GET(req: NextRequest) {
+  const access = await requirePermission("borrower.manage");
+  if (access instanceof NextResponse) return access;
+
+  const { searchParams } = new URL(req.url);
+  if (searchParams.get("duplicates") === "true") {
+    return NextResponse.json({ groups: await findDuplicatePeople() });
+  }
+
+  const query = searchParams.get("query")?.trim();
+  const people = await prisma.person.findMany({
+    where: query
+      ? {
+          OR: [
+            { fullName: { contains: query, mode: "insensitive" } },
+            { nationalId: { contains: query.replace(/\s+/g, ""), mode: "insensitive" } },
+          ],
+        }
+      : undefined,
+    select: { id: true, nationalId: true, fullName: true, _count: { select: { borrowings: true } } },
+    orderBy: { fullName: "asc" },
+    take: 50,
+  });
+
+  return NextResponse.json({ people });
+}
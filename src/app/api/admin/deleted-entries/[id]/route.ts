@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/auth/options";
-import { isAdmin } from "@/lib/rbac";
-import { AuditAction } from "@prisma/client";
+import { requirePermission } from "@/lib/rbac";
+import { AuditAction, Prisma } from "@prisma/client";
+import { discardStoredFiles } from "@/lib/attachment-store";
+import { deleteOrphanedPeople } from "@/lib/people";
+import { recordEntryRevision } from "@/lib/revision-store";
+import { auditDetails } from "@/lib/audit-details";
 
 type RouteContext = {
   params: Promise<{ id: string }>;
@@ -12,13 +14,9 @@ type RouteContext = {
 // PATCH - Restore a soft-deleted entry
 export async function PATCH(_: NextRequest, context: RouteContext) {
   const params = await context.params;
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  const actorId = (session?.user as any)?.id as string | undefined;
-
-  if (!session || !isAdmin(role)) {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-  }
+  const access = await requirePermission("entry.restore");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
 
   const entry = await prisma.registryEntry.findUnique({
     where: { id: params.id },
@@ -45,9 +43,13 @@ export async function PATCH(_: NextRequest, context: RouteContext) {
     validActorId = actorExists?.id;
   }
 
-  const restored = await prisma.registryEntry.update({
-    where: { id: params.id },
-    data: { isDeleted: false, deletedAt: null },
+  const restored = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const entry = await tx.registryEntry.update({
+      where: { id: params.id },
+      data: { isDeleted: false, deletedAt: null, version: { increment: 1 } },
+    });
+    await recordEntryRevision(tx, params.id, "RESTORED", validActorId);
+    return entry;
   });
 
   await prisma.auditLog.create({
@@ -55,7 +57,7 @@ export async function PATCH(_: NextRequest, context: RouteContext) {
       action: AuditAction.ENTRY_RESTORED,
       ...(validActorId && { actorId: validActorId }),
       targetEntryId: params.id,
-      details: JSON.stringify({
+      details: auditDetails(AuditAction.ENTRY_RESTORED, {
         no: restored.no,
         agreementNumber: restored.agreementNumber,
       }),
@@ -68,17 +70,13 @@ export async function PATCH(_: NextRequest, context: RouteContext) {
 // DELETE - Permanently delete an entry
 export async function DELETE(_: NextRequest, context: RouteContext) {
   const params = await context.params;
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  const actorId = (session?.user as any)?.id as string | undefined;
-
-  if (!session || !isAdmin(role)) {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-  }
+  const access = await requirePermission("entry.restore");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
 
   const entry = await prisma.registryEntry.findUnique({
     where: { id: params.id },
-    include: { borrowers: true, auditLogs: true },
+    include: { borrowers: true },
   });
 
   if (!entry) {
@@ -96,12 +94,8 @@ export async function DELETE(_: NextRequest, context: RouteContext) {
   await prisma.borrower.deleteMany({
     where: { registryEntryId: params.id },
   });
-
-  // Keep audit logs but remove the relation
-  await prisma.auditLog.updateMany({
-    where: { targetEntryId: params.id },
-    data: { targetEntryId: null },
-  });
+  // People who were only on this agreement are removed with it
+  await deleteOrphanedPeople(prisma, entry.borrowers.map((borrower: any) => borrower.personId));
 
   // Validate that the actor user exists in the database
   let validActorId: string | undefined = undefined;
@@ -113,13 +107,14 @@ export async function DELETE(_: NextRequest, context: RouteContext) {
     validActorId = actorExists?.id;
   }
 
-  // Create a final audit log before deletion
+  // Create a final audit log before deletion. Audit logs keep the entry's id in
+  // targetEntryRef once the delete clears their relation to it.
   await prisma.auditLog.create({
     data: {
       action: AuditAction.ENTRY_DELETED,
       ...(validActorId && { actorId: validActorId }),
-      targetEntryId: null,
-      details: JSON.stringify({
+      targetEntryId: params.id,
+      details: auditDetails(AuditAction.ENTRY_DELETED, {
         permanentlyDeleted: true,
         no: entry.no,
         agreementNumber: entry.agreementNumber,
@@ -128,10 +123,15 @@ export async function DELETE(_: NextRequest, context: RouteContext) {
     },
   });
 
-  // Now delete the entry permanently
+  // Now delete the entry permanently; attachment rows cascade, their files are removed from storage
+  const files = await prisma.attachment.findMany({
+    where: { entryId: params.id },
+    select: { driver: true, storageKey: true },
+  });
   await prisma.registryEntry.delete({
     where: { id: params.id },
   });
+  await discardStoredFiles(files);
 
   return NextResponse.json({ ok: true });
 }
@@ -1,22 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/auth/options";
-import { isAdmin } from "@/lib/rbac";
+import { requirePermission } from "@/lib/rbac";
 import { AuditAction } from "@prisma/client";
-import { sanitizeAttachmentRecord } from "@/lib/attachments";
+import { currentAttachmentsInclude, toAttachmentRecord } from "@/lib/attachment-store";
 
 export async function GET(req: NextRequest) {
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  if (!session || !isAdmin(role)) {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-  }
+  const access = await requirePermission("entry.restore");
+  if (access instanceof NextResponse) return access;
 
   const deletedEntries = await prisma.registryEntry.findMany({
     where: { isDeleted: true },
     include: { 
       borrowers: true,
+      files: currentAttachmentsInclude,
       auditLogs: {
         where: { action: 'ENTRY_DELETED' },
         orderBy: { createdAt: 'desc' },
@@ -27,12 +23,13 @@ export async function GET(req: NextRequest) {
         }
       }
     },
+    omit: { attachments: true },
     orderBy: { deletedAt: "desc" },
   });
 
-  const items = deletedEntries.map((entry: any) => ({
+  const items = deletedEntries.map(({ files, ...entry }: any) => ({
     ...entry,
-    attachments: sanitizeAttachmentRecord(entry.attachments),
+    attachments: toAttachmentRecord(files),
   }));
 
   return NextResponse.json({ items });
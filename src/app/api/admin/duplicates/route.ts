@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { format as formatDate } from "date-fns";
+import { requirePermission } from "@/lib/rbac";
+import {
+  DUPLICATE_REPORT_PERIODS,
+  type DuplicateReportPeriod,
+  buildDuplicatesCsv,
+  duplicateReportSince,
+  findSuspectedDuplicates,
+} from "@/lib/duplicates";
+
+// GET - Suspected duplicate entries touched in a period (?period=WEEK|MONTH|QUARTER|ALL), as JSON or ?format=csv
+export async function GET(req: NextRequest) {
+  const access = await requirePermission("report.duplicates");
+  if (access instanceof NextResponse) return access;
+
+  const { searchParams } = new URL(req.url);
+  const periodParam = searchParams.get("period") || "WEEK";
+  if (!(DUPLICATE_REPORT_PERIODS as readonly string[]).includes(periodParam)) {
+    return NextResponse.json({ error: "Unknown report period" }, { status: 400 });
+  }
+  const period = periodParam as DuplicateReportPeriod;
+  const since = duplicateReportSince(period);
+  const groups = await findSuspectedDuplicates(since);
+
+  if (searchParams.get("format") === "csv") {
+    return new NextResponse(buildDuplicatesCsv(groups), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="suspected-duplicates-${period.toLowerCase()}-${formatDate(new Date(), "yyyyMMdd")}.csv"`,
+      },
+    });
+  }
+
+  return NextResponse.json({ period, since: since ?? null, groups });
+}
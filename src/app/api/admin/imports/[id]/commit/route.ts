@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { AuditAction, Prisma } from "@prisma/client";
+import { unmappedRequiredFields, type ImportMapping } from "@/lib/import-mapping";
+import { MAX_REPORTED_IMPORT_ERRORS, checkImportRows, commitImportRows, importJobSelect } from "@/lib/imports";
+import { auditDetails } from "@/lib/audit-details";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// POST - Import the rows of a dry-run job with the mapping it was checked with.
+// The rows are validated again first; any error stops the whole import. A job
+// that failed part-way can be posted again and skips the rows already written.
+export async function POST(_req: NextRequest, context: RouteContext) {
+  const access = await requirePermission("entry.import");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const { id } = await context.params;
+  const job = await prisma.importJob.findUnique({
+    where: { id },
+    select: { id: true, fileName: true, status: true, rows: true, rowCount: true, mapping: true },
+  });
+  if (!job) {
+    return NextResponse.json({ error: "Import not found" }, { status: 404 });
+  }
+  if (job.status === "IMPORTING" || job.status === "COMPLETED") {
+    return NextResponse.json({ error: "This import has already been run" }, { status: 409 });
+  }
+  const mapping = job.mapping as ImportMapping | null;
+  if (job.status === "UPLOADED" || !mapping || unmappedRequiredFields(mapping).length > 0) {
+    return NextResponse.json({ error: "Run a dry run of the import first" }, { status: 409 });
+  }
+
+  // The registry may have changed since the dry run
+  const { pending, errors, alreadyImported } = await checkImportRows(job.id, (job.rows ?? []) as string[][], mapping);
+  if (errors.length > 0) {
+    await prisma.importJob.update({
+      where: { id: job.id },
+      data: { errors: errors.slice(0, MAX_REPORTED_IMPORT_ERRORS), errorCount: errors.length },
+    });
+    return NextResponse.json(
+      { error: `${errors.length} row(s) have problems; fix the file and try again`, errorCount: errors.length },
+      { status: 409 }
+    );
+  }
+
+  // Claim the job so two admins cannot run it at once
+  const claimed = await prisma.importJob.updateMany({
+    where: { id: job.id, status: { in: ["VALIDATED", "FAILED"] } },
+    data: { status: "IMPORTING", failure: null },
+  });
+  if (claimed.count === 0) {
+    return NextResponse.json({ error: "This import is already running" }, { status: 409 });
+  }
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  let imported: number;
+  try {
+    imported = await commitImportRows(job.id, pending, validActorId);
+  } catch (error) {
+    const failure = error instanceof Error ? error.message : "The import stopped unexpectedly";
+    const failed = await prisma.importJob.update({
+      where: { id: job.id },
+      data: { status: "FAILED", failure: failure.slice(0, 1000) },
+      select: importJobSelect,
+    });
+    return NextResponse.json({ error: "The import stopped part-way; run it again to continue", job: failed }, { status: 500 });
+  }
+
+  // The stored rows are only needed until the import completes
+  const completed = await prisma.importJob.update({
+    where: { id: job.id },
+    data: { status: "COMPLETED", completedAt: new Date(), rows: Prisma.DbNull, errors: Prisma.DbNull, errorCount: 0 },
+    select: importJobSelect,
+  });
+
+  // One audit record for the whole job; the entries point back at it
+  await prisma.auditLog.create({
+    data: {
+      action: AuditAction.ENTRIES_IMPORTED,
+      ...(validActorId && { actorId: validActorId }),
+      details: auditDetails(AuditAction.ENTRIES_IMPORTED, {
+        importJobId: job.id,
+        fileName: job.fileName,
+        imported: completed.importedCount,
+        rowCount: job.rowCount,
+        ...(alreadyImported > 0 && { resumedAfter: alreadyImported }),
+      }),
+    },
+  });
+
+  return NextResponse.json({ job: completed, imported });
+}
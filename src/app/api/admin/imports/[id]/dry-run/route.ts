@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { ImportRunSchema } from "@/lib/validation";
+import { IMPORT_FIELD_DEFINITIONS, unmappedRequiredFields, type ImportMapping } from "@/lib/import-mapping";
+import { MAX_REPORTED_IMPORT_ERRORS, checkImportRows } from "@/lib/imports";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// POST - Validate every row of an import with a column mapping, without writing
+// any entries. The mapping and the errors found are kept on the job.
+export async function POST(req: NextRequest, context: RouteContext) {
+  const access = await requirePermission("entry.import");
+  if (access instanceof NextResponse) return access;
+
+  const { id } = await context.params;
+  const body = await req.json();
+  const parsed = ImportRunSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  }
+  const mapping = parsed.data.mapping as ImportMapping;
+
+  const job = await prisma.importJob.findUnique({ where: { id }, select: { id: true, status: true, headers: true, rows: true } });
+  if (!job) {
+    return NextResponse.json({ error: "Import not found" }, { status: 404 });
+  }
+  if (job.status === "IMPORTING" || job.status === "COMPLETED") {
+    return NextResponse.json({ error: "This import has already been run" }, { status: 409 });
+  }
+
+  if (Object.values(mapping).some((column) => column! >= job.headers.length)) {
+    return NextResponse.json({ error: "The mapping refers to a column the file does not have" }, { status: 400 });
+  }
+  const missing = unmappedRequiredFields(mapping);
+  if (missing.length > 0) {
+    return NextResponse.json(
+      { error: `Choose a column for ${missing.map((field) => IMPORT_FIELD_DEFINITIONS[field].label).join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const { pending, errors, alreadyImported } = await checkImportRows(job.id, (job.rows ?? []) as string[][], mapping);
+  const reported = errors.slice(0, MAX_REPORTED_IMPORT_ERRORS);
+
+  await prisma.importJob.update({
+    where: { id: job.id },
+    data: { mapping, errors: reported, errorCount: errors.length, status: "VALIDATED", failure: null },
+  });
+
+  return NextResponse.json({
+    valid: pending.length,
+    alreadyImported,
+    errorCount: errors.length,
+    errors: reported,
+  });
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import type { ImportRowError } from "@/lib/import-mapping";
+import { IMPORT_SAMPLE_SIZE, buildImportErrorsCsv, importJobSelect } from "@/lib/imports";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// GET - An import job with its first rows and last dry-run errors, or the errors as ?format=csv
+export async function GET(req: NextRequest, context: RouteContext) {
+  const access = await requirePermission("entry.import");
+  if (access instanceof NextResponse) return access;
+
+  const { id } = await context.params;
+  const job = await prisma.importJob.findUnique({ where: { id }, select: { ...importJobSelect, rows: true, errors: true } });
+  if (!job) {
+    return NextResponse.json({ error: "Import not found" }, { status: 404 });
+  }
+
+  const { rows, errors, ...summary } = job;
+  const rowErrors = (errors ?? []) as ImportRowError[];
+
+  const { searchParams } = new URL(req.url);
+  if (searchParams.get("format") === "csv") {
+    const baseName = job.fileName.replace(/\.[^.]+$/, "").replace(/[^A-Za-z0-9_-]+/g, "-") || "import";
+    return new NextResponse(buildImportErrorsCsv(rowErrors), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="${baseName}-errors.csv"`,
+      },
+    });
+  }
+
+  return NextResponse.json({
+    job: summary,
+    sample: ((rows ?? []) as string[][]).slice(0, IMPORT_SAMPLE_SIZE),
+    errors: rowErrors,
+  });
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { suggestImportMapping } from "@/lib/import-mapping";
+import {
+  IMPORT_SAMPLE_SIZE,
+  ImportFileError,
+  MAX_IMPORT_FILE_BYTES,
+  importJobSelect,
+  parseImportFile,
+} from "@/lib/imports";
+
+const MAX_FILE_NAME_LENGTH = 200;
+
+// GET - Recent import jobs, newest first
+export async function GET() {
+  const access = await requirePermission("entry.import");
+  if (access instanceof NextResponse) return access;
+
+  const jobs = await prisma.importJob.findMany({ select: importJobSelect, orderBy: { createdAt: "desc" }, take: 50 });
+  return NextResponse.json({ jobs });
+}
+
+// POST - Upload a CSV or Excel register. The raw request body is the file and
+// ?name= carries its original name. Returns the new job with a suggested
+// column mapping and the first few rows.
+export async function POST(req: NextRequest) {
+  const access = await requirePermission("entry.import");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const limitError = `File size exceeds ${MAX_IMPORT_FILE_BYTES / (1024 * 1024)}MB limit`;
+  const declaredLength = Number(req.headers.get("content-length"));
+  if (Number.isFinite(declaredLength) && declaredLength > MAX_IMPORT_FILE_BYTES) {
+    return NextResponse.json({ error: limitError }, { status: 413 });
+  }
+
+  const buffer = Buffer.from(await req.arrayBuffer());
+  if (buffer.length === 0) {
+    return NextResponse.json({ error: "File is required" }, { status: 400 });
+  }
+  if (buffer.length > MAX_IMPORT_FILE_BYTES) {
+    return NextResponse.json({ error: limitError }, { status: 413 });
+  }
+
+  let parsed: { headers: string[]; rows: string[][] };
+  try {
+    parsed = parseImportFile(buffer);
+  } catch (error) {
+    if (error instanceof ImportFileError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const { searchParams } = new URL(req.url);
+  const fileName = (searchParams.get("name") || "import.csv")
+    .replace(/[\\/\u0000-\u001f]/g, "_")
+    .trim()
+    .slice(0, MAX_FILE_NAME_LENGTH);
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  const job = await prisma.importJob.create({
+    data: {
+      fileName,
+      headers: parsed.headers,
+      rows: parsed.rows,
+      rowCount: parsed.rows.length,
+      mapping: suggestImportMapping(parsed.headers),
+      createdById: validActorId,
+    },
+    select: importJobSelect,
+  });
+
+  return NextResponse.json({ job, sample: parsed.rows.slice(0, IMPORT_SAMPLE_SIZE) }, { status: 201 });
+}
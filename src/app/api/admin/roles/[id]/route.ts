@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { RoleUpdateSchema } from "@/lib/validation";
+import { deleteRole, RoleError, updateRole } from "@/lib/roles";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// PATCH - Rename a role or change its permissions
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const access = await requirePermission("role.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const { id } = await context.params;
+  const body = await req.json();
+  const parsed = RoleUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  }
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  try {
+    const role = await updateRole(id, parsed.data, validActorId);
+    if (!role) {
+      return NextResponse.json({ error: "Role not found" }, { status: 404 });
+    }
+    return NextResponse.json({ role });
+  } catch (error) {
+    if (error instanceof RoleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+// DELETE - Delete a custom role no user holds
+export async function DELETE(_req: NextRequest, context: RouteContext) {
+  const access = await requirePermission("role.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const { id } = await context.params;
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  try {
+    const deleted = await deleteRole(id, validActorId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Role not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof RoleError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    throw error;
+  }
+}
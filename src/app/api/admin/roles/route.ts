@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { RoleCreateSchema } from "@/lib/validation";
+import { createRole, listRoles, RoleError } from "@/lib/roles";
+
+// GET - List roles and the permissions they hold
+export async function GET() {
+  // The users page lists roles when assigning them
+  const access = await requirePermission(["role.manage", "user.manage"]);
+  if (access instanceof NextResponse) return access;
+
+  return NextResponse.json({ roles: await listRoles() });
+}
+
+// POST - Define a new role
+export async function POST(req: NextRequest) {
+  const access = await requirePermission("role.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const body = await req.json();
+  const parsed = RoleCreateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  }
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  try {
+    const role = await createRole(parsed.data, validActorId);
+    return NextResponse.json({ role }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RoleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
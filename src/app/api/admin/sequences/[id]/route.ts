@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { RegistrySequenceUpdateSchema } from "@/lib/validation";
+import { AuditAction } from "@prisma/client";
+import { findReseedCollision, SequenceError, validateSequenceFormat } from "@/lib/sequence";
+import { auditDetails } from "@/lib/audit-details";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// PATCH - Reseed a counter or change its number format
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const access = await requirePermission("settings.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const { id } = await context.params;
+  const body = await req.json();
+  const parsed = RegistrySequenceUpdateSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const sequence = await prisma.registrySequence.findUnique({ where: { id } });
+  if (!sequence) {
+    return NextResponse.json({ error: "Counter not found" }, { status: 404 });
+  }
+
+  const updateData: any = {};
+  if (parsed.data.lastValue !== undefined) updateData.lastValue = parsed.data.lastValue;
+  if (parsed.data.format !== undefined) updateData.format = parsed.data.format;
+  if (parsed.data.width !== undefined) updateData.width = parsed.data.width;
+  if (parsed.data.overflow !== undefined) updateData.overflow = parsed.data.overflow;
+
+  const next = { ...sequence, ...updateData };
+
+  const formatError = validateSequenceFormat(next.format);
+  if (formatError) {
+    return NextResponse.json({ error: formatError }, { status: 400 });
+  }
+
+  try {
+    const collision = await findReseedCollision(next, next.year, next.lastValue);
+    if (collision) {
+      return NextResponse.json(
+        { error: `Registry number ${collision} is already in use. Choose a higher value.` },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    if (error instanceof SequenceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({ 
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  const updated = await prisma.registrySequence.update({
+    where: { id },
+    data: updateData,
+  });
+
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const key of Object.keys(updateData)) {
+    changes[key] = { from: (sequence as any)[key], to: (updated as any)[key] };
+  }
+
+  // Log the action
+  await prisma.auditLog.create({
+    data: {
+      action: AuditAction.SETTINGS_UPDATED,
+      ...(validActorId && { actorId: validActorId }),
+      details: auditDetails(AuditAction.SETTINGS_UPDATED, {
+        operation: "sequence_update",
+        prefix: updated.prefix,
+        year: updated.year,
+        changes,
+      }),
+    },
+  });
+
+  return NextResponse.json({ sequence: updated });
+}
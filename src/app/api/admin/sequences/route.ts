@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { RegistrySequenceCreateSchema } from "@/lib/validation";
+import { AuditAction } from "@prisma/client";
+import {
+  DEFAULT_SEQUENCE_FORMAT,
+  DEFAULT_SEQUENCE_WIDTH,
+  findReseedCollision,
+  formatRegistryNumber,
+  SequenceError,
+  validateSequenceFormat,
+} from "@/lib/sequence";
+import { auditDetails } from "@/lib/audit-details";
+
+const withPreview = (sequence: any) => {
+  let nextNumber: string | null = null;
+  let overflowError: string | null = null;
+  try {
+    nextNumber = formatRegistryNumber(sequence, sequence.year, sequence.lastValue + 1);
+  } catch (error) {
+    if (!(error instanceof SequenceError)) throw error;
+    overflowError = error.message;
+  }
+  return { ...sequence, nextNumber, overflowError };
+};
+
+export async function GET() {
+  const access = await requirePermission("settings.manage");
+  if (access instanceof NextResponse) return access;
+
+  const sequences = await prisma.registrySequence.findMany({
+    orderBy: [{ year: "desc" }, { prefix: "asc" }],
+  });
+
+  return NextResponse.json({ sequences: sequences.map(withPreview) });
+}
+
+export async function POST(req: NextRequest) {
+  const access = await requirePermission("settings.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const body = await req.json();
+  const parsed = RegistrySequenceCreateSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const prefix = parsed.data.prefix.toUpperCase();
+  const { year, lastValue } = parsed.data;
+
+  const existing = await prisma.registrySequence.findUnique({
+    where: { prefix_year: { prefix, year } },
+  });
+
+  if (existing) {
+    return NextResponse.json(
+      { error: "A counter for this prefix and year already exists" },
+      { status: 400 }
+    );
+  }
+
+  const config = {
+    prefix,
+    format: parsed.data.format ?? DEFAULT_SEQUENCE_FORMAT,
+    width: parsed.data.width ?? DEFAULT_SEQUENCE_WIDTH,
+    overflow: parsed.data.overflow ?? "EXPAND",
+  } as const;
+
+  const formatError = validateSequenceFormat(config.format);
+  if (formatError) {
+    return NextResponse.json({ error: formatError }, { status: 400 });
+  }
+
+  try {
+    const collision = await findReseedCollision(config, year, lastValue);
+    if (collision) {
+      return NextResponse.json(
+        { error: `Registry number ${collision} is already in use. Choose a higher starting value.` },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    if (error instanceof SequenceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({ 
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  const sequence = await prisma.registrySequence.create({
+    data: { ...config, year, lastValue },
+  });
+
+  // Log the action
+  await prisma.auditLog.create({
+    data: {
+      action: AuditAction.SETTINGS_UPDATED,
+      ...(validActorId && { actorId: validActorId }),
+      details: auditDetails(AuditAction.SETTINGS_UPDATED, {
+        operation: "sequence_create",
+        prefix,
+        year,
+        lastValue,
+        format: config.format,
+        width: config.width,
+        overflow: config.overflow,
+      }),
+    },
+  });
+
+  return NextResponse.json({ sequence: withPreview(sequence) }, { status: 201 });
+}
@@ -1,22 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/auth/options";
 import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
 import { SystemSettingUpdateSchema } from "@/lib/validation";
 import { AuditAction } from "@prisma/client";
+import { auditDetails } from "@/lib/audit-details";
 
 type RouteContext = {
   params: Promise<{ id: string }>;
 };
 
 export async function PATCH(req: NextRequest, context: RouteContext) {
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  const actorId = (session?.user as any)?.id as string | undefined;
-
-  if (role !== "ADMIN") {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-  }
+  const access = await requirePermission("settings.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
 
   const { id } = await context.params;
   const body = await req.json();
@@ -26,13 +22,30 @@ export async function PATCH(req: NextRequest, context: RouteContext) {
     return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
   }
 
-  const { displayName, isActive, sortOrder } = parsed.data;
+  const { displayName, isActive, sortOrder, config } = parsed.data;
   const updateData: any = {};
 
   if (displayName !== undefined) updateData.displayName = displayName;
   if (isActive !== undefined) updateData.isActive = isActive;
   if (sortOrder !== undefined) updateData.sortOrder = sortOrder;
 
+  if (config !== undefined) {
+    const existing = await prisma.systemSetting.findUnique({
+      where: { id },
+      select: { category: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Setting not found" }, { status: 404 });
+    }
+    if (existing.category !== "DOCUMENT_TYPE") {
+      return NextResponse.json(
+        { error: "Only document types can have a configuration" },
+        { status: 400 }
+      );
+    }
+    updateData.config = config;
+  }
+
   if (Object.keys(updateData).length === 0) {
     return NextResponse.json({ error: "No changes provided" }, { status: 400 });
   }
@@ -57,8 +70,8 @@ export async function PATCH(req: NextRequest, context: RouteContext) {
     data: {
       action: AuditAction.SETTINGS_UPDATED,
       ...(validActorId && { actorId: validActorId }),
-      details: JSON.stringify({
-        action: "update",
+      details: auditDetails(AuditAction.SETTINGS_UPDATED, {
+        operation: "update",
         settingId: id,
         changes: updateData,
       }),
@@ -69,13 +82,9 @@ export async function PATCH(req: NextRequest, context: RouteContext) {
 }
 
 export async function DELETE(req: NextRequest, context: RouteContext) {
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  const actorId = (session?.user as any)?.id as string | undefined;
-
-  if (role !== "ADMIN") {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-  }
+  const access = await requirePermission("settings.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
 
   const { id } = await context.params;
 
@@ -106,8 +115,8 @@ export async function DELETE(req: NextRequest, context: RouteContext) {
     data: {
       action: AuditAction.SETTINGS_UPDATED,
       ...(validActorId && { actorId: validActorId }),
-      details: JSON.stringify({
-        action: "delete",
+      details: auditDetails(AuditAction.SETTINGS_UPDATED, {
+        operation: "delete",
         category: setting.category,
         value: setting.value,
       }),
@@ -1,17 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/auth/options";
 import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
 import { SystemSettingCreateSchema } from "@/lib/validation";
+import { DocumentTypeConfigSchema } from "@/lib/document-types";
 import { AuditAction } from "@prisma/client";
+import { auditDetails } from "@/lib/audit-details";
 
 export async function GET(req: NextRequest) {
-  const session = await getServerSession(authOptions);
-  
-  // Allow all authenticated users to read settings (needed for entry form dropdowns)
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  // Everyone who can view entries may read settings (needed for entry form dropdowns)
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
 
   const { searchParams } = new URL(req.url);
   const categoryParam = searchParams.get("category");
@@ -29,13 +27,9 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  const actorId = (session?.user as any)?.id as string | undefined;
-
-  if (role !== "ADMIN") {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-  }
+  const access = await requirePermission("settings.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
 
   const body = await req.json();
   const parsed = SystemSettingCreateSchema.safeParse(body);
@@ -44,7 +38,11 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
   }
 
-  const { category, value, displayName, sortOrder } = parsed.data;
+  const { category, value, displayName, sortOrder, config } = parsed.data;
+
+  // Document types always carry their rules so the entry form can rely on them
+  const documentConfig =
+    category === "DOCUMENT_TYPE" ? config ?? DocumentTypeConfigSchema.parse({}) : undefined;
 
   // Check if setting already exists
   const existing = await prisma.systemSetting.findUnique({
@@ -79,6 +77,7 @@ export async function POST(req: NextRequest) {
       value,
       displayName: displayName || value,
       sortOrder: sortOrder ?? 0,
+      ...(documentConfig && { config: documentConfig }),
     },
   });
 
@@ -87,10 +86,11 @@ export async function POST(req: NextRequest) {
     data: {
       action: AuditAction.SETTINGS_UPDATED,
       ...(validActorId && { actorId: validActorId }),
-      details: JSON.stringify({
-        action: "create",
+      details: auditDetails(AuditAction.SETTINGS_UPDATED, {
+        operation: "create",
         category,
         value,
+        ...(documentConfig && { config: documentConfig }),
       }),
     },
   });
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { listUserTimeline } from "@/lib/user-activity";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// GET - The user's timeline, newest first. ?before= takes the nextBefore of the previous page.
+export async function GET(req: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("user.manage");
+  if (access instanceof NextResponse) return access;
+
+  const user = await prisma.user.findUnique({ where: { id: params.id }, select: { id: true } });
+  if (!user) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const { searchParams } = new URL(req.url);
+  const before = Number(searchParams.get("before"));
+  const limit = Number(searchParams.get("limit"));
+  const page = await listUserTimeline(user.id, {
+    ...(Number.isInteger(before) && before > 0 && { before }),
+    ...(Number.isInteger(limit) && limit > 0 && { limit }),
+  });
+  return NextResponse.json(page);
+}
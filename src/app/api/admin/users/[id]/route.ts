@@ -1,33 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/auth/options";
 import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
 import { AdminUserUpdateSchema } from "@/lib/validation";
 import bcrypt from "bcryptjs";
-import { AuditAction } from "@prisma/client";
+import { AuditAction, Prisma } from "@prisma/client";
+import { auditDetails } from "@/lib/audit-details";
+import { getUserActivitySummary } from "@/lib/user-activity";
+import { roleExists } from "@/lib/roles";
 
 type RouteContext = {
   params: Promise<{ id: string }>;
 };
 
+// GET - The user's account with a summary of their activity
+export async function GET(_: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("user.manage");
+  if (access instanceof NextResponse) return access;
+
+  const summary = await getUserActivitySummary(params.id);
+  if (!summary) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json(summary);
+}
+
 export async function PATCH(req: NextRequest, context: RouteContext) {
   const params = await context.params;
-  const session = await getServerSession(authOptions);
-  const actorId = (session?.user as any)?.id as string | undefined;
-  const role = (session?.user as any)?.role;
-  if (role !== "ADMIN") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  const access = await requirePermission("user.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
 
   const body = await req.json();
   const parsed = AdminUserUpdateSchema.safeParse(body);
   if (!parsed.success) return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
   const { role: newRole, isActive, resetPassword } = parsed.data;
+  if (newRole && !(await roleExists(newRole))) {
+    return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+  }
 
   const updates:any = {};
-  const logs:any[] = [];
+  const logs:{ action: AuditAction; details: Prisma.InputJsonObject }[] = [];
 
-  if (newRole) { updates.role = newRole; logs.push({ action: AuditAction.USER_ROLE_CHANGED, details: { to: newRole } }); }
-  if (typeof isActive === "boolean") { updates.isActive = isActive; logs.push({ action: AuditAction.USER_STATUS_CHANGED, details: { isActive } }); }
-  if (resetPassword) { updates.passwordHash = await bcrypt.hash(resetPassword, 10); logs.push({ action: AuditAction.USER_PASSWORD_RESET }); }
+  if (newRole) { updates.role = newRole; logs.push({ action: AuditAction.USER_ROLE_CHANGED, details: auditDetails(AuditAction.USER_ROLE_CHANGED, { to: newRole }) }); }
+  if (typeof isActive === "boolean") { updates.isActive = isActive; logs.push({ action: AuditAction.USER_STATUS_CHANGED, details: auditDetails(AuditAction.USER_STATUS_CHANGED, { isActive }) }); }
+  if (resetPassword) { updates.passwordHash = await bcrypt.hash(resetPassword, 10); logs.push({ action: AuditAction.USER_PASSWORD_RESET, details: auditDetails(AuditAction.USER_PASSWORD_RESET, {}) }); }
 
   // Validate that the actor user exists in the database
   let validActorId: string | undefined = undefined;
@@ -40,6 +55,6 @@ export async function PATCH(req: NextRequest, context: RouteContext) {
   }
 
   const updated = await prisma.user.update({ where: { id: params.id }, data: updates, select: { id:true, email:true, role:true, isActive:true } });
-  for (const l of logs) { await prisma.auditLog.create({ data: { action: l.action, ...(validActorId && { actorId: validActorId }), targetUserId: updated.id, details: l.details ? JSON.stringify(l.details) : undefined } }); }
+  for (const l of logs) { await prisma.auditLog.create({ data: { action: l.action, ...(validActorId && { actorId: validActorId }), targetUserId: updated.id, details: l.details } }); }
   return NextResponse.json(updated);
 }
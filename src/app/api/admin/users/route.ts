@@ -1,15 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
 import bcrypt from "bcryptjs";
-import { authOptions } from "@/auth/options";
 import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
 import { AdminUserCreateSchema } from "@/lib/validation";
-import { AuditAction, Role } from "@prisma/client";
+import { AuditAction } from "@prisma/client";
+import { auditDetails } from "@/lib/audit-details";
+import { roleExists } from "@/lib/roles";
+import { DEFAULT_ROLE } from "@/lib/permissions";
 
 export async function GET(req: NextRequest) {
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  if (role !== "ADMIN") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  const access = await requirePermission(["user.manage", "audit.read"]);
+  if (access instanceof NextResponse) return access;
   const users = await prisma.user.findMany({
     orderBy: { createdAt: "desc" },
     select: { id: true, email: true, name: true, role: true, isActive: true, createdAt: true },
@@ -18,10 +19,9 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  const actorId = (session?.user as any)?.id as string | undefined;
-  if (role !== "ADMIN") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  const access = await requirePermission("user.manage");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
 
   const body = await req.json();
   const parsed = AdminUserCreateSchema.safeParse(body);
@@ -36,7 +36,10 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: "Email already in use" }, { status: 400 });
   }
 
-  const roleToAssign = newRole ?? Role.VIEWER;
+  const roleToAssign = newRole ?? DEFAULT_ROLE;
+  if (!(await roleExists(roleToAssign))) {
+    return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+  }
 
   // Validate that the actor user exists in the database
   let validActorId: string | undefined = undefined;
@@ -64,7 +67,7 @@ export async function POST(req: NextRequest) {
       action: AuditAction.USER_CREATED,
       ...(validActorId && { actorId: validActorId }),
       targetUserId: user.id,
-      details: JSON.stringify({ email: user.email, role: user.role }),
+      details: auditDetails(AuditAction.USER_CREATED, { email: user.email, role: user.role }),
     },
   });
 
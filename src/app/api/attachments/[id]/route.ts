@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { discardStoredFiles, openAttachment } from "@/lib/attachment-store";
+import { StorageError } from "@/lib/storage";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// GET - Stream a stored attachment. ?download=1 asks the browser to save it instead of displaying it.
+export async function GET(req: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const attachment = await prisma.attachment.findUnique({
+    where: { id: params.id },
+    include: { entry: { select: { isDeleted: true } } },
+  });
+
+  // Unbound uploads are only visible to their uploader; files of deleted entries only to admins
+  const visible = attachment?.entry
+    ? !attachment.entry.isDeleted || access.can("entry.restore")
+    : !!attachment && !!actorId && attachment.uploadedById === actorId;
+  if (!attachment || !visible) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  let stream: Readable;
+  try {
+    stream = await openAttachment(attachment);
+  } catch (error) {
+    if (error instanceof StorageError) {
+      return NextResponse.json({ error: "File is missing from storage" }, { status: 410 });
+    }
+    throw error;
+  }
+
+  const { searchParams } = new URL(req.url);
+  const disposition = searchParams.get("download") ? "attachment" : "inline";
+  const asciiName = attachment.fileName.replace(/[^\x20-\x7e]|"/g, "_");
+
+  return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+    headers: {
+      "Content-Type": attachment.mimeType,
+      "Content-Length": String(attachment.size),
+      "Content-Disposition": `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+      "Cache-Control": "private, no-store",
+      "X-Content-Type-Options": "nosniff",
+      ETag: `"${attachment.sha256}"`,
+    },
+  });
+}
+
+// DELETE - Discard an upload that has not been attached to an entry yet
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission(["entry.create", "entry.update"]);
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const attachment = await prisma.attachment.findUnique({ where: { id: params.id } });
+  if (!attachment || !actorId || attachment.uploadedById !== actorId) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  // Files already attached to an entry are replaced or cleared by saving the entry
+  const { count } = await prisma.attachment.deleteMany({ where: { id: attachment.id, entryId: null } });
+  if (count === 0) {
+    return NextResponse.json({ error: "Attached files can only be removed by editing the entry" }, { status: 409 });
+  }
+
+  await discardStoredFiles([attachment]);
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { loadDocumentTypes, purgeStaleUploads, storeUpload } from "@/lib/attachment-store";
+import { FileValidationError } from "@/lib/file-validation";
+
+const MAX_FILE_NAME_LENGTH = 200;
+
+// POST - Stream a single file into storage. The raw request body is the file;
+// ?name= carries the original file name, ?slot= the document type it is for
+// and Content-Type its MIME type.
+export async function POST(req: NextRequest) {
+  const access = await requirePermission(["entry.create", "entry.update"]);
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  // Uploads are bound to entries by their uploader, so the actor must exist in the database
+  const actor = actorId
+    ? await prisma.user.findUnique({ where: { id: actorId }, select: { id: true } })
+    : null;
+  if (!actor) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const slot = searchParams.get("slot");
+  const documentType = (await loadDocumentTypes()).find((type) => type.key === slot);
+  if (!documentType) {
+    return NextResponse.json({ error: "Unknown document type" }, { status: 400 });
+  }
+
+  const declaredLength = Number(req.headers.get("content-length"));
+  if (Number.isFinite(declaredLength) && declaredLength > documentType.maxSizeMB * 1024 * 1024) {
+    return NextResponse.json(
+      { error: `File size exceeds ${documentType.maxSizeMB}MB limit` },
+      { status: 413 }
+    );
+  }
+
+  if (!req.body) {
+    return NextResponse.json({ error: "File is required" }, { status: 400 });
+  }
+
+  const fileName = (searchParams.get("name") || "document.pdf")
+    .replace(/[\\/\u0000-\u001f]/g, "_")
+    .trim()
+    .slice(0, MAX_FILE_NAME_LENGTH);
+  const mimeType = (req.headers.get("content-type") || "").split(";")[0].trim().toLowerCase();
+
+  await purgeStaleUploads();
+
+  try {
+    const attachment = await storeUpload(Readable.fromWeb(req.body as NodeReadableStream<Uint8Array>), {
+      fileName,
+      mimeType,
+      uploadedById: actor.id,
+    }, documentType);
+    return NextResponse.json(
+      {
+        attachment: {
+          id: attachment.id,
+          name: attachment.fileName,
+          size: attachment.size,
+          mimeType: attachment.mimeType,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof FileValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
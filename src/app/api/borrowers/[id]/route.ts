@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/rbac";
+import { getPersonProfile } from "@/lib/people";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// GET - A person with their agreements and total exposure
+export async function GET(_: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+
+  const profile = await getPersonProfile(params.id);
+  if (!profile) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json(profile);
+}
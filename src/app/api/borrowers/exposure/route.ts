@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/rbac";
+import { getActiveExposure } from "@/lib/people";
+import { NATIONAL_ID_TYPES, type NationalIdType, normalizeNationalId, validateNationalId } from "@/lib/national-id";
+
+// GET - Active agreements of the person with an ID, optionally leaving out the entry being edited
+export async function GET(req: NextRequest) {
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+
+  const { searchParams } = new URL(req.url);
+  const nationalId = searchParams.get("nationalId") || "";
+  const idTypeParam = searchParams.get("idType") || "MALDIVIAN_ID";
+  const excludeEntryId = searchParams.get("excludeEntryId") || undefined;
+
+  if (!(NATIONAL_ID_TYPES as readonly string[]).includes(idTypeParam)) {
+    return NextResponse.json({ error: "Unknown ID type" }, { status: 400 });
+  }
+  const idType = idTypeParam as NationalIdType;
+  const error = validateNationalId(nationalId, idType);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  const exposure = await getActiveExposure(normalizeNationalId(nationalId, idType), excludeEntryId);
+  return NextResponse.json({ exposure });
+}
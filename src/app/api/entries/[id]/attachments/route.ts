@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { listAttachmentVersions } from "@/lib/attachment-store";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// GET - List every stored version of the entry's attachments, grouped by slot.
+// Each version downloads through /api/attachments/[id]; ?slot= limits the list to one slot.
+export async function GET(req: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+
+  const entry = await prisma.registryEntry.findUnique({
+    where: { id: params.id },
+    select: { id: true, isDeleted: true },
+  });
+  if (!entry || (entry.isDeleted && !access.can("entry.restore"))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const slot = searchParams.get("slot") || undefined;
+  const slots = await listAttachmentVersions(entry.id, slot);
+
+  return NextResponse.json({ slots });
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuditAction, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { EntryReviewSchema } from "@/lib/validation";
+import { EntryReviewError, checkReviewStep, isEntryMaker, reviewDeniedMessage } from "@/lib/entry-review";
+import { auditDetails } from "@/lib/audit-details";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+const REVIEW_AUDIT_ACTIONS = {
+  SUBMITTED: AuditAction.ENTRY_SUBMITTED_FOR_REVIEW,
+  APPROVED: AuditAction.ENTRY_APPROVED,
+  REJECTED: AuditAction.ENTRY_REJECTED,
+} as const;
+
+// GET - The entry's review history, oldest first
+export async function GET(_: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+
+  const entry = await prisma.registryEntry.findUnique({
+    where: { id: params.id },
+    select: { id: true, isDeleted: true, reviewState: true },
+  });
+  if (!entry || (entry.isDeleted && !access.can("entry.restore"))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const history = await prisma.entryReview.findMany({
+    where: { entryId: entry.id },
+    select: {
+      id: true,
+      decision: true,
+      comment: true,
+      createdAt: true,
+      actor: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return NextResponse.json({ reviewState: entry.reviewState, history });
+}
+
+// POST - Submit an entry for review, or approve or reject it. Reviewers may not review entries they made.
+export async function POST(req: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission(["entry.update", "entry.review"]);
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const parsed = EntryReviewSchema.safeParse(await req.json());
+  if (!parsed.success) return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  const { action, comment } = parsed.data;
+
+  const entry = await prisma.registryEntry.findFirst({
+    where: { id: params.id, isDeleted: false },
+    select: { id: true, no: true, reviewState: true, createdById: true, updatedById: true },
+  });
+  if (!entry) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  let step;
+  try {
+    step = checkReviewStep(entry.reviewState, action, comment);
+  } catch (error) {
+    if (error instanceof EntryReviewError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    throw error;
+  }
+  if (!access.can(step.permission)) {
+    return NextResponse.json({ error: reviewDeniedMessage(step) }, { status: 403 });
+  }
+
+  if (step.checker) {
+    const submission = await prisma.entryReview.findFirst({
+      where: { entryId: entry.id, decision: "SUBMITTED" },
+      select: { actorId: true },
+      orderBy: { createdAt: "desc" },
+    });
+    if (isEntryMaker(actorId, { createdById: entry.createdById, submittedById: submission?.actorId, updatedById: entry.updatedById })) {
+      return NextResponse.json({ error: "Entries must be reviewed by someone other than the person who made them" }, { status: 403 });
+    }
+  }
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  // Guarding on the state read above means two reviewers acting at once cannot both succeed
+  const reviewed = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const { count } = await tx.registryEntry.updateMany({
+      where: { id: entry.id, reviewState: entry.reviewState },
+      data: { reviewState: step.to },
+    });
+    if (count === 0) return null;
+    return tx.entryReview.create({
+      data: { entryId: entry.id, decision: step.decision, comment: comment || null, actorId: validActorId },
+    });
+  });
+  if (!reviewed) {
+    return NextResponse.json({ error: "This entry was reviewed by someone else. Reload it and try again." }, { status: 409 });
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      action: REVIEW_AUDIT_ACTIONS[step.decision],
+      ...(validActorId && { actorId: validActorId }),
+      targetEntryId: entry.id,
+      details: auditDetails(REVIEW_AUDIT_ACTIONS[step.decision], { no: entry.no, from: entry.reviewState, to: step.to, ...(comment && { comment }) }),
+    },
+  });
+
+  return NextResponse.json({ id: entry.id, reviewState: step.to, review: reviewed });
+}
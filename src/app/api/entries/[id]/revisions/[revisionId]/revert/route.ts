@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuditAction, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { AttachmentError, loadDocumentTypes } from "@/lib/attachment-store";
+import { entryEtag, parseIfMatch } from "@/lib/entry-versions";
+import { describeSnapshotChanges, type EntrySnapshot } from "@/lib/entry-revisions";
+import { RevisionError, revertEntry } from "@/lib/revision-store";
+import { auditDetails, changedFields } from "@/lib/audit-details";
+
+type RouteContext = {
+  params: Promise<{ id: string; revisionId: string }>;
+};
+
+const CONFLICT_MESSAGE = "This entry was changed by someone else. Reload it and try again.";
+
+// POST - Put the entry back the way one of its revisions had it. Admin only.
+// An If-Match header, when sent, must name the current entry version.
+export async function POST(req: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("entry.restore");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const entry = await prisma.registryEntry.findFirst({
+    where: { id: params.id, isDeleted: false },
+    select: { id: true, no: true, version: true },
+  });
+  if (!entry) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const revision = await prisma.entryRevision.findFirst({
+    where: { id: params.revisionId, entryId: entry.id },
+    select: { id: true, version: true, snapshot: true },
+  });
+  if (!revision) return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+  if (revision.version === entry.version) {
+    return NextResponse.json({ error: "The entry is already at this revision" }, { status: 400 });
+  }
+
+  const expectedVersion = parseIfMatch(req.headers.get("if-match")) ?? entry.version;
+  if (expectedVersion !== entry.version) {
+    return NextResponse.json({ error: CONFLICT_MESSAGE }, { status: 409 });
+  }
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  const documentTypes = await loadDocumentTypes();
+  let result;
+  try {
+    result = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+      revertEntry(
+        tx,
+        entry.id,
+        expectedVersion,
+        { version: revision.version, snapshot: revision.snapshot as EntrySnapshot },
+        documentTypes,
+        validActorId
+      )
+    );
+  } catch (error) {
+    if (error instanceof RevisionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof AttachmentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  if (!result) return NextResponse.json({ error: CONFLICT_MESSAGE }, { status: 409 });
+
+  const changes: Record<string, { from: unknown; to: unknown }> = describeSnapshotChanges(result.before, result.after);
+  const changedSlots = Object.keys(result.attachmentChanges);
+  if (changedSlots.length > 0) {
+    changes.attachments = {
+      from: Object.fromEntries(changedSlots.map((slot) => [slot, result.attachmentChanges[slot].from])),
+      to: Object.fromEntries(changedSlots.map((slot) => [slot, result.attachmentChanges[slot].to])),
+    };
+  }
+  const version = entry.version + 1;
+
+  await prisma.auditLog.create({
+    data: {
+      action: AuditAction.ENTRY_REVERTED,
+      ...(validActorId && { actorId: validActorId }),
+      targetEntryId: entry.id,
+      details: auditDetails(AuditAction.ENTRY_REVERTED, {
+        no: result.after.no,
+        fromVersion: entry.version,
+        toVersion: revision.version,
+        revision: version,
+        changes,
+        fields: changedFields(changes),
+      }),
+    },
+  });
+
+  return NextResponse.json({ ok: true, version, snapshot: result.after }, { headers: { ETag: entryEtag(version) } });
+}
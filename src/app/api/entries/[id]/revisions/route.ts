@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { endOfDay, isValid, parseISO } from "date-fns";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { entryRevisionSelect, findRevisionAsOf } from "@/lib/revision-store";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// GET - The entry's revisions, newest first. With ?asOf= (a date or a timestamp) only the revision
+// in force at that moment is returned; a date on its own means the end of that day.
+export async function GET(req: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+
+  const entry = await prisma.registryEntry.findUnique({
+    where: { id: params.id },
+    select: { id: true, isDeleted: true, version: true },
+  });
+  if (!entry || (entry.isDeleted && !access.can("entry.restore"))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const asOf = new URL(req.url).searchParams.get("asOf");
+  if (asOf) {
+    const parsed = parseISO(asOf);
+    if (!isValid(parsed)) {
+      return NextResponse.json({ error: "asOf must be a date (yyyy-MM-dd) or an ISO timestamp" }, { status: 400 });
+    }
+    const at = /^\d{4}-\d{2}-\d{2}$/.test(asOf) ? endOfDay(parsed) : parsed;
+    const revision = await findRevisionAsOf(entry.id, at);
+    if (!revision) {
+      return NextResponse.json({ error: "The entry had not been recorded by then" }, { status: 404 });
+    }
+    return NextResponse.json({ revision });
+  }
+
+  const revisions = await prisma.entryRevision.findMany({
+    where: { entryId: entry.id },
+    select: entryRevisionSelect,
+    orderBy: { version: "desc" },
+  });
+
+  return NextResponse.json({ revisions, currentVersion: entry.version });
+}
@@ -1,36 +1,53 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { EntrySchema } from "@/lib/validation";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/auth/options";
-import { canRead, canWrite, canDelete } from "@/lib/rbac";
-import { AuditAction } from "@prisma/client";
+import { createEntrySchema } from "@/lib/validation";
+import { requirePermission } from "@/lib/rbac";
+import { AuditAction, Prisma } from "@prisma/client";
 import { sanitizeAttachmentRecord } from "@/lib/attachments";
 import { validateAttachmentRecord, FileValidationError } from "@/lib/file-validation";
-
-function shallowDiff(prev:any, next:any){
-  const diffs:any = {};
-  for (const k of Object.keys(next)){
-    if (['createdAt','updatedAt','borrowers'].includes(k)) continue;
-    const a = prev[k]; const b = next[k];
-    const av = a instanceof Date ? a.toISOString() : a;
-    const bv = b instanceof Date ? b.toISOString() : b;
-    if (JSON.stringify(av) !== JSON.stringify(bv)) diffs[k] = { from: av, to: bv };
-  }
-  return diffs;
-}
+import { AttachmentError, attachmentSummarySelect, currentAttachmentsInclude, bindAttachments, loadDocumentTypes, resolveAttachmentRecord, toAttachmentRecord } from "@/lib/attachment-store";
+import { borrowersInclude, syncEntryBorrowers } from "@/lib/people";
+import { changesDuplicateFields, describeDuplicateOverride, findDuplicateConflicts } from "@/lib/duplicates";
+import { EntryVersionConflictError, diffEntryFields, entryEtag, parseIfMatch, type EntryFormValues } from "@/lib/entry-versions";
+import { describeSnapshotChanges, diffSnapshots } from "@/lib/entry-revisions";
+import { readEntrySnapshot, recordEntryRevision } from "@/lib/revision-store";
+import { resubmitChangedEntry } from "@/lib/review-store";
+import { auditDetails, changedFields } from "@/lib/audit-details";
 
 type RouteContext = {
   params: Promise<{ id: string }>;
 };
 
+// Answers a save against an outdated version with the entry as it is now and the fields that differ
+async function versionConflictResponse(id: string, submitted: EntryFormValues) {
+  const item = await prisma.registryEntry.findUnique({
+    where: { id },
+    include: { borrowers: borrowersInclude, files: currentAttachmentsInclude },
+    omit: { attachments: true },
+  });
+  if (!item) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  const { files, ...entry } = item;
+  const current = { ...entry, attachments: toAttachmentRecord(files) };
+  return NextResponse.json(
+    {
+      error: "This entry was changed by someone else since you opened it",
+      current,
+      diff: diffEntryFields(submitted, current),
+    },
+    { status: 409, headers: { ETag: entryEtag(current.version) } }
+  );
+}
+
 export async function GET(req: NextRequest, context: RouteContext) {
   const params = await context.params;
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  const actorId = (session?.user as any)?.id as string | undefined;
-  if (!session || !canRead(role)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  const item = await prisma.registryEntry.findFirst({ where: { id: params.id, isDeleted: false }, include: { borrowers: true } });
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+  const item = await prisma.registryEntry.findFirst({
+    where: { id: params.id, isDeleted: false },
+    include: { borrowers: borrowersInclude, files: currentAttachmentsInclude },
+    omit: { attachments: true },
+  });
   if (!item) return NextResponse.json({ error: "Not found" }, { status: 404 });
   
   // Log entry view with context
@@ -52,43 +69,62 @@ export async function GET(req: NextRequest, context: RouteContext) {
       action: AuditAction.ENTRY_VIEWED, 
       ...(validActorId && { actorId: validActorId }), 
       targetEntryId: item.id, 
-      details: JSON.stringify({ 
-        entryNo: item.no, 
+      details: auditDetails(AuditAction.ENTRY_VIEWED, { 
+        no: item.no, 
         agreementNumber: item.agreementNumber,
         viewContext 
       }) 
     } 
   });
   
-  return NextResponse.json({ ...item, attachments: sanitizeAttachmentRecord(item.attachments) });
+  const { files, ...entry } = item;
+  return NextResponse.json({ ...entry, attachments: toAttachmentRecord(files) }, { headers: { ETag: entryEtag(entry.version) } });
 }
 
 export async function PUT(req: NextRequest, context: RouteContext) {
   const params = await context.params;
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  const actorId = (session?.user as any)?.id as string | undefined;
-  if (!session || !canWrite(role)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  const access = await requirePermission("entry.update");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
 
-  const before = await prisma.registryEntry.findUnique({ where: { id: params.id } });
+  // Saves must name the version they were made against, so concurrent edits are not overwritten
+  const expectedVersion = parseIfMatch(req.headers.get("if-match"));
+  if (expectedVersion === null) {
+    return NextResponse.json({ error: "An If-Match header with the entry version is required" }, { status: 428 });
+  }
+
+  const before = await prisma.registryEntry.findUnique({ where: { id: params.id }, omit: { attachments: true } });
   if (!before) return NextResponse.json({ error: "Not found" }, { status: 404 });
 
   const body = await req.json();
-  const parsed = EntrySchema.safeParse(body);
+  const documentTypes = await loadDocumentTypes();
+  const parsed = createEntrySchema(documentTypes).safeParse(body);
   if (!parsed.success) return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
   const d = parsed.data;
   
+  const attachments = sanitizeAttachmentRecord(d.attachments);
+  if (before.version !== expectedVersion) return versionConflictResponse(before.id, { ...d, attachments });
+  // Status changes follow the transition rules, so they are made through the transition endpoint
+  if (d.status !== before.status) {
+    return NextResponse.json({ error: "Change the status with a status action on the entry instead of editing it" }, { status: 400 });
+  }
+  
   // Validate file attachments on server side
   try {
-    validateAttachmentRecord(d.attachments || {});
+    validateAttachmentRecord(await resolveAttachmentRecord(attachments), documentTypes, d.status);
   } catch (error) {
     if (error instanceof FileValidationError) {
       return NextResponse.json({ error: error.message }, { status: 400 });
     }
     throw error;
   }
-  
-  const attachments = sanitizeAttachmentRecord(d.attachments);
+
+  // Only edits to the agreement number, branch or form number can introduce a duplicate
+  const conflicts = changesDuplicateFields(before, d) ? await findDuplicateConflicts(d, before.id) : [];
+  if (conflicts.length > 0 && !d.duplicateJustification) {
+    return NextResponse.json({ error: "This agreement may already be registered", conflicts }, { status: 409 });
+  }
+  const duplicateOverride = conflicts.length > 0 ? describeDuplicateOverride(d.duplicateJustification!, conflicts) : undefined;
   
   // Validate that the actor user exists in the database
   let validActorId: string | undefined = undefined;
@@ -100,28 +136,65 @@ export async function PUT(req: NextRequest, context: RouteContext) {
     validActorId = actorExists?.id;
   }
   
-  const updated = await prisma.registryEntry.update({
-    where: { id: params.id },
-    data: {
-      no: d.no, address: d.address, island: d.island, formNumber: d.formNumber,
-      date: new Date(d.date), branch: d.branch, agreementNumber: d.agreementNumber, status: d.status as any,
-      loanAmount: d.loanAmount, dateOfCancelled: d.dateOfCancelled ? new Date(d.dateOfCancelled) : null,
-      dateOfCompleted: d.dateOfCompleted ? new Date(d.dateOfCompleted) : null,
-      attachments,
-      updatedById: validActorId, borrowers: { deleteMany: { registryEntryId: params.id }, create: d.borrowers.map(b => ({ fullName: b.fullName, nationalId: b.nationalId })) }
-    }, include: { borrowers: true }
-  });
-  const diffs = shallowDiff(before, updated);
-  await prisma.auditLog.create({ data: { action: AuditAction.ENTRY_UPDATED, ...(validActorId && { actorId: validActorId }), targetEntryId: updated.id, details: JSON.stringify({ changes: diffs }) } });
-  return NextResponse.json({ ...updated, attachments });
+  let result;
+  try {
+    result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const previous = await readEntrySnapshot(tx, params.id);
+      // Conditional on the version so a save that raced past the check above still conflicts
+      const { count } = await tx.registryEntry.updateMany({
+        where: { id: params.id, version: expectedVersion },
+        data: {
+          no: d.no, address: d.address, island: d.island, formNumber: d.formNumber,
+          date: new Date(d.date), branch: d.branch, agreementNumber: d.agreementNumber, status: d.status as any,
+          loanAmount: d.loanAmount, dateOfCancelled: d.dateOfCancelled ? new Date(d.dateOfCancelled) : null,
+          dateOfCompleted: d.dateOfCompleted ? new Date(d.dateOfCompleted) : null,
+          updatedById: validActorId, version: { increment: 1 },
+        }
+      });
+      if (count === 0) throw new EntryVersionConflictError(expectedVersion);
+      const entry = await tx.registryEntry.findUniqueOrThrow({ where: { id: params.id }, omit: { attachments: true } });
+      const borrowers = await syncEntryBorrowers(tx, entry.id, d.borrowers);
+      const changes = await bindAttachments(tx, entry.id, attachments, validActorId);
+      const saved = await recordEntryRevision(tx, entry.id, "UPDATED", validActorId);
+      // A changed approved entry goes back for review, with the editor as its maker
+      const resubmitted = diffSnapshots(previous.snapshot, saved).length > 0 && (await resubmitChangedEntry(tx, entry, validActorId));
+      // The editor's draft of this entry is now saved
+      if (validActorId) await tx.draft.deleteMany({ where: { entryId: entry.id, ownerId: validActorId } });
+      const files = await tx.attachment.findMany({ where: { entryId: entry.id, supersededAt: null }, select: attachmentSummarySelect });
+      return {
+        updated: { ...entry, ...(resubmitted && { reviewState: "PENDING_REVIEW" as const }), borrowers, attachments: toAttachmentRecord(files) },
+        diffs: describeSnapshotChanges(previous.snapshot, saved),
+        changes,
+      };
+    });
+  } catch (error) {
+    if (error instanceof EntryVersionConflictError) {
+      return versionConflictResponse(params.id, { ...d, attachments });
+    }
+    if (error instanceof AttachmentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  const { updated, diffs, changes } = result;
+
+  // Record version references per slot so the audit trail can link to the file that was replaced
+  const changedSlots = Object.keys(changes);
+  if (changedSlots.length > 0) {
+    diffs.attachments = {
+      from: Object.fromEntries(changedSlots.map((slot) => [slot, changes[slot].from])),
+      to: Object.fromEntries(changedSlots.map((slot) => [slot, changes[slot].to])),
+    };
+  }
+  await prisma.auditLog.create({ data: { action: AuditAction.ENTRY_UPDATED, ...(validActorId && { actorId: validActorId }), targetEntryId: updated.id, details: auditDetails(AuditAction.ENTRY_UPDATED, { changes: diffs, fields: changedFields(diffs), revision: updated.version, ...(duplicateOverride && { duplicateOverride }) }) } });
+  return NextResponse.json(updated, { headers: { ETag: entryEtag(updated.version) } });
 }
 
 export async function DELETE(req: NextRequest, context: RouteContext) {
   const params = await context.params;
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  const actorId = (session?.user as any)?.id as string | undefined;
-  if (!session || !canDelete(role)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  const access = await requirePermission("entry.delete");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
 
   const before = await prisma.registryEntry.findUnique({ where: { id: params.id } });
   if (!before) return NextResponse.json({ error: "Not found" }, { status: 404 });
@@ -145,25 +218,26 @@ export async function DELETE(req: NextRequest, context: RouteContext) {
   }
 
   // Use a transaction to ensure both operations succeed or fail together
-  await prisma.$transaction([
-    prisma.registryEntry.update({ 
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.registryEntry.update({ 
       where: { id: params.id }, 
-      data: { isDeleted: true, deletedAt: new Date() } 
-    }),
-    prisma.auditLog.create({ 
+      data: { isDeleted: true, deletedAt: new Date(), version: { increment: 1 } } 
+    });
+    await recordEntryRevision(tx, params.id, "DELETED", validActorId);
+    await tx.auditLog.create({ 
       data: { 
         action: AuditAction.ENTRY_DELETED, 
         ...(validActorId && { actorId: validActorId }), 
         targetEntryId: params.id, 
-        details: JSON.stringify({ 
+        details: auditDetails(AuditAction.ENTRY_DELETED, { 
           no: before.no, 
           agreementNumber: before.agreementNumber,
           reason: reason,
-          deletedBy: (session?.user as any)?.email || 'Unknown'
+          deletedBy: (access.session.user as any)?.email || 'Unknown'
         }) 
       } 
-    })
-  ]);
+    });
+  });
   
   return NextResponse.json({ ok: true });
 }
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// GET - The entry's status timeline, oldest first
+export async function GET(_: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+
+  const entry = await prisma.registryEntry.findUnique({
+    where: { id: params.id },
+    select: { id: true, isDeleted: true },
+  });
+  if (!entry || (entry.isDeleted && !access.can("entry.restore"))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const history = await prisma.entryStatusChange.findMany({
+    where: { entryId: entry.id },
+    select: {
+      id: true,
+      fromStatus: true,
+      toStatus: true,
+      reason: true,
+      createdAt: true,
+      actor: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return NextResponse.json({ history });
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuditAction, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { EntryTransitionSchema } from "@/lib/validation";
+import { sanitizeAttachmentRecord } from "@/lib/attachments";
+import { validateAttachmentRecord, FileValidationError } from "@/lib/file-validation";
+import { AttachmentError, attachmentSummarySelect, bindAttachments, currentAttachmentsInclude, loadDocumentTypes, resolveAttachmentRecord, toAttachmentRecord } from "@/lib/attachment-store";
+import { borrowersInclude } from "@/lib/people";
+import { EntryVersionConflictError, entryEtag, parseIfMatch } from "@/lib/entry-versions";
+import { StatusTransitionError, checkStatusTransition, statusDateField, transitionDeniedMessage } from "@/lib/entry-status";
+import { recordEntryRevision } from "@/lib/revision-store";
+import { resubmitChangedEntry } from "@/lib/review-store";
+import { auditDetails } from "@/lib/audit-details";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// POST - Move an entry to a new status. Documents the new status requires can be attached in the same request.
+// An If-Match header, when sent, must name the current entry version.
+export async function POST(req: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission(["entry.update", "entry.reopen"]);
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const parsed = EntryTransitionSchema.safeParse(await req.json());
+  if (!parsed.success) return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  const { to, reason, date } = parsed.data;
+
+  const entry = await prisma.registryEntry.findFirst({
+    where: { id: params.id, isDeleted: false },
+    include: { files: currentAttachmentsInclude },
+    omit: { attachments: true },
+  });
+  if (!entry) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const expectedVersion = parseIfMatch(req.headers.get("if-match"));
+  if (expectedVersion !== null && expectedVersion !== entry.version) {
+    return NextResponse.json({ error: "This entry was changed by someone else. Reload it and try again." }, { status: 409 });
+  }
+
+  let transition;
+  try {
+    transition = checkStatusTransition(entry.status, to, reason);
+  } catch (error) {
+    if (error instanceof StatusTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  if (!access.can(transition.permission)) {
+    return NextResponse.json({ error: transitionDeniedMessage(transition) }, { status: 403 });
+  }
+
+  // The entry must hold every document the new status requires once the uploads are bound
+  const uploads = sanitizeAttachmentRecord(parsed.data.attachments);
+  const documentTypes = await loadDocumentTypes();
+  try {
+    validateAttachmentRecord(await resolveAttachmentRecord({ ...toAttachmentRecord(entry.files), ...uploads }), documentTypes, to);
+  } catch (error) {
+    if (error instanceof FileValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  // Validate that the actor user exists in the database
+  let validActorId: string | undefined = undefined;
+  if (actorId) {
+    const actorExists = await prisma.user.findUnique({
+      where: { id: actorId },
+      select: { id: true }
+    });
+    validActorId = actorExists?.id;
+  }
+
+  const effectiveDate = date ? new Date(date) : new Date();
+  const dateField = statusDateField(to);
+  let updated;
+  try {
+    updated = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const { count } = await tx.registryEntry.updateMany({
+        where: { id: entry.id, version: entry.version, status: entry.status },
+        data: {
+          status: to,
+          dateOfCancelled: dateField === "dateOfCancelled" ? effectiveDate : null,
+          dateOfCompleted: dateField === "dateOfCompleted" ? effectiveDate : null,
+          updatedById: validActorId,
+          version: { increment: 1 },
+        },
+      });
+      if (count === 0) throw new EntryVersionConflictError(entry.version);
+      await bindAttachments(tx, entry.id, uploads, validActorId);
+      await tx.entryStatusChange.create({
+        data: { entryId: entry.id, fromStatus: entry.status, toStatus: to, reason: reason || null, actorId: validActorId },
+      });
+      await recordEntryRevision(tx, entry.id, "STATUS_CHANGED", validActorId);
+      await resubmitChangedEntry(tx, entry, validActorId);
+      const saved = await tx.registryEntry.findUniqueOrThrow({
+        where: { id: entry.id },
+        include: { borrowers: borrowersInclude },
+        omit: { attachments: true },
+      });
+      const files = await tx.attachment.findMany({ where: { entryId: entry.id, supersededAt: null }, select: attachmentSummarySelect });
+      return { ...saved, attachments: toAttachmentRecord(files) };
+    });
+  } catch (error) {
+    if (error instanceof EntryVersionConflictError) {
+      return NextResponse.json({ error: "This entry was changed by someone else. Reload it and try again." }, { status: 409 });
+    }
+    if (error instanceof AttachmentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      action: AuditAction.ENTRY_STATUS_CHANGED,
+      ...(validActorId && { actorId: validActorId }),
+      targetEntryId: entry.id,
+      details: auditDetails(AuditAction.ENTRY_STATUS_CHANGED, {
+        no: entry.no,
+        from: entry.status,
+        to,
+        ...(reason && { reason }),
+        ...(dateField && { [dateField]: effectiveDate.toISOString() }),
+        ...(Object.keys(uploads).length > 0 && { documents: Object.keys(uploads) }),
+      }),
+    },
+  });
+
+  return NextResponse.json(updated, { headers: { ETag: entryEtag(updated.version) } });
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { format as formatDate } from "date-fns";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { BulkEntryActionSchema } from "@/lib/validation";
+import { EntryVersionConflictError } from "@/lib/entry-versions";
+import { BulkEntryError, buildSelectionCsv, deleteEntries, reassignBranch, transitionEntries } from "@/lib/entry-bulk";
+
+// POST - Apply one action to a selection of entries: TRANSITION to a status, DELETE
+// with a shared reason, REASSIGN_BRANCH, or EXPORT as CSV. Changes apply to every
+// selected entry or to none.
+export async function POST(req: NextRequest) {
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const parsed = BulkEntryActionSchema.safeParse(await req.json());
+  if (!parsed.success) return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  const input = parsed.data;
+
+  // Each transition's own permission is checked entry by entry
+  const allowed = access.can(
+    input.action === "EXPORT"
+      ? "report.export"
+      : input.action === "DELETE"
+      ? "entry.delete"
+      : input.action === "TRANSITION"
+      ? ["entry.update", "entry.reopen"]
+      : "entry.update"
+  );
+  if (!allowed) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+  try {
+    if (input.action === "EXPORT") {
+      return new NextResponse(await buildSelectionCsv(input.ids), {
+        status: 200,
+        headers: {
+          "Content-Type": "text/csv",
+          "Content-Disposition": `attachment; filename="entries-${formatDate(new Date(), "yyyyMMdd-HHmm")}.csv"`,
+        },
+      });
+    }
+
+    // Validate that the actor user exists in the database
+    let validActorId: string | undefined = undefined;
+    if (actorId) {
+      const actorExists = await prisma.user.findUnique({
+        where: { id: actorId },
+        select: { id: true }
+      });
+      validActorId = actorExists?.id;
+    }
+    const actor = { id: validActorId, permissions: access.permissions, email: (access.session.user as any)?.email };
+
+    const affected =
+      input.action === "TRANSITION"
+        ? await transitionEntries(input.ids, input, actor)
+        : input.action === "DELETE"
+        ? await deleteEntries(input.ids, input.reason, actor)
+        : await reassignBranch(input.ids, input.branch, actor);
+    return NextResponse.json({ action: input.action, affected });
+  } catch (error) {
+    if (error instanceof BulkEntryError) {
+      return NextResponse.json({ error: error.message, failures: error.failures }, { status: 409 });
+    }
+    if (error instanceof EntryVersionConflictError) {
+      return NextResponse.json(
+        { error: "Some of the selected entries were changed by someone else. Reload the list and try again." },
+        { status: 409 }
+      );
+    }
+    throw error;
+  }
+}
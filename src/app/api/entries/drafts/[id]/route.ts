@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { DraftSaveSchema } from "@/lib/validation";
+import { MAX_DRAFT_PAYLOAD_SIZE, draftAttachmentIds, draftListSelect, draftSummary } from "@/lib/drafts";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// GET - A draft with its saved form contents, for resuming it; only its owner can open it
+export async function GET(_: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission(["entry.create", "entry.update"]);
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+  if (!actorId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const draft = await prisma.draft.findUnique({
+    where: { id: params.id },
+    select: { ...draftListSelect, ownerId: true, payload: true },
+  });
+  if (!draft || draft.ownerId !== actorId) {
+    return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ draft });
+}
+
+// PUT - Replace a draft's form contents
+export async function PUT(req: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission(["entry.create", "entry.update"]);
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+  if (!actorId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  const parsed = DraftSaveSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  }
+  const { payload } = parsed.data;
+  if (JSON.stringify(payload).length > MAX_DRAFT_PAYLOAD_SIZE) {
+    return NextResponse.json({ error: "Draft is too large to save" }, { status: 413 });
+  }
+
+  const draft = await prisma.draft.findUnique({ where: { id: params.id }, select: { ownerId: true } });
+  if (!draft || draft.ownerId !== actorId) {
+    return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+  }
+
+  const updated = await prisma.draft.update({
+    where: { id: params.id },
+    data: { payload: payload as any, summary: draftSummary(payload), attachmentIds: draftAttachmentIds(payload) },
+    select: draftListSelect,
+  });
+
+  return NextResponse.json({ draft: updated });
+}
+
+// DELETE - Discard a draft. Uploads only it referred to are purged with other stale uploads.
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission(["entry.create", "entry.update"]);
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+  if (!actorId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { count } = await prisma.draft.deleteMany({ where: { id: params.id, ownerId: actorId } });
+  if (count === 0) {
+    return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { DraftSaveSchema } from "@/lib/validation";
+import { MAX_DRAFTS_PER_USER, MAX_DRAFT_PAYLOAD_SIZE, draftAttachmentIds, draftListSelect, draftSummary } from "@/lib/drafts";
+
+// GET - The user's drafts, most recently saved first; ?entryId= for drafts of one entry
+export async function GET(req: NextRequest) {
+  const access = await requirePermission(["entry.create", "entry.update"]);
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+  if (!actorId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { searchParams } = new URL(req.url);
+  const entryId = searchParams.get("entryId") || undefined;
+
+  const drafts = await prisma.draft.findMany({
+    where: { ownerId: actorId, ...(entryId && { entryId }) },
+    select: draftListSelect,
+    orderBy: { updatedAt: "desc" },
+  });
+
+  return NextResponse.json({ drafts });
+}
+
+// POST - Start a draft. Drafts of an existing entry replace the user's earlier draft of it.
+export async function POST(req: NextRequest) {
+  const access = await requirePermission(["entry.create", "entry.update"]);
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  // Drafts belong to a user, so the actor must exist in the database
+  const actor = actorId
+    ? await prisma.user.findUnique({ where: { id: actorId }, select: { id: true } })
+    : null;
+  if (!actor) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = DraftSaveSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  }
+  const { entryId, payload } = parsed.data;
+  if (JSON.stringify(payload).length > MAX_DRAFT_PAYLOAD_SIZE) {
+    return NextResponse.json({ error: "Draft is too large to save" }, { status: 413 });
+  }
+
+  if (entryId) {
+    const entry = await prisma.registryEntry.findFirst({ where: { id: entryId, isDeleted: false }, select: { id: true } });
+    if (!entry) return NextResponse.json({ error: "Entry not found" }, { status: 404 });
+  }
+
+  const existing = entryId
+    ? await prisma.draft.findUnique({ where: { ownerId_entryId: { ownerId: actor.id, entryId } }, select: { id: true } })
+    : null;
+  if (!existing && (await prisma.draft.count({ where: { ownerId: actor.id } })) >= MAX_DRAFTS_PER_USER) {
+    return NextResponse.json(
+      { error: `You have ${MAX_DRAFTS_PER_USER} drafts already. Finish or discard some before starting another.` },
+      { status: 409 }
+    );
+  }
+
+  const data = { payload: payload as any, summary: draftSummary(payload), attachmentIds: draftAttachmentIds(payload) };
+  const draft = existing
+    ? await prisma.draft.update({ where: { id: existing.id }, data, select: draftListSelect })
+    : await prisma.draft.create({ data: { ...data, ownerId: actor.id, entryId: entryId ?? null }, select: draftListSelect });
+
+  return NextResponse.json({ draft }, { status: existing ? 200 : 201 });
+}
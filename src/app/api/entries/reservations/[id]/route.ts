@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { ReservationError, voidReservation } from "@/lib/reservations";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// DELETE - Void a reservation the user no longer needs
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("entry.create");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  const actor = actorId
+    ? await prisma.user.findUnique({ where: { id: actorId }, select: { id: true } })
+    : null;
+  if (!actor) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const reservation = await voidReservation(params.id, actor.id, access.can("reservation.manage"));
+    return NextResponse.json({ ok: true, reservation: { id: reservation.id, no: reservation.no, status: reservation.status } });
+  } catch (error) {
+    if (error instanceof ReservationError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { getReservationTtlMinutes, reserveRegistryNumber } from "@/lib/reservations";
+import { SequenceError } from "@/lib/sequence";
+
+// POST - Reserve (or renew) a registry number for the signed-in user
+export async function POST() {
+  const access = await requirePermission("entry.create");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  // Reservations are held per user, so the actor must exist in the database
+  const actor = actorId
+    ? await prisma.user.findUnique({ where: { id: actorId }, select: { id: true } })
+    : null;
+  if (!actor) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const reservation = await reserveRegistryNumber(actor.id);
+    return NextResponse.json({
+      reservation: {
+        id: reservation.id,
+        no: reservation.no,
+        expiresAt: reservation.expiresAt,
+        ttlMinutes: getReservationTtlMinutes(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof SequenceError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    throw error;
+  }
+}
@@ -1,23 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { EntrySchema } from "@/lib/validation";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/auth/options";
-import { canRead, canWrite } from "@/lib/rbac";
+import { createEntrySchema } from "@/lib/validation";
+import { requirePermission } from "@/lib/rbac";
 import { AuditAction, Prisma } from "@prisma/client";
 import { sanitizeAttachmentRecord } from "@/lib/attachments";
 import { validateAttachmentRecord, FileValidationError } from "@/lib/file-validation";
+import { AttachmentError, attachmentSummarySelect, currentAttachmentsInclude, bindAttachments, loadDocumentTypes, resolveAttachmentRecord, toAttachmentRecord } from "@/lib/attachment-store";
+import { allocateRegistryNumber, SequenceError } from "@/lib/sequence";
+import { consumeReservation, ReservationError } from "@/lib/reservations";
+import { buildEntrySnippet, findEntryMatches } from "@/lib/search";
+import { borrowersInclude, syncEntryBorrowers } from "@/lib/people";
+import { describeDuplicateOverride, findDuplicateConflicts } from "@/lib/duplicates";
+import { recordEntryRevision } from "@/lib/revision-store";
+import { auditDetails } from "@/lib/audit-details";
 
 export async function GET(req: NextRequest) {
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  if (!session || !canRead(role)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
 
   const { searchParams } = new URL(req.url);
   const query = searchParams.get("query") || undefined;
   const status = searchParams.get("status") || undefined;
   const island = searchParams.get("island") || undefined;
   const branch = searchParams.get("branch") || undefined;
+  const review = searchParams.get("review") || undefined;
   const startDateParam = searchParams.get("startDate") || undefined;
   const endDateParam = searchParams.get("endDate") || undefined;
   const minAmountParam = searchParams.get("minAmount") || undefined;
@@ -29,6 +35,7 @@ export async function GET(req: NextRequest) {
   if (status) where.status = status;
   if (island) where.island = island;
   if (branch) where.branch = branch;
+  if (review) where.reviewState = review;
 
   const toNumber = (value?: string) => {
     if (!value) return undefined;
@@ -59,66 +66,38 @@ export async function GET(req: NextRequest) {
     if (startDate) where.date.gte = startDate;
     if (endDate) where.date.lte = endDate;
   }
-  if (query) {
-    const trimmedQuery = query.trim();
-    const tokens = trimmedQuery.split(/\s+/).filter(Boolean);
-    const normalizedId = trimmedQuery.replace(/\s+/g, "");
-
-    const borrowerNameCondition = tokens.length > 1
-      ? {
-          borrowers: {
-            some: {
-              AND: tokens.map((token) => ({
-                fullName: {
-                  contains: token,
-                },
-              })),
-            },
-          },
-        }
-      : {
-          borrowers: {
-            some: {
-              fullName: {
-                contains: trimmedQuery,
-              },
-            },
-          },
-        };
-
-    const orConditions: any[] = [
-      {
-        no: {
-          contains: trimmedQuery,
-        },
+  // Search hits in rank order; the other filters narrow them down below
+  const hits = query ? await findEntryMatches(query) : null;
+  if (hits) where.id = { in: hits.map((hit) => hit.id) };
+
+  const findPage = async (): Promise<[any[], number]> => {
+    const include = {
+      borrowers: borrowersInclude,
+      files: currentAttachmentsInclude,
+      createdBy: { select: { id: true, name: true, email: true } },
+      // Latest review step, for the review queue
+      reviews: {
+        select: { decision: true, comment: true, createdAt: true, actor: { select: { id: true, name: true, email: true } } },
+        orderBy: { createdAt: "desc" as const },
+        take: 1,
       },
-      {
-        agreementNumber: {
-          contains: trimmedQuery,
-        },
-      },
-      {
-        address: {
-          contains: trimmedQuery,
-        },
-      },
-      borrowerNameCondition,
-      {
-        borrowers: {
-          some: {
-            nationalId: {
-              contains: normalizedId,
-            },
-          },
-        },
-      },
-    ];
+    };
+    if (!hits) {
+      return Promise.all([
+        prisma.registryEntry.findMany({ where, include, omit: { attachments: true }, orderBy: { createdAt: "desc" }, skip: (page - 1) * size, take: size }),
+        prisma.registryEntry.count({ where }),
+      ]);
+    }
+    const matching = new Set((await prisma.registryEntry.findMany({ where, select: { id: true } })).map((entry: any) => entry.id));
+    const ids = hits.map((hit) => hit.id).filter((id) => matching.has(id));
+    const pageIds = ids.slice((page - 1) * size, page * size);
+    const pageEntries = await prisma.registryEntry.findMany({ where: { id: { in: pageIds } }, include, omit: { attachments: true } });
+    const byId = new Map(pageEntries.map((entry: any) => [entry.id, entry]));
+    return [pageIds.map((id) => byId.get(id)).filter(Boolean), ids.length];
+  };
 
-    where.OR = orConditions;
-  }
-  const [entries, total, islands, branches] = await Promise.all([
-    prisma.registryEntry.findMany({ where, include: { borrowers: true }, orderBy: { createdAt: "desc" }, skip: (page - 1) * size, take: size }),
-    prisma.registryEntry.count({ where }),
+  const [[entries, total], islands, branches] = await Promise.all([
+    findPage(),
     prisma.registryEntry.findMany({
       where: { isDeleted: false },
       select: { island: true },
@@ -133,7 +112,11 @@ export async function GET(req: NextRequest) {
     }),
   ]);
 
-  const items = entries.map((entry: any) => ({ ...entry, attachments: sanitizeAttachmentRecord(entry.attachments) }));
+  const items = entries.map(({ files, ...entry }: any) => ({
+    ...entry,
+    attachments: toAttachmentRecord(files),
+    ...(query && { snippet: buildEntrySnippet(entry, query) }),
+  }));
 
   const filters = {
     islands: islands
@@ -148,27 +131,34 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-  const actorId = (session?.user as any)?.id as string | undefined;
-  if (!session || !canWrite(role)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  const access = await requirePermission("entry.create");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
 
   const body = await req.json();
-  const parsed = EntrySchema.safeParse(body);
+  const documentTypes = await loadDocumentTypes();
+  const parsed = createEntrySchema(documentTypes).safeParse(body);
   if (!parsed.success) return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
   const data = parsed.data;
   
+  const attachments = sanitizeAttachmentRecord(data.attachments);
+  
   // Validate file attachments on server side
   try {
-    validateAttachmentRecord(data.attachments || {});
+    validateAttachmentRecord(await resolveAttachmentRecord(attachments), documentTypes, data.status);
   } catch (error) {
     if (error instanceof FileValidationError) {
       return NextResponse.json({ error: error.message }, { status: 400 });
     }
     throw error;
   }
-  
-  const attachments = sanitizeAttachmentRecord(data.attachments);
+
+  // Saving a suspected duplicate needs a justification, which is kept in the audit trail
+  const conflicts = await findDuplicateConflicts(data);
+  if (conflicts.length > 0 && !data.duplicateJustification) {
+    return NextResponse.json({ error: "This agreement may already be registered", conflicts }, { status: 409 });
+  }
+  const duplicateOverride = conflicts.length > 0 ? describeDuplicateOverride(data.duplicateJustification!, conflicts) : undefined;
   
   // Validate that the actor user exists in the database
   let validActorId: string | undefined = undefined;
@@ -180,46 +170,49 @@ export async function POST(req: NextRequest) {
     validActorId = actorExists?.id;
   }
   
-  // Auto-generate the next registry number in format RGSTXXX/YYYY
-  const currentYear = new Date().getFullYear();
-  const yearSuffix = currentYear.toString();
-  
-  // Find all entries for the current year
-  const yearPattern = `%/${yearSuffix}`;
-  const entriesThisYear = await prisma.registryEntry.findMany({
-    where: {
-      no: {
-        endsWith: `/${yearSuffix}`
+  // Use the number the clerk reserved when opening the form, or allocate one from the
+  // sequence counter in the same transaction as the insert so numbers never collide
+  let created;
+  try {
+    created = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const no = data.reservationId
+        ? await consumeReservation(tx, data.reservationId, validActorId)
+        : (await allocateRegistryNumber(tx)).no;
+      const entry = await tx.registryEntry.create({
+        data: {
+          no, address: data.address, island: data.island, formNumber: data.formNumber,
+          date: new Date(data.date), branch: data.branch, agreementNumber: data.agreementNumber, status: data.status as any,
+          loanAmount: data.loanAmount,
+          dateOfCancelled: data.dateOfCancelled ? new Date(data.dateOfCancelled) : null,
+          dateOfCompleted: data.dateOfCompleted ? new Date(data.dateOfCompleted) : null,
+          createdById: validActorId,
+        }, omit: { attachments: true }
+      });
+      const borrowers = await syncEntryBorrowers(tx, entry.id, data.borrowers);
+      await tx.entryStatusChange.create({ data: { entryId: entry.id, toStatus: entry.status, actorId: validActorId } });
+      // Recording an entry submits it for review by someone else
+      await tx.entryReview.create({ data: { entryId: entry.id, decision: "SUBMITTED", actorId: validActorId } });
+      if (data.reservationId) {
+        await tx.numberReservation.update({ where: { id: data.reservationId }, data: { entryId: entry.id } });
       }
-    },
-    select: { no: true },
-    orderBy: { no: 'desc' }
-  });
-  
-  // Extract the sequence number from the last entry
-  let nextSequence = 1;
-  if (entriesThisYear.length > 0) {
-    const lastNo = entriesThisYear[0].no;
-    const match = lastNo.match(/^RGST(\d{3})\//);
-    if (match) {
-      nextSequence = parseInt(match[1], 10) + 1;
+      if (data.draftId && validActorId) {
+        await tx.draft.deleteMany({ where: { id: data.draftId, ownerId: validActorId } });
+      }
+      await bindAttachments(tx, entry.id, attachments, validActorId);
+      await recordEntryRevision(tx, entry.id, "CREATED", validActorId);
+      const files = await tx.attachment.findMany({ where: { entryId: entry.id, supersededAt: null }, select: attachmentSummarySelect });
+      return { ...entry, borrowers, attachments: toAttachmentRecord(files) };
+    });
+  } catch (error) {
+    if (error instanceof SequenceError || error instanceof ReservationError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
     }
+    if (error instanceof AttachmentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
   }
-  
-  // Format: RGST001/2025
-  const nextNo = `RGST${nextSequence.toString().padStart(3, '0')}/${yearSuffix}`;
-  
-  const created = await prisma.registryEntry.create({
-    data: {
-      no: nextNo, address: data.address, island: data.island, formNumber: data.formNumber,
-      date: new Date(data.date), branch: data.branch, agreementNumber: data.agreementNumber, status: data.status as any,
-      loanAmount: data.loanAmount,
-      dateOfCancelled: data.dateOfCancelled ? new Date(data.dateOfCancelled) : null,
-      dateOfCompleted: data.dateOfCompleted ? new Date(data.dateOfCompleted) : null,
-      attachments,
-      createdById: validActorId, borrowers: { create: data.borrowers.map(b => ({ fullName: b.fullName, nationalId: b.nationalId })) }
-    }, include: { borrowers: true }
-  });
-  await prisma.auditLog.create({ data: { action: AuditAction.ENTRY_CREATED, ...(validActorId && { actorId: validActorId }), targetEntryId: created.id, details: JSON.stringify({ agreementNumber: created.agreementNumber, loanAmount: created.loanAmount.toString(), borrowersCount: created.borrowers.length }) } });
-  return NextResponse.json({ ...created, attachments }, { status: 201 });
+  await prisma.auditLog.create({ data: { action: AuditAction.ENTRY_CREATED, ...(validActorId && { actorId: validActorId }), targetEntryId: created.id, details: auditDetails(AuditAction.ENTRY_CREATED, { no: created.no, agreementNumber: created.agreementNumber, loanAmount: created.loanAmount.toString(), borrowersCount: created.borrowers.length, ...(data.reservationId && { reservationId: data.reservationId }), ...(duplicateOverride && { duplicateOverride }) }) } });
+  await prisma.auditLog.create({ data: { action: AuditAction.ENTRY_SUBMITTED_FOR_REVIEW, ...(validActorId && { actorId: validActorId }), targetEntryId: created.id, details: auditDetails(AuditAction.ENTRY_SUBMITTED_FOR_REVIEW, { no: created.no, from: null, to: created.reviewState }) } });
+  return NextResponse.json(created, { status: 201 });
 }
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { SavedViewUpdateSchema } from "@/lib/validation";
+import { normalizeFilterQuery } from "@/lib/entry-filters";
+import { savedViewSelect } from "@/lib/saved-views";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// PATCH - Rename, re-filter, share or pin a view; only its owner can change it
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+  if (!actorId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  const parsed = SavedViewUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const view = await prisma.savedView.findUnique({ where: { id: params.id }, select: { ownerId: true } });
+  if (!view) {
+    return NextResponse.json({ error: "Saved view not found" }, { status: 404 });
+  }
+  if (view.ownerId !== actorId) {
+    return NextResponse.json({ error: "Only the owner can change this view" }, { status: 403 });
+  }
+
+  const { name, query, ...flags } = parsed.data;
+  if (name) {
+    const duplicate = await prisma.savedView.findFirst({
+      where: { ownerId: actorId, name, id: { not: params.id } },
+      select: { id: true },
+    });
+    if (duplicate) {
+      return NextResponse.json({ error: "You already have a view with this name" }, { status: 409 });
+    }
+  }
+
+  const updated = await prisma.savedView.update({
+    where: { id: params.id },
+    data: {
+      ...flags,
+      ...(name && { name }),
+      ...(query !== undefined && { query: normalizeFilterQuery(query) }),
+    },
+    select: savedViewSelect,
+  });
+
+  return NextResponse.json({ view: { ...updated, isOwner: true } });
+}
+
+// DELETE - Remove a view; admins can also remove views shared with the team
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  const params = await context.params;
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+  if (!actorId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const view = await prisma.savedView.findUnique({ where: { id: params.id }, select: { ownerId: true, shared: true } });
+  if (!view) {
+    return NextResponse.json({ error: "Saved view not found" }, { status: 404 });
+  }
+  if (view.ownerId !== actorId && !(view.shared && access.can("view.manage"))) {
+    return NextResponse.json({ error: "Only the owner can delete this view" }, { status: 403 });
+  }
+
+  await prisma.savedView.delete({ where: { id: params.id } });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { SavedViewCreateSchema } from "@/lib/validation";
+import { normalizeFilterQuery } from "@/lib/entry-filters";
+import { savedViewSelect } from "@/lib/saved-views";
+
+// GET - The user's own views and views shared with the team; ?pinned=true for sidebar views
+export async function GET(req: NextRequest) {
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+  if (!actorId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { searchParams } = new URL(req.url);
+  const pinnedOnly = searchParams.get("pinned") === "true";
+
+  const views = await prisma.savedView.findMany({
+    where: {
+      OR: [{ ownerId: actorId }, { shared: true }],
+      ...(pinnedOnly && { pinned: true }),
+    },
+    select: savedViewSelect,
+    orderBy: [{ pinned: "desc" }, { name: "asc" }],
+  });
+
+  return NextResponse.json({
+    views: views.map((view: any) => ({ ...view, isOwner: view.ownerId === actorId })),
+  });
+}
+
+// POST - Save the current entries filters as a view
+export async function POST(req: NextRequest) {
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+  const { actorId } = access;
+
+  // Views belong to a user, so the actor must exist in the database
+  const actor = actorId
+    ? await prisma.user.findUnique({ where: { id: actorId }, select: { id: true } })
+    : null;
+  if (!actor) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = SavedViewCreateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ errors: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const existing = await prisma.savedView.findUnique({
+    where: { ownerId_name: { ownerId: actor.id, name: parsed.data.name } },
+    select: { id: true },
+  });
+  if (existing) {
+    return NextResponse.json({ error: "You already have a view with this name" }, { status: 409 });
+  }
+
+  const view = await prisma.savedView.create({
+    data: {
+      ...parsed.data,
+      query: normalizeFilterQuery(parsed.data.query),
+      ownerId: actor.id,
+    },
+    select: savedViewSelect,
+  });
+
+  return NextResponse.json({ view: { ...view, isOwner: true } }, { status: 201 });
+}
@@ -1,17 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
 
-import { authOptions } from "@/auth/options";
-import { canRead } from "@/lib/rbac";
+import { requirePermission } from "@/lib/rbac";
 import { buildReportFile, normalizeFilters, reportRequestSchema } from "@/lib/reports";
 
 export async function POST(request: NextRequest) {
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
-
-  if (!session || !canRead(role)) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const access = await requirePermission("report.export");
+  if (access instanceof NextResponse) return access;
 
   let rawBody: unknown;
   try {
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission } from "@/lib/rbac";
+import { buildEntrySnippet, findEntryMatches } from "@/lib/search";
+
+export async function GET(req: NextRequest) {
+  const access = await requirePermission("entry.read");
+  if (access instanceof NextResponse) return access;
+
+  const { searchParams } = new URL(req.url);
+  const q = searchParams.get("q")?.trim() || "";
+  const limitParam = Number(searchParams.get("limit") || 10);
+  const limit = Number.isFinite(limitParam) ? Math.min(50, Math.max(1, Math.floor(limitParam))) : 10;
+  if (!q) return NextResponse.json({ results: [] });
+
+  const hits = await findEntryMatches(q, limit);
+  const entries = await prisma.registryEntry.findMany({
+    where: { id: { in: hits.map((hit) => hit.id) } },
+    select: {
+      id: true,
+      no: true,
+      agreementNumber: true,
+      status: true,
+      island: true,
+      address: true,
+      borrowers: { select: { fullName: true, nationalId: true } },
+    },
+  });
+  const byId = new Map(entries.map((entry: any) => [entry.id, entry]));
+
+  const results = hits
+    .filter((hit) => byId.has(hit.id))
+    .map((hit) => {
+      const { address, ...entry } = byId.get(hit.id) as any;
+      return { ...entry, rank: hit.rank, snippet: buildEntrySnippet({ ...entry, address }, q) };
+    });
+
+  return NextResponse.json({ results });
+}
@@ -0,0 +1,142 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { BORROWER_ROLE_LABELS } from '@/lib/borrowers';
+import { NATIONAL_ID_TYPE_LABELS } from '@/lib/national-id';
+import { STATUS_LABELS } from '@/lib/document-types';
+import { REVIEW_STATE_LABELS } from '@/lib/entry-review';
+import { getPersonProfile } from '@/lib/people';
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+};
+
+const statusStyles: Record<string, string> = {
+  ONGOING: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-500/10 dark:text-emerald-400',
+  COMPLETED: 'bg-sky-100 text-sky-700 dark:bg-sky-500/10 dark:text-sky-400',
+  CANCELLED: 'bg-rose-100 text-rose-700 dark:bg-rose-500/10 dark:text-rose-400',
+};
+
+const formatCurrency = (value: string) =>
+  Number(value).toLocaleString('en-MV', { style: 'currency', currency: 'MVR', minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export default async function BorrowerProfilePage(props: PageProps) {
+  const params = await props.params;
+  const profile = await getPersonProfile(params.id);
+
+  if (!profile) {
+    notFound();
+  }
+
+  const { person, aliases, agreements, exposure } = profile;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-semibold text-foreground">{person.fullName}</h1>
+        <p className="text-sm text-muted-foreground">
+          {NATIONAL_ID_TYPE_LABELS[person.idType]} <span className="font-medium text-foreground">{person.nationalId}</span>
+          {aliases.length > 0 ? <> · Also recorded as {aliases.join(', ')}</> : null}
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total exposure</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(exposure.total)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            Across {exposure.activeAgreements} active agreement{exposure.activeAgreements === 1 ? '' : 's'}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>As borrower</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(exposure.asBorrower)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">Primary and co-borrower on active agreements</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>As guarantor</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(exposure.asGuarantor)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">Active agreements guaranteed</CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="border-b border-border/60">
+          <CardTitle className="text-xl text-foreground">Agreements</CardTitle>
+          <CardDescription>Every registry entry this person is party to, most recent first.</CardDescription>
+        </CardHeader>
+        <CardContent className="px-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-32">No</TableHead>
+                <TableHead>Agreement</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Other parties</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Loan amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {agreements.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="py-10 text-center text-sm text-muted-foreground">
+                    No agreements on record.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                agreements.map((agreement) => (
+                  <TableRow key={agreement.id}>
+                    <TableCell className="text-muted-foreground">{agreement.no}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link href={`/entries/${agreement.id}/edit`} className="hover:underline">
+                        {agreement.agreementNumber}
+                      </Link>
+                      <p className="text-xs font-normal text-muted-foreground">
+                        {agreement.branch} · {agreement.island}
+                      </p>
+                    </TableCell>
+                    <TableCell>{BORROWER_ROLE_LABELS[agreement.role]}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {agreement.coParties.length === 0
+                        ? '—'
+                        : agreement.coParties.map((party, index) => (
+                            <span key={party.personId}>
+                              {index > 0 ? ', ' : null}
+                              <Link href={`/borrowers/${party.personId}`} className="hover:underline">
+                                {party.fullName}
+                              </Link>
+                            </span>
+                          ))}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={cn('border-0 font-medium', statusStyles[agreement.status])}>
+                        {STATUS_LABELS[agreement.status]}
+                      </Badge>
+                      {agreement.reviewState !== 'APPROVED' ? (
+                        <span className="block text-xs text-muted-foreground">{REVIEW_STATE_LABELS[agreement.reviewState]}</span>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{format(agreement.date, 'd MMM yyyy')}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(agreement.loanAmount)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,9 +1,7 @@
 import Link from "next/link";
-import { getServerSession } from "next-auth";
 import { Status } from "@prisma/client";
 
-import { authOptions } from "@/auth/options";
-import { canRead, canWrite, type Role } from "@/lib/rbac";
+import { getAccess } from "@/lib/rbac";
 import { fetchSummary } from "@/lib/reports";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
@@ -62,10 +60,9 @@ const statusBadgeStyles: Record<Status, string> = {
 const allStatuses: Status[] = ["ONGOING", "COMPLETED", "CANCELLED"];
 
 export default async function Page() {
-  const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role as Role | undefined;
+  const access = await getAccess();
 
-  if (!session || !canRead(role)) {
+  if (!access?.can("entry.read")) {
     return (
       <div className="space-y-6">
         <div className="rounded-xl border border-destructive/30 bg-destructive/10 p-6 text-sm text-destructive">
@@ -128,7 +125,7 @@ export default async function Page() {
               </KbdGroup>
             </Link>
           </Button>
-          {canWrite(role) ? (
+          {access.can("entry.create") ? (
             <Button asChild className="gap-2">
               <Link href="/entries/new">
                 <PlusCircle className="h-4 w-4" />
@@ -360,7 +357,7 @@ export default async function Page() {
                 Go to entries
               </Link>
             </Button>
-            {canWrite(role) ? (
+            {access.can("entry.create") ? (
               <Button asChild>
                 <Link href="/entries/new">
                   <PlusCircle className="h-4 w-4" />
@@ -1,22 +1,28 @@
 import { notFound } from 'next/navigation';
 import EntryForm from '@/components/EntryForm';
 import { prisma } from '@/lib/db';
+import { currentAttachmentsInclude, toAttachmentRecord } from '@/lib/attachment-store';
+import { borrowersInclude } from '@/lib/people';
+import type { BorrowerRole } from '@/lib/borrowers';
+import type { NationalIdType } from '@/lib/national-id';
 
 type PageProps = {
   params: Promise<{ id: string }>;
+  searchParams: Promise<{ draft?: string }>;
 };
 
 export default async function EditEntry(props: PageProps) {
   const params = await props.params;
+  const { draft } = await props.searchParams;
   
   // Prefetch entry data on the server for faster page loads
   const entry = await prisma.registryEntry.findUnique({
     where: { id: params.id },
     include: {
-      borrowers: {
-        orderBy: { fullName: 'asc' },
-      },
+      borrowers: borrowersInclude,
+      files: currentAttachmentsInclude,
     },
+    omit: { attachments: true },
   });
 
   if (!entry) {
@@ -26,6 +32,7 @@ export default async function EditEntry(props: PageProps) {
   // Transform data for the form
   const initialData = {
     id: entry.id,
+    version: entry.version,
     no: entry.no ?? 0,
     address: entry.address ?? '',
     island: entry.island ?? '',
@@ -38,13 +45,15 @@ export default async function EditEntry(props: PageProps) {
     dateOfCancelled: entry.dateOfCancelled ? entry.dateOfCancelled.toISOString().slice(0, 10) : null,
     dateOfCompleted: entry.dateOfCompleted ? entry.dateOfCompleted.toISOString().slice(0, 10) : null,
     borrowers: entry.borrowers.length > 0
-      ? entry.borrowers.map((borrower: { fullName: string; nationalId: string }) => ({
+      ? entry.borrowers.map((borrower: { fullName: string; nationalId: string; idType: NationalIdType; role: BorrowerRole }) => ({
           fullName: borrower.fullName ?? '',
           nationalId: borrower.nationalId ?? '',
+          idType: borrower.idType,
+          role: borrower.role,
         }))
-      : [{ fullName: '', nationalId: '' }],
-    attachments: entry.attachments || null,
+      : [{ fullName: '', nationalId: '', idType: 'MALDIVIAN_ID' as const, role: 'PRIMARY' as const }],
+    attachments: toAttachmentRecord(entry.files),
   };
 
-  return <EntryForm mode="edit" id={params.id} initialData={initialData} />;
+  return <EntryForm mode="edit" id={params.id} initialData={initialData} draftId={draft} key={draft ?? params.id} />;
 }
@@ -0,0 +1,339 @@
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import useSWR from 'swr';
+import { format } from 'date-fns';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import {
+  REVISION_FIELDS,
+  REVISION_FIELD_LABELS,
+  REVISION_SOURCE_LABELS,
+  diffSnapshots,
+  formatSnapshotField,
+  type EntryRevisionItem,
+} from '@/lib/entry-revisions';
+import { usePermissions } from '@/hooks/use-permissions';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+const formatWhen = (value: string) =>
+  new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+const revisionLabel = (revision: EntryRevisionItem) =>
+  `v${revision.version} · ${REVISION_SOURCE_LABELS[revision.source]} · ${formatWhen(revision.createdAt)}`;
+
+export default function EntryHistoryPage() {
+  const { id } = useParams<{ id: string }>();
+  const { can } = usePermissions();
+  const canRevert = can('entry.restore');
+
+  const { data, isLoading, mutate } = useSWR<{ revisions?: EntryRevisionItem[]; currentVersion?: number; error?: string }>(
+    `/api/entries/${id}/revisions`,
+    fetcher,
+  );
+  const revisions = useMemo(() => data?.revisions ?? [], [data]);
+  const current = revisions[0];
+
+  // Compare the previous revision with the latest one until another pair is picked
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  useEffect(() => {
+    if (revisions.length === 0) return;
+    setToId((value) => (value && revisions.some((revision) => revision.id === value) ? value : revisions[0].id));
+    setFromId((value) =>
+      value && revisions.some((revision) => revision.id === value) ? value : (revisions[1] ?? revisions[0]).id,
+    );
+  }, [revisions]);
+  const from = revisions.find((revision) => revision.id === fromId);
+  const to = revisions.find((revision) => revision.id === toId);
+  const changed = useMemo(() => (from && to ? new Set(diffSnapshots(from.snapshot, to.snapshot)) : new Set()), [from, to]);
+
+  const [asOf, setAsOf] = useState('');
+  const { data: asOfData, isLoading: isAsOfLoading } = useSWR<{ revision?: EntryRevisionItem; error?: string }>(
+    asOf ? `/api/entries/${id}/revisions?asOf=${asOf}` : null,
+    fetcher,
+  );
+
+  const [reverting, setReverting] = useState<EntryRevisionItem | null>(null);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Button variant="ghost" size="sm" asChild className="-ml-2 gap-2">
+          <Link href="/entries">
+            <ArrowLeft className="h-4 w-4" />
+            Entries
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-semibold text-foreground">
+          Revisions{current ? ` of #${current.snapshot.no}` : ''}
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Every save of this entry is kept as a revision. Compare any two, see the entry as it stood on a date, or put it
+          back the way an earlier revision had it.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-40 w-full" />
+      ) : data?.error ? (
+        <p className="text-sm text-muted-foreground">{data.error}</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No revisions have been recorded for this entry.</p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Compare revisions</CardTitle>
+              <CardDescription>Fields that differ between the two revisions are highlighted.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <RevisionPicker label="From" revisions={revisions} value={fromId} onChange={setFromId} />
+                <RevisionPicker label="To" revisions={revisions} value={toId} onChange={setToId} />
+              </div>
+              {from && to ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-48">Field</TableHead>
+                      <TableHead>v{from.version}</TableHead>
+                      <TableHead>v{to.version}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {REVISION_FIELDS.map((field) => (
+                      <TableRow key={field} className={cn(changed.has(field) && 'bg-amber-50 dark:bg-amber-950/30')}>
+                        <TableCell className="font-medium">{REVISION_FIELD_LABELS[field]}</TableCell>
+                        <TableCell className={cn('align-top', changed.has(field) && 'text-muted-foreground line-through')}>
+                          <FieldLines lines={formatSnapshotField(from.snapshot, field)} />
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <FieldLines lines={formatSnapshotField(to.snapshot, field)} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : null}
+              <p className="text-xs text-muted-foreground">
+                {changed.size === 0 ? 'The two revisions are the same.' : `${changed.size} field${changed.size === 1 ? '' : 's'} differ.`}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>As of a date</CardTitle>
+              <CardDescription>The entry as it stood at the end of the chosen day.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="max-w-xs space-y-2">
+                <Label htmlFor="as-of">Date</Label>
+                <Input id="as-of" type="date" value={asOf} max={format(new Date(), 'yyyy-MM-dd')} onChange={(event) => setAsOf(event.target.value)} />
+              </div>
+              {!asOf ? null : isAsOfLoading ? (
+                <Skeleton className="h-24 w-full" />
+              ) : asOfData?.revision ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-muted-foreground">{revisionLabel(asOfData.revision)}</p>
+                  <dl className="grid gap-x-6 gap-y-3 text-sm md:grid-cols-2">
+                    {REVISION_FIELDS.map((field) => (
+                      <div key={field}>
+                        <dt className="text-xs font-medium uppercase text-muted-foreground">{REVISION_FIELD_LABELS[field]}</dt>
+                        <dd>
+                          <FieldLines lines={formatSnapshotField(asOfData.revision!.snapshot, field)} />
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">{asOfData?.error ?? 'No revision was in force on that date.'}</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>All revisions</CardTitle>
+            </CardHeader>
+            <CardContent className="px-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>When</TableHead>
+                    {canRevert ? <TableHead className="text-right">Actions</TableHead> : null}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {revisions.map((revision) => (
+                    <TableRow key={revision.id}>
+                      <TableCell className="font-medium">
+                        v{revision.version}
+                        {revision.version === data?.currentVersion ? (
+                          <Badge variant="secondary" className="ml-2">Current</Badge>
+                        ) : null}
+                      </TableCell>
+                      <TableCell>{REVISION_SOURCE_LABELS[revision.source]}</TableCell>
+                      <TableCell>{revision.actor ? revision.actor.name || revision.actor.email : '—'}</TableCell>
+                      <TableCell>{formatWhen(revision.createdAt)}</TableCell>
+                      {canRevert ? (
+                        <TableCell className="text-right">
+                          {revision.version !== data?.currentVersion && !current?.snapshot.isDeleted ? (
+                            <Button variant="outline" size="sm" className="gap-2" onClick={() => setReverting(revision)}>
+                              <RotateCcw className="h-4 w-4" />
+                              Revert
+                            </Button>
+                          ) : null}
+                        </TableCell>
+                      ) : null}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <RevertDialog
+        entryId={id}
+        revision={reverting}
+        currentVersion={data?.currentVersion}
+        onClose={() => setReverting(null)}
+        onDone={async () => {
+          setReverting(null);
+          await mutate();
+        }}
+      />
+    </div>
+  );
+}
+
+function FieldLines({ lines }: { lines: string[] }) {
+  if (lines.length === 0) return <span className="text-muted-foreground">None</span>;
+  return (
+    <div className="space-y-0.5">
+      {lines.map((line, index) => (
+        <p key={index}>{line}</p>
+      ))}
+    </div>
+  );
+}
+
+function RevisionPicker({
+  label,
+  revisions,
+  value,
+  onChange,
+}: {
+  label: string;
+  revisions: EntryRevisionItem[];
+  value: string | null;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value ?? undefined} onValueChange={onChange}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Choose a revision" />
+        </SelectTrigger>
+        <SelectContent>
+          {revisions.map((revision) => (
+            <SelectItem key={revision.id} value={revision.id}>
+              {revisionLabel(revision)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// Confirms putting the entry back to a revision; the save names the version the admin was looking at
+function RevertDialog({
+  entryId,
+  revision,
+  currentVersion,
+  onClose,
+  onDone,
+}: {
+  entryId: string;
+  revision: EntryRevisionItem | null;
+  currentVersion?: number;
+  onClose: () => void;
+  onDone: () => void;
+}) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+  }, [revision]);
+
+  const submit = async () => {
+    if (!revision) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/entries/${entryId}/revisions/${revision.id}/revert`, {
+        method: 'POST',
+        headers: currentVersion ? { 'If-Match': `"${currentVersion}"` } : undefined,
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(body.error ?? 'The entry could not be reverted');
+        return;
+      }
+      onDone();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!revision} onOpenChange={(open) => (!open ? onClose() : undefined)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Revert to version {revision?.version}?</DialogTitle>
+          <DialogDescription>
+            The entry&apos;s fields, borrowers and documents are put back the way they were in this revision. Its status stays
+            as it is. This is saved as a new revision, so it can be undone the same way.
+          </DialogDescription>
+        </DialogHeader>
+        {error ? <p className="text-sm text-destructive">{error}</p> : null}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={isSubmitting}>
+            {isSubmitting ? 'Reverting…' : 'Revert'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { format } from 'date-fns';
+import { FilePen, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Empty, EmptyContent, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import type { DraftListItem } from '@/lib/drafts';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+// Where a draft is picked up again: the new entry form, or the edit form of its entry
+const resumeHref = (draft: DraftListItem) =>
+  draft.entryId ? `/entries/${draft.entryId}/edit?draft=${draft.id}` : `/entries/new?draft=${draft.id}`;
+
+export default function DraftsPage() {
+  const { data, isLoading, mutate } = useSWR<{ drafts?: DraftListItem[]; error?: string }>('/api/entries/drafts', fetcher);
+  const drafts = data?.drafts ?? [];
+
+  const discard = async (draft: DraftListItem) => {
+    await mutate(
+      async () => {
+        await fetch(`/api/entries/drafts/${draft.id}`, { method: 'DELETE' });
+        return { drafts: drafts.filter((other) => other.id !== draft.id) };
+      },
+      { optimisticData: { drafts: drafts.filter((other) => other.id !== draft.id) }, revalidate: true },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-semibold text-foreground">My drafts</h1>
+        <p className="text-sm text-muted-foreground">
+          Entries you started or edits you made that have not been saved yet. Drafts are kept as you type and removed once the
+          entry is saved.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-40 w-full" />
+      ) : data?.error ? (
+        <p className="text-sm text-muted-foreground">Drafts are available to users who can create entries.</p>
+      ) : drafts.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <Empty>
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <FilePen className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>No drafts</EmptyTitle>
+                <EmptyDescription>Anything you type into an entry form is kept here until you save it.</EmptyDescription>
+              </EmptyHeader>
+              <EmptyContent>
+                <Button asChild>
+                  <Link href="/entries/new">New entry</Link>
+                </Button>
+              </EmptyContent>
+            </Empty>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="px-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Draft</TableHead>
+                  <TableHead>Entry</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Last saved</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drafts.map((draft) => (
+                  <TableRow key={draft.id}>
+                    <TableCell className="font-medium">{draft.summary}</TableCell>
+                    <TableCell>
+                      {draft.entry ? (
+                        <span>
+                          Edit of #{draft.entry.no}
+                          {draft.entry.isDeleted ? (
+                            <Badge variant="secondary" className="ml-2 text-xs font-normal">
+                              Entry deleted
+                            </Badge>
+                          ) : null}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">New entry</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{format(new Date(draft.createdAt), 'dd MMM yyyy HH:mm')}</TableCell>
+                    <TableCell className="text-muted-foreground">{format(new Date(draft.updatedAt), 'dd MMM yyyy HH:mm')}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => void discard(draft)}>
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Discard
+                        </Button>
+                        {draft.entry?.isDeleted ? null : (
+                          <Button size="sm" asChild>
+                            <Link href={resumeHref(draft) as any}>Resume</Link>
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1 +1,10 @@
-import EntryForm from '@/components/EntryForm'; export default function NewEntry(){ return <EntryForm mode='create' /> }
+import EntryForm from '@/components/EntryForm';
+
+type PageProps = {
+  searchParams: Promise<{ draft?: string }>;
+};
+
+export default async function NewEntry(props: PageProps) {
+  const { draft } = await props.searchParams;
+  return <EntryForm mode='create' draftId={draft} key={draft ?? 'new'} />;
+}
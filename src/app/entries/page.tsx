@@ -1,13 +1,13 @@
 'use client';
 import type { ReactNode } from 'react';
-import { useEffect, useId, useMemo, useState } from 'react';
+import { Suspense, useEffect, useId, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import type { DateRange } from 'react-day-picker';
-import useSWR from 'swr';
+import useSWR, { mutate } from 'swr';
 import Link from 'next/link';
-import { useSession } from 'next-auth/react';
-import { endOfDay, startOfDay, startOfYear, subDays, format } from 'date-fns';
-import { CalendarIcon, Download, Edit, Eye, ExternalLink, FileText, History, MoreHorizontal, SearchIcon, Trash2, XIcon } from 'lucide-react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { format } from 'date-fns';
+import { ArrowRightLeft, Bookmark, Building2, CalendarIcon, Check, Download, Edit, Eye, ExternalLink, FileText, GitCompare, History, Link2, MoreHorizontal, Pin, PinOff, SearchIcon, Share2, Trash2, Users, XIcon } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
@@ -44,21 +44,63 @@ import {
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Calendar } from '@/components/ui/calendar';
 import { cn } from '@/lib/utils';
-import { actionBadgeStyles, formatActionLabel, formatAuditDetails } from '@/app/admin/audit/utils';
+import { actionBadgeStyles, formatActionLabel, formatAuditDetails, getReplacedAttachmentVersions } from '@/app/admin/audit/utils';
+import { getAttachmentUrl } from '@/lib/attachments';
+import { STATUS_LABELS, checkDocumentFile, parseDocumentTypeSettings, type DocumentTypeDefinition } from '@/lib/document-types';
+import {
+  STATUS_TRANSITIONS,
+  availableTransitions,
+  missingTransitionDocuments,
+  statusDateField,
+  transitionDeniedMessage,
+  type StatusTransition,
+} from '@/lib/entry-status';
+import { hasPermission } from '@/lib/permissions';
+import { usePermissions } from '@/hooks/use-permissions';
+import { entryEtag } from '@/lib/entry-versions';
+import { REVIEW_DECISION_LABELS, REVIEW_STATE_LABELS, type ReviewState } from '@/lib/entry-review';
+import {
+  type AmountRangeKey,
+  type DatePreset,
+  type EntryFilters,
+  DEFAULT_ENTRY_FILTERS,
+  buildEntriesApiParams,
+  parseEntryFilters,
+  serializeEntryFilters,
+} from '@/lib/entry-filters';
+import type { SavedView } from '@/lib/saved-views';
+import { BORROWER_ROLE_LABELS, type BorrowerRole } from '@/lib/borrowers';
+import { PINNED_VIEWS_KEY } from '@/components/nav-saved-views';
 
 type EntryAttachment = {
+  id?: string | null;
   name?: string | null;
-  dataUrl?: string | null;
   size?: number | null;
+  mimeType?: string | null;
+  pageCount?: number | null;
+  title?: string | null;
+  producer?: string | null;
 };
 
 type EntryAttachmentRecord = Record<string, EntryAttachment | null | undefined>;
 
+type AttachmentVersion = {
+  id: string;
+  name: string;
+  size: number;
+  sha256: string;
+  version: number;
+  uploadedAt: string;
+  supersededAt: string | null;
+  current: boolean;
+  uploadedBy?: { id: string; name?: string | null; email?: string | null } | null;
+};
+
 type Entry = {
   id: string;
   no: number;
   agreementNumber: string;
-  borrowers: { id?: string; fullName: string; nationalId?: string | null }[];
+  borrowers: { id?: string; personId?: string; fullName: string; nationalId?: string | null; role?: BorrowerRole }[];
   island: string;
   status: 'ONGOING' | 'CANCELLED' | 'COMPLETED';
   loanAmount: string;
@@ -67,23 +109,26 @@ type Entry = {
   formNumber?: string | null;
   address?: string | null;
   dateOfCancelled?: string | null;
+  dateOfCompleted?: string | null;
+  version?: number;
+  reviewState?: ReviewState;
+  createdBy?: { id: string; name?: string | null; email?: string | null } | null;
   attachments?: EntryAttachmentRecord | null;
+  // Highlighted match from a search query
+  snippet?: { text: string; match: boolean }[] | null;
 };
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
-type DatePreset = 'ALL' | 'LAST_30_DAYS' | 'LAST_90_DAYS' | 'THIS_YEAR' | 'CUSTOM';
-type AmountRangeKey = 'ANY' | 'UNDER_50K' | '50K_100K' | '100K_250K' | '250K_PLUS';
-
-type Filters = {
-  query: string;
-  status: Entry['status'] | 'ALL';
-  island: string | 'ALL';
-  branch: string | 'ALL';
-  datePreset: DatePreset;
-  customRange?: DateRange | undefined;
-  amountRange: AmountRangeKey;
-};
+type Filters = EntryFilters;
+
+// Actions the bulk bar applies to every selected entry
+type BulkAction =
+  | { action: 'TRANSITION'; to: Entry['status'] }
+  | { action: 'DELETE' }
+  | { action: 'REASSIGN_BRANCH' };
+
+type BulkFailure = { id: string; no: string; message: string };
 
 type ApiResponse = {
   items: Entry[];
@@ -117,32 +162,21 @@ const amountRangeOptions: { value: AmountRangeKey; label: string }[] = [
   { value: '50K_100K', label: 'MVR 50,000 – 100,000' },
   { value: '100K_250K', label: 'MVR 100,000 – 250,000' },
   { value: '250K_PLUS', label: 'MVR 250,000+' },
+  { value: '500K_PLUS', label: 'MVR 500,000+' },
 ];
 
-const amountRangeMap: Record<AmountRangeKey, { min?: number; max?: number }> = {
-  ANY: {},
-  UNDER_50K: { max: 50_000 },
-  '50K_100K': { min: 50_000, max: 100_000 },
-  '100K_250K': { min: 100_000, max: 250_000 },
-  '250K_PLUS': { min: 250_000 },
-};
-
-const defaultFilters: Filters = {
-  query: '',
-  status: 'ALL',
-  island: 'ALL',
-  branch: 'ALL',
-  datePreset: 'ALL',
-  customRange: undefined,
-  amountRange: 'ANY',
-};
-
 const statusStyles: Record<Entry['status'], string> = {
   ONGOING: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-500/10 dark:text-emerald-400',
   COMPLETED: 'bg-sky-100 text-sky-700 dark:bg-sky-500/10 dark:text-sky-400',
   CANCELLED: 'bg-rose-100 text-rose-700 dark:bg-rose-500/10 dark:text-rose-400',
 };
 
+const reviewStyles: Record<ReviewState, string> = {
+  DRAFT: 'bg-orange-100 text-orange-700 dark:bg-orange-500/10 dark:text-orange-400',
+  PENDING_REVIEW: 'bg-amber-100 text-amber-700 dark:bg-amber-500/10 dark:text-amber-400',
+  APPROVED: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-500/10 dark:text-emerald-400',
+};
+
 const formatCurrency = (value: string | number) => {
   const amount = typeof value === 'string' ? Number(value) : value;
   if (Number.isNaN(amount)) return '—';
@@ -154,18 +188,20 @@ const formatCurrency = (value: string | number) => {
   });
 };
 
-const attachmentLabels: Record<string, string> = {
-  bankLetter: 'Bank Letter',
-  agreementDocument: 'Agreement Document',
-  landRegistry: 'Land Registry',
-};
-
 const formatAttachmentLabel = (key: string) => {
-  if (attachmentLabels[key]) return attachmentLabels[key];
   const withSpaces = key.replace(/([A-Z])/g, ' $1').replace(/[-_]/g, ' ');
   return withSpaces.replace(/\b\w/g, (char) => char.toUpperCase());
 };
 
+// Slot labels come from the DOCUMENT_TYPE settings; slots without one are spelled out from their key
+const useAttachmentLabel = () => {
+  const { data } = useSWR('/api/admin/settings?category=DOCUMENT_TYPE', fetcher);
+  return useMemo(() => {
+    const labels = new Map(parseDocumentTypeSettings(data?.settings ?? []).map((type) => [type.key, type.label]));
+    return (key: string) => labels.get(key) ?? formatAttachmentLabel(key);
+  }, [data]);
+};
+
 const formatFileSize = (bytes?: number | null) => {
   if (typeof bytes !== 'number' || Number.isNaN(bytes) || bytes <= 0) return '—';
   const units = ['B', 'KB', 'MB', 'GB'];
@@ -174,34 +210,6 @@ const formatFileSize = (bytes?: number | null) => {
   return `${value.toFixed(value >= 10 || exponent === 0 ? 0 : 1)} ${units[exponent]}`;
 };
 
-const getDateRange = (filters: Filters) => {
-  if (filters.datePreset === 'ALL') return { start: undefined as Date | undefined, end: undefined as Date | undefined };
-
-  if (filters.datePreset === 'CUSTOM') {
-    const from = filters.customRange?.from ? startOfDay(filters.customRange.from) : undefined;
-    const toSource = filters.customRange?.to ?? filters.customRange?.from;
-    const to = toSource ? endOfDay(toSource) : undefined;
-    return { start: from, end: to };
-  }
-
-  const now = new Date();
-  const end = endOfDay(now);
-
-  if (filters.datePreset === 'LAST_30_DAYS') {
-    return { start: startOfDay(subDays(now, 30)), end };
-  }
-
-  if (filters.datePreset === 'LAST_90_DAYS') {
-    return { start: startOfDay(subDays(now, 90)), end };
-  }
-
-  if (filters.datePreset === 'THIS_YEAR') {
-    return { start: startOfDay(startOfYear(now)), end };
-  }
-
-  return { start: undefined, end: undefined };
-};
-
 const getDatePresetLabel = (filters: Filters) => {
   if (filters.datePreset === 'CUSTOM') {
     const from = filters.customRange?.from;
@@ -219,37 +227,58 @@ const getAmountRangeLabel = (value: AmountRangeKey) =>
   amountRangeOptions.find((option) => option.value === value)?.label ?? 'Any Amount';
 
 export default function EntriesPage() {
-  const { data: session } = useSession();
-  const role = (session?.user as any)?.role;
-  const canWrite = role === 'ADMIN' || role === 'DATA_ENTRY';
-  const [filters, setFilters] = useState<Filters>(() => ({ ...defaultFilters }));
-  const [debouncedFilters, setDebouncedFilters] = useState(filters);
-  const [currentPage, setCurrentPage] = useState(1);
+  // useSearchParams needs a Suspense boundary when the page is prerendered
+  return (
+    <Suspense>
+      <EntriesPageContent />
+    </Suspense>
+  );
+}
+
+function EntriesPageContent() {
+  const { permissions, can } = usePermissions();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const urlQuery = searchParams.toString();
+  const [initialState] = useState(() => parseEntryFilters(new URLSearchParams(urlQuery)));
+  const [filters, setFilters] = useState<Filters>(initialState.filters);
+  const [debouncedFilters, setDebouncedFilters] = useState(initialState.filters);
+  const [currentPage, setCurrentPage] = useState(initialState.page);
   const pageSize = 10;
+  // Query strings this page writes itself, so its own URL updates are not read back as navigation
+  const lastWrittenQuery = useRef(urlQuery);
+  const pendingQueries = useRef(new Set<string>());
 
   useEffect(() => {
+    if (serializeEntryFilters(filters) === serializeEntryFilters(debouncedFilters)) return;
     const timeout = window.setTimeout(() => {
       setDebouncedFilters(filters);
       setCurrentPage(1); // Reset to first page when filters change
     }, 300);
     return () => window.clearTimeout(timeout);
-  }, [filters]);
-
-  const queryString = useMemo(() => {
-    const params = new URLSearchParams();
-
-    if (debouncedFilters.query.trim()) params.set('query', debouncedFilters.query.trim());
-    if (debouncedFilters.status !== 'ALL') params.set('status', debouncedFilters.status);
-    if (debouncedFilters.island !== 'ALL') params.set('island', debouncedFilters.island);
-    if (debouncedFilters.branch !== 'ALL') params.set('branch', debouncedFilters.branch);
+  }, [filters, debouncedFilters]);
 
-    const { start, end } = getDateRange(debouncedFilters);
-    if (start) params.set('startDate', start.toISOString());
-    if (end) params.set('endDate', end.toISOString());
+  // Keep the URL in step with the applied filters so the list can be bookmarked and shared
+  useEffect(() => {
+    const nextQuery = serializeEntryFilters(debouncedFilters, currentPage);
+    if (nextQuery === lastWrittenQuery.current) return;
+    lastWrittenQuery.current = nextQuery;
+    pendingQueries.current.add(nextQuery);
+    router.replace((nextQuery ? `/entries?${nextQuery}` : '/entries') as any, { scroll: false });
+  }, [debouncedFilters, currentPage, router]);
+
+  // Apply filters from links to this page, e.g. a saved view in the sidebar
+  useEffect(() => {
+    if (pendingQueries.current.delete(urlQuery) || urlQuery === lastWrittenQuery.current) return;
+    lastWrittenQuery.current = urlQuery;
+    const next = parseEntryFilters(new URLSearchParams(urlQuery));
+    setFilters(next.filters);
+    setDebouncedFilters(next.filters);
+    setCurrentPage(next.page);
+  }, [urlQuery]);
 
-    const amountConfig = amountRangeMap[debouncedFilters.amountRange];
-    if (amountConfig?.min !== undefined) params.set('minAmount', String(amountConfig.min));
-    if (amountConfig?.max !== undefined) params.set('maxAmount', String(amountConfig.max));
+  const queryString = useMemo(() => {
+    const params = buildEntriesApiParams(debouncedFilters);
 
     // Add pagination parameters
     params.set('page', String(currentPage));
@@ -258,7 +287,7 @@ export default function EntriesPage() {
     return params.toString();
   }, [debouncedFilters, currentPage, pageSize]);
 
-  const { data, error, isLoading } = useSWR<ApiResponse>(`/api/entries${queryString ? `?${queryString}` : ''}`, fetcher, {
+  const { data, error, isLoading, mutate: refreshEntries } = useSWR<ApiResponse>(`/api/entries${queryString ? `?${queryString}` : ''}`, fetcher, {
     refreshInterval: 60_000,
   });
 
@@ -300,6 +329,59 @@ export default function EntriesPage() {
   const [deleteEntry, setDeleteEntry] = useState<Entry | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  // Selected entries by id, kept while paging so a selection can span pages
+  const [selection, setSelection] = useState<Map<string, Entry>>(() => new Map());
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const pageSelected = items.length > 0 && items.every((entry) => selection.has(entry.id));
+
+  const toggleSelected = (entry: Entry) => {
+    setSelection((current) => {
+      const next = new Map(current);
+      if (next.has(entry.id)) next.delete(entry.id);
+      else next.set(entry.id, entry);
+      return next;
+    });
+  };
+
+  const togglePageSelected = () => {
+    setSelection((current) => {
+      const next = new Map(current);
+      for (const entry of items) {
+        if (pageSelected) next.delete(entry.id);
+        else next.set(entry.id, entry);
+      }
+      return next;
+    });
+  };
+
+  const handleExportSelection = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetch('/api/entries/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'EXPORT', ids: [...selection.keys()] }),
+      });
+      if (!response.ok) {
+        alert(await readError(response, 'Failed to export the selected entries.'));
+        return;
+      }
+      const blob = await response.blob();
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'entries.csv';
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = filename;
+      document.body.appendChild(anchor);
+      anchor.click();
+      anchor.remove();
+      URL.revokeObjectURL(url);
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   const handleOpenEntry = (entry: Entry) => {
     setSelectedEntry(entry);
@@ -373,7 +455,7 @@ export default function EntriesPage() {
   }, [filters]);
 
   const resetFilters = () => {
-    setFilters({ ...defaultFilters });
+    setFilters({ ...DEFAULT_ENTRY_FILTERS });
   };
 
   return (
@@ -385,7 +467,7 @@ export default function EntriesPage() {
             Browse the registry, filter for borrowers, and manage loan agreements.
           </p>
         </div>
-        {canWrite ? (
+        {can('entry.create') ? (
           <Button asChild className="gap-2">
             <Link href="/entries/new">
               <span>New Entry</span>
@@ -434,6 +516,7 @@ export default function EntriesPage() {
               </div>
               <div className="flex flex-wrap items-center gap-2">
                 <span className="text-sm text-muted-foreground">{total.toLocaleString()} results</span>
+                <SavedViewsMenu currentQuery={serializeEntryFilters(debouncedFilters)} canManageShared={can('view.manage')} />
                 <Button variant="outline" onClick={resetFilters} disabled={!hasActiveFilters}>
                   Reset
                 </Button>
@@ -525,6 +608,57 @@ export default function EntriesPage() {
             </div>
           </div>
 
+          {selection.size > 0 ? (
+            <div className="mx-6 flex flex-wrap items-center gap-2 rounded-lg border border-border/60 bg-muted/40 px-4 py-2">
+              <span className="mr-auto text-sm font-medium text-foreground">
+                {selection.size} selected
+                <Button variant="link" size="sm" className="ml-1 h-auto p-0 text-muted-foreground" onClick={() => setSelection(new Map())}>
+                  Clear
+                </Button>
+              </span>
+              {can(['entry.update', 'entry.reopen']) ? (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="gap-2">
+                      <ArrowRightLeft className="h-4 w-4" />
+                      Change status
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {(['ONGOING', 'COMPLETED', 'CANCELLED'] as const).map((status) => (
+                      <DropdownMenuItem key={status} onSelect={() => setBulkAction({ action: 'TRANSITION', to: status })}>
+                        {STATUS_LABELS[status]}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              ) : null}
+              {can('entry.update') ? (
+                <Button variant="outline" size="sm" className="gap-2" onClick={() => setBulkAction({ action: 'REASSIGN_BRANCH' })}>
+                  <Building2 className="h-4 w-4" />
+                  Change branch
+                </Button>
+              ) : null}
+              {can('report.export') ? (
+                <Button variant="outline" size="sm" className="gap-2" onClick={() => void handleExportSelection()} disabled={isExporting}>
+                  <Download className="h-4 w-4" />
+                  {isExporting ? 'Exporting…' : 'Export CSV'}
+                </Button>
+              ) : null}
+              {can('entry.delete') ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2 text-destructive hover:text-destructive"
+                  onClick={() => setBulkAction({ action: 'DELETE' })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Delete
+                </Button>
+              ) : null}
+            </div>
+          ) : null}
+
           {error ? (
             <div className="py-12 text-center text-sm text-destructive">
               Failed to load entries. Please refresh the page.
@@ -533,6 +667,16 @@ export default function EntriesPage() {
             <Table>
               <TableHeader className="sticky top-0 bg-background/80 backdrop-blur">
                 <TableRow>
+                  <TableHead className="w-10 pl-6">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all entries on this page"
+                      className="size-4 rounded border-input bg-background text-primary focus:ring-2 focus:ring-ring"
+                      checked={pageSelected}
+                      onChange={togglePageSelected}
+                      disabled={isLoading || items.length === 0}
+                    />
+                  </TableHead>
                   <TableHead className="w-16">No</TableHead>
                   <TableHead>Agreement</TableHead>
                   <TableHead>Borrower(s)</TableHead>
@@ -547,7 +691,7 @@ export default function EntriesPage() {
                 {isLoading ? (
                   Array.from({ length: 6 }).map((_, idx) => (
                     <TableRow key={idx}>
-                      {Array.from({ length: 8 }).map((__, cellIdx) => (
+                      {Array.from({ length: 9 }).map((__, cellIdx) => (
                         <TableCell key={cellIdx}>
                           <Skeleton className="h-5 w-full" />
                         </TableCell>
@@ -556,7 +700,7 @@ export default function EntriesPage() {
                   ))
                 ) : items.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={8} className="p-0">
+                    <TableCell colSpan={9} className="p-0">
                       <Empty className="border-0">
                         <EmptyHeader>
                           <EmptyMedia variant="icon">
@@ -564,10 +708,10 @@ export default function EntriesPage() {
                           </EmptyMedia>
                           <EmptyTitle>No Entries Found</EmptyTitle>
                           <EmptyDescription>
-                            {canWrite ? 'Create a new registry entry to get started.' : 'No registry entries are available at the moment.'}
+                            {can('entry.create') ? 'Create a new registry entry to get started.' : 'No registry entries are available at the moment.'}
                           </EmptyDescription>
                         </EmptyHeader>
-                        {canWrite && (
+                        {can('entry.create') && (
                           <EmptyContent>
                             <Button asChild size="sm">
                               <Link href="/entries/new">Create New Entry</Link>
@@ -580,19 +724,48 @@ export default function EntriesPage() {
                 ) : (
                   items.map((entry) => {
                     const borrowerCount = entry.borrowers?.length ?? 0;
-                    const topBorrower = entry.borrowers?.[0]?.fullName ?? '—';
+                    const primaryBorrower = entry.borrowers?.[0];
                     const additional = borrowerCount > 1 ? `+${borrowerCount - 1} more` : '';
 
                     return (
-                      <TableRow key={entry.id}>
+                      <TableRow key={entry.id} data-state={selection.has(entry.id) ? 'selected' : undefined}>
+                        <TableCell className="pl-6">
+                          <input
+                            type="checkbox"
+                            aria-label={`Select entry ${entry.no}`}
+                            className="size-4 rounded border-input bg-background text-primary focus:ring-2 focus:ring-ring"
+                            checked={selection.has(entry.id)}
+                            onChange={() => toggleSelected(entry)}
+                          />
+                        </TableCell>
                         <TableCell className="text-muted-foreground">{entry.no}</TableCell>
                         <TableCell className="font-medium">
                           <Link href={`/entries/${entry.id}/edit`} className="hover:underline" prefetch={true}>
                             {entry.agreementNumber}
                           </Link>
+                          {entry.snippet && (
+                            <p className="mt-0.5 max-w-xs truncate text-xs font-normal text-muted-foreground">
+                              {entry.snippet.map((segment, index) =>
+                                segment.match ? (
+                                  <mark key={index} className="rounded-sm bg-yellow-200/70 px-0.5 text-foreground dark:bg-yellow-500/30">
+                                    {segment.text}
+                                  </mark>
+                                ) : (
+                                  <span key={index}>{segment.text}</span>
+                                )
+                              )}
+                            </p>
+                          )}
                         </TableCell>
                         <TableCell className="text-muted-foreground">
-                          <span>{topBorrower}</span> <span className="text-xs text-muted-foreground/80">{additional}</span>
+                          {primaryBorrower?.personId ? (
+                            <Link href={`/borrowers/${primaryBorrower.personId}`} className="hover:underline">
+                              {primaryBorrower.fullName}
+                            </Link>
+                          ) : (
+                            <span>{primaryBorrower?.fullName ?? '—'}</span>
+                          )}{' '}
+                          <span className="text-xs text-muted-foreground/80">{additional}</span>
                         </TableCell>
                         <TableCell className="text-muted-foreground">{entry.island}</TableCell>
                         <TableCell>
@@ -603,6 +776,11 @@ export default function EntriesPage() {
                               ? 'Completed'
                               : 'Cancelled'}
                           </Badge>
+                          {entry.reviewState && entry.reviewState !== 'APPROVED' ? (
+                            <Badge variant="outline" className={cn('ml-1 border-0 font-medium', reviewStyles[entry.reviewState])}>
+                              {REVIEW_STATE_LABELS[entry.reviewState]}
+                            </Badge>
+                          ) : null}
                         </TableCell>
                         <TableCell className="text-right font-medium">{formatCurrency(entry.loanAmount)}</TableCell>
                         <TableCell className="text-muted-foreground">
@@ -626,8 +804,14 @@ export default function EntriesPage() {
                                 <History className="h-4 w-4" />
                                 View history
                               </DropdownMenuItem>
-                              {canWrite ? <DropdownMenuSeparator /> : null}
-                              {canWrite ? (
+                              <DropdownMenuItem asChild>
+                                <Link href={`/entries/${entry.id}/history`} className="gap-2 flex items-center">
+                                  <GitCompare className="h-4 w-4" />
+                                  Revisions
+                                </Link>
+                              </DropdownMenuItem>
+                              {can(['entry.update', 'entry.delete']) ? <DropdownMenuSeparator /> : null}
+                              {can('entry.update') ? (
                                 <DropdownMenuItem asChild>
                                   <Link href={`/entries/${entry.id}/edit`} className="gap-2 flex items-center" prefetch={true}>
                                     <Edit className="h-4 w-4" />
@@ -635,7 +819,7 @@ export default function EntriesPage() {
                                   </Link>
                                 </DropdownMenuItem>
                               ) : null}
-                              {canWrite ? (
+                              {can('entry.delete') ? (
                                 <DropdownMenuItem 
                                   onSelect={() => handleOpenDeleteDialog(entry)}
                                   className="gap-2 text-destructive focus:text-destructive"
@@ -710,7 +894,17 @@ export default function EntriesPage() {
           </CardFooter>
         )}
       </Card>
-      <EntryDetailsModal entry={selectedEntry} open={isModalOpen} onClose={handleCloseModal} canEdit={canWrite} />
+      <EntryDetailsModal
+        entry={selectedEntry}
+        open={isModalOpen}
+        onClose={handleCloseModal}
+        canEdit={can('entry.update')}
+        permissions={permissions}
+        onEntryChange={(next) => {
+          setSelectedEntry(next);
+          void refreshEntries();
+        }}
+      />
       <EntryAuditDialog entryId={auditEntryId} open={isAuditOpen} onClose={handleCloseAudit} />
       <DeleteConfirmationDialog
         entry={deleteEntry}
@@ -719,6 +913,21 @@ export default function EntriesPage() {
         onConfirm={handleConfirmDelete}
         isDeleting={isDeleting}
       />
+      <BulkActionDialog
+        bulkAction={bulkAction}
+        entries={[...selection.values()]}
+        permissions={permissions}
+        branches={branches.filter((branch) => branch !== 'ALL')}
+        onClose={() => setBulkAction(null)}
+        onDeselect={(ids) =>
+          setSelection((current) => new Map([...current].filter(([id]) => !ids.includes(id))))
+        }
+        onDone={() => {
+          setBulkAction(null);
+          setSelection(new Map());
+          void refreshEntries();
+        }}
+      />
     </div>
   );
 }
@@ -728,10 +937,13 @@ type EntryDetailsModalProps = {
   open: boolean;
   onClose: () => void;
   canEdit: boolean;
+  permissions: readonly string[];
+  onEntryChange: (entry: Entry) => void;
 };
 
-function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalProps) {
+function EntryDetailsModal({ entry, open, onClose, canEdit, permissions, onEntryChange }: EntryDetailsModalProps) {
   const [mounted, setMounted] = useState(false);
+  const [transition, setTransition] = useState<StatusTransition | null>(null);
   const labelId = useId();
 
   useEffect(() => {
@@ -741,11 +953,12 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
   useEffect(() => {
     if (!open) return;
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.key === 'Escape') onClose();
+      // Escape closes the status dialog first
+      if (event.key === 'Escape' && !transition) onClose();
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [open, onClose]);
+  }, [open, onClose, transition]);
 
   useEffect(() => {
     if (!open) return;
@@ -772,9 +985,15 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
     logView();
   }, [open, entry]);
 
+  const attachmentLabel = useAttachmentLabel();
+  const { data: versionData } = useSWR<{ slots: Record<string, AttachmentVersion[]> }>(
+    open && entry ? `/api/entries/${entry.id}/attachments` : null,
+    fetcher,
+  );
+
   const attachmentEntries = useMemo(() => {
     if (!entry?.attachments) return [] as [string, EntryAttachment | null | undefined][];
-    return Object.entries(entry.attachments).filter(([, value]) => value?.dataUrl);
+    return Object.entries(entry.attachments).filter(([, value]) => value?.id);
   }, [entry?.attachments]);
 
   if (!mounted || !open || !entry) return null;
@@ -782,6 +1001,7 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
   const borrowers = entry.borrowers ?? [];
 
   return createPortal(
+    <>
     <div
       className="fixed inset-0 z-50 overflow-y-auto bg-background/80 backdrop-blur"
       role="dialog"
@@ -810,6 +1030,11 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
                   ? 'Completed'
                   : 'Cancelled'}
               </Badge>
+              {entry.reviewState && entry.reviewState !== 'APPROVED' ? (
+                <Badge variant="outline" className={cn('border-0 font-medium', reviewStyles[entry.reviewState])}>
+                  {REVIEW_STATE_LABELS[entry.reviewState]}
+                </Badge>
+              ) : null}
               <span className="text-muted-foreground">
                 {entry.date ? new Date(entry.date).toLocaleDateString('en-GB') : '—'}
               </span>
@@ -830,7 +1055,15 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
                   value={new Date(entry.dateOfCancelled).toLocaleDateString('en-GB')}
                 />
               ) : null}
+              {entry.dateOfCompleted ? (
+                <DetailItem
+                  label="Date Completed"
+                  value={new Date(entry.dateOfCompleted).toLocaleDateString('en-GB')}
+                />
+              ) : null}
             </div>
+            <StatusTimeline entryId={entry.id} version={entry.version} />
+            <ReviewHistory entryId={entry.id} reviewState={entry.reviewState} />
             <div className="space-y-3">
               <p className="text-xs font-medium uppercase text-muted-foreground">Borrowers</p>
               {borrowers.length === 0 ? (
@@ -839,7 +1072,20 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
                 <ul className="space-y-2">
                   {borrowers.map((borrower) => (
                     <li key={borrower.id ?? borrower.fullName} className="rounded-lg border border-border/60 p-3 text-sm">
-                      <p className="font-medium text-foreground">{borrower.fullName}</p>
+                      <div className="flex items-center justify-between gap-2">
+                        {borrower.personId ? (
+                          <Link href={`/borrowers/${borrower.personId}`} className="font-medium text-foreground hover:underline">
+                            {borrower.fullName}
+                          </Link>
+                        ) : (
+                          <p className="font-medium text-foreground">{borrower.fullName}</p>
+                        )}
+                        {borrower.role ? (
+                          <Badge variant="secondary" className="text-xs font-normal">
+                            {BORROWER_ROLE_LABELS[borrower.role]}
+                          </Badge>
+                        ) : null}
+                      </div>
                       {borrower.nationalId ? (
                         <p className="text-xs text-muted-foreground">{borrower.nationalId}</p>
                       ) : null}
@@ -853,8 +1099,9 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
                 <p className="text-xs font-medium uppercase text-muted-foreground">Attachments</p>
                 <div className="grid gap-3 sm:grid-cols-2">
                   {attachmentEntries.map(([key, value]) => {
-                    const label = formatAttachmentLabel(key);
+                    const label = attachmentLabel(key);
                     const sizeLabel = formatFileSize(value?.size ?? undefined);
+                    const previousVersions = (versionData?.slots?.[key] ?? []).filter((version) => !version.current);
                     return (
                       <div
                         key={key}
@@ -867,6 +1114,15 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
                               {label}
                             </p>
                             <p className="text-xs text-muted-foreground">{value?.name || 'Document'}</p>
+                            {value?.pageCount ? (
+                              <p className="text-xs text-muted-foreground">
+                                {value.pageCount} {value.pageCount === 1 ? 'page' : 'pages'}
+                                {value.title ? ` · ${value.title}` : ''}
+                              </p>
+                            ) : null}
+                            {value?.producer ? (
+                              <p className="text-xs text-muted-foreground/80">Produced by {value.producer}</p>
+                            ) : null}
                           </div>
                           <Badge variant="outline" className="border-0 text-[0.65rem] font-semibold uppercase">
                             {sizeLabel}
@@ -879,7 +1135,7 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
                             variant="outline"
                             className="h-9 flex-1 min-w-[120px]"
                           >
-                            <a href={value?.dataUrl ?? ''} target="_blank" rel="noopener noreferrer">
+                            <a href={value?.id ? getAttachmentUrl(value.id) : ''} target="_blank" rel="noopener noreferrer">
                               <ExternalLink className="mr-2 h-4 w-4" /> View
                             </a>
                           </Button>
@@ -889,9 +1145,9 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
                             variant="secondary"
                             className="h-9 flex-1 min-w-[120px]"
                             onClick={() => {
-                              if (!value?.dataUrl) return;
+                              if (!value?.id) return;
                               const link = document.createElement('a');
-                              link.href = value.dataUrl;
+                              link.href = getAttachmentUrl(value.id, { download: true });
                               link.download = value.name || `${key}.pdf`;
                               document.body.appendChild(link);
                               link.click();
@@ -901,6 +1157,28 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
                             <Download className="mr-2 h-4 w-4" /> Download
                           </Button>
                         </div>
+                        {previousVersions.length > 0 ? (
+                          <div className="space-y-1 border-t border-border/60 pt-2">
+                            <p className="text-[0.65rem] font-semibold uppercase text-muted-foreground">Previous versions</p>
+                            <ul className="space-y-1">
+                              {previousVersions.map((version) => (
+                                <li key={version.id} className="text-xs text-muted-foreground">
+                                  <a
+                                    href={getAttachmentUrl(version.id, { download: true })}
+                                    className="font-medium text-primary hover:underline"
+                                  >
+                                    v{version.version} · {version.name}
+                                  </a>
+                                  <span className="block" title={`SHA-256 ${version.sha256}`}>
+                                    {formatFileSize(version.size)} ·{' '}
+                                    {new Date(version.uploadedAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}
+                                    {version.uploadedBy?.email ? ` · ${version.uploadedBy.email}` : ''}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ) : null}
                       </div>
                     );
                   })}
@@ -916,9 +1194,16 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
           </CardContent>
         <CardFooter className="flex items-center justify-between gap-2">
           {canEdit ? (
-            <Button asChild variant="outline">
-              <Link href={`/entries/${entry.id}/edit`} prefetch={true}>Edit Entry</Link>
-            </Button>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild variant="outline">
+                <Link href={`/entries/${entry.id}/edit`} prefetch={true}>Edit Entry</Link>
+              </Button>
+              {availableTransitions(entry.status, permissions).map((option) => (
+                <Button key={option.to} variant="outline" onClick={() => setTransition(option)}>
+                  {option.label}
+                </Button>
+              ))}
+            </div>
           ) : (
             <div />
           )}
@@ -928,11 +1213,277 @@ function EntryDetailsModal({ entry, open, onClose, canEdit }: EntryDetailsModalP
         </CardFooter>
       </Card>
     </div>
-  </div>,
+  </div>
+    <StatusTransitionDialog
+      entry={entry}
+      transition={transition}
+      onClose={() => setTransition(null)}
+      onDone={(next) => {
+        setTransition(null);
+        onEntryChange(next);
+      }}
+    />
+  </>,
   document.body,
 );
 }
 
+type StatusChange = {
+  id: string;
+  fromStatus: Entry['status'] | null;
+  toStatus: Entry['status'];
+  reason: string | null;
+  createdAt: string;
+  actor: { id: string; name?: string | null; email?: string | null } | null;
+};
+
+// Status changes of an entry, oldest first; refetched when the entry version changes
+function StatusTimeline({ entryId, version }: { entryId: string; version?: number }) {
+  const { data, isLoading } = useSWR<{ history?: StatusChange[] }>(
+    `/api/entries/${entryId}/status-history${version ? `?v=${version}` : ''}`,
+    fetcher,
+  );
+  const history = data?.history ?? [];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs font-medium uppercase text-muted-foreground">Status timeline</p>
+      {isLoading ? (
+        <Skeleton className="h-16 w-full" />
+      ) : history.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No status changes recorded.</p>
+      ) : (
+        <ol className="space-y-3 border-l border-border/60 pl-4">
+          {history.map((change) => (
+            <li key={change.id} className="relative text-sm">
+              <span className="absolute -left-[1.3rem] top-1.5 h-2 w-2 rounded-full bg-border" />
+              <div className="flex flex-wrap items-center gap-2">
+                {change.fromStatus ? (
+                  <>
+                    <Badge variant="outline" className={cn('border-0 font-medium', statusStyles[change.fromStatus])}>
+                      {STATUS_LABELS[change.fromStatus]}
+                    </Badge>
+                    <span className="text-muted-foreground">→</span>
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">Recorded as</span>
+                )}
+                <Badge variant="outline" className={cn('border-0 font-medium', statusStyles[change.toStatus])}>
+                  {STATUS_LABELS[change.toStatus]}
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {new Date(change.createdAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}
+                {change.actor ? ` · ${change.actor.name || change.actor.email}` : ''}
+              </p>
+              {change.reason ? <p className="text-xs text-foreground">“{change.reason}”</p> : null}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+type EntryReview = {
+  id: string;
+  decision: keyof typeof REVIEW_DECISION_LABELS;
+  comment: string | null;
+  createdAt: string;
+  actor: { id: string; name?: string | null; email?: string | null } | null;
+};
+
+// Maker-checker steps of an entry, oldest first; refetched when its review state changes
+function ReviewHistory({ entryId, reviewState }: { entryId: string; reviewState?: ReviewState }) {
+  const { data, isLoading } = useSWR<{ history?: EntryReview[] }>(
+    `/api/entries/${entryId}/review${reviewState ? `?state=${reviewState}` : ''}`,
+    fetcher,
+  );
+  const history = data?.history ?? [];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs font-medium uppercase text-muted-foreground">Review</p>
+      {isLoading ? (
+        <Skeleton className="h-12 w-full" />
+      ) : history.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Recorded before reviews were introduced.</p>
+      ) : (
+        <ol className="space-y-3 border-l border-border/60 pl-4">
+          {history.map((review) => (
+            <li key={review.id} className="relative text-sm">
+              <span className="absolute -left-[1.3rem] top-1.5 h-2 w-2 rounded-full bg-border" />
+              <p className="font-medium text-foreground">{REVIEW_DECISION_LABELS[review.decision]}</p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(review.createdAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}
+                {review.actor ? ` · ${review.actor.name || review.actor.email}` : ''}
+              </p>
+              {review.comment ? <p className="text-xs text-foreground">“{review.comment}”</p> : null}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+type StatusTransitionDialogProps = {
+  entry: Entry;
+  transition: StatusTransition | null;
+  onClose: () => void;
+  onDone: (entry: Entry) => void;
+};
+
+function StatusTransitionDialog({ entry, transition, onClose, onDone }: StatusTransitionDialogProps) {
+  const { data: documentTypeData } = useSWR('/api/admin/settings?category=DOCUMENT_TYPE', fetcher);
+  const [reason, setReason] = useState('');
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [uploads, setUploads] = useState<Record<string, EntryAttachment>>({});
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!transition) return;
+    setReason('');
+    setDate(format(new Date(), 'yyyy-MM-dd'));
+    setUploads({});
+    setError(null);
+  }, [transition]);
+
+  const missingDocuments = useMemo(() => {
+    if (!transition) return [] as DocumentTypeDefinition[];
+    const documentTypes = parseDocumentTypeSettings(documentTypeData?.settings ?? []);
+    return missingTransitionDocuments(transition, documentTypes, entry.attachments ?? {});
+  }, [transition, documentTypeData, entry.attachments]);
+
+  if (!transition) return null;
+
+  const dateField = statusDateField(transition.to);
+  const reasonRequired = transition.reason === 'required';
+  const ready =
+    (!reasonRequired || reason.trim().length > 0) &&
+    (!dateField || !!date) &&
+    missingDocuments.every((type) => uploads[type.key]?.id);
+
+  const handleUpload = async (type: DocumentTypeDefinition, file: File | undefined) => {
+    if (!file) return;
+    const fileError = checkDocumentFile(type, { mimeType: file.type, size: file.size });
+    if (fileError) {
+      setError(`${fileError}.`);
+      return;
+    }
+    setUploading(type.key);
+    setError(null);
+    try {
+      const response = await fetch(`/api/attachments?name=${encodeURIComponent(file.name)}&slot=${encodeURIComponent(type.key)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type },
+        body: file,
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(result.error || 'Unable to upload file.');
+        return;
+      }
+      setUploads((prev) => ({ ...prev, [type.key]: result.attachment }));
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/entries/${entry.id}/transition`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(entry.version !== undefined && { 'If-Match': entryEtag(entry.version) }),
+        },
+        body: JSON.stringify({
+          to: transition.to,
+          reason: reason.trim() || null,
+          date: dateField ? date : null,
+          attachments: uploads,
+        }),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(result?.error || 'Unable to change the status.');
+        return;
+      }
+      onDone(result);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(nextOpen) => (!nextOpen && !submitting ? onClose() : null)}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{transition.label}</DialogTitle>
+          <DialogDescription>
+            Entry #{entry.no} moves from {STATUS_LABELS[transition.from]} to {STATUS_LABELS[transition.to]}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {dateField ? (
+            <div className="space-y-2">
+              <Label htmlFor="transition-date">
+                {transition.to === 'COMPLETED' ? 'Date of completion' : 'Date of cancellation'}
+              </Label>
+              <Input id="transition-date" type="date" value={date} onChange={(event) => setDate(event.target.value)} />
+            </div>
+          ) : null}
+          {missingDocuments.map((type) => (
+            <div key={type.key} className="space-y-2">
+              <Label htmlFor={`transition-${type.key}`}>
+                {type.label} <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id={`transition-${type.key}`}
+                type="file"
+                accept={type.mimeTypes.join(',')}
+                disabled={uploading !== null || submitting}
+                onChange={(event) => void handleUpload(type, event.target.files?.[0])}
+              />
+              {uploads[type.key]?.name ? (
+                <p className="text-xs text-muted-foreground">Uploaded {uploads[type.key]?.name}</p>
+              ) : uploading === type.key ? (
+                <p className="text-xs text-muted-foreground">Uploading…</p>
+              ) : null}
+            </div>
+          ))}
+          <div className="space-y-2">
+            <Label htmlFor="transition-reason">
+              Reason {reasonRequired ? <span className="text-destructive">*</span> : <span className="text-muted-foreground">(optional)</span>}
+            </Label>
+            <textarea
+              id="transition-reason"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 resize-none"
+              disabled={submitting}
+            />
+          </div>
+          {error ? <p className="whitespace-pre-line text-sm text-destructive">{error}</p> : null}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={() => void handleSubmit()} disabled={!ready || submitting || uploading !== null}>
+            {submitting ? 'Saving…' : transition.label}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 type DetailItemProps = {
   label: string;
   value: ReactNode;
@@ -1063,11 +1614,469 @@ function DeleteConfirmationDialog({ entry, open, onClose, onConfirm, isDeleting
   );
 }
 
+type BulkActionDialogProps = {
+  bulkAction: BulkAction | null;
+  entries: Entry[];
+  permissions: readonly string[];
+  branches: string[];
+  onClose: () => void;
+  onDeselect: (ids: string[]) => void;
+  onDone: () => void;
+};
+
+function BulkActionDialog({ bulkAction, entries, permissions, branches, onClose, onDeselect, onDone }: BulkActionDialogProps) {
+  const [reason, setReason] = useState('');
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [branch, setBranch] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [failures, setFailures] = useState<BulkFailure[]>([]);
+
+  useEffect(() => {
+    if (!bulkAction) {
+      setReason('');
+      setBranch('');
+      setError(null);
+      setFailures([]);
+    }
+  }, [bulkAction]);
+
+  if (!bulkAction) return null;
+
+  // Entries the chosen status cannot be reached from, checked here so they can be left out before submitting
+  const transitions =
+    bulkAction.action === 'TRANSITION'
+      ? entries.map((entry) => ({ entry, transition: STATUS_TRANSITIONS.find((t) => t.from === entry.status && t.to === bulkAction.to) }))
+      : [];
+  const blocked: BulkFailure[] = transitions.flatMap(({ entry, transition }) => {
+    if (bulkAction.action !== 'TRANSITION') return [];
+    if (!transition) {
+      const message =
+        entry.status === bulkAction.to
+          ? `Already ${STATUS_LABELS[bulkAction.to]}`
+          : `Cannot go from ${STATUS_LABELS[entry.status]} to ${STATUS_LABELS[bulkAction.to]}`;
+      return [{ id: entry.id, no: String(entry.no), message }];
+    }
+    if (!hasPermission(permissions, transition.permission)) {
+      return [{ id: entry.id, no: String(entry.no), message: transitionDeniedMessage(transition) }];
+    }
+    return [];
+  });
+  const reasonRequired =
+    bulkAction.action === 'DELETE' || transitions.some(({ transition }) => transition?.reason === 'required');
+  const dateField = bulkAction.action === 'TRANSITION' ? statusDateField(bulkAction.to) : null;
+  const listed = failures.length > 0 ? failures : blocked;
+
+  const title =
+    bulkAction.action === 'TRANSITION'
+      ? `Change ${entries.length} entries to ${STATUS_LABELS[bulkAction.to]}`
+      : bulkAction.action === 'DELETE'
+      ? `Delete ${entries.length} entries`
+      : `Move ${entries.length} entries to another branch`;
+
+  const canSubmit =
+    entries.length > 0 &&
+    blocked.length === 0 &&
+    (!reasonRequired || reason.trim().length > 0) &&
+    (bulkAction.action !== 'REASSIGN_BRANCH' || branch.trim().length > 0);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    setFailures([]);
+    const ids = entries.map((entry) => entry.id);
+    const body =
+      bulkAction.action === 'TRANSITION'
+        ? { action: 'TRANSITION', ids, to: bulkAction.to, reason: reason.trim() || null, date: dateField ? date : null }
+        : bulkAction.action === 'DELETE'
+        ? { action: 'DELETE', ids, reason: reason.trim() }
+        : { action: 'REASSIGN_BRANCH', ids, branch: branch.trim() };
+    try {
+      const response = await fetch('/api/entries/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        setError(result?.error ?? result?.errors?.formErrors?.[0] ?? 'The selected entries could not be changed.');
+        setFailures(result?.failures ?? []);
+        return;
+      }
+      onDone();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(nextOpen) => (!nextOpen && !submitting ? onClose() : null)}>
+      <DialogContent className="sm:max-w-[540px]">
+        <DialogHeader>
+          <DialogTitle className={cn(bulkAction.action === 'DELETE' && 'text-destructive')}>{title}</DialogTitle>
+          <DialogDescription>
+            {bulkAction.action === 'DELETE'
+              ? 'The entries will be soft-deleted and can be restored by an administrator. The reason is recorded on each entry.'
+              : 'Every selected entry is changed, or none are if any of them cannot be.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {listed.length > 0 ? (
+            <div className="space-y-2 rounded-lg border border-amber-200 bg-amber-50 p-3 dark:border-amber-900/50 dark:bg-amber-950/20">
+              <p className="text-sm font-medium text-amber-900 dark:text-amber-200">
+                {listed.length} of the selected entries cannot be changed:
+              </p>
+              <ul className="max-h-32 space-y-1 overflow-y-auto text-xs text-amber-900 dark:text-amber-200">
+                {listed.map((failure) => (
+                  <li key={failure.id}>
+                    #{failure.no}: {failure.message}
+                  </li>
+                ))}
+              </ul>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  onDeselect(listed.map((failure) => failure.id));
+                  setFailures([]);
+                  setError(null);
+                }}
+                disabled={submitting}
+              >
+                Remove them from the selection
+              </Button>
+            </div>
+          ) : null}
+
+          {bulkAction.action === 'REASSIGN_BRANCH' ? (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-branch">
+                New branch <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="bulk-branch"
+                list="bulk-branch-options"
+                value={branch}
+                onChange={(event) => setBranch(event.target.value)}
+                disabled={submitting}
+              />
+              <datalist id="bulk-branch-options">
+                {branches.map((option) => (
+                  <option key={option} value={option} />
+                ))}
+              </datalist>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-reason">
+                Reason{' '}
+                {reasonRequired ? <span className="text-destructive">*</span> : <span className="text-muted-foreground">(optional)</span>}
+              </Label>
+              <textarea
+                id="bulk-reason"
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 resize-none"
+                disabled={submitting}
+              />
+            </div>
+          )}
+
+          {dateField ? (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-date">{dateField === 'dateOfCompleted' ? 'Date of completion' : 'Date of cancellation'}</Label>
+              <Input id="bulk-date" type="date" value={date} onChange={(event) => setDate(event.target.value)} disabled={submitting} />
+            </div>
+          ) : null}
+
+          {error ? <p className="text-sm text-destructive">{error}</p> : null}
+        </div>
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            variant={bulkAction.action === 'DELETE' ? 'destructive' : 'default'}
+            onClick={() => void handleSubmit()}
+            disabled={submitting || !canSubmit}
+          >
+            {submitting ? 'Saving…' : bulkAction.action === 'DELETE' ? `Delete ${entries.length} entries` : 'Apply'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const SAVED_VIEWS_KEY = '/api/entries/views';
+
+const refreshSavedViews = () => Promise.all([mutate(SAVED_VIEWS_KEY), mutate(PINNED_VIEWS_KEY)]);
+
+const readError = async (response: Response, fallback: string) => {
+  const body = await response.json().catch(() => null);
+  return body?.error ?? body?.errors?.formErrors?.[0] ?? fallback;
+};
+
+function SavedViewsMenu({ currentQuery, canManageShared }: { currentQuery: string; canManageShared: boolean }) {
+  const router = useRouter();
+  const { data } = useSWR<{ views?: SavedView[] }>(SAVED_VIEWS_KEY, fetcher);
+  const views = data?.views ?? [];
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [isManageOpen, setIsManageOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="gap-2">
+            {copied ? <Check className="h-4 w-4" /> : <Bookmark className="h-4 w-4" />}
+            {copied ? 'Link copied' : 'Views'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          {views.length === 0 ? (
+            <DropdownMenuItem disabled>No saved views yet</DropdownMenuItem>
+          ) : (
+            views.map((view) => (
+              <DropdownMenuItem
+                key={view.id}
+                onSelect={() => router.push((view.query ? `/entries?${view.query}` : '/entries') as any)}
+                className="gap-2"
+              >
+                {view.isOwner ? <Bookmark className="h-4 w-4" /> : <Users className="h-4 w-4" />}
+                <span className="flex-1 truncate">{view.name}</span>
+                {view.pinned ? <Pin className="h-3.5 w-3.5 text-muted-foreground" /> : null}
+                {view.query === currentQuery ? <Check className="h-4 w-4" /> : null}
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setIsSaveOpen(true)} className="gap-2">
+            <Bookmark className="h-4 w-4" />
+            Save current view…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleCopyLink} className="gap-2">
+            <Link2 className="h-4 w-4" />
+            Copy link to this view
+          </DropdownMenuItem>
+          {views.length > 0 ? (
+            <DropdownMenuItem onSelect={() => setIsManageOpen(true)} className="gap-2">
+              <Edit className="h-4 w-4" />
+              Manage views…
+            </DropdownMenuItem>
+          ) : null}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <SaveViewDialog query={currentQuery} open={isSaveOpen} onClose={() => setIsSaveOpen(false)} />
+      <ManageViewsDialog views={views} canManageShared={canManageShared} open={isManageOpen} onClose={() => setIsManageOpen(false)} />
+    </>
+  );
+}
+
+function SaveViewDialog({ query, open, onClose }: { query: string; open: boolean; onClose: () => void }) {
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [pinned, setPinned] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const checkboxClass = 'size-4 rounded border-input bg-background text-primary focus:ring-2 focus:ring-ring';
+
+  useEffect(() => {
+    if (!open) {
+      setName('');
+      setShared(false);
+      setPinned(true);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(SAVED_VIEWS_KEY, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), query, shared, pinned }),
+      });
+      if (!response.ok) {
+        setError(await readError(response, 'Failed to save view'));
+        return;
+      }
+      await refreshSavedViews();
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => (!nextOpen ? onClose() : null)}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Save View</DialogTitle>
+          <DialogDescription>Save the current search and filters to reopen them later.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="saved-view-name">Name</Label>
+            <Input
+              id="saved-view-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="e.g. Active loans in Addu over 500k"
+              maxLength={80}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <input id="saved-view-pinned" type="checkbox" className={checkboxClass} checked={pinned} onChange={(e) => setPinned(e.target.checked)} />
+            <Label htmlFor="saved-view-pinned" className="cursor-pointer font-normal">
+              Pin to sidebar with a live count
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <input id="saved-view-shared" type="checkbox" className={checkboxClass} checked={shared} onChange={(e) => setShared(e.target.checked)} />
+            <Label htmlFor="saved-view-shared" className="cursor-pointer font-normal">
+              Share with the team
+            </Label>
+          </div>
+          {error ? <p className="text-sm text-destructive">{error}</p> : null}
+        </div>
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? 'Saving...' : 'Save View'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ManageViewsDialog({
+  views,
+  canManageShared,
+  open,
+  onClose,
+}: {
+  views: SavedView[];
+  canManageShared: boolean;
+  open: boolean;
+  onClose: () => void;
+}) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const runAction = async (viewId: string, init: RequestInit, fallback: string) => {
+    setBusyId(viewId);
+    try {
+      const response = await fetch(`${SAVED_VIEWS_KEY}/${viewId}`, init);
+      if (!response.ok) {
+        alert(await readError(response, fallback));
+        return;
+      }
+      await refreshSavedViews();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const updateView = (view: SavedView, changes: Partial<Pick<SavedView, 'shared' | 'pinned'>>) =>
+    runAction(
+      view.id,
+      { method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(changes) },
+      'Failed to update view',
+    );
+
+  const deleteView = (view: SavedView) => {
+    if (!confirm(`Delete the saved view "${view.name}"?`)) return;
+    return runAction(view.id, { method: 'DELETE' }, 'Failed to delete view');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => (!nextOpen ? onClose() : null)}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Saved Views</DialogTitle>
+          <DialogDescription>
+            Pinned views appear in the sidebar. Shared views are listed for everyone on the team, and shared pinned views are
+            pinned for everyone.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] space-y-2 overflow-y-auto py-2">
+          {views.map((view) => {
+            const owner = view.owner?.name || view.owner?.email || 'another user';
+            const busy = busyId === view.id;
+            return (
+              <div key={view.id} className="flex items-center gap-3 rounded-lg border border-border/60 px-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium text-foreground">{view.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {view.isOwner ? (view.shared ? 'Shared with the team' : 'Only you') : `Shared by ${owner}`}
+                    {view.pinned ? ' · Pinned' : ''}
+                  </p>
+                </div>
+                {view.isOwner ? (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={busy}
+                      onClick={() => updateView(view, { pinned: !view.pinned })}
+                      aria-label={view.pinned ? 'Unpin view' : 'Pin view'}
+                      title={view.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                    >
+                      {view.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={busy}
+                      onClick={() => updateView(view, { shared: !view.shared })}
+                      aria-label={view.shared ? 'Stop sharing view' : 'Share view'}
+                      title={view.shared ? 'Stop sharing' : 'Share with the team'}
+                    >
+                      {view.shared ? <Users className="h-4 w-4" /> : <Share2 className="h-4 w-4" />}
+                    </Button>
+                  </>
+                ) : null}
+                {view.isOwner || canManageShared ? (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={busy}
+                    onClick={() => deleteView(view)}
+                    aria-label="Delete view"
+                    title="Delete view"
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function EntryAuditDialog({ entryId, open, onClose }: { entryId: string | null; open: boolean; onClose: () => void }) {
   const [logs, setLogs] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [refreshToken, setRefreshToken] = useState(0);
+  const attachmentLabel = useAttachmentLabel();
 
   useEffect(() => {
     if (!open || !entryId) {
@@ -1158,6 +2167,7 @@ function EntryAuditDialog({ entryId, open, onClose }: { entryId: string | null;
           : '—';
         const initials = log.actor?.email?.[0]?.toUpperCase() ?? 'A';
         const detailText = formatAuditDetails(log.action || '', log.details);
+        const replacedVersions = getReplacedAttachmentVersions(log.action || '', log.details);
 
         return (
           <li key={log.id ?? `${log.createdAt}-${idx}`} className="relative pl-12">
@@ -1183,6 +2193,26 @@ function EntryAuditDialog({ entryId, open, onClose }: { entryId: string | null;
                 <pre className="whitespace-pre-wrap break-words rounded-lg bg-muted/40 p-3 text-xs leading-relaxed text-muted-foreground">
                   {detailText}
                 </pre>
+                {replacedVersions.length > 0 ? (
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">Replaced documents</p>
+                    <ul className="space-y-1">
+                      {replacedVersions.map((version) => (
+                        <li key={version.id} className="text-xs">
+                          <a
+                            href={getAttachmentUrl(version.id)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 font-medium text-primary hover:underline"
+                          >
+                            <FileText className="h-3.5 w-3.5" />
+                            {attachmentLabel(version.slot)} v{version.version}: {version.name}
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
                 {log.targetEntry?.agreementNumber ? (
                   <p className="text-xs text-muted-foreground/80">
                     Agreement: <span className="font-medium text-foreground">{log.targetEntry.agreementNumber}</span>
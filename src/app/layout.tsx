@@ -23,13 +23,13 @@ export const metadata: Metadata = {
 
 export default async function RootLayout({ children }: { children: React.ReactNode }) {
   const session = await getServerSession(authOptions);
-  const role = (session?.user as any)?.role;
   const isAuthed = Boolean(session);
   const sidebarUser = {
     name: session?.user?.name ?? null,
     email: session?.user?.email ?? null,
     image: (session?.user as any)?.image ?? null,
-    role: role ?? null,
+    role: (session?.user as any)?.roleName ?? null,
+    permissions: ((session?.user as any)?.permissions ?? []) as string[],
   };
 
   return (
@@ -0,0 +1,302 @@
+'use client';
+import { useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { format } from 'date-fns';
+import { ClipboardCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty';
+import {
+  REVIEW_DECISION_LABELS,
+  REVIEW_STEPS,
+  isEntryMaker,
+  reviewDeniedMessage,
+  type ReviewAction,
+  type ReviewStep,
+} from '@/lib/entry-review';
+import { usePermissions } from '@/hooks/use-permissions';
+
+type Person = { id: string; name?: string | null; email?: string | null };
+
+type QueueEntry = {
+  id: string;
+  no: string;
+  agreementNumber: string;
+  branch: string;
+  loanAmount: string;
+  borrowers: { fullName: string }[];
+  createdAt: string;
+  createdBy: Person | null;
+  updatedById: string | null;
+  reviews: { decision: keyof typeof REVIEW_DECISION_LABELS; comment: string | null; createdAt: string; actor: Person | null }[];
+};
+
+type Tab = 'PENDING_REVIEW' | 'DRAFT';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+const personName = (person?: Person | null) => person?.name || person?.email || '—';
+
+const formatCurrency = (value: string) =>
+  Number(value).toLocaleString('en-MV', { style: 'currency', currency: 'MVR', maximumFractionDigits: 2 });
+
+export default function ReviewQueueClient({ userId }: { userId: string | null }) {
+  const [tab, setTab] = useState<Tab>('PENDING_REVIEW');
+  const [pending, setPending] = useState<{ entry: QueueEntry; step: ReviewStep } | null>(null);
+  const { data, isLoading, mutate } = useSWR<{ items?: QueueEntry[]; total?: number }>(
+    `/api/entries?review=${tab}&size=100`,
+    fetcher,
+  );
+  const entries = data?.items ?? [];
+  const { can } = usePermissions();
+
+  const stepFor = (action: ReviewAction) => REVIEW_STEPS.find((step) => step.action === action)!;
+
+  // The latest step of an entry awaiting review is its submission
+  const isMaker = (entry: QueueEntry) =>
+    isEntryMaker(userId, {
+      createdById: entry.createdBy?.id,
+      submittedById: entry.reviews[0]?.decision === 'SUBMITTED' ? entry.reviews[0].actor?.id : null,
+      updatedById: entry.updatedById,
+    });
+
+  // Why the user may not take a step on an entry, if they may not
+  const blockedReason = (entry: QueueEntry, step: ReviewStep) =>
+    !can(step.permission)
+      ? reviewDeniedMessage(step)
+      : step.checker && isMaker(entry)
+        ? 'You cannot review an entry you made'
+        : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-semibold text-foreground">Review queue</h1>
+        <p className="text-sm text-muted-foreground">
+          New entries count in reports and borrower exposure once someone other than their maker approves them. Rejected
+          entries go back to their maker to correct and resubmit.
+        </p>
+      </div>
+
+      <Tabs value={tab} onValueChange={(value) => setTab(value as Tab)}>
+        <TabsList>
+          <TabsTrigger value="PENDING_REVIEW">Awaiting review</TabsTrigger>
+          <TabsTrigger value="DRAFT">Returned</TabsTrigger>
+        </TabsList>
+        <TabsContent value={tab}>
+          {isLoading ? (
+            <Skeleton className="h-40 w-full" />
+          ) : entries.length === 0 ? (
+            <Card>
+              <CardContent className="pt-6">
+                <Empty>
+                  <EmptyHeader>
+                    <EmptyMedia variant="icon">
+                      <ClipboardCheck className="h-6 w-6" />
+                    </EmptyMedia>
+                    <EmptyTitle>{tab === 'PENDING_REVIEW' ? 'Nothing to review' : 'No returned entries'}</EmptyTitle>
+                    <EmptyDescription>
+                      {tab === 'PENDING_REVIEW'
+                        ? 'Every submitted entry has been reviewed.'
+                        : 'No entries are waiting to be corrected.'}
+                    </EmptyDescription>
+                  </EmptyHeader>
+                </Empty>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="px-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Registry No</TableHead>
+                      <TableHead>Agreement</TableHead>
+                      <TableHead>Borrower</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Made by</TableHead>
+                      <TableHead>{tab === 'PENDING_REVIEW' ? 'Submitted' : 'Returned'}</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => {
+                      const latest = entry.reviews[0];
+                      const reject = stepFor('REJECT');
+                      const approve = stepFor('APPROVE');
+                      const resubmit = stepFor('SUBMIT');
+                      return (
+                        <TableRow key={entry.id}>
+                          <TableCell className="font-medium">
+                            <Link href={`/entries/${entry.id}/edit` as any} className="hover:underline">
+                              {entry.no}
+                            </Link>
+                          </TableCell>
+                          <TableCell>
+                            {entry.agreementNumber}
+                            <span className="block text-xs text-muted-foreground">{entry.branch}</span>
+                          </TableCell>
+                          <TableCell>{entry.borrowers[0]?.fullName ?? '—'}</TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(entry.loanAmount)}</TableCell>
+                          <TableCell className="text-muted-foreground">{personName(entry.createdBy)}</TableCell>
+                          <TableCell className="max-w-xs text-muted-foreground">
+                            {format(new Date(latest?.createdAt ?? entry.createdAt), 'dd MMM yyyy HH:mm')}
+                            {latest?.actor ? <span className="block text-xs">{personName(latest.actor)}</span> : null}
+                            {latest?.comment ? <span className="block text-xs text-foreground">“{latest.comment}”</span> : null}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {tab === 'PENDING_REVIEW' ? (
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={!!blockedReason(entry, reject)}
+                                  title={blockedReason(entry, reject)}
+                                  onClick={() => setPending({ entry, step: reject })}
+                                >
+                                  Reject
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  disabled={!!blockedReason(entry, approve)}
+                                  title={blockedReason(entry, approve)}
+                                  onClick={() => setPending({ entry, step: approve })}
+                                >
+                                  Approve
+                                </Button>
+                              </div>
+                            ) : (
+                              <div className="flex justify-end gap-2">
+                                {can('entry.update') ? (
+                                  <Button size="sm" variant="outline" asChild>
+                                    <Link href={`/entries/${entry.id}/edit` as any}>Edit</Link>
+                                  </Button>
+                                ) : null}
+                                <Button
+                                  size="sm"
+                                  disabled={!!blockedReason(entry, resubmit)}
+                                  title={blockedReason(entry, resubmit)}
+                                  onClick={() => setPending({ entry, step: resubmit })}
+                                >
+                                  Resubmit
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <ReviewDialog
+        entry={pending?.entry ?? null}
+        step={pending?.step ?? null}
+        onClose={() => setPending(null)}
+        onDone={() => {
+          setPending(null);
+          void mutate();
+        }}
+      />
+    </div>
+  );
+}
+
+type ReviewDialogProps = {
+  entry: QueueEntry | null;
+  step: ReviewStep | null;
+  onClose: () => void;
+  onDone: () => void;
+};
+
+function ReviewDialog({ entry, step, onClose, onDone }: ReviewDialogProps) {
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!entry || !step) return null;
+
+  const commentRequired = step.comment === 'required';
+
+  const close = () => {
+    setComment('');
+    setError(null);
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/entries/${entry.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: step.action, comment: comment.trim() || null }),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(result?.error || 'Unable to save the review.');
+        return;
+      }
+      setComment('');
+      onDone();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(nextOpen) => (!nextOpen && !submitting ? close() : null)}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>
+            {step.label} entry #{entry.no}
+          </DialogTitle>
+          <DialogDescription>
+            {step.action === 'APPROVE'
+              ? 'The entry will count in reports and borrower exposure.'
+              : step.action === 'REJECT'
+              ? 'The entry goes back to its maker with your comment.'
+              : 'The entry goes back into the review queue.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="review-comment">
+            Comment {commentRequired ? <span className="text-destructive">*</span> : <span className="text-muted-foreground">(optional)</span>}
+          </Label>
+          <textarea
+            id="review-comment"
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 resize-none"
+            disabled={submitting}
+          />
+          {error ? <p className="text-sm text-destructive">{error}</p> : null}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={close} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            variant={step.action === 'REJECT' ? 'destructive' : 'default'}
+            onClick={() => void handleSubmit()}
+            disabled={submitting || (commentRequired && comment.trim().length === 0)}
+          >
+            {submitting ? 'Saving…' : step.label}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
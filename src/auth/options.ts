@@ -5,6 +5,9 @@ import { prisma } from "@/lib/db"
 import bcrypt from "bcryptjs"
 import { Adapter } from "next-auth/adapters"
 import { AuditAction } from "@prisma/client"
+import { auditDetails } from "@/lib/audit-details";
+import { getRoleAccess } from "@/lib/roles";
+import { DEFAULT_ROLE } from "@/lib/permissions";
 
 export const authOptions: NextAuthOptions = {
   adapter: PrismaAdapter(prisma) as Adapter,
@@ -33,14 +36,18 @@ export const authOptions: NextAuthOptions = {
       if (!token.role || !token.id) {
         const u = await prisma.user.findUnique({ where: { email: token.email! } });
         if (u) {
-          token.role = (u as any)?.role ?? "VIEWER";
+          token.role = (u as any)?.role ?? DEFAULT_ROLE;
           token.id = u.id;
         }
       }
       return token;
     },
     async session({ session, token }) {
+      // Permissions are read from the role each time, so role edits apply without signing in again
+      const access = await getRoleAccess(token.role as string | undefined);
       (session.user as any).role = token.role;
+      (session.user as any).roleName = access?.name ?? token.role;
+      (session.user as any).permissions = access?.permissions ?? [];
       (session.user as any).id = token.id;
       return session;
     }
@@ -49,7 +56,7 @@ export const authOptions: NextAuthOptions = {
     async signIn({ user }) {
       try { 
         const userId = user.id as string;
-        await prisma.auditLog.create({ data: { action: AuditAction.USER_SIGNED_IN, ...(userId && { actorId: userId }), targetUserId: userId } }); 
+        await prisma.auditLog.create({ data: { action: AuditAction.USER_SIGNED_IN, ...(userId && { actorId: userId }), targetUserId: userId, details: auditDetails(AuditAction.USER_SIGNED_IN, {}) } }); 
       } catch {}
     }
   },
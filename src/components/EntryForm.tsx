@@ -2,9 +2,11 @@
 import { useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { z } from 'zod';
 import useSWR from 'swr';
-import { EntrySchema } from '@/lib/validation';
+import { createEntrySchema } from '@/lib/validation';
+import { usePermissions } from '@/hooks/use-permissions';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,11 +16,39 @@ import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Download, PlusCircle, X } from 'lucide-react';
+import { AlertTriangle, Download, PlusCircle, X } from 'lucide-react';
+import { BORROWER_ROLES, BORROWER_ROLE_LABELS, resolveBorrowerRoles, type BorrowerRole } from '@/lib/borrowers';
+import {
+  DEFAULT_NATIONAL_ID_TYPE,
+  NATIONAL_ID_TYPES,
+  NATIONAL_ID_TYPE_LABELS,
+  nationalIdExample,
+  validateNationalId,
+  type NationalIdType,
+} from '@/lib/national-id';
+import type { DuplicateField } from '@/lib/duplicates';
+import {
+  ENTRY_MERGE_FIELDS,
+  ENTRY_MERGE_FIELD_LABELS,
+  entryEtag,
+  planEntryMerge,
+  type EntryMergeField,
+  type EntryMergePlan,
+} from '@/lib/entry-versions';
+import { DRAFT_AUTOSAVE_DELAY_MS, type DraftListItem, type DraftPayload } from '@/lib/drafts';
 import type { AttachmentRecord as GenericAttachmentRecord, AttachmentValue as GenericAttachmentValue } from '@/lib/attachments';
-import { sanitizeAttachmentRecord, sanitizeAttachmentValue } from '@/lib/attachments';
+import { getAttachmentUrl, sanitizeAttachmentRecord, sanitizeAttachmentValue } from '@/lib/attachments';
+import {
+  checkDocumentFile,
+  describeMissingDocument,
+  formatMimeType,
+  isDocumentApplicable,
+  isDocumentRequired,
+  parseDocumentTypeSettings,
+  type DocumentTypeDefinition,
+} from '@/lib/document-types';
 
-type Borrower = { fullName: string; nationalId: string };
+type Borrower = { fullName: string; nationalId: string; idType: NationalIdType; role: BorrowerRole };
 type FormData = {
   no: string;
   address: string;
@@ -34,6 +64,13 @@ type FormData = {
   borrowers: Borrower[];
 };
 
+type NumberReservation = {
+  id: string;
+  no: string;
+  expiresAt: string;
+  ttlMinutes: number;
+};
+
 type SystemSetting = {
   id: string;
   category: string;
@@ -41,79 +78,125 @@ type SystemSetting = {
   displayName: string | null;
   isActive: boolean;
   sortOrder: number;
+  config?: unknown;
 };
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
-const emptyBorrower: Borrower = { fullName: '', nationalId: '' };
+const emptyBorrower: Borrower = { fullName: '', nationalId: '', idType: DEFAULT_NATIONAL_ID_TYPE, role: 'CO_BORROWER' };
+const firstBorrower: Borrower = { ...emptyBorrower, role: 'PRIMARY' };
 
-const statusOptions: { value: FormData['status']; label: string }[] = [
-  { value: 'ONGOING', label: 'Active' },
-  { value: 'CANCELLED', label: 'Cancelled' },
-  { value: 'COMPLETED', label: 'Completed' },
-];
+// Entries saved before borrower roles existed list the primary borrower first
+const withRoles = (
+  borrowers: { fullName?: string | null; nationalId?: string | null; idType?: NationalIdType | null; role?: BorrowerRole | null }[]
+): Borrower[] => {
+  const roles = resolveBorrowerRoles(borrowers);
+  return borrowers.map((borrower, index) => ({
+    fullName: borrower.fullName ?? '',
+    nationalId: borrower.nationalId ?? '',
+    idType: borrower.idType ?? DEFAULT_NATIONAL_ID_TYPE,
+    role: roles[index],
+  }));
+};
 
-const ATTACHMENT_FIELDS = [
-  { key: 'bankLetter', label: 'Bank Letter' },
-  { key: 'agreementDocument', label: 'Agreement Document' },
-  { key: 'landRegistry', label: 'Land Registry' },
-] as const;
+const formatCurrency = (value: string) =>
+  Number(value).toLocaleString('en-MV', { style: 'currency', currency: 'MVR', minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
-const CANCELLATION_ATTACHMENT_KEY = 'cancellationBankDocument' as const;
-const COMPLETION_ATTACHMENT_KEY = 'completionBankDocument' as const;
+type BorrowerExposure = {
+  person: { id: string; fullName: string };
+  activeAgreements: number;
+  outstanding: string;
+};
 
-type AttachmentKey = (typeof ATTACHMENT_FIELDS)[number]['key'];
-type CancellationAttachmentKey = typeof CANCELLATION_ATTACHMENT_KEY;
-type CompletionAttachmentKey = typeof COMPLETION_ATTACHMENT_KEY;
-type AllAttachmentKeys = AttachmentKey | CancellationAttachmentKey | CompletionAttachmentKey;
+// Warns when a borrower is already on active agreements; the entry being edited does not count
+function BorrowerExposureWarning({ borrower, excludeEntryId }: { borrower: Borrower; excludeEntryId?: string }) {
+  const params = new URLSearchParams({ nationalId: borrower.nationalId, idType: borrower.idType });
+  if (excludeEntryId) params.set('excludeEntryId', excludeEntryId);
+  const lookup = borrower.nationalId.trim() && !validateNationalId(borrower.nationalId, borrower.idType);
+  const { data } = useSWR<{ exposure: BorrowerExposure | null }>(lookup ? `/api/borrowers/exposure?${params}` : null, fetcher);
 
-type AttachmentValue = GenericAttachmentValue;
+  const exposure = data?.exposure;
+  if (!exposure) return null;
+
+  return (
+    <Alert className="mt-4 border-amber-500/40 bg-amber-500/10 text-amber-900 dark:text-amber-200">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Existing active agreements</AlertTitle>
+      <AlertDescription>
+        <span>
+          <Link href={`/borrowers/${exposure.person.id}` as any} className="font-medium underline-offset-4 hover:underline">
+            {exposure.person.fullName}
+          </Link>{' '}
+          is already party to {exposure.activeAgreements} active{' '}
+          {exposure.activeAgreements === 1 ? 'agreement' : 'agreements'} with {formatCurrency(exposure.outstanding)} outstanding.
+        </span>
+      </AlertDescription>
+    </Alert>
+  );
+}
 
-type AttachmentRecord = Pick<GenericAttachmentRecord, AttachmentKey | CancellationAttachmentKey | CompletionAttachmentKey>;
+type DuplicateConflict = { entryId: string; no: string; fields: DuplicateField[] };
 
-type AttachmentErrors = Record<AllAttachmentKeys, string | null>;
+const duplicateFieldLabels: Record<DuplicateField, string> = {
+  agreementNumber: 'agreement number',
+  branch: 'branch',
+  formNumber: 'form number',
+};
 
-const ATTACHMENT_KEYS: AttachmentKey[] = ATTACHMENT_FIELDS.map(({ key }) => key);
+// Shapes an entry from the API the way the form holds it
+const entryToFormData = (entry: any): FormData => ({
+  no: String(entry.no ?? 0),
+  address: entry.address ?? '',
+  island: entry.island ?? '',
+  formNumber: entry.formNumber ?? '',
+  date: entry.date ? entry.date.slice(0, 10) : '',
+  branch: entry.branch ?? '',
+  agreementNumber: entry.agreementNumber ?? '',
+  status: entry.status ?? 'ONGOING',
+  loanAmount: Number(entry.loanAmount) || 0,
+  dateOfCancelled: entry.dateOfCancelled ? entry.dateOfCancelled.slice(0, 10) : null,
+  dateOfCompleted: entry.dateOfCompleted ? entry.dateOfCompleted.slice(0, 10) : null,
+  borrowers: Array.isArray(entry.borrowers) && entry.borrowers.length ? withRoles(entry.borrowers) : [firstBorrower],
+});
 
-const createEmptyAttachmentValue = (): AttachmentValue => sanitizeAttachmentValue(null);
+type EntrySnapshot = { data: FormData; attachments: AttachmentRecord };
 
-const createEmptyAttachmentRecord = (): AttachmentRecord => {
-  const record = ATTACHMENT_KEYS.reduce((acc, key) => {
-    acc[key] = createEmptyAttachmentValue();
-    return acc;
-  }, {} as AttachmentRecord);
-  record[CANCELLATION_ATTACHMENT_KEY] = createEmptyAttachmentValue();
-  record[COMPLETION_ATTACHMENT_KEY] = createEmptyAttachmentValue();
-  return record;
-};
+// A save rejected because someone else saved first, with their version of the entry
+type VersionConflict = EntrySnapshot & { version: number; plan: EntryMergePlan };
 
-const createEmptyAttachmentErrors = (): AttachmentErrors => {
-  const errors = ATTACHMENT_KEYS.reduce((acc, key) => {
-    acc[key] = null;
-    return acc;
-  }, {} as any);
-  errors[CANCELLATION_ATTACHMENT_KEY] = null;
-  errors[COMPLETION_ATTACHMENT_KEY] = null;
-  return errors;
+const formatMergeValue = (field: EntryMergeField, snapshot: EntrySnapshot) => {
+  if (field === 'attachments') {
+    const names = Object.values(snapshot.attachments)
+      .filter((value) => value?.id)
+      .map((value) => value?.name || 'Unnamed file');
+    return names.length > 0 ? names.join(', ') : 'No documents';
+  }
+  if (field === 'borrowers') {
+    return snapshot.data.borrowers
+      .map((borrower) => `${borrower.fullName || '—'} (${borrower.nationalId || '—'}, ${BORROWER_ROLE_LABELS[borrower.role]})`)
+      .join('; ');
+  }
+  if (field === 'loanAmount') return formatCurrency(String(snapshot.data.loanAmount));
+  if (field === 'status') return statusOptions.find((option) => option.value === snapshot.data.status)?.label ?? snapshot.data.status;
+  const value = snapshot.data[field];
+  return value ? String(value) : '—';
 };
 
-const readFileAsDataURL = (file: File): Promise<string> =>
-  new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : '');
-    reader.onerror = () => reject(reader.error);
-    reader.readAsDataURL(file);
-  });
+const statusOptions: { value: FormData['status']; label: string }[] = [
+  { value: 'ONGOING', label: 'Active' },
+  { value: 'CANCELLED', label: 'Cancelled' },
+  { value: 'COMPLETED', label: 'Completed' },
+];
 
-const sanitizeAttachmentRecordWithKeys = (
-  value: Partial<Record<AllAttachmentKeys, Partial<AttachmentValue>>> | null | undefined,
-): AttachmentRecord => {
-  const allKeys = [...ATTACHMENT_KEYS, CANCELLATION_ATTACHMENT_KEY, COMPLETION_ATTACHMENT_KEY];
-  return sanitizeAttachmentRecord(value ?? undefined, allKeys) as AttachmentRecord;
-};
+type AttachmentValue = GenericAttachmentValue;
 
-const isPdf = (file: File | null | undefined) =>
-  !!file && file.type === 'application/pdf' && file.name.toLowerCase().endsWith('.pdf');
+type AttachmentRecord = GenericAttachmentRecord;
+
+type AttachmentErrors = Record<string, string | null>;
+
+const createEmptyAttachmentValue = (): AttachmentValue => sanitizeAttachmentValue(null);
+
+const formatAcceptedTypes = (type: DocumentTypeDefinition) => type.mimeTypes.map(formatMimeType).join('/');
 
 const formatFileSize = (bytes: number) => {
   if (Number.isNaN(bytes) || bytes <= 0) return '0 B';
@@ -123,23 +206,9 @@ const formatFileSize = (bytes: number) => {
   return `${value.toFixed(value >= 10 || exponent === 0 ? 0 : 1)} ${units[exponent]}`;
 };
 
-const MAX_TOTAL_SIZE = 8 * 1024 * 1024; // 8 MB
-
-const createFileFromDataUrl = (dataUrl: string, fileName: string): File => {
-  const [meta, content] = dataUrl.split(',');
-  const mimeMatch = meta.match(/data:(.*);base64/);
-  const mimeType = mimeMatch?.[1] ?? 'application/pdf';
-  const binary = atob(content);
-  const length = binary.length;
-  const array = new Uint8Array(length);
-  for (let i = 0; i < length; i += 1) {
-    array[i] = binary.charCodeAt(i);
-  }
-  return new File([array], fileName, { type: mimeType });
-};
-
 type InitialData = {
   id: string;
+  version: number;
   no: number;
   address: string;
   island: string;
@@ -155,21 +224,25 @@ type InitialData = {
   attachments: any;
 };
 
-export default function EntryForm({ mode, id, initialData }: { mode: 'create' | 'edit'; id?: string; initialData?: InitialData }) {
+type EntryFormProps = {
+  mode: 'create' | 'edit';
+  id?: string;
+  initialData?: InitialData;
+  /** Draft to resume, from the drafts list */
+  draftId?: string;
+};
+
+export default function EntryForm({ mode, id, initialData, draftId: initialDraftId }: EntryFormProps) {
   const router = useRouter();
-  const { data: session, status } = useSession();
-  const role = (session?.user as any)?.role;
-  const canWrite = role === 'ADMIN' || role === 'DATA_ENTRY';
+  const { status } = useSession();
+  const { can } = usePermissions();
+  const canWrite = can(mode === 'create' ? 'entry.create' : 'entry.update');
   
   // Fetch system settings for islands and branches
   const { data: islandData } = useSWR('/api/admin/settings?category=ISLAND', fetcher);
   const { data: branchData } = useSWR('/api/admin/settings?category=BANK_BRANCH', fetcher);
+  const { data: documentTypeData } = useSWR('/api/admin/settings?category=DOCUMENT_TYPE', fetcher);
   
-  // Fetch next registry number for new entries
-  const { data: nextRegistryData } = useSWR(
-    mode === 'create' ? '/api/entries/next-number' : null,
-    fetcher
-  );
   
   // Filter and sort active settings
   const islands = useMemo(() => {
@@ -185,6 +258,13 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
       .filter((s) => s.isActive)
       .sort((a, b) => a.sortOrder - b.sortOrder || a.value.localeCompare(b.value));
   }, [branchData]);
+
+  // Document slots and their rules come from the DOCUMENT_TYPE settings
+  const documentTypes = useMemo(
+    () => parseDocumentTypeSettings((documentTypeData?.settings || []) as SystemSetting[]),
+    [documentTypeData],
+  );
+  const entrySchema = useMemo(() => createEntrySchema(documentTypes), [documentTypes]);
   
   const [data, setData] = useState<FormData>({
     no: '',
@@ -198,61 +278,75 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
     loanAmount: 0,
     dateOfCancelled: null,
     dateOfCompleted: null,
-    borrowers: [emptyBorrower],
+    borrowers: [firstBorrower],
   });
   
-  // Update registry number when next number is fetched (create mode only)
-  useEffect(() => {
-    if (mode === 'create' && nextRegistryData?.nextNumber) {
-      setData((prev) => ({ ...prev, no: nextRegistryData.nextNumber }));
-    }
-  }, [mode, nextRegistryData]);
-  const [errors, setErrors] = useState<z.typeToFlattenedError<FormData> | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [loadingEntry, setLoadingEntry] = useState(mode === 'edit' && !initialData);
-  const [serverError, setServerError] = useState<string | null>(null);
-  const storageKey = useMemo(() => (mode === 'edit' && id ? `entry-attachments-${id}` : 'entry-attachments-new'), [mode, id]);
-  const [attachments, setAttachments] = useState<AttachmentRecord>(createEmptyAttachmentRecord);
-  const [attachmentErrors, setAttachmentErrors] = useState<AttachmentErrors>(createEmptyAttachmentErrors);
-  const [totalSize, setTotalSize] = useState(0);
-  const [persistenceError, setPersistenceError] = useState<string | null>(null);
-  const disableSubmit = useMemo(() => loading || totalSize > MAX_TOTAL_SIZE, [loading, totalSize]);
-  const fileInputRefs = useRef<Record<AllAttachmentKeys, HTMLInputElement | null>>({
-    bankLetter: null,
-    agreementDocument: null,
-    landRegistry: null,
-    cancellationBankDocument: null,
-    completionBankDocument: null,
-  });
+  // Reserve a registry number for new entries so the number written on the
+  // paper form is the one that gets saved
+  const [reservation, setReservation] = useState<NumberReservation | null>(null);
+  const [reservationError, setReservationError] = useState<string | null>(null);
+  const [reserving, setReserving] = useState(false);
 
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
+  const reserveNumber = async () => {
+    setReserving(true);
+    setReservationError(null);
     try {
-      const raw = window.sessionStorage.getItem(storageKey);
-      if (!raw) return;
-      const parsed = JSON.parse(raw) as Partial<AttachmentRecord> | null;
-      const next = sanitizeAttachmentRecordWithKeys(parsed ?? undefined);
-      setAttachments(next);
-      const size = Object.values(next).reduce((acc, item) => acc + (item.size ?? 0), 0);
-      setTotalSize(size);
+      const res = await fetch('/api/entries/reservations', { method: 'POST' });
+      const result = await res.json().catch(() => null);
+      if (!res.ok || !result?.reservation) {
+        setReservationError(result?.error || 'Unable to reserve a registry number.');
+        return;
+      }
+      setReservation(result.reservation);
+      setData((prev) => ({ ...prev, no: result.reservation.no }));
     } catch (error) {
-      console.error('Failed to hydrate attachments', error);
-      setPersistenceError('Unable to load draft attachments. Your files will persist for this session only.');
+      console.error('Failed to reserve registry number', error);
+      setReservationError('Unable to reserve a registry number.');
+    } finally {
+      setReserving(false);
     }
-  }, [storageKey]);
+  };
 
   useEffect(() => {
-    if (typeof window === 'undefined') return;
-    const size = Object.values(attachments).reduce((acc, item) => acc + (item.size ?? 0), 0);
-    setTotalSize(size);
-    try {
-      window.sessionStorage.setItem(storageKey, JSON.stringify(attachments));
-      setPersistenceError(null);
-    } catch (error) {
-      console.warn('Failed to persist attachments in sessionStorage', error);
-      setPersistenceError('Storage quota reached. Files will remain available while this page stays open.');
-    }
-  }, [attachments, storageKey]);
+    if (mode !== 'create' || !canWrite) return;
+    void reserveNumber();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mode, canWrite]);
+
+  const releaseReservation = () => {
+    if (!reservation) return;
+    // Fire-and-forget: an unreleased reservation simply expires
+    void fetch(`/api/entries/reservations/${reservation.id}`, { method: 'DELETE' }).catch(() => undefined);
+  };
+  const [errors, setErrors] = useState<z.typeToFlattenedError<FormData> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingEntry, setLoadingEntry] = useState(mode === 'edit' && !initialData);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [duplicateConflicts, setDuplicateConflicts] = useState<DuplicateConflict[] | null>(null);
+  const [duplicateJustification, setDuplicateJustification] = useState('');
+  // The version being edited and the entry as it was loaded, for merging if someone else saves first
+  const [version, setVersion] = useState<number | null>(initialData?.version ?? null);
+  const [base, setBase] = useState<EntrySnapshot | null>(null);
+  const [versionConflict, setVersionConflict] = useState<VersionConflict | null>(null);
+  const [resolutions, setResolutions] = useState<Partial<Record<EntryMergeField, 'yours' | 'theirs'>>>({});
+  const [attachments, setAttachments] = useState<AttachmentRecord>({});
+  const [attachmentErrors, setAttachmentErrors] = useState<AttachmentErrors>({});
+  const [uploading, setUploading] = useState<Record<string, boolean>>({});
+  // What has been typed is saved to the server as a draft until the entry is submitted
+  const [draftId, setDraftId] = useState<string | null>(initialDraftId ?? null);
+  const [resumingDraft, setResumingDraft] = useState(!!initialDraftId);
+  const [savingDraft, setSavingDraft] = useState(false);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  // A draft of this entry left from an earlier visit, offered for resuming
+  const [earlierDraft, setEarlierDraft] = useState<DraftListItem | null>(null);
+  const savedSnapshot = useRef<string | null>(null);
+  const disableSubmit = useMemo(() => loading || Object.values(uploading).some(Boolean), [loading, uploading]);
+  const fileInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
+  const generalDocumentTypes = documentTypes.filter((type) => type.statuses.length === 0);
+  const statusDocumentTypes = documentTypes.filter(
+    (type) => type.statuses.length > 0 && isDocumentApplicable(type, data.status),
+  );
 
   // Load initial data from server-side props or fetch client-side
   useEffect(() => {
@@ -260,7 +354,7 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
 
     // If we have initialData from server, use it immediately
     if (initialData) {
-      setData({
+      const loaded: FormData = {
         no: String(initialData.no ?? 0),
         address: initialData.address ?? '',
         island: initialData.island ?? '',
@@ -273,12 +367,16 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
         dateOfCancelled: initialData.dateOfCancelled ?? null,
         dateOfCompleted: initialData.dateOfCompleted ?? null,
         borrowers: initialData.borrowers && initialData.borrowers.length > 0
-          ? initialData.borrowers
-          : [emptyBorrower],
-      });
+          ? withRoles(initialData.borrowers)
+          : [firstBorrower],
+      };
+      const loadedAttachments = sanitizeAttachmentRecord(initialData.attachments);
+      setData(loaded);
+      setBase({ data: loaded, attachments: loadedAttachments });
+      setVersion(initialData.version);
 
       if (initialData.attachments) {
-        setAttachments(sanitizeAttachmentRecordWithKeys(initialData.attachments));
+        setAttachments(loadedAttachments);
       }
       setLoadingEntry(false);
       return;
@@ -294,28 +392,13 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
         if (!response.ok) throw new Error('Failed to fetch entry');
         const entry = await response.json();
 
-        setData({
-          no: String(entry.no ?? 0),
-          address: entry.address ?? '',
-          island: entry.island ?? '',
-          formNumber: entry.formNumber ?? '',
-          date: entry.date ? entry.date.slice(0, 10) : '',
-          branch: entry.branch ?? '',
-          agreementNumber: entry.agreementNumber ?? '',
-          status: entry.status ?? 'ONGOING',
-          loanAmount: Number(entry.loanAmount) || 0,
-          dateOfCancelled: entry.dateOfCancelled ? entry.dateOfCancelled.slice(0, 10) : null,
-          dateOfCompleted: entry.dateOfCompleted ? entry.dateOfCompleted.slice(0, 10) : null,
-          borrowers: Array.isArray(entry.borrowers) && entry.borrowers.length
-            ? entry.borrowers.map((borrower: any) => ({
-                fullName: borrower.fullName ?? '',
-                nationalId: borrower.nationalId ?? '',
-              }))
-            : [emptyBorrower],
-        });
+        const loaded = entryToFormData(entry);
+        setData(loaded);
+        setBase({ data: loaded, attachments: sanitizeAttachmentRecord(entry.attachments) });
+        setVersion(entry.version);
 
         if (entry.attachments) {
-          setAttachments(sanitizeAttachmentRecordWithKeys(entry.attachments));
+          setAttachments(sanitizeAttachmentRecord(entry.attachments));
         }
       } catch (error) {
         if ((error as Error).name !== 'AbortError') {
@@ -335,60 +418,157 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
       controller.abort();
     };
   }, [id, mode, initialData]);
-  const handleAttachmentChange = async (key: AllAttachmentKeys, event: ChangeEvent<HTMLInputElement>) => {
+  const resumeDraft = async (targetId: string) => {
+    setResumingDraft(true);
+    try {
+      const response = await fetch(`/api/entries/drafts/${targetId}`);
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result?.draft) throw new Error(result?.error || 'Draft not found');
+      const payload = result.draft.payload as DraftPayload;
+      // New entries keep the number reserved for this form
+      setData((prev) => ({ ...prev, ...(payload.data as Partial<FormData>), ...(mode === 'create' && { no: prev.no }) }));
+      setAttachments(sanitizeAttachmentRecord(payload.attachments));
+      if (mode === 'edit' && typeof payload.version === 'number') {
+        setVersion(payload.version);
+        if (payload.base) setBase(payload.base as EntrySnapshot);
+      }
+      savedSnapshot.current = null;
+      setDraftId(result.draft.id);
+      setDraftSavedAt(new Date(result.draft.updatedAt));
+      setDraftError(null);
+    } catch (error) {
+      console.error('Failed to resume draft', error);
+      setDraftError('Unable to load the draft. It may have been submitted or discarded.');
+    } finally {
+      setResumingDraft(false);
+    }
+  };
+
+  // Resume the draft opened from the drafts list once the entry itself has loaded
+  useEffect(() => {
+    if (!initialDraftId || loadingEntry) return;
+    void resumeDraft(initialDraftId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialDraftId, loadingEntry]);
+
+  useEffect(() => {
+    if (mode !== 'edit' || !id || initialDraftId || !canWrite) return;
+    fetch(`/api/entries/drafts?entryId=${encodeURIComponent(id)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((result) => setEarlierDraft(result?.drafts?.[0] ?? null))
+      .catch(() => undefined);
+  }, [mode, id, initialDraftId, canWrite]);
+
+  const discardDraft = (targetId: string | null) => {
+    if (!targetId) return;
+    void fetch(`/api/entries/drafts/${targetId}`, { method: 'DELETE' }).catch(() => undefined);
+  };
+
+  const saveDraft = async (snapshot: string) => {
+    setSavingDraft(true);
+    // A failed save is retried on the next change rather than in a loop
+    savedSnapshot.current = snapshot;
+    try {
+      const payload: DraftPayload = { data, attachments, version, base };
+      const response = await fetch(draftId ? `/api/entries/drafts/${draftId}` : '/api/entries/drafts', {
+        method: draftId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entryId: mode === 'edit' ? id : null, payload }),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result?.draft) {
+        if (response.status === 404 && draftId) setDraftId(null);
+        setDraftError(result?.error || 'Unable to save a draft. Your changes are kept while this page stays open.');
+        return;
+      }
+      setDraftId(result.draft.id);
+      setDraftSavedAt(new Date(result.draft.updatedAt));
+      setDraftError(null);
+      setEarlierDraft(null);
+    } catch (error) {
+      console.error('Failed to save draft', error);
+      setDraftError('Unable to save a draft. Your changes are kept while this page stays open.');
+    } finally {
+      setSavingDraft(false);
+    }
+  };
+
+  // The reserved number is not part of a new entry's draft; it is reserved afresh on resume
+  const draftSnapshot = useMemo(
+    () => JSON.stringify({ data: mode === 'create' ? { ...data, no: '' } : data, attachments }),
+    [data, attachments, mode],
+  );
+  const draftReady = canWrite && !loadingEntry && !resumingDraft && (mode === 'create' || base !== null);
+
+  // Save a draft shortly after the clerk stops typing. The form as first shown is the baseline.
+  useEffect(() => {
+    if (!draftReady || savingDraft || loading) return;
+    if (savedSnapshot.current === null) {
+      savedSnapshot.current = draftSnapshot;
+      return;
+    }
+    if (draftSnapshot === savedSnapshot.current) return;
+    const timer = window.setTimeout(() => void saveDraft(draftSnapshot), DRAFT_AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftSnapshot, draftReady, savingDraft, loading]);
+
+  // Uploads that were never saved to an entry are discarded; the server refuses to delete saved files
+  const discardUpload = (value: AttachmentValue | null | undefined) => {
+    if (!value?.id) return;
+    void fetch(getAttachmentUrl(value.id), { method: 'DELETE' }).catch(() => undefined);
+  };
+
+  const handleAttachmentChange = async (type: DocumentTypeDefinition, event: ChangeEvent<HTMLInputElement>) => {
+    const { key } = type;
     const input = event.target;
     const file = input.files?.[0];
     if (!file) {
-      setAttachments((prev) => ({ ...prev, [key]: createEmptyAttachmentValue() }));
-      setAttachmentErrors((prev) => ({ ...prev, [key]: null }));
-      input.value = '';
-      return;
-    }
-    if (!isPdf(file)) {
-      setAttachmentErrors((prev) => ({ ...prev, [key]: 'Only PDF files are allowed.' }));
-      setAttachments((prev) => ({ ...prev, [key]: createEmptyAttachmentValue() }));
       input.value = '';
       return;
     }
-    const existingSize = Object.entries(attachments)
-      .filter(([attachmentKey]) => attachmentKey !== key)
-      .reduce((acc, [, item]) => acc + (item.size ?? 0), 0);
-    const nextSize = existingSize + file.size;
-    if (nextSize > MAX_TOTAL_SIZE) {
-      setAttachmentErrors((prev) => ({ ...prev, [key]: `Combined file size exceeds ${formatFileSize(MAX_TOTAL_SIZE)}.` }));
+    const fileError = checkDocumentFile(type, { mimeType: file.type, size: file.size });
+    if (fileError) {
+      setAttachmentErrors((prev) => ({ ...prev, [key]: `${fileError}.` }));
       input.value = '';
       return;
     }
+    setUploading((prev) => ({ ...prev, [key]: true }));
     try {
-      const dataUrl = await readFileAsDataURL(file);
-      setAttachments((prev) => ({
-        ...prev,
-        [key]: {
-          name: file.name,
-          dataUrl,
-          size: file.size,
-        },
-      }));
+      const response = await fetch(`/api/attachments?name=${encodeURIComponent(file.name)}&slot=${encodeURIComponent(key)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type },
+        body: file,
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setAttachmentErrors((prev) => ({ ...prev, [key]: result.error || 'Unable to upload file.' }));
+        return;
+      }
+      discardUpload(attachments[key]);
+      setAttachments((prev) => ({ ...prev, [key]: sanitizeAttachmentValue(result.attachment) }));
       setAttachmentErrors((prev) => ({ ...prev, [key]: null }));
     } catch (error) {
-      console.error('Failed to read file', error);
-      setAttachmentErrors((prev) => ({ ...prev, [key]: 'Unable to read file.' }));
+      console.error('Failed to upload file', error);
+      setAttachmentErrors((prev) => ({ ...prev, [key]: 'Unable to upload file.' }));
     } finally {
+      setUploading((prev) => ({ ...prev, [key]: false }));
       input.value = '';
     }
   };
 
   const downloadAttachment = (value: AttachmentValue | null) => {
-    if (!value || !value.dataUrl) return;
+    if (!value || !value.id) return;
     const link = document.createElement('a');
-    link.href = value.dataUrl;
+    link.href = getAttachmentUrl(value.id, { download: true });
     link.download = value.name;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
-  const removeAttachment = (key: AllAttachmentKeys) => {
+  const removeAttachment = (key: string) => {
+    discardUpload(attachments[key]);
     setAttachments((prev) => ({
       ...prev,
       [key]: createEmptyAttachmentValue(),
@@ -398,50 +578,19 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
     if (input) input.value = '';
   };
 
-  const openFilePicker = (key: AllAttachmentKeys) => {
+  const openFilePicker = (key: string) => {
     const input = fileInputRefs.current[key];
     input?.click();
   };
 
   const validateAttachments = () => {
     let valid = true;
-    const nextErrors = createEmptyAttachmentErrors();
-    const size = Object.values(attachments).reduce((acc, item) => acc + (item.size ?? 0), 0);
-    if (size > MAX_TOTAL_SIZE) {
-      valid = false;
-      ATTACHMENT_FIELDS.forEach(({ key }) => {
-        nextErrors[key] = nextErrors[key] ?? `Combined file size exceeds ${formatFileSize(MAX_TOTAL_SIZE)}.`;
-      });
-    }
-    
-    // Conditionally require cancellation bank document if status is CANCELLED
-    if (data.status === 'CANCELLED') {
-      const cancellationDoc = attachments.cancellationBankDocument;
-      if (!cancellationDoc.dataUrl) {
-        nextErrors.cancellationBankDocument = 'Bank document is required when status is Cancelled.';
-        valid = false;
-      }
-    }
-    
-    // Conditionally require completion bank document if status is COMPLETED
-    if (data.status === 'COMPLETED') {
-      const completionDoc = attachments.completionBankDocument;
-      if (!completionDoc.dataUrl) {
-        nextErrors.completionBankDocument = 'Bank letter of completion is required when status is Completed.';
+    const nextErrors: AttachmentErrors = {};
+    documentTypes.forEach((type) => {
+      if (isDocumentRequired(type, data.status) && !attachments[type.key]?.id) {
+        nextErrors[type.key] = `${describeMissingDocument(type, data.status)}.`;
         valid = false;
       }
-    }
-    
-    // All other attachments are always required
-    ATTACHMENT_FIELDS.forEach(({ key }) => {
-      const item = attachments[key];
-      if (!item.dataUrl) {
-        // Only set error if not already set
-        if (!nextErrors[key]) {
-          nextErrors[key] = 'Please upload a PDF file.';
-          valid = false;
-        }
-      }
     });
     setAttachmentErrors(nextErrors);
     return valid;
@@ -449,28 +598,18 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
 
   const validate = () => {
     const payload = { ...data, attachments };
-    const result = EntrySchema.safeParse(payload);
+    const result = entrySchema.safeParse(payload);
     if (!result.success) {
       setErrors(result.error.flatten());
       
-      // Extract attachment-specific errors from the validation result
-      const flatErrors = result.error.flatten();
-      const nextAttachmentErrors = createEmptyAttachmentErrors();
-      
-      // Check if there are nested attachment errors
-      if (flatErrors.fieldErrors && 'attachments.cancellationBankDocument' in flatErrors.fieldErrors) {
-        const cancellationErrors = (flatErrors.fieldErrors as any)['attachments.cancellationBankDocument'];
-        if (Array.isArray(cancellationErrors) && cancellationErrors.length > 0) {
-          nextAttachmentErrors.cancellationBankDocument = cancellationErrors[0];
+      // Show missing document errors next to their slot
+      const nextAttachmentErrors: AttachmentErrors = {};
+      result.error.issues.forEach((issue) => {
+        const [field, key] = issue.path;
+        if (field === 'attachments' && typeof key === 'string' && !nextAttachmentErrors[key]) {
+          nextAttachmentErrors[key] = issue.message;
         }
-      }
-      
-      if (flatErrors.fieldErrors && 'attachments.completionBankDocument' in flatErrors.fieldErrors) {
-        const completionErrors = (flatErrors.fieldErrors as any)['attachments.completionBankDocument'];
-        if (Array.isArray(completionErrors) && completionErrors.length > 0) {
-          nextAttachmentErrors.completionBankDocument = completionErrors[0];
-        }
-      }
+      });
       
       setAttachmentErrors(nextAttachmentErrors);
       return false;
@@ -478,7 +617,35 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
     setErrors(null);
     return validateAttachments();
   };
-  const submit = async () => {
+  // Takes the other editor's changes where you left a field alone, and your choice where you both changed it
+  const applyMerge = () => {
+    if (!versionConflict) return;
+    const { plan } = versionConflict;
+    const takeTheirs = (field: EntryMergeField) =>
+      plan.theirs.includes(field) || (plan.conflicts.includes(field) && resolutions[field] === 'theirs');
+
+    const merged = { ...data };
+    for (const field of ENTRY_MERGE_FIELDS) {
+      if (field === 'attachments' || !takeTheirs(field)) continue;
+      (merged as any)[field] = versionConflict.data[field];
+    }
+    setData(merged);
+    if (takeTheirs('attachments')) setAttachments(versionConflict.attachments);
+    setBase({ data: versionConflict.data, attachments: versionConflict.attachments });
+    setVersion(versionConflict.version);
+    setVersionConflict(null);
+  };
+
+  const discardMyChanges = () => {
+    if (!versionConflict) return;
+    setData(versionConflict.data);
+    setAttachments(versionConflict.attachments);
+    setBase({ data: versionConflict.data, attachments: versionConflict.attachments });
+    setVersion(versionConflict.version);
+    setVersionConflict(null);
+  };
+
+  const submit = async (justification?: string) => {
     if (!canWrite) {
       // eslint-disable-next-line no-alert
       alert('Forbidden');
@@ -487,20 +654,49 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
     if (!validate()) return;
 
     setLoading(true);
-    const payload = { ...data, attachments };
+    const payload = {
+      ...data,
+      attachments,
+      ...(mode === 'create' && reservation && { reservationId: reservation.id }),
+      ...(mode === 'create' && draftId && { draftId }),
+      ...(justification && { duplicateJustification: justification }),
+    };
     const method = mode === 'create' ? 'POST' : 'PUT';
     const url = mode === 'create' ? '/api/entries' : `/api/entries/${id}`;
 
     try {
       const res = await fetch(url, {
         method,
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          ...(mode === 'edit' && version !== null && { 'If-Match': entryEtag(version) }),
+        },
         body: JSON.stringify(payload),
       });
 
       if (!res.ok) {
         try {
           const result = await res.json();
+          // Suspected duplicates can be saved anyway once the clerk explains why
+          if (res.status === 409 && Array.isArray(result.conflicts)) {
+            setServerError(null);
+            setDuplicateConflicts(result.conflicts);
+            return;
+          }
+          // Someone else saved first; merge their changes rather than overwrite them
+          if (res.status === 409 && result.current) {
+            const theirs = { data: entryToFormData(result.current), attachments: sanitizeAttachmentRecord(result.current.attachments) };
+            const mine = { ...data, attachments };
+            const plan = planEntryMerge(
+              base ? { ...base.data, attachments: base.attachments } : mine,
+              mine,
+              { ...theirs.data, attachments: theirs.attachments }
+            );
+            setServerError(null);
+            setResolutions({});
+            setVersionConflict({ ...theirs, version: result.current.version, plan });
+            return;
+          }
           setServerError(result.error || JSON.stringify(result.errors));
         } catch (error) {
           setServerError('Failed to save entry');
@@ -508,10 +704,9 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
         return;
       }
 
-      if (typeof window !== 'undefined') {
-        window.sessionStorage.removeItem(storageKey);
-        router.push('/entries');
-      }
+      // The server discards the draft once the entry is saved
+      savedSnapshot.current = draftSnapshot;
+      router.push('/entries');
     } catch (error) {
       console.error('Submission failed', error);
       setServerError('Failed to save entry');
@@ -545,7 +740,7 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
           </Badge>
           <h1 className="text-3xl font-semibold text-foreground">Registry Entry</h1>
           <p className="max-w-2xl text-sm text-muted-foreground">
-            You have read-only access (Viewer).
+            You do not have permission to {mode === 'create' ? 'create' : 'edit'} entries.
           </p>
         </div>
       </div>
@@ -596,6 +791,44 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
         </p>
       </div>
 
+      {earlierDraft ? (
+        <Alert>
+          <AlertTitle>You have unsaved changes to this entry</AlertTitle>
+          <AlertDescription>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p>
+                A draft from {new Date(earlierDraft.updatedAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })} was
+                not saved to the entry.
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    discardDraft(earlierDraft.id);
+                    setEarlierDraft(null);
+                  }}
+                >
+                  Discard
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => {
+                    const target = earlierDraft.id;
+                    setEarlierDraft(null);
+                    void resumeDraft(target);
+                  }}
+                >
+                  Resume draft
+                </Button>
+              </div>
+            </div>
+          </AlertDescription>
+        </Alert>
+      ) : null}
+
       {serverError ? (
         <Alert variant="destructive">
           <AlertTitle>Submission failed</AlertTitle>
@@ -603,6 +836,128 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
         </Alert>
       ) : null}
 
+      {versionConflict ? (
+        <Alert className="border-amber-500/40 bg-amber-500/10 text-amber-900 dark:text-amber-200">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Someone else saved this entry while you were editing</AlertTitle>
+          <AlertDescription>
+            <div className="space-y-4">
+              {versionConflict.plan.theirs.length > 0 ? (
+                <p>
+                  Their changes to {versionConflict.plan.theirs.map((field) => ENTRY_MERGE_FIELD_LABELS[field].toLowerCase()).join(', ')}{' '}
+                  will be kept.
+                </p>
+              ) : null}
+              {versionConflict.plan.yours.length > 0 ? (
+                <p>
+                  Your changes to {versionConflict.plan.yours.map((field) => ENTRY_MERGE_FIELD_LABELS[field].toLowerCase()).join(', ')}{' '}
+                  will be kept.
+                </p>
+              ) : null}
+              {versionConflict.plan.conflicts.length > 0 ? (
+                <div className="space-y-3">
+                  <p>You both changed these fields. Choose which version to keep:</p>
+                  {versionConflict.plan.conflicts.map((field) => {
+                    const choice = resolutions[field] ?? 'yours';
+                    return (
+                      <div key={field} className="space-y-2 rounded-md border border-amber-500/30 bg-background/60 p-3 text-foreground">
+                        <p className="text-sm font-medium">{ENTRY_MERGE_FIELD_LABELS[field]}</p>
+                        <div className="grid gap-2 md:grid-cols-2">
+                          {(['yours', 'theirs'] as const).map((side) => (
+                            <label
+                              key={side}
+                              className="flex cursor-pointer items-start gap-2 rounded-md border border-border/60 px-3 py-2 text-sm"
+                            >
+                              <input
+                                type="radio"
+                                name={`merge-${field}`}
+                                className="mt-0.5 size-4 border-input text-primary focus:ring-2 focus:ring-ring"
+                                checked={choice === side}
+                                onChange={() => setResolutions((prev) => ({ ...prev, [field]: side }))}
+                              />
+                              <span className="space-y-1">
+                                <span className="block text-xs uppercase tracking-wide text-muted-foreground">
+                                  {side === 'yours' ? 'Yours' : 'Theirs'}
+                                </span>
+                                <span className="block break-words">
+                                  {formatMergeValue(field, side === 'yours' ? { data, attachments } : versionConflict)}
+                                </span>
+                              </span>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : null}
+              <p className="text-xs">Nothing is saved until you review the merged entry and save again.</p>
+              <div className="flex gap-2">
+                <Button type="button" size="sm" onClick={applyMerge}>
+                  Merge changes
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={discardMyChanges}>
+                  Discard my changes
+                </Button>
+              </div>
+            </div>
+          </AlertDescription>
+        </Alert>
+      ) : null}
+
+      {duplicateConflicts ? (
+        <Alert className="border-amber-500/40 bg-amber-500/10 text-amber-900 dark:text-amber-200">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>This agreement may already be registered</AlertTitle>
+          <AlertDescription>
+            <div className="space-y-3">
+              <ul className="space-y-1">
+                {duplicateConflicts.map((conflict) => (
+                  <li key={conflict.entryId}>
+                    <Link href={`/entries/${conflict.entryId}/edit` as any} className="font-medium underline-offset-4 hover:underline">
+                      Entry #{conflict.no}
+                    </Link>{' '}
+                    has the same {conflict.fields.map((field) => duplicateFieldLabels[field]).join(' and ')}
+                  </li>
+                ))}
+              </ul>
+              <div className="space-y-2">
+                <Label htmlFor="duplicate-justification">Why is this not a duplicate?</Label>
+                <textarea
+                  id="duplicate-justification"
+                  value={duplicateJustification}
+                  onChange={(event) => setDuplicateJustification(event.target.value)}
+                  placeholder="e.g. Refinanced agreement re-issued under the same number"
+                  className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 resize-none"
+                />
+                <p className="text-xs">The justification is recorded in the audit log.</p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => void submit(duplicateJustification.trim())}
+                  disabled={disableSubmit || duplicateJustification.trim().length < 10}
+                >
+                  Save anyway
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    setDuplicateConflicts(null);
+                    setDuplicateJustification('');
+                  }}
+                >
+                  Review entry
+                </Button>
+              </div>
+            </div>
+          </AlertDescription>
+        </Alert>
+      ) : null}
+
       <Card className="backdrop-blur dark:border-slate-800/60 dark:bg-slate-900/40">
         <CardHeader className="space-y-2 border-b border-border/60">
           <CardTitle className="text-xl text-foreground">Agreement Details</CardTitle>
@@ -619,14 +974,27 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                 type="text"
                 value={data.no || ''}
                 onChange={(e) => setData({ ...data, no: e.target.value })}
-                placeholder={mode === 'create' ? 'Auto-generated (e.g., RGST001/2025)' : 'RGST001/2025'}
+                placeholder={mode === 'create' ? 'Reserved automatically (e.g., RGST001/2025)' : 'RGST001/2025'}
                 disabled={mode === 'create'}
                 className={mode === 'create' ? 'bg-muted cursor-not-allowed' : ''}
               />
               {mode === 'create' && (
-                <p className="text-xs text-muted-foreground">
-                  This number will be automatically assigned when you create the entry.
-                </p>
+                <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                  {reservationError ? (
+                    <span className="text-destructive">{reservationError}</span>
+                  ) : reservation ? (
+                    <span>
+                      Reserved for you until{' '}
+                      {new Date(reservation.expiresAt).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}.
+                      Write this number on the paper form.
+                    </span>
+                  ) : (
+                    <span>Reserving a registry number…</span>
+                  )}
+                  <Button type="button" variant="ghost" size="sm" onClick={() => void reserveNumber()} disabled={reserving}>
+                    {reservation ? 'Extend hold' : 'Reserve number'}
+                  </Button>
+                </div>
               )}
             </div>
             <div className="space-y-2">
@@ -713,6 +1081,8 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                     dateOfCompleted: value === 'COMPLETED' ? data.dateOfCompleted ?? '' : null,
                   })
                 }
+                // Saved entries change status through the status actions on the entry
+                disabled={mode === 'edit'}
               >
                 <SelectTrigger id="status">
                   <SelectValue placeholder="Select status" />
@@ -725,6 +1095,9 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                   ))}
                 </SelectContent>
               </Select>
+              {mode === 'edit' ? (
+                <p className="text-xs text-muted-foreground">Use the status actions in the entry details to change the status.</p>
+              ) : null}
             </div>
             <div className="space-y-2">
               <Label htmlFor="loanAmount">Loan Amount (MVR)</Label>
@@ -748,63 +1121,6 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                     onChange={(e) => setData({ ...data, dateOfCancelled: e.target.value })}
                   />
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="cancellationBankDocumentInline" className="text-sm font-medium text-foreground">
-                    Bank Document (Cancellation)<span className="ml-1 text-destructive">*</span>
-                  </Label>
-                  <div className="flex flex-col gap-2 rounded-lg border border-border/60 bg-muted/30 p-4">
-                    <div className="space-y-1 text-xs text-muted-foreground">
-                      {attachments.cancellationBankDocument?.name ? (
-                        <div className="truncate font-medium text-foreground">{attachments.cancellationBankDocument.name}</div>
-                      ) : (
-                        <div>No file selected</div>
-                      )}
-                      {attachments.cancellationBankDocument?.size ? <div>{formatFileSize(attachments.cancellationBankDocument.size)}</div> : null}
-                    </div>
-                    <div className="flex gap-2">
-                      <Button
-                        type="button"
-                        variant="outline"
-                        className="flex-1"
-                        onClick={() => openFilePicker('cancellationBankDocument')}
-                      >
-                        <PlusCircle className="mr-2 h-4 w-4" />
-                        {attachments.cancellationBankDocument?.dataUrl ? 'Change File' : 'Upload PDF'}
-                      </Button>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        className="flex-1"
-                        onClick={() => downloadAttachment(attachments.cancellationBankDocument)}
-                        disabled={!attachments.cancellationBankDocument?.dataUrl}
-                      >
-                        <Download className="mr-2 h-4 w-4" />
-                        Download
-                      </Button>
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        onClick={() => removeAttachment('cancellationBankDocument')}
-                        disabled={!attachments.cancellationBankDocument?.dataUrl}
-                      >
-                        Clear
-                      </Button>
-                    </div>
-                    <input
-                      ref={(element) => {
-                        fileInputRefs.current.cancellationBankDocument = element;
-                      }}
-                      id="cancellationBankDocumentInline"
-                      type="file"
-                      accept="application/pdf"
-                      className="hidden"
-                      onChange={(event) => handleAttachmentChange('cancellationBankDocument', event)}
-                    />
-                  </div>
-                  {attachmentErrors.cancellationBankDocument ? (
-                    <p className="text-xs text-destructive">{attachmentErrors.cancellationBankDocument}</p>
-                  ) : null}
-                </div>
               </>
             ) : null}
             {data.status === 'COMPLETED' ? (
@@ -818,35 +1134,42 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                     onChange={(e) => setData({ ...data, dateOfCompleted: e.target.value })}
                   />
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="completionBankDocumentInline" className="text-sm font-medium text-foreground">
-                    Bank Letter (Completion)<span className="ml-1 text-destructive">*</span>
+              </>
+            ) : null}
+            {statusDocumentTypes.map((type) => {
+              const file = attachments[type.key];
+              return (
+                <div key={type.key} className="space-y-2">
+                  <Label htmlFor={`attachment-${type.key}`} className="text-sm font-medium text-foreground">
+                    {type.label}
+                    {isDocumentRequired(type, data.status) ? <span className="ml-1 text-destructive">*</span> : null}
                   </Label>
                   <div className="flex flex-col gap-2 rounded-lg border border-border/60 bg-muted/30 p-4">
                     <div className="space-y-1 text-xs text-muted-foreground">
-                      {attachments.completionBankDocument?.name ? (
-                        <div className="truncate font-medium text-foreground">{attachments.completionBankDocument.name}</div>
+                      {file?.name ? (
+                        <div className="truncate font-medium text-foreground">{file.name}</div>
                       ) : (
                         <div>No file selected</div>
                       )}
-                      {attachments.completionBankDocument?.size ? <div>{formatFileSize(attachments.completionBankDocument.size)}</div> : null}
+                      {file?.size ? <div>{formatFileSize(file.size)}</div> : null}
                     </div>
                     <div className="flex gap-2">
                       <Button
                         type="button"
                         variant="outline"
                         className="flex-1"
-                        onClick={() => openFilePicker('completionBankDocument')}
+                        onClick={() => openFilePicker(type.key)}
+                        disabled={uploading[type.key]}
                       >
                         <PlusCircle className="mr-2 h-4 w-4" />
-                        {attachments.completionBankDocument?.dataUrl ? 'Change File' : 'Upload PDF'}
+                        {uploading[type.key] ? 'Uploading…' : file?.id ? 'Change File' : `Upload ${formatAcceptedTypes(type)}`}
                       </Button>
                       <Button
                         type="button"
                         variant="outline"
                         className="flex-1"
-                        onClick={() => downloadAttachment(attachments.completionBankDocument)}
-                        disabled={!attachments.completionBankDocument?.dataUrl}
+                        onClick={() => downloadAttachment(file)}
+                        disabled={!file?.id}
                       >
                         <Download className="mr-2 h-4 w-4" />
                         Download
@@ -854,29 +1177,29 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                       <Button
                         type="button"
                         variant="ghost"
-                        onClick={() => removeAttachment('completionBankDocument')}
-                        disabled={!attachments.completionBankDocument?.dataUrl}
+                        onClick={() => removeAttachment(type.key)}
+                        disabled={!file?.id}
                       >
                         Clear
                       </Button>
                     </div>
                     <input
                       ref={(element) => {
-                        fileInputRefs.current.completionBankDocument = element;
+                        fileInputRefs.current[type.key] = element;
                       }}
-                      id="completionBankDocumentInline"
+                      id={`attachment-${type.key}`}
                       type="file"
-                      accept="application/pdf"
+                      accept={type.mimeTypes.join(',')}
                       className="hidden"
-                      onChange={(event) => handleAttachmentChange('completionBankDocument', event)}
+                      onChange={(event) => handleAttachmentChange(type, event)}
                     />
                   </div>
-                  {attachmentErrors.completionBankDocument ? (
-                    <p className="text-xs text-destructive">{attachmentErrors.completionBankDocument}</p>
+                  {attachmentErrors[type.key] ? (
+                    <p className="text-xs text-destructive">{attachmentErrors[type.key]}</p>
                   ) : null}
                 </div>
-              </>
-            ) : null}
+              );
+            })}
           </div>
 
           {errors?.fieldErrors ? (
@@ -900,17 +1223,12 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
       <Card className="backdrop-blur dark:border-slate-800/60 dark:bg-slate-900/40">
         <CardHeader className="space-y-2 border-b border-border/60">
           <CardTitle className="text-xl text-foreground">Supporting Documents</CardTitle>
-          <CardDescription>Upload required documents (PDF only).</CardDescription>
+          <CardDescription>Upload the documents required for this agreement.</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6 pt-6">
-          {persistenceError ? (
-            <Alert variant="destructive">
-              <AlertTitle>Storage issue</AlertTitle>
-              <AlertDescription>{persistenceError}</AlertDescription>
-            </Alert>
-          ) : null}
           <div className="grid gap-6 md:grid-cols-3">
-            {ATTACHMENT_FIELDS.map(({ key, label }) => {
+            {generalDocumentTypes.map((type) => {
+              const { key, label } = type;
               const file = attachments[key];
               const errorMessage = attachmentErrors[key];
               return (
@@ -919,17 +1237,20 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                     <div className="flex items-center justify-between">
                       <Label htmlFor={`attachment-${key}`} className="text-sm font-medium text-foreground">
                         {label}
+                        {isDocumentRequired(type, data.status) ? <span className="ml-1 text-destructive">*</span> : null}
                       </Label>
                       <Button
                         type="button"
                         variant="outline"
                         size="icon"
                         onClick={() => openFilePicker(key)}
+                        disabled={uploading[key]}
                       >
                         <PlusCircle className="h-4 w-4" />
                       </Button>
                     </div>
                     <div className="space-y-1 text-xs text-muted-foreground">
+                      {uploading[key] ? <div>Uploading…</div> : null}
                       {file?.name ? <div className="truncate font-medium text-foreground">{file.name}</div> : <div>No file selected</div>}
                       {file?.size ? <div>{formatFileSize(file.size)}</div> : null}
                     </div>
@@ -939,7 +1260,7 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                         variant="outline"
                         className="flex-1"
                         onClick={() => downloadAttachment(file)}
-                        disabled={!file?.dataUrl}
+                        disabled={!file?.id}
                       >
                         <Download className="mr-2 h-4 w-4" />
                         Download
@@ -949,7 +1270,7 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                         variant="ghost"
                         className="flex-1"
                         onClick={() => removeAttachment(key)}
-                        disabled={!file?.dataUrl}
+                        disabled={!file?.id}
                       >
                         Clear
                       </Button>
@@ -960,9 +1281,9 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                       }}
                       id={`attachment-${key}`}
                       type="file"
-                      accept="application/pdf"
+                      accept={type.mimeTypes.join(',')}
                       className="hidden"
-                      onChange={(event) => handleAttachmentChange(key, event)}
+                      onChange={(event) => handleAttachmentChange(type, event)}
                     />
                   </div>
                   {errorMessage ? <p className="text-xs text-destructive">{errorMessage}</p> : null}
@@ -976,17 +1297,18 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
       <Card className="backdrop-blur dark:border-slate-800/60 dark:bg-slate-900/40">
         <CardHeader className="space-y-2 border-b border-border/60">
           <CardTitle className="text-xl text-foreground">Borrowers</CardTitle>
-          <CardDescription>Capture borrower identities with national ID numbers.</CardDescription>
+          <CardDescription>Capture borrower identities with their ID card, passport or work permit numbers.</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6 pt-6">
           <div className="flex flex-col gap-4">
             {data.borrowers.map((borrower, index) => {
+              const idError = borrower.nationalId.trim() ? validateNationalId(borrower.nationalId, borrower.idType) : null;
               return (
                 <div
                   key={`borrower-${index}`}
                   className="rounded-lg border border-border/60 bg-card p-4 shadow-sm"
                 >
-                  <div className="grid gap-4 md:grid-cols-2">
+                  <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
                     <div className="space-y-2">
                       <Label htmlFor={`borrower-name-${index}`}>Full Name</Label>
                       <Input
@@ -1004,7 +1326,31 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor={`borrower-nid-${index}`}>National ID</Label>
+                      <Label htmlFor={`borrower-id-type-${index}`}>ID Type</Label>
+                      <Select
+                        value={borrower.idType}
+                        onValueChange={(value) => {
+                          setData((prev) => {
+                            const next = [...prev.borrowers];
+                            next[index] = { ...next[index], idType: value as NationalIdType };
+                            return { ...prev, borrowers: next };
+                          });
+                        }}
+                      >
+                        <SelectTrigger id={`borrower-id-type-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {NATIONAL_ID_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {NATIONAL_ID_TYPE_LABELS[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`borrower-nid-${index}`}>ID Number</Label>
                       <Input
                         id={`borrower-nid-${index}`}
                         value={borrower.nationalId}
@@ -1016,11 +1362,43 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                             return { ...prev, borrowers: next };
                           });
                         }}
-                        placeholder="A123456"
+                        placeholder={nationalIdExample(borrower.idType)}
+                        aria-invalid={!!idError}
                       />
+                      {idError && <p className="text-xs text-destructive">{idError}</p>}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`borrower-role-${index}`}>Role</Label>
+                      <Select
+                        value={borrower.role}
+                        onValueChange={(value) => {
+                          const role = value as BorrowerRole;
+                          setData((prev) => ({
+                            ...prev,
+                            // An agreement has one primary borrower, so choosing a new one demotes the old
+                            borrowers: prev.borrowers.map((other, otherIndex) => {
+                              if (otherIndex === index) return { ...other, role };
+                              return role === 'PRIMARY' && other.role === 'PRIMARY' ? { ...other, role: 'CO_BORROWER' } : other;
+                            }),
+                          }));
+                        }}
+                      >
+                        <SelectTrigger id={`borrower-role-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {BORROWER_ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {BORROWER_ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                   </div>
 
+                  <BorrowerExposureWarning borrower={borrower} excludeEntryId={mode === 'edit' ? id : undefined} />
+
                   <div className="mt-4 flex justify-end">
                     <Button
                       type="button"
@@ -1029,10 +1407,12 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
                       onClick={() => {
                         setData((prev) => {
                           if (prev.borrowers.length === 1) return prev;
-                          return {
-                            ...prev,
-                            borrowers: prev.borrowers.filter((_, borrowerIndex) => borrowerIndex !== index),
-                          };
+                          const remaining = prev.borrowers.filter((_, borrowerIndex) => borrowerIndex !== index);
+                          // Removing the primary borrower promotes the next borrower
+                          if (!remaining.some((other) => other.role === 'PRIMARY')) {
+                            remaining[0] = { ...remaining[0], role: 'PRIMARY' };
+                          }
+                          return { ...prev, borrowers: remaining };
                         });
                       }}
                       disabled={data.borrowers.length === 1}
@@ -1059,19 +1439,41 @@ export default function EntryForm({ mode, id, initialData }: { mode: 'create' |
         </CardContent>
       </Card>
 
-      <div className="flex justify-end gap-2">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <p className={`mr-auto text-xs ${draftError ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {draftError
+            ? draftError
+            : savingDraft
+            ? 'Saving draft…'
+            : draftSavedAt
+            ? `Draft saved at ${draftSavedAt.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}`
+            : null}
+        </p>
+        {draftId ? (
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => {
+              discardDraft(draftId);
+              if (mode === 'create') releaseReservation();
+              router.push('/entries');
+            }}
+          >
+            Discard draft
+          </Button>
+        ) : null}
         <Button
           type="button"
           variant="outline"
           onClick={() => {
-            if (typeof window === 'undefined') return;
-            window.sessionStorage.removeItem(storageKey);
+            // Anything typed stays in the draft, listed under My drafts
+            if (mode === 'create') releaseReservation();
             router.push('/entries');
           }}
         >
           Cancel
         </Button>
-        <Button type="button" onClick={submit} disabled={disableSubmit}>
+        <Button type="button" onClick={() => void submit()} disabled={disableSubmit}>
           {loading ? 'Saving…' : mode === 'create' ? 'Create entry' : 'Save changes'}
         </Button>
       </div>
@@ -4,15 +4,24 @@ import { useMemo } from "react"
 import {
   FileSpreadsheet,
   Gauge,
+  Hash,
   Landmark,
   Settings2,
   ShieldAlert,
   UserRoundCog,
+  UsersRound,
   BarChart3,
+  CopyCheck,
+  ClipboardCheck,
+  FilePen,
+  FileUp,
+  KeyRound,
+  type LucideIcon,
 } from "lucide-react"
 
 import { NavMain } from "@/components/nav-main"
 import { NavProjects } from "@/components/nav-projects"
+import { NavSavedViews } from "@/components/nav-saved-views"
 import { NavUser } from "@/components/nav-user"
 import { TeamSwitcher } from "@/components/team-switcher"
 import {
@@ -22,20 +31,25 @@ import {
   SidebarHeader,
   SidebarRail,
 } from "@/components/ui/sidebar"
+import { hasPermission, type Permission } from "@/lib/permissions"
 
 type AppSidebarProps = React.ComponentProps<typeof Sidebar> & {
   user?: {
     name?: string | null
     email?: string | null
     image?: string | null
+    /** The name of the user's role */
     role?: string | null
+    permissions?: string[]
   }
 }
 
 export function AppSidebar({ user, ...props }: AppSidebarProps) {
   const role = user?.role ?? "USER"
+  const permissions = user?.permissions
 
   const navItems = useMemo(() => {
+    const can = (permission: Permission | Permission[]) => hasPermission(permissions, permission)
     const baseItems = [
       {
         title: "Dashboard",
@@ -54,42 +68,91 @@ export function AppSidebar({ user, ...props }: AppSidebarProps) {
       },
     ]
 
-    if (role === "ADMIN") {
-      baseItems.push(
-        {
-          title: "User Management",
-          url: "/admin/users",
-          icon: UserRoundCog,
-        },
-        {
-          title: "Audit Log",
-          url: "/admin/audit",
-          icon: ShieldAlert,
-        }
-      )
+    if (can(["entry.create", "entry.update"])) {
+      baseItems.push({
+        title: "My Drafts",
+        url: "/entries/drafts",
+        icon: FilePen,
+      })
     }
 
-    return baseItems
-  }, [role])
+    if (can(["entry.update", "entry.review"])) {
+      baseItems.push({
+        title: "Review Queue",
+        url: "/reviews",
+        icon: ClipboardCheck,
+      })
+    }
 
-  const projectItems = useMemo(() => {
-    if (role !== "ADMIN") {
-      return []
+    if (can("user.manage")) {
+      baseItems.push({
+        title: "User Management",
+        url: "/admin/users",
+        icon: UserRoundCog,
+      })
     }
 
-    return [
+    if (can("role.manage")) {
+      baseItems.push({
+        title: "Roles",
+        url: "/admin/roles",
+        icon: KeyRound,
+      })
+    }
+
+    if (can("audit.read")) {
+      baseItems.push({
+        title: "Audit Log",
+        url: "/admin/audit",
+        icon: ShieldAlert,
+      })
+    }
+
+    return baseItems
+  }, [permissions])
+
+  const projectItems = useMemo(() => {
+    const items: { name: string; url: string; icon: LucideIcon; permission: Permission }[] = [
       {
         name: "System Settings",
         url: "/admin/settings",
         icon: Settings2,
+        permission: "settings.manage",
+      },
+      {
+        name: "Registry Numbers",
+        url: "/admin/sequences",
+        icon: Hash,
+        permission: "settings.manage",
+      },
+      {
+        name: "Borrowers",
+        url: "/admin/borrowers",
+        icon: UsersRound,
+        permission: "borrower.manage",
+      },
+      {
+        name: "Duplicates",
+        url: "/admin/duplicates",
+        icon: CopyCheck,
+        permission: "report.duplicates",
+      },
+      {
+        name: "Import",
+        url: "/admin/imports",
+        icon: FileUp,
+        permission: "entry.import",
       },
       {
         name: "Compliance",
-        url: "/admin/audit",
+        url: "/admin/audit/integrity",
         icon: Landmark,
+        permission: "audit.read",
       },
     ]
-  }, [role])
+
+    return items.filter((item) => hasPermission(permissions, item.permission))
+  }, [permissions])
 
   return (
     <Sidebar collapsible="icon" {...props}>
@@ -107,6 +170,7 @@ export function AppSidebar({ user, ...props }: AppSidebarProps) {
       </SidebarHeader>
       <SidebarContent>
         <NavMain items={navItems} />
+        <NavSavedViews />
         <NavProjects projects={projectItems} />
       </SidebarContent>
       <SidebarFooter>
@@ -14,12 +14,13 @@ import { Separator } from '@/components/ui/separator'
 import { useGlobalKeyboardShortcuts, type KeyboardShortcut } from '@/hooks/use-keyboard-shortcuts'
 
 type KeyboardShortcutsDialogProps = {
-  userRole?: string | null
+  roleName?: string | null
+  permissions: string[]
 }
 
-export function KeyboardShortcutsDialog({ userRole }: KeyboardShortcutsDialogProps) {
+export function KeyboardShortcutsDialog({ roleName, permissions }: KeyboardShortcutsDialogProps) {
   const [open, setOpen] = useState(false)
-  const shortcuts = useGlobalKeyboardShortcuts(userRole)
+  const shortcuts = useGlobalKeyboardShortcuts(permissions)
 
   useEffect(() => {
     const handleToggle = () => setOpen((prev) => !prev)
@@ -116,10 +117,10 @@ export function KeyboardShortcutsDialog({ userRole }: KeyboardShortcutsDialogPro
               to quickly access this shortcuts dialog anytime.
             </p>
           </div>
-          {userRole && (
+          {roleName && (
             <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 dark:border-blue-900/50 dark:bg-blue-950/20">
               <p className="text-xs text-blue-900 dark:text-blue-200">
-                <strong className="text-blue-950 dark:text-blue-100">Personalized:</strong> Shortcuts shown are tailored to your role ({userRole === 'ADMIN' ? 'Administrator' : userRole === 'DATA_ENTRY' ? 'Data Entry' : 'Viewer'}).
+                <strong className="text-blue-950 dark:text-blue-100">Personalized:</strong> Shortcuts shown are tailored to your role ({roleName}).
               </p>
             </div>
           )}
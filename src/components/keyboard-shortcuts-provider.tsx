@@ -1,20 +1,22 @@
 "use client"
 
 import { useSession } from 'next-auth/react'
+import { usePermissions } from '@/hooks/use-permissions'
 import { useKeyboardShortcuts, useGlobalKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts'
 import { KeyboardShortcutsDialog } from '@/components/keyboard-shortcuts-dialog'
 
 export function KeyboardShortcutsProvider({ children }: { children: React.ReactNode }) {
   const { data: session } = useSession()
-  const userRole = (session?.user as any)?.role ?? null
+  const { permissions } = usePermissions()
+  const roleName = (session?.user as any)?.roleName ?? null
   
-  const shortcuts = useGlobalKeyboardShortcuts(userRole)
+  const shortcuts = useGlobalKeyboardShortcuts(permissions)
   useKeyboardShortcuts({ shortcuts, enabled: true })
 
   return (
     <>
       {children}
-      <KeyboardShortcutsDialog userRole={userRole} />
+      <KeyboardShortcutsDialog roleName={roleName} permissions={permissions} />
     </>
   )
 }
@@ -0,0 +1,63 @@
+"use client"
+
+import { useMemo } from "react"
+import Link from "next/link"
+import useSWR from "swr"
+import { Bookmark, Users } from "lucide-react"
+
+import {
+  SidebarGroup,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar"
+import { buildEntriesApiParams, parseEntryFilters } from "@/lib/entry-filters"
+import type { SavedView } from "@/lib/saved-views"
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+export const PINNED_VIEWS_KEY = "/api/entries/views?pinned=true"
+
+function SavedViewItem({ view }: { view: SavedView }) {
+  const countKey = useMemo(() => {
+    const params = buildEntriesApiParams(parseEntryFilters(new URLSearchParams(view.query)).filters)
+    params.set("size", "1")
+    return `/api/entries?${params.toString()}`
+  }, [view.query])
+  const { data } = useSWR<{ total?: number }>(countKey, fetcher, { refreshInterval: 60_000 })
+  const Icon = view.isOwner ? Bookmark : Users
+
+  return (
+    <SidebarMenuItem>
+      <SidebarMenuButton asChild>
+        <Link href={(view.query ? `/entries?${view.query}` : "/entries") as any}>
+          <Icon />
+          <span>{view.name}</span>
+        </Link>
+      </SidebarMenuButton>
+      <SidebarMenuBadge>{typeof data?.total === "number" ? data.total.toLocaleString() : "…"}</SidebarMenuBadge>
+    </SidebarMenuItem>
+  )
+}
+
+export function NavSavedViews() {
+  const { data } = useSWR<{ views?: SavedView[] }>(PINNED_VIEWS_KEY, fetcher)
+  const views = data?.views ?? []
+
+  if (!views.length) {
+    return null
+  }
+
+  return (
+    <SidebarGroup className="group-data-[collapsible=icon]:hidden">
+      <SidebarGroupLabel>Saved Views</SidebarGroupLabel>
+      <SidebarMenu>
+        {views.map((view) => (
+          <SavedViewItem key={view.id} view={view} />
+        ))}
+      </SidebarMenu>
+    </SidebarGroup>
+  )
+}
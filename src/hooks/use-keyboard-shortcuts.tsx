@@ -3,6 +3,7 @@
 import { useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { useTheme } from 'next-themes'
+import { hasPermission } from '@/lib/permissions'
 
 export type KeyboardShortcut = {
   key: string
@@ -66,7 +67,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
   }, [shortcuts, enabled])
 }
 
-export function useGlobalKeyboardShortcuts(userRole?: string | null) {
+export function useGlobalKeyboardShortcuts(permissions: readonly string[] = []) {
   const router = useRouter()
   const { setTheme, theme, resolvedTheme } = useTheme()
 
@@ -125,9 +126,6 @@ export function useGlobalKeyboardShortcuts(userRole?: string | null) {
     }
   }, [])
 
-  const isAdmin = userRole === 'ADMIN'
-  const canWrite = userRole === 'ADMIN' || userRole === 'DATA_ENTRY'
-
   const allShortcuts: KeyboardShortcut[] = [
     // Navigation shortcuts (using Alt to avoid browser conflicts)
     {
@@ -151,8 +149,8 @@ export function useGlobalKeyboardShortcuts(userRole?: string | null) {
       action: () => router.push('/reports'),
       category: 'Navigation',
     },
-    // Admin-only navigation shortcuts
-    ...(isAdmin
+    // Admin navigation shortcuts, each for users who may use the page
+    ...(hasPermission(permissions, 'user.manage')
       ? [
           {
             key: 'u',
@@ -162,6 +160,10 @@ export function useGlobalKeyboardShortcuts(userRole?: string | null) {
             action: () => router.push('/admin/users'),
             category: 'Navigation' as const,
           },
+        ]
+      : []),
+    ...(hasPermission(permissions, 'audit.read')
+      ? [
           {
             key: 'a',
             ctrl: true,
@@ -170,6 +172,10 @@ export function useGlobalKeyboardShortcuts(userRole?: string | null) {
             action: () => router.push('/admin/audit'),
             category: 'Navigation' as const,
           },
+        ]
+      : []),
+    ...(hasPermission(permissions, 'settings.manage')
+      ? [
           {
             key: 's',
             ctrl: true,
@@ -180,8 +186,8 @@ export function useGlobalKeyboardShortcuts(userRole?: string | null) {
           },
         ]
       : []),
-    // Action shortcuts (only for users with write permission)
-    ...(canWrite
+    // Action shortcuts (only for users who may create entries)
+    ...(hasPermission(permissions, 'entry.create')
       ? [
           {
             key: 'n',
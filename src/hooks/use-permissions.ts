@@ -0,0 +1,17 @@
+import { useSession } from "next-auth/react"
+
+import { hasPermission, type Permission } from "@/lib/permissions"
+
+/**
+ * The signed-in user's permissions, for showing only the actions they may take.
+ * The server checks every request again, so this only shapes the page.
+ */
+export function usePermissions() {
+  const { data: session } = useSession()
+  const permissions: string[] = (session?.user as any)?.permissions ?? []
+
+  return {
+    permissions,
+    can: (permission: Permission | readonly Permission[]) => hasPermission(permissions, permission),
+  }
+}
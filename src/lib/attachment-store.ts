@@ -0,0 +1,412 @@
+/**
+ * Attachment store module
+ * Records attachment metadata in the database and moves file contents to and
+ * from the storage driver. Files are uploaded on their own first and only
+ * bound to an entry slot when the entry is saved. Replacing or clearing a slot
+ * keeps the earlier file as a superseded version rather than deleting it.
+ */
+
+import { createHash } from "crypto";
+import { Readable, Transform } from "stream";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { createStorageKey, getStorageDriver } from "@/lib/storage";
+import { FileValidationError, validateFileBytes } from "@/lib/file-validation";
+import { convertImageToPdf } from "@/lib/image-conversion";
+import { sanitizePdf, type PdfMetadata } from "@/lib/pdf-sanitizer";
+import type { AttachmentRecord } from "@/lib/attachments";
+import {
+  formatMimeType,
+  IMAGE_MIME_TYPES,
+  MAX_DOCUMENT_SIZE_MB,
+  parseDocumentTypeSettings,
+  type DocumentTypeDefinition,
+} from "@/lib/document-types";
+
+// Enough of each end of a file to find image dimensions and PDF trailers
+const INSPECT_HEAD_BYTES = 256 * 1024;
+const INSPECT_TAIL_BYTES = 64 * 1024;
+const STALE_UPLOAD_HOURS = 24;
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+/** Columns needed to describe an attachment to the client */
+export const attachmentSummarySelect = {
+  id: true,
+  slot: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  pageCount: true,
+  title: true,
+  producer: true,
+} satisfies Prisma.AttachmentSelect;
+
+/** Include clause for the files currently held in an entry's slots */
+export const currentAttachmentsInclude = {
+  where: { supersededAt: null },
+  select: attachmentSummarySelect,
+} satisfies Prisma.RegistryEntry$filesArgs;
+
+type AttachmentSummary = Prisma.AttachmentGetPayload<{ select: typeof attachmentSummarySelect }>;
+
+export type AttachmentVersionRef = { id: string; name: string; version: number };
+
+type StoredFile = { driver: string; storageKey: string };
+
+/**
+ * Builds the slot record returned to clients from an entry's attachment rows
+ */
+export function toAttachmentRecord(files: AttachmentSummary[] | null | undefined): AttachmentRecord {
+  const record: AttachmentRecord = {};
+  for (const file of files ?? []) {
+    if (!file.slot) continue;
+    record[file.slot] = {
+      id: file.id,
+      name: file.fileName,
+      size: file.size,
+      mimeType: file.mimeType,
+      pageCount: file.pageCount,
+      title: file.title,
+      producer: file.producer,
+    };
+  }
+  return record;
+}
+
+/**
+ * Loads the entry document slots from the DOCUMENT_TYPE settings
+ */
+export async function loadDocumentTypes(): Promise<DocumentTypeDefinition[]> {
+  const settings = await prisma.systemSetting.findMany({ where: { category: "DOCUMENT_TYPE" } });
+  return parseDocumentTypeSettings(settings);
+}
+
+/**
+ * Replaces client-supplied file details with the stored ones for uploads not yet
+ * bound to an entry. Files an entry already holds are returned without a MIME
+ * type so validateAttachmentRecord does not check them again.
+ */
+export async function resolveAttachmentRecord(record: AttachmentRecord): Promise<AttachmentRecord> {
+  const ids = Object.values(record).flatMap((value) => (value.id ? [value.id] : []));
+  const files = ids.length
+    ? await prisma.attachment.findMany({ where: { id: { in: ids } }, select: { ...attachmentSummarySelect, entryId: true } })
+    : [];
+
+  const resolved: AttachmentRecord = {};
+  for (const [slot, value] of Object.entries(record)) {
+    const file = files.find((row: { id: string }) => row.id === value.id);
+    resolved[slot] = !file
+      ? value
+      : file.entryId === null
+        ? { id: file.id, name: file.fileName, size: file.size, mimeType: file.mimeType }
+        : { id: file.id, name: file.fileName, size: file.size, mimeType: null };
+  }
+  return resolved;
+}
+
+/**
+ * Passes a stream through unchanged while measuring and hashing it, keeping the
+ * first and last bytes for validation. Fails the stream once it exceeds maxBytes.
+ */
+function createInspector(maxBytes: number) {
+  const hash = createHash("sha256");
+  let size = 0;
+  let head = Buffer.alloc(0);
+  let tail = Buffer.alloc(0);
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        const maxMB = (maxBytes / 1024 / 1024).toFixed(1);
+        callback(new FileValidationError(`File size exceeds ${maxMB}MB limit`));
+        return;
+      }
+      hash.update(chunk);
+      if (head.length < INSPECT_HEAD_BYTES) {
+        head = Buffer.concat([head, chunk.subarray(0, INSPECT_HEAD_BYTES - head.length)]);
+      }
+      tail = Buffer.concat([tail, chunk]).subarray(-INSPECT_TAIL_BYTES);
+      callback(null, chunk);
+    },
+  });
+
+  return {
+    stream,
+    result: () => ({ size, head, tail, sha256: hash.digest("hex") }),
+  };
+}
+
+/**
+ * Reads a whole upload into memory, for files that are converted before storage
+ */
+async function readUpload(body: Readable, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of body) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      body.destroy();
+      throw new FileValidationError(`File size exceeds ${(maxBytes / 1024 / 1024).toFixed(1)}MB limit`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Streams a file into storage, validating it on the way, and records it as an unbound upload
+ */
+async function writeUpload(
+  body: Readable,
+  file: { fileName: string; mimeType: string; uploadedById: string | undefined },
+  maxBytes: number,
+  metadata?: PdfMetadata
+) {
+  const driver = getStorageDriver();
+  const storageKey = createStorageKey();
+  const inspector = createInspector(maxBytes);
+  body.on("error", (error) => inspector.stream.destroy(error));
+
+  await driver.put(storageKey, body.pipe(inspector.stream), file.mimeType);
+  const { size, head, tail, sha256 } = inspector.result();
+
+  try {
+    validateFileBytes(file.mimeType, { head, tail, size }, maxBytes);
+    return await prisma.attachment.create({
+      data: {
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        size,
+        sha256,
+        driver: driver.name,
+        storageKey,
+        uploadedById: file.uploadedById,
+        ...metadata,
+      },
+      select: attachmentSummarySelect,
+    });
+  } catch (error) {
+    await driver.delete(storageKey).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Stores an uploaded file and records it as an unbound upload. PDFs are
+ * sanitized first, and images for a slot that stores images as PDFs are
+ * converted and then sanitized like any other PDF.
+ * @param documentType - The slot the file is uploaded for; its rules limit type and size
+ * @throws FileValidationError if the file is not acceptable for the slot
+ */
+export async function storeUpload(
+  body: Readable,
+  file: { fileName: string; mimeType: string; uploadedById: string | undefined },
+  documentType: DocumentTypeDefinition
+) {
+  if (!(documentType.mimeTypes as string[]).includes(file.mimeType)) {
+    throw new FileValidationError(
+      `Only ${documentType.mimeTypes.map(formatMimeType).join(", ")} files are allowed for ${documentType.label}`
+    );
+  }
+
+  const maxBytes = documentType.maxSizeMB * 1024 * 1024;
+  const convert = documentType.convertImagesToPdf && (IMAGE_MIME_TYPES as string[]).includes(file.mimeType);
+  if (file.mimeType !== "application/pdf" && !convert) {
+    return writeUpload(body, file, maxBytes);
+  }
+
+  const original = await readUpload(body, maxBytes);
+  validateFileBytes(file.mimeType, { head: original, tail: original, size: original.length }, maxBytes);
+  const pdf = convert ? await convertImageToPdf(original, file.mimeType, file.fileName) : original;
+  const { bytes, metadata } = await sanitizePdf(pdf);
+
+  // Rewritten and re-encoded files can outgrow the original, so they get the overall limit
+  return writeUpload(
+    Readable.from([bytes]),
+    convert
+      ? { ...file, fileName: `${file.fileName.replace(/\.[^.]*$/, "")}.pdf`, mimeType: "application/pdf" }
+      : file,
+    MAX_DOCUMENT_SIZE_MB * 1024 * 1024,
+    metadata
+  );
+}
+
+/**
+ * Opens a stored attachment for reading
+ */
+export function openAttachment(file: StoredFile): Promise<Readable> {
+  return getStorageDriver(file.driver).get(file.storageKey);
+}
+
+/**
+ * Removes files from storage once the rows pointing at them are gone.
+ * Failures are logged rather than thrown; an orphaned file costs only disk space.
+ */
+export async function discardStoredFiles(files: StoredFile[]): Promise<void> {
+  for (const file of files) {
+    try {
+      await getStorageDriver(file.driver).delete(file.storageKey);
+    } catch (error) {
+      console.error(`Failed to delete stored file ${file.driver}:${file.storageKey}`, error);
+    }
+  }
+}
+
+/**
+ * Deletes uploads that were never attached to an entry, e.g. from abandoned
+ * forms. Uploads held in a saved draft are kept until the draft is submitted or
+ * discarded.
+ * @returns the number of uploads removed
+ */
+export async function purgeStaleUploads(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - STALE_UPLOAD_HOURS * 60 * 60 * 1000);
+  const candidates: (StoredFile & { id: string })[] = await prisma.attachment.findMany({
+    where: { entryId: null, createdAt: { lt: cutoff } },
+    select: { id: true, driver: true, storageKey: true },
+  });
+  if (candidates.length === 0) return 0;
+
+  const drafts = await prisma.draft.findMany({
+    where: { attachmentIds: { hasSome: candidates.map((file) => file.id) } },
+    select: { attachmentIds: true },
+  });
+  const held = new Set(drafts.flatMap((draft: { attachmentIds: string[] }) => draft.attachmentIds));
+  const stale = candidates.filter((file) => !held.has(file.id));
+  if (stale.length === 0) return 0;
+
+  await prisma.attachment.deleteMany({ where: { id: { in: stale.map((file: { id: string }) => file.id) }, entryId: null } });
+  await discardStoredFiles(stale);
+  return stale.length;
+}
+
+/**
+ * Points each entry slot at the attachment named in the record. The file the
+ * slot held before is marked superseded and kept as an earlier version.
+ * Must run in the entry's transaction.
+ * @returns per-slot version changes for the audit log
+ * @throws AttachmentError if a referenced upload does not exist or belongs to someone else
+ */
+export async function bindAttachments(
+  tx: Prisma.TransactionClient,
+  entryId: string,
+  record: AttachmentRecord,
+  uploadedById: string | undefined,
+  now: Date = new Date()
+) {
+  const current = await tx.attachment.findMany({ where: { entryId, supersededAt: null } });
+  const changes: Record<string, { from: AttachmentVersionRef | null; to: AttachmentVersionRef | null }> = {};
+
+  for (const [slot, value] of Object.entries(record)) {
+    const existing = current.find((file: { slot: string | null }) => file.slot === slot);
+    if ((existing?.id ?? null) === value.id) continue;
+
+    let next = null;
+    if (value.id) {
+      next = await tx.attachment.findUnique({ where: { id: value.id } });
+      if (!next || next.entryId !== null || !uploadedById || next.uploadedById !== uploadedById) {
+        throw new AttachmentError(`${slot}: Uploaded file not found. Please upload it again.`);
+      }
+    }
+
+    if (existing) {
+      await tx.attachment.update({ where: { id: existing.id }, data: { supersededAt: now } });
+    }
+    if (next) {
+      const latest = await tx.attachment.aggregate({ where: { entryId, slot }, _max: { version: true } });
+      next = await tx.attachment.update({
+        where: { id: next.id },
+        data: { entryId, slot, version: (latest._max.version ?? 0) + 1 },
+      });
+    }
+
+    changes[slot] = {
+      from: existing ? { id: existing.id, name: existing.fileName, version: existing.version } : null,
+      to: next ? { id: next.id, name: next.fileName, version: next.version } : null,
+    };
+  }
+
+  return changes;
+}
+
+/**
+ * Makes earlier versions of an entry's attachments current again, one per
+ * slot, superseding what the slots hold now. Slots the record leaves out are
+ * cleared. Used to put an entry back the way a revision had it.
+ * @returns the slots that changed, with version references
+ */
+export async function restoreAttachmentVersions(
+  tx: Prisma.TransactionClient,
+  entryId: string,
+  record: Record<string, { id: string }>,
+  now: Date = new Date()
+) {
+  const current = await tx.attachment.findMany({ where: { entryId, supersededAt: null } });
+  const slots = new Set<string>([...current.map((file: { slot: string | null }) => file.slot).filter((slot: string | null): slot is string => !!slot), ...Object.keys(record)]);
+  const changes: Record<string, { from: AttachmentVersionRef | null; to: AttachmentVersionRef | null }> = {};
+
+  for (const slot of slots) {
+    const existing = current.find((file: { slot: string | null }) => file.slot === slot);
+    const wanted = record[slot]?.id ?? null;
+    if ((existing?.id ?? null) === wanted) continue;
+
+    let next = null;
+    if (wanted) {
+      next = await tx.attachment.findUnique({ where: { id: wanted } });
+      if (!next || next.entryId !== entryId || next.slot !== slot) {
+        throw new AttachmentError(`${slot}: The earlier file is no longer stored`);
+      }
+    }
+
+    if (existing) {
+      await tx.attachment.update({ where: { id: existing.id }, data: { supersededAt: now } });
+    }
+    if (next) {
+      next = await tx.attachment.update({ where: { id: next.id }, data: { supersededAt: null } });
+    }
+
+    changes[slot] = {
+      from: existing ? { id: existing.id, name: existing.fileName, version: existing.version } : null,
+      to: next ? { id: next.id, name: next.fileName, version: next.version } : null,
+    };
+  }
+
+  return changes;
+}
+
+/**
+ * Lists every version of an entry's attachments, newest first within each slot
+ */
+export async function listAttachmentVersions(entryId: string, slot?: string) {
+  const files = await prisma.attachment.findMany({
+    where: { entryId, ...(slot && { slot }) },
+    select: {
+      ...attachmentSummarySelect,
+      sha256: true,
+      version: true,
+      createdAt: true,
+      supersededAt: true,
+      uploadedBy: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: [{ slot: "asc" }, { version: "desc" }],
+  });
+
+  const versions = files.map(({ fileName, createdAt, ...file }: (typeof files)[number]) => ({
+    ...file,
+    name: fileName,
+    uploadedAt: createdAt,
+    current: file.supersededAt === null,
+  }));
+  const slots: Record<string, typeof versions> = {};
+  for (const version of versions) {
+    if (!version.slot) continue;
+    (slots[version.slot] ??= []).push(version);
+  }
+  return slots;
+}
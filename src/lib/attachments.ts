@@ -1,23 +1,30 @@
 export type AttachmentValue = {
+  id: string | null;
   name: string;
-  dataUrl: string | null;
   size: number | null;
+  mimeType: string | null;
+  // Read from stored PDFs; not sent back when saving an entry
+  pageCount?: number | null;
+  title?: string | null;
+  producer?: string | null;
 };
 
 export type AttachmentRecord = Record<string, AttachmentValue>;
 
 export const createEmptyAttachmentValue = (): AttachmentValue => ({
+  id: null,
   name: '',
-  dataUrl: null,
   size: null,
+  mimeType: null,
 });
 
 export const sanitizeAttachmentValue = (value: unknown): AttachmentValue => {
   const next = createEmptyAttachmentValue();
   if (value && typeof value === 'object') {
     const candidate = value as Record<string, unknown>;
+    if (typeof candidate.id === 'string' && candidate.id.length > 0) next.id = candidate.id;
     if (typeof candidate.name === 'string') next.name = candidate.name;
-    if (typeof candidate.dataUrl === 'string') next.dataUrl = candidate.dataUrl;
+    if (typeof candidate.mimeType === 'string') next.mimeType = candidate.mimeType;
     if (typeof candidate.size === 'number' && Number.isFinite(candidate.size) && candidate.size >= 0) {
       next.size = candidate.size;
     }
@@ -51,3 +58,5 @@ export const createEmptyAttachmentRecord = (keys: readonly string[]): Attachment
   }, {});
 };
 
+export const getAttachmentUrl = (id: string, options: { download?: boolean } = {}) =>
+  `/api/attachments/${encodeURIComponent(id)}${options.download ? '?download=1' : ''}`;
@@ -0,0 +1,309 @@
+/**
+ * Audit archive module
+ * Applies the audit retention policies: records older than their action's
+ * policy allows are written to a JSON Lines file in storage, then removed from
+ * the log in one transaction. Each removed record leaves a stand-in behind with
+ * its place and hash in the chain, so the chain still verifies, and the file
+ * holds everything needed to recompute the removed records' hashes.
+ */
+
+import { createHash } from "crypto";
+import { Readable } from "stream";
+import { AuditAction, Prisma } from "@prisma/client";
+import { format as formatDate, subDays } from "date-fns";
+import { prisma } from "@/lib/db";
+import { createStorageKey, getStorageDriver, StorageError } from "@/lib/storage";
+import { auditDetails } from "@/lib/audit-details";
+import { computeAuditHash, type ChainedAuditRecord } from "@/lib/audit-chain";
+import { MAX_RETENTION_DAYS, isAlwaysRetained, type AuditRetentionItem } from "@/lib/audit-retention";
+
+export class AuditArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuditArchiveError";
+  }
+}
+
+/** Most records archived in one run; a larger backlog is worked through over several runs */
+const MAX_RECORDS_PER_ARCHIVE = 50_000;
+
+/** Records read per query while writing an archive */
+const ARCHIVE_BATCH_SIZE = 1000;
+
+/** How often the scheduled archive job runs */
+const ARCHIVE_INTERVAL_HOURS = 24;
+
+const ARCHIVE_JOB = "archive";
+
+const ARCHIVE_TRANSACTION_OPTIONS = { timeout: 120_000 };
+
+/** Columns returned for an archive */
+export const auditArchiveSelect = {
+  id: true,
+  fileName: true,
+  size: true,
+  sha256: true,
+  recordCount: true,
+  firstSequence: true,
+  lastSequence: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.AuditArchiveSelect;
+
+type RetentionPolicy = { action: AuditAction; retainDays: number };
+
+// Records of each policy's action older than its cutoff
+const expiredWhere = (policies: RetentionPolicy[], now: Date): Prisma.AuditLogWhereInput[] =>
+  policies
+    .filter((policy) => !isAlwaysRetained(policy.action))
+    .map((policy) => ({ action: policy.action, createdAt: { lt: subDays(now, policy.retainDays) } }));
+
+/**
+ * Every audit action with its retention policy, and how many of its records
+ * are due to be archived
+ */
+export async function listAuditRetention(): Promise<AuditRetentionItem[]> {
+  const now = new Date();
+  const policies = await prisma.auditRetentionPolicy.findMany({
+    include: { updatedBy: { select: { id: true, name: true, email: true } } },
+  });
+  const policyFor = new Map(policies.map((policy: any) => [policy.action, policy]));
+
+  return Promise.all(
+    Object.values(AuditAction).map(async (action) => {
+      const policy: any = policyFor.get(action);
+      const [where] = policy ? expiredWhere([policy], now) : [];
+      return {
+        action,
+        retainDays: policy?.retainDays ?? null,
+        updatedAt: policy?.updatedAt.toISOString() ?? null,
+        updatedBy: policy?.updatedBy ?? null,
+        due: where ? await prisma.auditLog.count({ where }) : 0,
+      };
+    }),
+  );
+}
+
+/**
+ * Sets how long records of an action are kept, or with null keeps them forever
+ * @throws AuditArchiveError if the action is always kept or the period is out of range
+ */
+export async function setAuditRetention(action: AuditAction, retainDays: number | null, actorId?: string) {
+  if (isAlwaysRetained(action)) {
+    throw new AuditArchiveError("Records of this action are always kept");
+  }
+  if (retainDays !== null && (!Number.isInteger(retainDays) || retainDays < 1 || retainDays > MAX_RETENTION_DAYS)) {
+    throw new AuditArchiveError(`Retention must be a whole number of days between 1 and ${MAX_RETENTION_DAYS}`);
+  }
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const existing = await tx.auditRetentionPolicy.findUnique({ where: { action } });
+    const from = existing?.retainDays ?? null;
+    if (from === retainDays) return false;
+
+    if (retainDays === null) {
+      await tx.auditRetentionPolicy.delete({ where: { action } });
+    } else {
+      await tx.auditRetentionPolicy.upsert({
+        where: { action },
+        create: { action, retainDays, ...(actorId && { updatedById: actorId }) },
+        update: { retainDays, updatedById: actorId ?? null },
+      });
+    }
+    await tx.auditLog.create({
+      data: {
+        action: AuditAction.AUDIT_RETENTION_CHANGED,
+        ...(actorId && { actorId }),
+        details: auditDetails(AuditAction.AUDIT_RETENTION_CHANGED, { auditAction: action, from, to: retainDays }),
+      },
+    });
+    return true;
+  });
+}
+
+type ArchivedRow = ChainedAuditRecord & { hash: string };
+
+type ArchiveProgress = {
+  sha256: ReturnType<typeof createHash>;
+  size: number;
+  records: { sequence: number; auditLogId: string; action: AuditAction; createdAt: Date; prevHash: string | null; hash: string }[];
+  actions: Record<string, number>;
+};
+
+// Writes the records one per line. `detailsText` is the details exactly as they were hashed.
+async function* archiveLines(ids: string[], progress: ArchiveProgress) {
+  for (let start = 0; start < ids.length; start += ARCHIVE_BATCH_SIZE) {
+    const batch = ids.slice(start, start + ARCHIVE_BATCH_SIZE);
+    const rows: ArchivedRow[] = await prisma.$queryRaw`
+      SELECT "sequence", "id", "action"::text AS "action", "actorRef", "targetUserRef", "targetEntryRef",
+             "details"::text AS "details", "createdAt", "ipAddress", "userAgent", "prevHash", "hash"
+      FROM "AuditLog"
+      WHERE "id" IN (${Prisma.join(batch)})
+      ORDER BY "sequence" ASC
+    `;
+
+    // Only records that still match their hash are archived; anything else is left for the integrity check to report
+    const lines = rows.map((row) => {
+      if (computeAuditHash(row) !== row.hash) {
+        throw new AuditArchiveError(`Audit record ${row.sequence} no longer matches its hash, so it was not archived`);
+      }
+      progress.records.push({
+        sequence: row.sequence,
+        auditLogId: row.id,
+        action: row.action as AuditAction,
+        createdAt: row.createdAt,
+        prevHash: row.prevHash,
+        hash: row.hash,
+      });
+      progress.actions[row.action] = (progress.actions[row.action] ?? 0) + 1;
+      return JSON.stringify({
+        sequence: row.sequence,
+        id: row.id,
+        action: row.action,
+        actorRef: row.actorRef,
+        targetUserRef: row.targetUserRef,
+        targetEntryRef: row.targetEntryRef,
+        createdAt: row.createdAt.toISOString(),
+        ipAddress: row.ipAddress,
+        userAgent: row.userAgent,
+        details: JSON.parse(row.details),
+        detailsText: row.details,
+        prevHash: row.prevHash,
+        hash: row.hash,
+      });
+    });
+
+    const chunk = Buffer.from(lines.map((line) => line + "\n").join(""), "utf8");
+    progress.sha256.update(chunk);
+    progress.size += chunk.length;
+    yield chunk;
+  }
+}
+
+/**
+ * Archives the records the retention policies no longer keep, oldest first,
+ * and records that the job ran even when nothing was due
+ * @returns the archive, or null if no records were due
+ * @throws AuditArchiveError if a due record no longer matches its hash
+ */
+export async function archiveExpiredAuditLogs(actorId?: string) {
+  const now = new Date();
+  const archive = await writeAuditArchive(now, actorId);
+  await prisma.auditJobRun.upsert({
+    where: { job: ARCHIVE_JOB },
+    create: { job: ARCHIVE_JOB, lastRunAt: now },
+    update: { lastRunAt: now },
+  });
+  return archive;
+}
+
+async function writeAuditArchive(now: Date, actorId?: string) {
+  const policies: RetentionPolicy[] = await prisma.auditRetentionPolicy.findMany({
+    select: { action: true, retainDays: true },
+  });
+  const conditions = expiredWhere(policies, now);
+  if (conditions.length === 0) return null;
+
+  const due: { id: string }[] = await prisma.auditLog.findMany({
+    where: { OR: conditions },
+    select: { id: true },
+    orderBy: { sequence: "asc" },
+    take: MAX_RECORDS_PER_ARCHIVE,
+  });
+  if (due.length === 0) return null;
+  const ids = due.map((record) => record.id);
+
+  const driver = getStorageDriver();
+  const storageKey = `audit-archives/${createStorageKey(now)}.jsonl`;
+  const fileName = `audit-archive-${formatDate(now, "yyyyMMdd-HHmmss")}.jsonl`;
+  const progress: ArchiveProgress = { sha256: createHash("sha256"), size: 0, records: [], actions: {} };
+
+  try {
+    await driver.put(storageKey, Readable.from(archiveLines(ids, progress)), "application/x-ndjson");
+
+    const sha256 = progress.sha256.digest("hex");
+    const { records } = progress;
+    // The due records were archived by another run while this file was written
+    if (records.length === 0) {
+      await driver.delete(storageKey).catch(() => undefined);
+      return null;
+    }
+    const firstSequence = records[0].sequence;
+    const lastSequence = records[records.length - 1].sequence;
+
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const archive = await tx.auditArchive.create({
+        data: {
+          fileName,
+          driver: driver.name,
+          storageKey,
+          size: progress.size,
+          sha256,
+          recordCount: records.length,
+          firstSequence,
+          lastSequence,
+          createdAt: now,
+          ...(actorId && { createdById: actorId }),
+        },
+        select: auditArchiveSelect,
+      });
+      // The stand-ins go in first: a record can only be removed once its stand-in exists
+      for (let start = 0; start < records.length; start += ARCHIVE_BATCH_SIZE) {
+        const batch = records.slice(start, start + ARCHIVE_BATCH_SIZE);
+        await tx.archivedAuditLog.createMany({ data: batch.map((record) => ({ ...record, archiveId: archive.id })) });
+        await tx.auditLog.deleteMany({ where: { id: { in: batch.map((record) => record.auditLogId) } } });
+      }
+      await tx.auditLog.create({
+        data: {
+          action: AuditAction.AUDIT_ARCHIVED,
+          ...(actorId && { actorId }),
+          details: auditDetails(AuditAction.AUDIT_ARCHIVED, {
+            archiveId: archive.id,
+            fileName,
+            sha256,
+            records: records.length,
+            firstSequence,
+            lastSequence,
+            actions: progress.actions,
+          }),
+        },
+      });
+      return archive;
+    }, ARCHIVE_TRANSACTION_OPTIONS);
+  } catch (error) {
+    // Nothing was removed, so the file, or what was written of it, is not needed
+    await driver.delete(storageKey).catch(() => undefined);
+    // Another run archived the same records in the meantime
+    if ((error as { code?: string })?.code === "P2002") return null;
+    throw error;
+  }
+}
+
+/** When the archive job last ran, or null if it never has */
+export async function lastAuditArchiveRun(): Promise<Date | null> {
+  const run = await prisma.auditJobRun.findUnique({ where: { job: ARCHIVE_JOB }, select: { lastRunAt: true } });
+  return run?.lastRunAt ?? null;
+}
+
+/**
+ * Runs the archive job when it has not run for ARCHIVE_INTERVAL_HOURS. Called
+ * by the scheduled audit maintenance script; a failed run is tried again the
+ * next time the script runs.
+ * @returns whether the job ran, and the archive it wrote
+ * @throws AuditArchiveError or StorageError if the job failed
+ */
+export async function runDueAuditArchive(): Promise<{ ran: boolean; archive: Awaited<ReturnType<typeof archiveExpiredAuditLogs>> }> {
+  const lastRun = await lastAuditArchiveRun();
+  if (lastRun && Date.now() - lastRun.getTime() < ARCHIVE_INTERVAL_HOURS * 60 * 60 * 1000) {
+    return { ran: false, archive: null };
+  }
+  return { ran: true, archive: await archiveExpiredAuditLogs() };
+}
+
+/**
+ * Opens an archive file for download
+ * @throws StorageError if the file is missing from storage
+ */
+export async function openAuditArchive(archive: { driver: string; storageKey: string }): Promise<Readable> {
+  return getStorageDriver(archive.driver).get(archive.storageKey);
+}
@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({ rows: [] as any[], checkpoints: [] as any[] }));
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    // readChainBatch passes the sequence to read after as its only value
+    $queryRaw: async (_query: TemplateStringsArray, after: number) =>
+      db.rows.filter((row) => row.sequence > after).sort((a, b) => a.sequence - b.sequence),
+    auditCheckpoint: {
+      findMany: async ({ where }: any) =>
+        db.checkpoints
+          .filter((checkpoint) => !where?.sequence || checkpoint.sequence > where.sequence.gt)
+          .sort((a, b) => a.sequence - b.sequence),
+      findFirst: async () => [...db.checkpoints].sort((a, b) => b.sequence - a.sequence)[0] ?? null,
+      create: async ({ data }: any) => {
+        const checkpoint = { id: `checkpoint-${db.checkpoints.length + 1}`, ...data };
+        db.checkpoints.push(checkpoint);
+        return checkpoint;
+      },
+    },
+  },
+}));
+
+import { AuditChainError, computeAuditHash, createAuditCheckpoint, verifyAuditChain, type ChainedAuditRecord } from "@/lib/audit-chain";
+
+const record = (sequence: number, prevHash: string | null): ChainedAuditRecord => ({
+  sequence,
+  id: `log-${sequence}`,
+  action: "SETTINGS_UPDATED",
+  actorRef: "user-1",
+  targetUserRef: null,
+  targetEntryRef: null,
+  details: `{"key": "setting-${sequence}"}`,
+  createdAt: new Date(Date.UTC(2025, 0, 1, 9, sequence)),
+  ipAddress: null,
+  userAgent: null,
+  prevHash,
+});
+
+// Rows as the trigger would have written them, each linked to the one before
+function buildChain(count: number) {
+  const rows = [];
+  let prevHash: string | null = null;
+  for (let sequence = 1; sequence <= count; sequence++) {
+    const written = record(sequence, prevHash);
+    const hash = computeAuditHash(written);
+    rows.push({ ...written, actorId: "user-1", targetUserId: null, targetEntryId: null, hash, archived: false });
+    prevHash = hash;
+  }
+  return rows;
+}
+
+const rowAt = (sequence: number) => db.rows.find((row) => row.sequence === sequence)!;
+
+beforeEach(() => {
+  vi.stubEnv("AUDIT_SIGNING_KEY", "");
+  vi.stubEnv("AUTH_SECRET", "test-secret-of-at-least-32-characters");
+  db.rows = buildChain(5);
+  db.checkpoints = [];
+});
+
+describe("computeAuditHash", () => {
+  it("gives the same hash for the same record", () => {
+    expect(computeAuditHash(record(1, null))).toBe(computeAuditHash(record(1, null)));
+  });
+
+  it("covers the record's content and its link", () => {
+    const hash = computeAuditHash(record(2, "a".repeat(64)));
+    expect(computeAuditHash({ ...record(2, "a".repeat(64)), details: '{"key": "changed"}' })).not.toBe(hash);
+    expect(computeAuditHash({ ...record(2, "a".repeat(64)), actorRef: "user-2" })).not.toBe(hash);
+    expect(computeAuditHash(record(2, "b".repeat(64)))).not.toBe(hash);
+  });
+
+  it("covers where the record came from only once that was captured", () => {
+    const plain = computeAuditHash(record(1, null));
+    expect(computeAuditHash({ ...record(1, null), ipAddress: "", userAgent: "" })).not.toBe(plain);
+    expect(computeAuditHash({ ...record(1, null), ipAddress: "10.0.0.1", userAgent: null })).not.toBe(plain);
+  });
+});
+
+describe("verifyAuditChain", () => {
+  it("passes an untouched chain", async () => {
+    const report = await verifyAuditChain();
+    expect(report).toMatchObject({ checked: 5, firstSequence: 1, lastSequence: 5, headHash: rowAt(5).hash, breakCount: 0 });
+  });
+
+  it("reports a record changed after it was written", async () => {
+    rowAt(3).details = '{"key": "forged"}';
+    const report = await verifyAuditChain();
+    expect(report.breaks).toEqual([expect.objectContaining({ kind: "CONTENT", sequence: 3 })]);
+  });
+
+  it("reports a changed record whose hash was recomputed where the next record links to it", async () => {
+    const forged = rowAt(3);
+    forged.details = '{"key": "forged"}';
+    forged.hash = computeAuditHash(forged);
+    const report = await verifyAuditChain();
+    expect(report.breaks).toEqual([expect.objectContaining({ kind: "LINK", sequence: 4 })]);
+  });
+
+  it("reports removed records", async () => {
+    db.rows = db.rows.filter((row) => row.sequence !== 2 && row.sequence !== 3);
+    const report = await verifyAuditChain();
+    expect(report.breaks).toEqual([
+      expect.objectContaining({ kind: "MISSING", sequence: 2, message: "Records 2 to 3 are missing from the chain" }),
+    ]);
+  });
+
+  it("reports a relation pointed somewhere other than where it was written", async () => {
+    rowAt(2).actorId = "user-2";
+    const report = await verifyAuditChain();
+    expect(report.breaks).toEqual([expect.objectContaining({ kind: "REFERENCE", sequence: 2 })]);
+  });
+
+  it("checks only the link of an archived record", async () => {
+    const archived = rowAt(2);
+    Object.assign(archived, { actorRef: null, details: null, actorId: null, archived: true });
+    expect((await verifyAuditChain()).breakCount).toBe(0);
+
+    archived.prevHash = "0".repeat(64);
+    expect((await verifyAuditChain()).breaks).toEqual([expect.objectContaining({ kind: "LINK", sequence: 2 })]);
+  });
+
+  it("starts after a record already verified", async () => {
+    rowAt(1).details = '{"key": "forged"}';
+    const report = await verifyAuditChain({ sequence: 2, hash: rowAt(2).hash });
+    expect(report).toMatchObject({ checked: 3, firstSequence: 3, breakCount: 0 });
+  });
+});
+
+describe("audit checkpoints", () => {
+  it("signs the head of the chain, and nothing when nothing has been written since", async () => {
+    const checkpoint = await createAuditCheckpoint();
+    expect(checkpoint).toMatchObject({ sequence: 5, hash: rowAt(5).hash, algorithm: "hmac-sha256" });
+    await expect(createAuditCheckpoint()).resolves.toBeNull();
+
+    const report = await verifyAuditChain();
+    expect(report.checkpoints).toEqual({ checked: 1, verified: 1, otherKey: 0 });
+  });
+
+  it("refuses to sign a broken chain", async () => {
+    rowAt(4).details = '{"key": "forged"}';
+    await expect(createAuditCheckpoint()).rejects.toThrow(AuditChainError);
+  });
+
+  it("reports a forged checkpoint signature", async () => {
+    await createAuditCheckpoint();
+    db.checkpoints[0].signature = Buffer.from("forged").toString("base64");
+    expect((await verifyAuditChain()).breaks).toEqual([expect.objectContaining({ kind: "SIGNATURE", sequence: 5 })]);
+  });
+
+  it("reports signed records that are gone from the end of the chain", async () => {
+    await createAuditCheckpoint();
+    db.rows = db.rows.filter((row) => row.sequence <= 3);
+    expect((await verifyAuditChain()).breaks).toEqual([expect.objectContaining({ kind: "TRUNCATED", sequence: 4 })]);
+  });
+
+  it("reports a chain rewritten under a checkpoint", async () => {
+    await createAuditCheckpoint();
+    db.rows = buildChain(5).map((row) => ({ ...row, details: '{"key": "rewritten"}' }));
+    let prevHash: string | null = null;
+    for (const row of db.rows) {
+      row.prevHash = prevHash;
+      row.hash = computeAuditHash(row);
+      prevHash = row.hash;
+    }
+    expect((await verifyAuditChain()).breaks).toEqual([expect.objectContaining({ kind: "CHECKPOINT", sequence: 5 })]);
+  });
+});
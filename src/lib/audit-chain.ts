@@ -0,0 +1,420 @@
+/**
+ * Audit chain module
+ * Every audit record carries a hash of its own content and of the record before
+ * it, set by the audit_log_chain trigger as the record is written. Changing,
+ * removing or reordering a record breaks the chain from that point on. The
+ * verifier here recomputes every hash without relying on the database, and
+ * checks the chain against checkpoints: signed statements of the chain's head
+ * at a point in time, made with a key the database does not hold.
+ */
+
+import { createHash, createHmac, createPrivateKey, createPublicKey, sign, timingSafeEqual, verify } from "crypto";
+import { prisma } from "@/lib/db";
+
+export class AuditChainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuditChainError";
+  }
+}
+
+/** Records read per query while walking the chain */
+const VERIFY_BATCH_SIZE = 1000;
+
+/** Breaks listed in a report; any further ones are only counted */
+export const MAX_REPORTED_BREAKS = 100;
+
+const DEFAULT_CHECKPOINT_INTERVAL_HOURS = 24;
+
+/** Leading line of a signed checkpoint, so its signature cannot be passed off as anything else */
+const CHECKPOINT_PAYLOAD_HEADER = "rahunu-registry audit checkpoint v1";
+
+export type AuditChainBreakKind =
+  | "MISSING" // records are absent from the sequence
+  | "LINK" // a record does not follow on from the one before it
+  | "CONTENT" // a record no longer matches its hash
+  | "REFERENCE" // a record's relation points somewhere other than where it was written
+  | "CHECKPOINT" // the chain differs from what a checkpoint signed
+  | "SIGNATURE" // a checkpoint's signature does not match it
+  | "TRUNCATED"; // records a checkpoint signed are gone from the end of the chain
+
+export type AuditChainBreak = {
+  kind: AuditChainBreakKind;
+  sequence: number;
+  auditLogId?: string;
+  message: string;
+};
+
+export type AuditChainReport = {
+  checked: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  headHash: string | null;
+  breaks: AuditChainBreak[];
+  breakCount: number;
+  checkpoints: { checked: number; verified: number; otherKey: number };
+  verifiedAt: string;
+};
+
+/** Where a walk of the chain starts from: a record already known to be good */
+export type AuditChainPosition = { sequence: number; hash: string };
+
+/** The parts of a record its hash covers */
+export type ChainedAuditRecord = {
+  sequence: number;
+  id: string;
+  action: string;
+  actorRef: string | null;
+  targetUserRef: string | null;
+  targetEntryRef: string | null;
+  /** The details as Postgres writes out JSONB, which is what was hashed */
+  details: string;
+  createdAt: Date;
+  ipAddress: string | null;
+  userAgent: string | null;
+  prevHash: string | null;
+};
+
+// Archived records are read from their stand-ins, which keep only their place in the chain
+type ChainRow = ChainedAuditRecord & {
+  actorId: string | null;
+  targetUserId: string | null;
+  targetEntryId: string | null;
+  hash: string;
+  archived: boolean;
+};
+
+type Checkpoint = {
+  id: string;
+  sequence: number;
+  hash: string;
+  algorithm: string;
+  keyId: string;
+  signature: string;
+  createdAt: Date;
+};
+
+/**
+ * The hash of an audit record, computed the same way as the audit_log_hash
+ * database function. Where the record came from is only hashed when it was
+ * captured, as records written before it was have no such lines.
+ */
+export function computeAuditHash(record: ChainedAuditRecord): string {
+  const origin = record.ipAddress === null && record.userAgent === null ? [] : [record.ipAddress ?? "", record.userAgent ?? ""];
+  const payload = [
+    record.prevHash ?? "",
+    String(record.sequence),
+    record.id,
+    record.action,
+    record.actorRef ?? "",
+    record.targetUserRef ?? "",
+    record.targetEntryRef ?? "",
+    record.details,
+    record.createdAt.toISOString(),
+    ...origin,
+  ].join("\n");
+  return createHash("sha256").update(payload, "utf8").digest("hex");
+}
+
+type CheckpointSigner = {
+  algorithm: "ed25519" | "hmac-sha256";
+  keyId: string;
+  /** PEM public key that verifies the signatures, for Ed25519 keys */
+  publicKey: string | null;
+  sign: (payload: string) => string;
+  verify: (payload: string, signature: string) => boolean;
+};
+
+const fingerprint = (key: string | Buffer) => createHash("sha256").update(key).digest("hex").slice(0, 16);
+
+/**
+ * The key checkpoints are signed with: the Ed25519 key in AUDIT_SIGNING_KEY, or
+ * failing that an HMAC key derived from AUTH_SECRET. Only an Ed25519 signature
+ * can be checked by someone who does not hold the key.
+ * @throws AuditChainError if no key is configured or the key is unusable
+ */
+function checkpointSigner(): CheckpointSigner {
+  const pem = process.env.AUDIT_SIGNING_KEY?.replace(/\\n/g, "\n").trim();
+  if (pem) {
+    let privateKey;
+    try {
+      privateKey = createPrivateKey(pem);
+    } catch {
+      throw new AuditChainError("AUDIT_SIGNING_KEY is not a PEM private key");
+    }
+    if (privateKey.asymmetricKeyType !== "ed25519") {
+      throw new AuditChainError("AUDIT_SIGNING_KEY must be an Ed25519 key");
+    }
+    const publicKey = createPublicKey(privateKey);
+    const publicPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+    return {
+      algorithm: "ed25519",
+      keyId: fingerprint(publicPem),
+      publicKey: publicPem,
+      sign: (payload) => sign(null, Buffer.from(payload, "utf8"), privateKey).toString("base64"),
+      verify: (payload, signature) =>
+        verify(null, Buffer.from(payload, "utf8"), publicKey, Buffer.from(signature, "base64")),
+    };
+  }
+
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) throw new AuditChainError("Set AUDIT_SIGNING_KEY or AUTH_SECRET to sign audit checkpoints");
+  // Derived so the session secret itself never signs anything
+  const key = createHmac("sha256", secret).update("audit-checkpoint").digest();
+  const mac = (payload: string) => createHmac("sha256", key).update(payload, "utf8").digest();
+  return {
+    algorithm: "hmac-sha256",
+    keyId: fingerprint(key),
+    publicKey: null,
+    sign: (payload) => mac(payload).toString("base64"),
+    verify: (payload, signature) => {
+      const expected = mac(payload);
+      const given = Buffer.from(signature, "base64");
+      return given.length === expected.length && timingSafeEqual(given, expected);
+    },
+  };
+}
+
+/** The text a checkpoint's signature covers */
+export const checkpointPayload = (checkpoint: { sequence: number; hash: string; createdAt: Date }) =>
+  [CHECKPOINT_PAYLOAD_HEADER, checkpoint.sequence, checkpoint.hash, checkpoint.createdAt.toISOString()].join("\n");
+
+const readChainBatch = (after: number): Promise<ChainRow[]> => prisma.$queryRaw`
+  SELECT "sequence", "id", "action"::text AS "action", "actorRef", "targetUserRef", "targetEntryRef",
+         "actorId", "targetUserId", "targetEntryId", "details"::text AS "details", "createdAt", "ipAddress", "userAgent",
+         "prevHash", "hash", false AS "archived"
+  FROM "AuditLog"
+  WHERE "sequence" > ${after}
+  UNION ALL
+  SELECT "sequence", "auditLogId", "action"::text, NULL, NULL, NULL, NULL, NULL, NULL, NULL, "createdAt", NULL, NULL,
+         "prevHash", "hash", true
+  FROM "ArchivedAuditLog"
+  WHERE "sequence" > ${after}
+  ORDER BY "sequence" ASC
+  LIMIT ${VERIFY_BATCH_SIZE}
+`;
+
+/**
+ * Walks the audit chain, recomputing each record's hash and its link to the one
+ * before, and checks it against the checkpoints along the way
+ * @param after a record already verified, to check only what was written since
+ */
+export async function verifyAuditChain(after?: AuditChainPosition): Promise<AuditChainReport> {
+  const signer = checkpointSigner();
+  const breaks: AuditChainBreak[] = [];
+  let breakCount = 0;
+  const report = (found: AuditChainBreak) => {
+    breakCount++;
+    if (breaks.length < MAX_REPORTED_BREAKS) breaks.push(found);
+  };
+
+  const checkpoints: Checkpoint[] = await prisma.auditCheckpoint.findMany({
+    where: after ? { sequence: { gt: after.sequence } } : {},
+    orderBy: { sequence: "asc" },
+  });
+  const checkpointAt = new Map(checkpoints.map((checkpoint) => [checkpoint.sequence, checkpoint]));
+
+  // Checkpoints signed under another key are still compared with the chain, but their signatures can't be checked here
+  let verified = 0;
+  let otherKey = 0;
+  for (const checkpoint of checkpoints) {
+    if (checkpoint.algorithm !== signer.algorithm || checkpoint.keyId !== signer.keyId) {
+      otherKey++;
+    } else if (signer.verify(checkpointPayload(checkpoint), checkpoint.signature)) {
+      verified++;
+    } else {
+      report({ kind: "SIGNATURE", sequence: checkpoint.sequence, message: "The checkpoint's signature does not match it" });
+    }
+  }
+
+  let cursor = after?.sequence ?? 0;
+  let previousHash = after?.hash ?? null;
+  let firstSequence: number | null = null;
+  let checked = 0;
+
+  for (;;) {
+    const rows = await readChainBatch(cursor);
+    for (const row of rows) {
+      // A record archived while the walk was under way can be read twice
+      if (row.sequence <= cursor) continue;
+      firstSequence ??= row.sequence;
+      const expected = cursor + 1;
+
+      if (row.sequence !== expected) {
+        const missing = row.sequence - 1 === expected ? `Record ${expected} is` : `Records ${expected} to ${row.sequence - 1} are`;
+        report({ kind: "MISSING", sequence: expected, message: `${missing} missing from the chain` });
+      } else if (row.prevHash !== previousHash) {
+        report({
+          kind: "LINK",
+          sequence: row.sequence,
+          auditLogId: row.id,
+          message: "The record does not link to the record before it",
+        });
+      }
+
+      // An archived record's content is in its archive file, so only its link can be checked here
+      if (!row.archived && computeAuditHash(row) !== row.hash) {
+        report({
+          kind: "CONTENT",
+          sequence: row.sequence,
+          auditLogId: row.id,
+          message: "The record has been changed since it was written",
+        });
+      }
+
+      // A relation may be cleared when its user or entry is deleted, but never pointed elsewhere
+      const moved = (
+        [
+          ["actor", row.actorId, row.actorRef],
+          ["user", row.targetUserId, row.targetUserRef],
+          ["entry", row.targetEntryId, row.targetEntryRef],
+        ] as const
+      ).filter(([, current, written]) => current !== null && current !== written);
+      for (const [name] of moved) {
+        report({
+          kind: "REFERENCE",
+          sequence: row.sequence,
+          auditLogId: row.id,
+          message: `The record's ${name} is not the one it was written with`,
+        });
+      }
+
+      const checkpoint = checkpointAt.get(row.sequence);
+      if (checkpoint && checkpoint.hash !== row.hash) {
+        report({
+          kind: "CHECKPOINT",
+          sequence: row.sequence,
+          auditLogId: row.id,
+          message: `The record differs from the checkpoint signed on ${checkpoint.createdAt.toISOString()}`,
+        });
+      }
+
+      cursor = row.sequence;
+      previousHash = row.hash;
+      checked++;
+    }
+    if (rows.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  const beyond = checkpoints.filter((checkpoint) => checkpoint.sequence > cursor);
+  if (beyond.length > 0) {
+    const last = beyond[beyond.length - 1];
+    report({
+      kind: "TRUNCATED",
+      sequence: cursor + 1,
+      message: `Records ${cursor + 1} to ${last.sequence} were signed by a checkpoint but are gone`,
+    });
+  }
+
+  return {
+    checked,
+    firstSequence,
+    lastSequence: checked > 0 ? cursor : null,
+    headHash: previousHash,
+    breaks,
+    breakCount,
+    checkpoints: { checked: checkpoints.length, verified, otherKey },
+    verifiedAt: new Date().toISOString(),
+  };
+}
+
+/** Columns returned for a checkpoint */
+export const auditCheckpointSelect = {
+  id: true,
+  sequence: true,
+  hash: true,
+  algorithm: true,
+  keyId: true,
+  signature: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true, email: true } },
+} as const;
+
+/**
+ * Signs the head of the chain, once the records written since the last
+ * checkpoint have been verified
+ * @returns the checkpoint, or null if nothing has been written since the last one
+ * @throws AuditChainError if the chain is broken, since a broken chain must not be signed
+ */
+export async function createAuditCheckpoint(actorId?: string) {
+  const signer = checkpointSigner();
+  const latest: Checkpoint | null = await prisma.auditCheckpoint.findFirst({ orderBy: { sequence: "desc" } });
+  const result = await verifyAuditChain(latest ? { sequence: latest.sequence, hash: latest.hash } : undefined);
+  if (result.breakCount > 0) {
+    const [first] = result.breaks;
+    throw new AuditChainError(`The audit chain is broken at record ${first.sequence}: ${first.message}`);
+  }
+  if (result.lastSequence === null || result.headHash === null) return null;
+
+  const createdAt = new Date();
+  const sequence = result.lastSequence;
+  const hash = result.headHash;
+  try {
+    return await prisma.auditCheckpoint.create({
+      data: {
+        sequence,
+        hash,
+        algorithm: signer.algorithm,
+        keyId: signer.keyId,
+        signature: signer.sign(checkpointPayload({ sequence, hash, createdAt })),
+        createdAt,
+        ...(actorId && { createdById: actorId }),
+      },
+      select: auditCheckpointSelect,
+    });
+  } catch (error) {
+    // Someone else signed the same head in the meantime
+    if ((error as { code?: string })?.code === "P2002") return null;
+    throw error;
+  }
+}
+
+const checkpointIntervalHours = () => {
+  const hours = Number(process.env.AUDIT_CHECKPOINT_INTERVAL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_CHECKPOINT_INTERVAL_HOURS;
+};
+
+/**
+ * Signs a checkpoint when the last one is older than
+ * AUDIT_CHECKPOINT_INTERVAL_HOURS. Called by the scheduled audit maintenance
+ * script; a checkpoint can also be signed at once from the integrity page.
+ * @returns whether one was due, and the checkpoint, or null if nothing had been written
+ * @throws AuditChainError if the chain is broken
+ */
+export async function runDueAuditCheckpoint(): Promise<{
+  ran: boolean;
+  checkpoint: Awaited<ReturnType<typeof createAuditCheckpoint>>;
+}> {
+  const latest = await prisma.auditCheckpoint.findFirst({ orderBy: { sequence: "desc" }, select: { createdAt: true } });
+  if (latest && Date.now() - latest.createdAt.getTime() < checkpointIntervalHours() * 60 * 60 * 1000) {
+    return { ran: false, checkpoint: null };
+  }
+  return { ran: true, checkpoint: await createAuditCheckpoint() };
+}
+
+/**
+ * Every checkpoint, as a file an auditor can keep outside the system and later
+ * hold the chain up against. Ed25519 exports carry the public key needed to
+ * check the signatures.
+ */
+export async function buildCheckpointExport() {
+  const signer = checkpointSigner();
+  const checkpoints: Checkpoint[] = await prisma.auditCheckpoint.findMany({ orderBy: { sequence: "asc" } });
+  return {
+    generatedAt: new Date().toISOString(),
+    algorithm: signer.algorithm,
+    keyId: signer.keyId,
+    publicKey: signer.publicKey,
+    payloadFormat: `${CHECKPOINT_PAYLOAD_HEADER}\\n{sequence}\\n{hash}\\n{createdAt}`,
+    hashFormat:
+      "sha256 hex of: prevHash, sequence, id, action, actorRef, targetUserRef, targetEntryRef, details (JSONB text), createdAt (ISO 8601), then ipAddress and userAgent when either was captured, one per line",
+    checkpoints: checkpoints.map((checkpoint) => ({
+      sequence: checkpoint.sequence,
+      hash: checkpoint.hash,
+      createdAt: checkpoint.createdAt.toISOString(),
+      algorithm: checkpoint.algorithm,
+      keyId: checkpoint.keyId,
+      signature: checkpoint.signature,
+    })),
+  };
+}
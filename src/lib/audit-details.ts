@@ -0,0 +1,246 @@
+/**
+ * Audit details module
+ * Each audit action records its details in a shape of its own, described here
+ * as one schema per action. Details are stored as JSON tagged with the version
+ * of the schema they were written under (`v`), so the shapes can change later
+ * without old rows being misread. Rows whose details were never JSON are kept
+ * as version 0 with the original text. Shared by the audit pages and the
+ * server, so it must stay free of server-only imports.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { ENTRY_STATUSES } from "@/lib/document-types";
+import { REVIEW_STATES } from "@/lib/entry-review";
+
+export const AUDIT_DETAILS_VERSION = 1;
+
+/** A role's key; roles other than the built-in ones are defined by admins */
+const role = z.string();
+const status = z.enum(ENTRY_STATUSES);
+const reviewState = z.enum(REVIEW_STATES);
+
+/** A field's value before and after a change */
+const fieldChange = z.object({ from: z.unknown(), to: z.unknown() });
+
+/** Field name to its change; `fields` lists the names so the log can be filtered on them */
+const entryChanges = {
+  changes: z.record(z.string(), fieldChange),
+  fields: z.array(z.string()),
+};
+
+const duplicateOverride = z.object({
+  justification: z.string(),
+  conflicts: z.array(z.object({ entryId: z.string(), no: z.string(), fields: z.array(z.string()) })),
+});
+
+const mergedPerson = z.object({ id: z.string(), fullName: z.string(), nationalId: z.string() });
+
+const reviewDetails = z.object({
+  no: z.string(),
+  from: reviewState.nullable(),
+  to: reviewState,
+  comment: z.string().optional(),
+});
+
+const settingsDetails = z.discriminatedUnion("operation", [
+  z.object({ operation: z.literal("create"), category: z.string(), value: z.string(), config: z.unknown().optional() }),
+  z.object({ operation: z.literal("update"), settingId: z.string(), changes: z.record(z.string(), z.unknown()) }),
+  z.object({ operation: z.literal("delete"), category: z.string(), value: z.string() }),
+  z.object({
+    operation: z.literal("sequence_create"),
+    prefix: z.string(),
+    year: z.number().int(),
+    lastValue: z.number().int(),
+    format: z.string(),
+    width: z.number().int(),
+    overflow: z.string(),
+  }),
+  z.object({
+    operation: z.literal("sequence_update"),
+    prefix: z.string(),
+    year: z.number().int(),
+    changes: z.record(z.string(), fieldChange),
+  }),
+]);
+
+/** Every audit action with the details it records */
+export const auditEventSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("USER_CREATED"), details: z.object({ email: z.string(), role: role.optional() }) }),
+  z.object({ action: z.literal("USER_ROLE_CHANGED"), details: z.object({ from: role.optional(), to: role }) }),
+  z.object({ action: z.literal("USER_PASSWORD_RESET"), details: z.object({}) }),
+  z.object({ action: z.literal("USER_STATUS_CHANGED"), details: z.object({ isActive: z.boolean() }) }),
+  z.object({ action: z.literal("USER_SIGNED_IN"), details: z.object({}) }),
+  z.object({
+    action: z.literal("ENTRY_CREATED"),
+    details: z.object({
+      no: z.string(),
+      agreementNumber: z.string(),
+      loanAmount: z.string().optional(),
+      borrowersCount: z.number().int().optional(),
+      reservationId: z.string().optional(),
+      duplicateOverride: duplicateOverride.optional(),
+    }),
+  }),
+  z.object({
+    action: z.literal("ENTRY_UPDATED"),
+    details: z.object({
+      ...entryChanges,
+      revision: z.number().int().optional(),
+      duplicateOverride: duplicateOverride.optional(),
+      bulk: z.boolean().optional(),
+    }),
+  }),
+  z.object({
+    action: z.literal("ENTRY_DELETED"),
+    details: z.object({
+      no: z.string(),
+      agreementNumber: z.string(),
+      reason: z.string().optional(),
+      deletedBy: z.string().optional(),
+      permanentlyDeleted: z.boolean().optional(),
+      borrowersCount: z.number().int().optional(),
+      bulk: z.boolean().optional(),
+    }),
+  }),
+  z.object({ action: z.literal("ENTRY_RESTORED"), details: z.object({ no: z.string(), agreementNumber: z.string() }) }),
+  z.object({
+    action: z.literal("ENTRY_VIEWED"),
+    details: z.object({ no: z.string(), agreementNumber: z.string(), viewContext: z.string() }),
+  }),
+  z.object({ action: z.literal("SETTINGS_UPDATED"), details: settingsDetails }),
+  z.object({
+    action: z.literal("NUMBER_RESERVED"),
+    details: z.object({ no: z.string(), reservationId: z.string(), expiresAt: z.string() }),
+  }),
+  z.object({
+    action: z.literal("NUMBER_VOIDED"),
+    details: z.object({
+      no: z.string(),
+      reservationId: z.string(),
+      reason: z.enum(["expired", "released"]),
+      expiresAt: z.string().optional(),
+    }),
+  }),
+  z.object({
+    action: z.literal("BORROWER_MERGED"),
+    details: z.object({ kept: mergedPerson, merged: z.array(mergedPerson), agreementsMoved: z.number().int() }),
+  }),
+  z.object({
+    action: z.literal("ENTRY_STATUS_CHANGED"),
+    details: z.object({
+      no: z.string(),
+      from: status,
+      to: status,
+      reason: z.string().optional(),
+      dateOfCancelled: z.string().optional(),
+      dateOfCompleted: z.string().optional(),
+      documents: z.array(z.string()).optional(),
+      bulk: z.boolean().optional(),
+    }),
+  }),
+  z.object({ action: z.literal("ENTRY_SUBMITTED_FOR_REVIEW"), details: reviewDetails }),
+  z.object({ action: z.literal("ENTRY_APPROVED"), details: reviewDetails }),
+  z.object({ action: z.literal("ENTRY_REJECTED"), details: reviewDetails }),
+  z.object({
+    action: z.literal("ENTRIES_IMPORTED"),
+    details: z.object({
+      importJobId: z.string(),
+      fileName: z.string(),
+      imported: z.number().int(),
+      rowCount: z.number().int(),
+      resumedAfter: z.number().int().optional(),
+    }),
+  }),
+  z.object({
+    action: z.literal("ENTRY_REVERTED"),
+    details: z.object({
+      ...entryChanges,
+      no: z.string(),
+      fromVersion: z.number().int(),
+      toVersion: z.number().int(),
+      revision: z.number().int(),
+    }),
+  }),
+  z.object({
+    action: z.literal("AUDIT_EXPORTED"),
+    details: z.object({
+      format: z.enum(["csv", "jsonl"]),
+      filters: z.record(z.string(), z.string()),
+      records: z.number().int(),
+    }),
+  }),
+  z.object({
+    action: z.literal("AUDIT_ARCHIVED"),
+    details: z.object({
+      archiveId: z.string(),
+      fileName: z.string(),
+      sha256: z.string(),
+      records: z.number().int(),
+      firstSequence: z.number().int(),
+      lastSequence: z.number().int(),
+      /** Records archived per action */
+      actions: z.record(z.string(), z.number().int()),
+    }),
+  }),
+  z.object({
+    action: z.literal("AUDIT_RETENTION_CHANGED"),
+    details: z.object({
+      auditAction: z.string(),
+      /** Days kept; null means kept forever */
+      from: z.number().int().nullable(),
+      to: z.number().int().nullable(),
+    }),
+  }),
+  z.object({
+    action: z.literal("ROLE_CREATED"),
+    details: z.object({ role, name: z.string(), permissions: z.array(z.string()) }),
+  }),
+  z.object({
+    action: z.literal("ROLE_UPDATED"),
+    details: z.object({
+      role,
+      name: z.string(),
+      /** Changes to the name and description */
+      ...entryChanges,
+      added: z.array(z.string()),
+      removed: z.array(z.string()),
+    }),
+  }),
+  z.object({
+    action: z.literal("ROLE_DELETED"),
+    details: z.object({ role, name: z.string(), permissions: z.array(z.string()) }),
+  }),
+]);
+
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+export type AuditEventAction = AuditEvent["action"];
+export type AuditEventDetails<A extends AuditEventAction> = Extract<AuditEvent, { action: A }>["details"];
+export type DuplicateOverride = z.infer<typeof duplicateOverride>;
+export type AuditDetailsFor<A extends AuditEventAction> = Extract<z.input<typeof auditEventSchema>, { action: A }>["details"];
+
+/** Details written before they were stored as JSON */
+export type LegacyAuditDetails = { v: 0; text: string };
+
+/**
+ * Checks the details of an action against its schema and tags them with the
+ * current version, ready to store
+ * @throws ZodError if the details do not match the action's schema
+ */
+export function auditDetails<A extends AuditEventAction>(action: A, details: AuditDetailsFor<A>): Prisma.InputJsonObject {
+  const event = auditEventSchema.parse({ action, details });
+  return { v: AUDIT_DETAILS_VERSION, ...event.details } as Prisma.InputJsonObject;
+}
+
+/**
+ * Reads stored details back as a typed event
+ * @returns the event, or null for legacy text and details that no longer match their schema
+ */
+export function readAuditDetails(action: string, details: unknown): AuditEvent | null {
+  if (!details || typeof details !== "object" || (details as { v?: unknown }).v !== AUDIT_DETAILS_VERSION) return null;
+  const parsed = auditEventSchema.safeParse({ action, details });
+  return parsed.success ? parsed.data : null;
+}
+
+/** Names of the fields in a change record, for the `fields` list */
+export const changedFields = (changes: Record<string, unknown>) => Object.keys(changes).sort();
@@ -0,0 +1,145 @@
+/**
+ * Audit export module
+ * Turns the audit page's filters into a query, and writes the matching records
+ * out as CSV or JSON Lines a batch at a time, so an export of the whole log
+ * never has to be held in memory.
+ */
+
+import { Readable } from "stream";
+import { AuditAction, Prisma } from "@prisma/client";
+import { endOfDay, isValid, parseISO, startOfDay } from "date-fns";
+import { prisma } from "@/lib/db";
+import { csvEscape } from "@/lib/reports";
+import type { AuditExportFormat } from "@/lib/audit-retention";
+
+/** Records read per query while exporting */
+const EXPORT_BATCH_SIZE = 500;
+
+const AUDIT_FILTER_PARAMS = ["action", "entity", "target", "actor", "from", "to", "q", "field", "reason"] as const;
+
+const parseDay = (value: string | undefined) => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const day = parseISO(value);
+  return isValid(day) ? day : null;
+};
+
+/**
+ * The audit records matching the page's filters: an action, an entity type
+ * (optionally one target), the user who acted, a range of days (yyyy-MM-dd,
+ * both ends included), text anywhere in the details, a field named in an
+ * entry change, or text in a recorded reason such as a deletion reason
+ * @returns the query, and the filters that were applied, for the record of an export
+ */
+export function auditLogWhere(searchParams: URLSearchParams) {
+  const filters: Record<string, string> = {};
+  for (const name of AUDIT_FILTER_PARAMS) {
+    const value = searchParams.get(name)?.trim();
+    if (value) filters[name] = value;
+  }
+  const { action, entity, target, actor, q, field, reason } = filters;
+  const from = parseDay(filters.from);
+  const to = parseDay(filters.to);
+  if (!from) delete filters.from;
+  if (!to) delete filters.to;
+
+  const where: Prisma.AuditLogWhereInput = {};
+  if (action && action in AuditAction) where.action = action as AuditAction;
+  if (entity === "user") where.targetUserId = target ?? { not: null };
+  if (entity === "entry") where.targetEntryId = target ?? { not: null };
+  // The ref still names the user after their account is deleted
+  if (actor) where.actorRef = actor;
+  if (from || to) where.createdAt = { ...(from && { gte: startOfDay(from) }), ...(to && { lte: endOfDay(to) }) };
+  const detailFilters: Prisma.AuditLogWhereInput[] = [];
+  if (q) detailFilters.push({ searchText: { contains: q.toLowerCase() } });
+  if (field) detailFilters.push({ details: { path: ["fields"], array_contains: [field] } });
+  if (reason) detailFilters.push({ details: { path: ["reason"], string_contains: reason } });
+  if (detailFilters.length > 0) where.AND = detailFilters;
+
+  return { where, filters };
+}
+
+const exportInclude = {
+  actor: { select: { email: true } },
+  targetUser: { select: { email: true } },
+  targetEntry: { select: { no: true } },
+} satisfies Prisma.AuditLogInclude;
+
+type ExportedLog = Prisma.AuditLogGetPayload<{ include: typeof exportInclude }>;
+
+const CSV_COLUMNS = [
+  "Sequence",
+  "Time",
+  "Action",
+  "Actor",
+  "Actor ID",
+  "Target user",
+  "Target user ID",
+  "Target entry",
+  "Target entry ID",
+  "IP address",
+  "User agent",
+  "Details",
+  "Hash",
+];
+
+// The refs are used for ids, since they survive the user or entry being deleted
+const toCsvRow = (log: ExportedLog) =>
+  [
+    log.sequence,
+    log.createdAt.toISOString(),
+    log.action,
+    log.actor?.email ?? "",
+    log.actorRef ?? "",
+    log.targetUser?.email ?? "",
+    log.targetUserRef ?? "",
+    log.targetEntry?.no ?? "",
+    log.targetEntryRef ?? "",
+    log.ipAddress ?? "",
+    log.userAgent ?? "",
+    JSON.stringify(log.details),
+    log.hash,
+  ]
+    .map((cell) => csvEscape(cell))
+    .join(",");
+
+const toJsonLine = (log: ExportedLog) =>
+  JSON.stringify({
+    sequence: log.sequence,
+    id: log.id,
+    createdAt: log.createdAt.toISOString(),
+    action: log.action,
+    actor: log.actorRef ? { id: log.actorRef, email: log.actor?.email ?? null } : null,
+    targetUser: log.targetUserRef ? { id: log.targetUserRef, email: log.targetUser?.email ?? null } : null,
+    targetEntry: log.targetEntryRef ? { id: log.targetEntryRef, no: log.targetEntry?.no ?? null } : null,
+    ipAddress: log.ipAddress,
+    userAgent: log.userAgent,
+    details: log.details,
+    prevHash: log.prevHash,
+    hash: log.hash,
+  });
+
+async function* exportLines(where: Prisma.AuditLogWhereInput, format: AuditExportFormat) {
+  if (format === "csv") yield Buffer.from(CSV_COLUMNS.join(",") + "\r\n", "utf8");
+  const toLine = format === "csv" ? (log: ExportedLog) => toCsvRow(log) + "\r\n" : (log: ExportedLog) => toJsonLine(log) + "\n";
+
+  // Newest first, like the audit page; walking by sequence keeps each batch a cheap index range
+  let cursor: number | undefined;
+  for (;;) {
+    const logs: ExportedLog[] = await prisma.auditLog.findMany({
+      where: cursor === undefined ? where : { AND: [where, { sequence: { lt: cursor } }] },
+      include: exportInclude,
+      orderBy: { sequence: "desc" },
+      take: EXPORT_BATCH_SIZE,
+    });
+    if (logs.length > 0) yield Buffer.from(logs.map(toLine).join(""), "utf8");
+    if (logs.length < EXPORT_BATCH_SIZE) return;
+    cursor = logs[logs.length - 1].sequence;
+  }
+}
+
+/**
+ * Streams the matching audit records as CSV or JSON Lines, newest first
+ */
+export function streamAuditExport(where: Prisma.AuditLogWhereInput, format: AuditExportFormat): ReadableStream<Uint8Array> {
+  return Readable.toWeb(Readable.from(exportLines(where, format))) as ReadableStream<Uint8Array>;
+}
@@ -0,0 +1,57 @@
+/**
+ * Audit retention module
+ * Records of each audit action are kept forever unless a retention policy for
+ * the action says otherwise. Once older than the policy allows, records are
+ * written to an archive file and removed from the log. Shared by the retention
+ * page and the server, so it must stay free of server-only imports.
+ */
+
+/** Retention periods offered on the retention page, in days */
+export const RETENTION_PRESETS = [
+  { days: 90, label: "90 days" },
+  { days: 180, label: "6 months" },
+  { days: 365, label: "1 year" },
+  { days: 730, label: "2 years" },
+  { days: 1825, label: "5 years" },
+  { days: 2555, label: "7 years" },
+] as const;
+
+/** Longest retention period that can be set, in days */
+export const MAX_RETENTION_DAYS = 36500;
+
+/** Records of purges and of policy changes are evidence of the retention itself, so they are always kept */
+export const ALWAYS_RETAINED_ACTIONS = ["AUDIT_ARCHIVED", "AUDIT_RETENTION_CHANGED"] as const;
+
+export const isAlwaysRetained = (action: string) => (ALWAYS_RETAINED_ACTIONS as readonly string[]).includes(action);
+
+export const AUDIT_EXPORT_FORMATS = ["csv", "jsonl"] as const;
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number];
+
+export type AuditRetentionItem = {
+  action: string;
+  /** Days kept; null means kept forever */
+  retainDays: number | null;
+  updatedAt: string | null;
+  updatedBy: { id: string; name: string | null; email: string | null } | null;
+  /** Records old enough to be archived at the next run */
+  due: number;
+};
+
+export type AuditArchiveItem = {
+  id: string;
+  fileName: string;
+  size: number;
+  sha256: string;
+  recordCount: number;
+  firstSequence: number;
+  lastSequence: number;
+  createdAt: string;
+  createdBy: { id: string; name: string | null; email: string | null } | null;
+};
+
+export function formatRetention(days: number | null): string {
+  if (days === null) return "Forever";
+  const preset = RETENTION_PRESETS.find((option) => option.days === days);
+  if (preset) return preset.label;
+  return `${days} day${days === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,23 @@
+/**
+ * Borrower module
+ * A person is identified by their national ID and linked to each agreement
+ * they are party to with a role. Shared by the entry form and the server, so
+ * it must stay free of server-only imports.
+ */
+
+export const BORROWER_ROLES = ["PRIMARY", "CO_BORROWER", "GUARANTOR"] as const;
+export type BorrowerRole = (typeof BORROWER_ROLES)[number];
+
+export const BORROWER_ROLE_LABELS: Record<BorrowerRole, string> = {
+  PRIMARY: "Primary borrower",
+  CO_BORROWER: "Co-borrower",
+  GUARANTOR: "Guarantor",
+};
+
+/**
+ * Roles for an agreement's borrowers; a borrower without one is the primary
+ * borrower if listed first and a co-borrower otherwise
+ */
+export function resolveBorrowerRoles(borrowers: { role?: BorrowerRole | null }[]): BorrowerRole[] {
+  return borrowers.map((borrower, index) => borrower.role ?? (index === 0 ? "PRIMARY" : "CO_BORROWER"));
+}
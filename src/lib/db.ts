@@ -1,5 +1,6 @@
 import { PrismaClient } from "@prisma/client";
 import { validateEnvironment } from "./env";
+import { requestOrigin } from "./request-origin";
 
 // Validate environment variables on server startup
 // Skip during Next.js build phase (when env vars aren't injected yet)
@@ -7,8 +8,29 @@ if (typeof window === 'undefined' && process.env.DATABASE_URL) {
   validateEnvironment();
 }
 
+// Audit records note where the request that wrote them came from, whichever route writes them
+function createClient() {
+  return new PrismaClient({ 
+    log: process.env.NODE_ENV === "production" ? ["error"] : ["warn", "error"],
+    // The search columns are maintained by the database and only read by search queries and filters
+    omit: { registryEntry: { searchText: true }, auditLog: { searchText: true } },
+  }).$extends({
+    query: {
+      auditLog: {
+        async create({ args, query }) {
+          args.data = { ...(await requestOrigin()), ...args.data };
+          return query(args);
+        },
+        async createMany({ args, query }) {
+          const origin = await requestOrigin();
+          args.data = (Array.isArray(args.data) ? args.data : [args.data]).map((data) => ({ ...origin, ...data }));
+          return query(args);
+        },
+      },
+    },
+  });
+}
+
 const g = global as any;
-export const prisma = g.prisma || new PrismaClient({ 
-  log: process.env.NODE_ENV === "production" ? ["error"] : ["warn", "error"] 
-});
+export const prisma = g.prisma || createClient();
 if (process.env.NODE_ENV !== "production") g.prisma = prisma;
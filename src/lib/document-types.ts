@@ -0,0 +1,148 @@
+/**
+ * Document type module
+ * Entry document slots are defined by DOCUMENT_TYPE system settings: the
+ * setting value is the slot key, the display name its label, and the config
+ * column holds the status and file rules. The entry form, EntrySchema and the
+ * server-side attachment checks all read the definitions through this module.
+ */
+
+import { z } from "zod";
+
+export const ENTRY_STATUSES = ["ONGOING", "CANCELLED", "COMPLETED"] as const;
+export type EntryStatus = (typeof ENTRY_STATUSES)[number];
+
+/** File types an uploaded document can be checked against */
+export const SUPPORTED_DOCUMENT_MIME_TYPES = ["application/pdf", "image/png", "image/jpeg", "image/tiff"] as const;
+export type SupportedMimeType = (typeof SUPPORTED_DOCUMENT_MIME_TYPES)[number];
+
+/** Image types that can be converted into a PDF on upload */
+export const IMAGE_MIME_TYPES: readonly SupportedMimeType[] = ["image/png", "image/jpeg", "image/tiff"];
+
+export const DEFAULT_DOCUMENT_MAX_SIZE_MB = 10;
+/** Upper bound an admin can set for a single document */
+export const MAX_DOCUMENT_SIZE_MB = 50;
+
+export const STATUS_LABELS: Record<EntryStatus, string> = {
+  ONGOING: "Active",
+  CANCELLED: "Cancelled",
+  COMPLETED: "Completed",
+};
+
+export const DocumentTypeConfigSchema = z.object({
+  // Statuses the slot is shown for; empty means every status
+  statuses: z.array(z.enum(ENTRY_STATUSES)).default([]),
+  requiredForStatuses: z.array(z.enum(ENTRY_STATUSES)).default([]),
+  mimeTypes: z.array(z.enum(SUPPORTED_DOCUMENT_MIME_TYPES)).min(1).default(["application/pdf"]),
+  maxSizeMB: z.number().positive().max(MAX_DOCUMENT_SIZE_MB).default(DEFAULT_DOCUMENT_MAX_SIZE_MB),
+  // Store uploaded images as a PDF so the slot always holds a PDF
+  convertImagesToPdf: z.boolean().default(false),
+});
+
+export type DocumentTypeConfig = z.infer<typeof DocumentTypeConfigSchema>;
+
+export type DocumentTypeDefinition = DocumentTypeConfig & {
+  key: string;
+  label: string;
+};
+
+/** Slot keys double as JSON keys and form field ids */
+export const DOCUMENT_KEY_PATTERN = /^[a-z][A-Za-z0-9]*$/;
+
+/**
+ * Slots used when no DOCUMENT_TYPE settings exist, matching the seeded defaults
+ */
+export const DEFAULT_DOCUMENT_TYPES: DocumentTypeDefinition[] = [
+  { key: "bankLetter", label: "Bank Letter", statuses: [], requiredForStatuses: [...ENTRY_STATUSES], mimeTypes: ["application/pdf"], maxSizeMB: DEFAULT_DOCUMENT_MAX_SIZE_MB, convertImagesToPdf: false },
+  { key: "agreementDocument", label: "Agreement Document", statuses: [], requiredForStatuses: [...ENTRY_STATUSES], mimeTypes: ["application/pdf"], maxSizeMB: DEFAULT_DOCUMENT_MAX_SIZE_MB, convertImagesToPdf: false },
+  { key: "landRegistry", label: "Land Registry", statuses: [], requiredForStatuses: [...ENTRY_STATUSES], mimeTypes: ["application/pdf"], maxSizeMB: DEFAULT_DOCUMENT_MAX_SIZE_MB, convertImagesToPdf: false },
+  { key: "cancellationBankDocument", label: "Bank Document (Cancellation)", statuses: ["CANCELLED"], requiredForStatuses: ["CANCELLED"], mimeTypes: ["application/pdf"], maxSizeMB: DEFAULT_DOCUMENT_MAX_SIZE_MB, convertImagesToPdf: false },
+  { key: "completionBankDocument", label: "Bank Letter of Completion", statuses: ["COMPLETED"], requiredForStatuses: ["COMPLETED"], mimeTypes: ["application/pdf"], maxSizeMB: DEFAULT_DOCUMENT_MAX_SIZE_MB, convertImagesToPdf: false },
+];
+
+type DocumentTypeSetting = {
+  value: string;
+  displayName: string | null;
+  isActive: boolean;
+  sortOrder: number;
+  config?: unknown;
+};
+
+/**
+ * Builds slot definitions from DOCUMENT_TYPE settings. Inactive settings and
+ * values that are not valid slot keys are skipped; a malformed config falls
+ * back to the defaults for each rule.
+ */
+export function parseDocumentTypeSettings(settings: DocumentTypeSetting[]): DocumentTypeDefinition[] {
+  if (settings.length === 0) return DEFAULT_DOCUMENT_TYPES;
+
+  return [...settings]
+    .filter((setting) => setting.isActive && DOCUMENT_KEY_PATTERN.test(setting.value))
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.value.localeCompare(b.value))
+    .map((setting) => ({
+      ...parseDocumentTypeConfig(setting.config),
+      key: setting.value,
+      label: setting.displayName || setting.value,
+    }));
+}
+
+/**
+ * Reads a stored config, using the default rules when it is missing or malformed
+ */
+export function parseDocumentTypeConfig(config: unknown): DocumentTypeConfig {
+  const parsed = DocumentTypeConfigSchema.safeParse(config ?? {});
+  return parsed.success ? parsed.data : DocumentTypeConfigSchema.parse({});
+}
+
+/**
+ * Whether the slot is shown for an entry in this status
+ */
+export function isDocumentApplicable(type: DocumentTypeDefinition, status: EntryStatus): boolean {
+  return type.statuses.length === 0 || type.statuses.includes(status);
+}
+
+/**
+ * Whether the slot must hold a file for an entry in this status
+ */
+export function isDocumentRequired(type: DocumentTypeDefinition, status: EntryStatus): boolean {
+  return isDocumentApplicable(type, status) && type.requiredForStatuses.includes(status);
+}
+
+/**
+ * Message shown when a required slot is empty
+ */
+export function describeMissingDocument(type: DocumentTypeDefinition, status: EntryStatus): string {
+  return type.requiredForStatuses.length === ENTRY_STATUSES.length
+    ? `${type.label} is required`
+    : `${type.label} is required when status is ${STATUS_LABELS[status]}`;
+}
+
+/**
+ * Checks a file's type and size against the slot's rules
+ * @returns an error message, or null when the file is acceptable
+ */
+export function checkDocumentFile(
+  type: DocumentTypeDefinition,
+  file: { mimeType?: string | null; size?: number | null }
+): string | null {
+  if (!file.mimeType || !getStoredMimeTypes(type).includes(file.mimeType)) {
+    return `${type.label} must be one of: ${type.mimeTypes.map(formatMimeType).join(", ")}`;
+  }
+  if (typeof file.size === "number" && file.size > type.maxSizeMB * 1024 * 1024) {
+    return `${type.label} exceeds the ${type.maxSizeMB}MB limit`;
+  }
+  return null;
+}
+
+/**
+ * MIME types a file in the slot may have; images converted on upload are stored as PDFs
+ */
+export function getStoredMimeTypes(type: DocumentTypeDefinition): string[] {
+  return type.convertImagesToPdf ? [...type.mimeTypes, "application/pdf"] : type.mimeTypes;
+}
+
+/**
+ * Short label for a MIME type, e.g. "PDF"
+ */
+export function formatMimeType(mimeType: string): string {
+  return mimeType === "application/pdf" ? "PDF" : (mimeType.split("/")[1] ?? mimeType).toUpperCase();
+}
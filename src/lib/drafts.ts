@@ -0,0 +1,60 @@
+/**
+ * Draft module
+ * The entry form saves what the clerk has typed as a draft on the server, so a
+ * closed tab or a lost connection does not lose the work. A draft belongs to
+ * the user who started it and holds the form as it was, valid or not; the
+ * entry is only validated when it is finally submitted. A user has at most one
+ * draft per existing entry and up to MAX_DRAFTS_PER_USER in all.
+ */
+
+export const MAX_DRAFTS_PER_USER = 50;
+/** Largest serialized payload accepted, in characters */
+export const MAX_DRAFT_PAYLOAD_SIZE = 256 * 1024;
+/** How long the form waits after the last change before saving */
+export const DRAFT_AUTOSAVE_DELAY_MS = 1500;
+
+export type DraftPayload = {
+  data: Record<string, unknown>;
+  attachments?: Record<string, unknown>;
+  version?: number | null;
+  base?: unknown;
+};
+
+export const draftListSelect = {
+  id: true,
+  entryId: true,
+  summary: true,
+  createdAt: true,
+  updatedAt: true,
+  entry: { select: { no: true, isDeleted: true } },
+};
+
+export type DraftListItem = {
+  id: string;
+  entryId: string | null;
+  summary: string;
+  createdAt: string;
+  updatedAt: string;
+  entry: { no: string; isDeleted: boolean } | null;
+};
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+/**
+ * One-line description of a draft for the drafts list: the agreement number
+ * and first borrower, as far as they have been filled in
+ */
+export function draftSummary(payload: DraftPayload): string {
+  const borrowers = Array.isArray(payload.data.borrowers) ? payload.data.borrowers : [];
+  const borrower = text((borrowers[0] as { fullName?: unknown } | undefined)?.fullName);
+  const parts = [text(payload.data.agreementNumber), borrower].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "Untitled entry";
+}
+
+/** Ids of the uploads a draft's attachment slots point at */
+export function draftAttachmentIds(payload: DraftPayload): string[] {
+  const ids = Object.values(payload.attachments ?? {})
+    .map((value) => (value && typeof value === "object" ? (value as { id?: unknown }).id : null))
+    .filter((id): id is string => typeof id === "string" && id.length > 0);
+  return [...new Set(ids)];
+}
@@ -0,0 +1,225 @@
+/**
+ * Duplicate agreement module
+ * An agreement is registered once: two live entries should not share an
+ * agreement number at the same branch, or a form number. Numbers are compared
+ * ignoring case, spacing and punctuation, so "LA-0012" and "la 0012" match.
+ * Clerks may still save a suspected duplicate by giving a justification, which
+ * is kept in the audit trail and listed in the admin duplicates report.
+ */
+
+import { Prisma } from "@prisma/client";
+import { format as formatDate, subDays } from "date-fns";
+import { prisma } from "@/lib/db";
+import { csvEscape } from "@/lib/reports";
+import { readAuditDetails } from "@/lib/audit-details";
+
+export const DUPLICATE_FIELDS = ["agreementNumber", "branch", "formNumber"] as const;
+export type DuplicateField = (typeof DUPLICATE_FIELDS)[number];
+
+export const DUPLICATE_RULES = ["AGREEMENT_AT_BRANCH", "FORM_NUMBER"] as const;
+export type DuplicateRule = (typeof DUPLICATE_RULES)[number];
+
+export const DUPLICATE_RULE_LABELS: Record<DuplicateRule, string> = {
+  AGREEMENT_AT_BRANCH: "Same agreement number at the same branch",
+  FORM_NUMBER: "Same form number",
+};
+
+const RULE_FIELDS: Record<DuplicateRule, DuplicateField[]> = {
+  AGREEMENT_AT_BRANCH: ["agreementNumber", "branch"],
+  FORM_NUMBER: ["formNumber"],
+};
+
+export type DuplicateConflict = {
+  entryId: string;
+  no: string;
+  agreementNumber: string;
+  branch: string;
+  formNumber: string;
+  status: string;
+  /** The fields this entry shares with the one being saved */
+  fields: DuplicateField[];
+  rules: DuplicateRule[];
+};
+
+type DuplicateCandidate = Pick<DuplicateConflict, "agreementNumber" | "branch" | "formNumber">;
+
+// Must match the SQL expression below
+export const normalizeDuplicateKey = (value: string) => value.replace(/[^A-Za-z0-9]+/g, "").toUpperCase();
+const keySql = (column: string) => Prisma.sql`upper(regexp_replace(${Prisma.raw(`"${column}"`)}, '[^A-Za-z0-9]+', '', 'g'))`;
+
+/**
+ * Finds live entries that look like the same agreement as the one being saved
+ * @param excludeEntryId the entry being edited, which never conflicts with itself
+ */
+export async function findDuplicateConflicts(
+  candidate: DuplicateCandidate,
+  excludeEntryId?: string
+): Promise<DuplicateConflict[]> {
+  const agreementKey = normalizeDuplicateKey(candidate.agreementNumber);
+  const branchKey = normalizeDuplicateKey(candidate.branch);
+  const formKey = normalizeDuplicateKey(candidate.formNumber);
+
+  const rows: Omit<DuplicateConflict, "fields" | "rules">[] = await prisma.$queryRaw`
+    SELECT "id" AS "entryId", "no", "agreementNumber", "branch", "formNumber", "status"::text AS "status"
+    FROM "public"."RegistryEntry"
+    WHERE "isDeleted" = false
+      AND "id" <> ${excludeEntryId ?? ""}
+      AND (
+        (${keySql("agreementNumber")} = ${agreementKey} AND ${keySql("branch")} = ${branchKey})
+        OR ${keySql("formNumber")} = ${formKey}
+      )
+    ORDER BY "createdAt"
+    LIMIT 20
+  `;
+
+  return rows.map((row) => {
+    const rules = DUPLICATE_RULES.filter((rule) =>
+      RULE_FIELDS[rule].every((field) => normalizeDuplicateKey(row[field]) === normalizeDuplicateKey(candidate[field]))
+    );
+    const fields = DUPLICATE_FIELDS.filter((field) => rules.some((rule) => RULE_FIELDS[rule].includes(field)));
+    return { ...row, fields, rules };
+  });
+}
+
+/**
+ * Whether an edit touches any field duplicates are detected on. Edits that
+ * leave them alone are not re-checked, so an entry saved with a justified
+ * override does not demand a new justification on every later edit.
+ */
+export function changesDuplicateFields(before: DuplicateCandidate, after: DuplicateCandidate): boolean {
+  return DUPLICATE_FIELDS.some((field) => normalizeDuplicateKey(before[field]) !== normalizeDuplicateKey(after[field]));
+}
+
+/** Summary of an override kept in the audit details of the saved entry */
+export function describeDuplicateOverride(justification: string, conflicts: DuplicateConflict[]) {
+  return {
+    justification,
+    conflicts: conflicts.map((conflict) => ({ entryId: conflict.entryId, no: conflict.no, fields: conflict.fields })),
+  };
+}
+
+export const DUPLICATE_REPORT_PERIODS = ["WEEK", "MONTH", "QUARTER", "ALL"] as const;
+export type DuplicateReportPeriod = (typeof DUPLICATE_REPORT_PERIODS)[number];
+
+const PERIOD_DAYS: Record<DuplicateReportPeriod, number | null> = { WEEK: 7, MONTH: 30, QUARTER: 90, ALL: null };
+
+/** Start of a report period, or undefined for all time */
+export function duplicateReportSince(period: DuplicateReportPeriod, now = new Date()): Date | undefined {
+  const days = PERIOD_DAYS[period];
+  return days === null ? undefined : subDays(now, days);
+}
+
+export type SuspectedDuplicateGroup = {
+  rule: DuplicateRule;
+  key: string;
+  entries: {
+    id: string;
+    no: string;
+    agreementNumber: string;
+    branch: string;
+    formNumber: string;
+    status: string;
+    createdAt: Date;
+    createdBy: string | null;
+    /** Justification given when the entry was saved despite the duplicate warning */
+    justification: string | null;
+  }[];
+};
+
+/**
+ * Groups live entries that share an agreement number at a branch or a form
+ * number. With `since`, only groups with an entry created or changed since
+ * then are returned, so a weekly run lists what is new that week.
+ */
+export async function findSuspectedDuplicates(since?: Date): Promise<SuspectedDuplicateGroup[]> {
+  const groups: { rule: DuplicateRule; key: string; ids: string[] }[] = await prisma.$queryRaw`
+    SELECT 'AGREEMENT_AT_BRANCH' AS "rule", ${keySql("agreementNumber")} || ' @ ' || ${keySql("branch")} AS "key",
+           array_agg("id" ORDER BY "createdAt") AS "ids"
+    FROM "public"."RegistryEntry"
+    WHERE "isDeleted" = false
+    GROUP BY ${keySql("agreementNumber")}, ${keySql("branch")}
+    HAVING count(*) > 1 AND max("updatedAt") >= ${since ?? new Date(0)}
+    UNION ALL
+    SELECT 'FORM_NUMBER' AS "rule", ${keySql("formNumber")} AS "key", array_agg("id" ORDER BY "createdAt") AS "ids"
+    FROM "public"."RegistryEntry"
+    WHERE "isDeleted" = false
+    GROUP BY ${keySql("formNumber")}
+    HAVING count(*) > 1 AND max("updatedAt") >= ${since ?? new Date(0)}
+    ORDER BY "rule", "key"
+    LIMIT 500
+  `;
+  if (groups.length === 0) return [];
+
+  const ids = [...new Set(groups.flatMap((group) => group.ids))];
+  const entries = await prisma.registryEntry.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true, no: true, agreementNumber: true, branch: true, formNumber: true, status: true, createdAt: true,
+      createdBy: { select: { name: true, email: true } },
+    },
+  });
+  const justifications = await findOverrideJustifications(ids);
+  const byId = new Map(entries.map((entry: any) => [entry.id, entry]));
+
+  return groups.map((group) => ({
+    rule: group.rule,
+    key: group.key,
+    entries: group.ids
+      .map((id) => byId.get(id))
+      .filter(Boolean)
+      .map((entry: any) => ({
+        id: entry.id,
+        no: entry.no,
+        agreementNumber: entry.agreementNumber,
+        branch: entry.branch,
+        formNumber: entry.formNumber,
+        status: entry.status,
+        createdAt: entry.createdAt,
+        createdBy: entry.createdBy?.name || entry.createdBy?.email || null,
+        justification: justifications.get(entry.id) ?? null,
+      })),
+  }));
+}
+
+// Latest override justification per entry, read back from the audit trail
+async function findOverrideJustifications(entryIds: string[]) {
+  const logs = await prisma.auditLog.findMany({
+    where: {
+      targetEntryId: { in: entryIds },
+      action: { in: ["ENTRY_CREATED", "ENTRY_UPDATED"] },
+      details: { path: ["duplicateOverride", "justification"], string_contains: "" },
+    },
+    select: { action: true, targetEntryId: true, details: true },
+    orderBy: { createdAt: "asc" },
+  });
+  const justifications = new Map<string, string>();
+  for (const log of logs) {
+    const event = readAuditDetails(log.action, log.details);
+    if ((event?.action === "ENTRY_CREATED" || event?.action === "ENTRY_UPDATED") && event.details.duplicateOverride && log.targetEntryId) {
+      justifications.set(log.targetEntryId, event.details.duplicateOverride.justification);
+    }
+  }
+  return justifications;
+}
+
+/**
+ * Flattens the report to one CSV row per entry, grouped by the shared key
+ */
+export function buildDuplicatesCsv(groups: SuspectedDuplicateGroup[]): string {
+  const columns = ["Rule", "Key", "Registry No", "Agreement Number", "Branch", "Form Number", "Status", "Created", "Created By", "Justification"];
+  const rows = groups.flatMap((group) =>
+    group.entries.map((entry) => [
+      DUPLICATE_RULE_LABELS[group.rule],
+      group.key,
+      entry.no,
+      entry.agreementNumber,
+      entry.branch,
+      entry.formNumber,
+      entry.status,
+      formatDate(entry.createdAt, "yyyy-MM-dd HH:mm"),
+      entry.createdBy ?? "",
+      entry.justification ?? "",
+    ])
+  );
+  return [columns, ...rows].map((row) => row.map((cell) => csvEscape(cell)).join(",")).join("\r\n");
+}
@@ -0,0 +1,288 @@
+/**
+ * Bulk entry action module
+ * Applies one change to the entries selected on the entries table: a status
+ * transition, a soft delete with one shared reason, or a move to another
+ * branch. Every selected entry is checked before anything is written, and the
+ * changes go through one transaction, so either the whole selection changes or
+ * none of it does. Each affected entry gets its own audit record, as it would
+ * if it had been changed on its own.
+ */
+
+import { AuditAction, Prisma } from "@prisma/client";
+import { format as formatDate } from "date-fns";
+import { prisma } from "@/lib/db";
+import { hasPermission } from "@/lib/permissions";
+import { csvEscape } from "@/lib/reports";
+import { currentAttachmentsInclude, loadDocumentTypes, toAttachmentRecord } from "@/lib/attachment-store";
+import { borrowersInclude } from "@/lib/people";
+import { STATUS_LABELS, type EntryStatus } from "@/lib/document-types";
+import { EntryVersionConflictError } from "@/lib/entry-versions";
+import {
+  StatusTransitionError,
+  checkStatusTransition,
+  missingTransitionDocuments,
+  statusDateField,
+  transitionDeniedMessage,
+} from "@/lib/entry-status";
+import { REVIEW_STATE_LABELS, type ReviewState } from "@/lib/entry-review";
+import { findDuplicateConflicts, normalizeDuplicateKey } from "@/lib/duplicates";
+import { recordEntryRevision } from "@/lib/revision-store";
+import { resubmitChangedEntry } from "@/lib/review-store";
+import { auditDetails } from "@/lib/audit-details";
+
+/** An entry the action cannot be applied to, and why */
+export type BulkEntryFailure = { id: string; no: string; message: string };
+
+export class BulkEntryError extends Error {
+  constructor(message: string, public readonly failures: BulkEntryFailure[] = []) {
+    super(message);
+    this.name = "BulkEntryError";
+  }
+}
+
+export type BulkActor = { id?: string; permissions: readonly string[]; email?: string | null };
+
+// Checking a large selection entry by entry takes longer than the default transaction timeout
+const BULK_TRANSACTION_OPTIONS = { timeout: 60_000 };
+
+/**
+ * Loads the selected entries that are not deleted
+ * @throws BulkEntryError if any of them no longer exists
+ */
+async function loadSelection<T extends Prisma.RegistryEntryFindManyArgs>(ids: string[], args?: T) {
+  const unique = [...new Set(ids)];
+  const entries = await prisma.registryEntry.findMany({
+    ...args,
+    where: { id: { in: unique }, isDeleted: false },
+    omit: { attachments: true },
+  });
+  if (entries.length !== unique.length) {
+    const missing = unique.length - entries.length;
+    throw new BulkEntryError(`${missing} of the selected entries no longer exist. Reload the list and try again.`);
+  }
+  return entries as any[];
+}
+
+/**
+ * Moves every selected entry to a new status. Each entry must allow the
+ * transition from its own status, for the actor's permissions, and already hold the
+ * documents the new status requires.
+ * @returns the number of entries changed
+ * @throws BulkEntryError listing the entries that cannot be moved
+ * @throws EntryVersionConflictError if an entry changed while the action ran
+ */
+export async function transitionEntries(
+  ids: string[],
+  input: { to: EntryStatus; reason?: string | null; date?: string | null },
+  actor: BulkActor
+): Promise<number> {
+  const entries = await loadSelection(ids, { include: { files: currentAttachmentsInclude } });
+  const documentTypes = await loadDocumentTypes();
+
+  const failures: BulkEntryFailure[] = [];
+  for (const entry of entries) {
+    try {
+      const transition = checkStatusTransition(entry.status, input.to, input.reason);
+      if (!hasPermission(actor.permissions, transition.permission)) {
+        failures.push({ id: entry.id, no: entry.no, message: transitionDeniedMessage(transition) });
+        continue;
+      }
+      const missing = missingTransitionDocuments(transition, documentTypes, toAttachmentRecord(entry.files));
+      if (missing.length > 0) {
+        failures.push({ id: entry.id, no: entry.no, message: `Needs ${missing.map((type) => type.label).join(", ")}` });
+      }
+    } catch (error) {
+      if (!(error instanceof StatusTransitionError)) throw error;
+      failures.push({ id: entry.id, no: entry.no, message: error.message });
+    }
+  }
+  if (failures.length > 0) {
+    throw new BulkEntryError(`${failures.length} of the selected entries cannot be moved to ${STATUS_LABELS[input.to]}`, failures);
+  }
+
+  const effectiveDate = input.date ? new Date(input.date) : new Date();
+  const dateField = statusDateField(input.to);
+  const reason = input.reason || null;
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    for (const entry of entries) {
+      const { count } = await tx.registryEntry.updateMany({
+        where: { id: entry.id, version: entry.version, status: entry.status, isDeleted: false },
+        data: {
+          status: input.to,
+          dateOfCancelled: dateField === "dateOfCancelled" ? effectiveDate : null,
+          dateOfCompleted: dateField === "dateOfCompleted" ? effectiveDate : null,
+          updatedById: actor.id,
+          version: { increment: 1 },
+        },
+      });
+      if (count === 0) throw new EntryVersionConflictError(entry.version);
+      await tx.entryStatusChange.create({
+        data: { entryId: entry.id, fromStatus: entry.status, toStatus: input.to, reason, actorId: actor.id },
+      });
+      await recordEntryRevision(tx, entry.id, "STATUS_CHANGED", actor.id);
+      await resubmitChangedEntry(tx, entry, actor.id);
+    }
+    await tx.auditLog.createMany({
+      data: entries.map((entry) => ({
+        action: AuditAction.ENTRY_STATUS_CHANGED,
+        actorId: actor.id,
+        targetEntryId: entry.id,
+        details: auditDetails(AuditAction.ENTRY_STATUS_CHANGED, {
+          no: entry.no,
+          from: entry.status,
+          to: input.to,
+          ...(reason && { reason }),
+          ...(dateField && { [dateField]: effectiveDate.toISOString() }),
+          bulk: true,
+        }),
+      })),
+    });
+  }, BULK_TRANSACTION_OPTIONS);
+  return entries.length;
+}
+
+/**
+ * Soft-deletes every selected entry with one shared reason
+ * @returns the number of entries deleted
+ * @throws EntryVersionConflictError if an entry changed while the action ran
+ */
+export async function deleteEntries(ids: string[], reason: string, actor: BulkActor): Promise<number> {
+  const entries = await loadSelection(ids);
+  const deletedAt = new Date();
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    for (const entry of entries) {
+      const { count } = await tx.registryEntry.updateMany({
+        where: { id: entry.id, version: entry.version, isDeleted: false },
+        data: { isDeleted: true, deletedAt, version: { increment: 1 } },
+      });
+      if (count === 0) throw new EntryVersionConflictError(entry.version);
+      await recordEntryRevision(tx, entry.id, "DELETED", actor.id);
+    }
+    await tx.auditLog.createMany({
+      data: entries.map((entry) => ({
+        action: AuditAction.ENTRY_DELETED,
+        actorId: actor.id,
+        targetEntryId: entry.id,
+        details: auditDetails(AuditAction.ENTRY_DELETED, {
+          no: entry.no,
+          agreementNumber: entry.agreementNumber,
+          reason,
+          deletedBy: actor.email || "Unknown",
+          bulk: true,
+        }),
+      })),
+    });
+  }, BULK_TRANSACTION_OPTIONS);
+  return entries.length;
+}
+
+/**
+ * Moves every selected entry to another branch. Entries already at the branch
+ * are left as they are, and approved entries go back for review. No entry may
+ * end up sharing its agreement number with another entry at the branch; a
+ * duplicate can only be justified by editing the entry on its own.
+ * @returns the number of entries changed
+ * @throws BulkEntryError listing the entries that would become duplicates
+ * @throws EntryVersionConflictError if an entry changed while the action ran
+ */
+export async function reassignBranch(ids: string[], branch: string, actor: BulkActor): Promise<number> {
+  const entries = (await loadSelection(ids)).filter((entry) => entry.branch !== branch);
+  if (entries.length === 0) return 0;
+
+  const failures: BulkEntryFailure[] = [];
+  const movingByAgreement = new Map<string, any>();
+  for (const entry of entries) {
+    const key = normalizeDuplicateKey(entry.agreementNumber);
+    const alsoMoving = movingByAgreement.get(key);
+    if (alsoMoving) {
+      failures.push({ id: entry.id, no: entry.no, message: `Has the same agreement number as ${alsoMoving.no}, which is also being moved` });
+      continue;
+    }
+    movingByAgreement.set(key, entry);
+
+    // Only the branch changes, so only the agreement-at-branch rule can newly match
+    const conflicts = (await findDuplicateConflicts({ ...entry, branch }, entry.id)).filter((conflict) =>
+      conflict.rules.includes("AGREEMENT_AT_BRANCH")
+    );
+    if (conflicts.length > 0) {
+      failures.push({
+        id: entry.id,
+        no: entry.no,
+        message: `Agreement ${entry.agreementNumber} is already registered at ${branch} as ${conflicts.map((conflict) => conflict.no).join(", ")}`,
+      });
+    }
+  }
+  if (failures.length > 0) {
+    throw new BulkEntryError(`${failures.length} of the selected entries would duplicate an agreement at ${branch}`, failures);
+  }
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    for (const entry of entries) {
+      const { count } = await tx.registryEntry.updateMany({
+        where: { id: entry.id, version: entry.version, isDeleted: false },
+        data: { branch, updatedById: actor.id, version: { increment: 1 } },
+      });
+      if (count === 0) throw new EntryVersionConflictError(entry.version);
+      await recordEntryRevision(tx, entry.id, "UPDATED", actor.id);
+      await resubmitChangedEntry(tx, entry, actor.id);
+    }
+    await tx.auditLog.createMany({
+      data: entries.map((entry) => ({
+        action: AuditAction.ENTRY_UPDATED,
+        actorId: actor.id,
+        targetEntryId: entry.id,
+        details: auditDetails(AuditAction.ENTRY_UPDATED, { changes: { branch: { from: entry.branch, to: branch } }, fields: ["branch"], bulk: true }),
+      })),
+    });
+  }, BULK_TRANSACTION_OPTIONS);
+  return entries.length;
+}
+
+const EXPORT_COLUMNS = [
+  "No",
+  "Agreement number",
+  "Form number",
+  "Date",
+  "Branch",
+  "Island",
+  "Address",
+  "Status",
+  "Review",
+  "Loan amount",
+  "Date of cancellation",
+  "Date of completion",
+  "Borrowers",
+  "National IDs",
+];
+
+const exportDate = (value: Date | null) => (value ? formatDate(value, "yyyy-MM-dd") : "");
+
+/**
+ * The selected entries as CSV, one row per entry in registry number order
+ */
+export async function buildSelectionCsv(ids: string[]): Promise<string> {
+  const entries = await loadSelection(ids, {
+    include: { borrowers: borrowersInclude },
+    orderBy: { no: "asc" },
+  });
+
+  const rows = entries.map((entry) => [
+    entry.no,
+    entry.agreementNumber,
+    entry.formNumber,
+    exportDate(entry.date),
+    entry.branch,
+    entry.island,
+    entry.address,
+    STATUS_LABELS[entry.status as EntryStatus],
+    REVIEW_STATE_LABELS[entry.reviewState as ReviewState],
+    entry.loanAmount.toString(),
+    exportDate(entry.dateOfCancelled),
+    exportDate(entry.dateOfCompleted),
+    entry.borrowers.map((borrower: any) => borrower.fullName).join("; "),
+    entry.borrowers.map((borrower: any) => borrower.nationalId).join("; "),
+  ]);
+
+  return [EXPORT_COLUMNS, ...rows].map((row) => row.map((cell) => csvEscape(cell)).join(",")).join("\r\n");
+}
@@ -0,0 +1,155 @@
+/**
+ * Entry filter module
+ * The entries page keeps its filters in the URL so a filtered list can be
+ * bookmarked, shared or saved as a view. Relative date presets are stored as
+ * presets, not dates, so "Last 30 days" stays current when a link is reopened.
+ */
+
+import { endOfDay, format, isValid, parseISO, startOfDay, startOfYear, subDays } from "date-fns";
+import { ENTRY_STATUSES, type EntryStatus } from "@/lib/document-types";
+
+export const DATE_PRESETS = ["ALL", "LAST_30_DAYS", "LAST_90_DAYS", "THIS_YEAR", "CUSTOM"] as const;
+export type DatePreset = (typeof DATE_PRESETS)[number];
+
+export const AMOUNT_RANGES = ["ANY", "UNDER_50K", "50K_100K", "100K_250K", "250K_PLUS", "500K_PLUS"] as const;
+export type AmountRangeKey = (typeof AMOUNT_RANGES)[number];
+
+export const amountRangeMap: Record<AmountRangeKey, { min?: number; max?: number }> = {
+  ANY: {},
+  UNDER_50K: { max: 50_000 },
+  "50K_100K": { min: 50_000, max: 100_000 },
+  "100K_250K": { min: 100_000, max: 250_000 },
+  "250K_PLUS": { min: 250_000 },
+  "500K_PLUS": { min: 500_000 },
+};
+
+export type EntryFilters = {
+  query: string;
+  status: EntryStatus | "ALL";
+  island: string | "ALL";
+  branch: string | "ALL";
+  datePreset: DatePreset;
+  // Same shape as react-day-picker's DateRange
+  customRange?: { from: Date | undefined; to?: Date } | undefined;
+  amountRange: AmountRangeKey;
+};
+
+export const DEFAULT_ENTRY_FILTERS: EntryFilters = {
+  query: "",
+  status: "ALL",
+  island: "ALL",
+  branch: "ALL",
+  datePreset: "ALL",
+  customRange: undefined,
+  amountRange: "ANY",
+};
+
+const URL_DATE_FORMAT = "yyyy-MM-dd";
+
+const oneOf = <T extends string>(values: readonly T[], value: string | null, fallback: T): T =>
+  value && (values as readonly string[]).includes(value) ? (value as T) : fallback;
+
+const parseUrlDate = (value: string | null) => {
+  if (!value) return undefined;
+  const date = parseISO(value);
+  return isValid(date) ? date : undefined;
+};
+
+/**
+ * Reads filters and the page number from an entries page URL; unknown or
+ * invalid values fall back to the defaults
+ */
+export function parseEntryFilters(params: URLSearchParams): { filters: EntryFilters; page: number } {
+  const datePreset = oneOf(DATE_PRESETS, params.get("date"), "ALL");
+  const from = parseUrlDate(params.get("from"));
+  const to = parseUrlDate(params.get("to"));
+  const page = Number(params.get("page"));
+
+  return {
+    filters: {
+      query: params.get("q") ?? "",
+      status: oneOf(ENTRY_STATUSES, params.get("status"), "ALL"),
+      island: params.get("island") || "ALL",
+      branch: params.get("branch") || "ALL",
+      datePreset,
+      customRange: datePreset === "CUSTOM" && (from || to) ? { from: from ?? to, to: to ?? from } : undefined,
+      amountRange: oneOf(AMOUNT_RANGES, params.get("amount"), "ANY"),
+    },
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
+
+/**
+ * Writes filters as an entries page query string, leaving out defaults
+ */
+export function serializeEntryFilters(filters: EntryFilters, page = 1): string {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set("q", filters.query.trim());
+  if (filters.status !== "ALL") params.set("status", filters.status);
+  if (filters.island !== "ALL") params.set("island", filters.island);
+  if (filters.branch !== "ALL") params.set("branch", filters.branch);
+  if (filters.datePreset !== "ALL") params.set("date", filters.datePreset);
+  if (filters.datePreset === "CUSTOM") {
+    if (filters.customRange?.from) params.set("from", format(filters.customRange.from, URL_DATE_FORMAT));
+    if (filters.customRange?.to) params.set("to", format(filters.customRange.to, URL_DATE_FORMAT));
+  }
+  if (filters.amountRange !== "ANY") params.set("amount", filters.amountRange);
+  if (page > 1) params.set("page", String(page));
+  return params.toString();
+}
+
+/**
+ * Resolves the date filter to a start and end date, relative to today for presets
+ */
+export function getDateRange(filters: EntryFilters): { start?: Date; end?: Date } {
+  if (filters.datePreset === "ALL") return {};
+
+  if (filters.datePreset === "CUSTOM") {
+    const from = filters.customRange?.from ? startOfDay(filters.customRange.from) : undefined;
+    const toSource = filters.customRange?.to ?? filters.customRange?.from;
+    const to = toSource ? endOfDay(toSource) : undefined;
+    return { start: from, end: to };
+  }
+
+  const now = new Date();
+  const end = endOfDay(now);
+
+  if (filters.datePreset === "LAST_30_DAYS") {
+    return { start: startOfDay(subDays(now, 30)), end };
+  }
+
+  if (filters.datePreset === "LAST_90_DAYS") {
+    return { start: startOfDay(subDays(now, 90)), end };
+  }
+
+  return { start: startOfDay(startOfYear(now)), end };
+}
+
+/**
+ * Builds the GET /api/entries parameters for a set of filters
+ */
+export function buildEntriesApiParams(filters: EntryFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.query.trim()) params.set("query", filters.query.trim());
+  if (filters.status !== "ALL") params.set("status", filters.status);
+  if (filters.island !== "ALL") params.set("island", filters.island);
+  if (filters.branch !== "ALL") params.set("branch", filters.branch);
+
+  const { start, end } = getDateRange(filters);
+  if (start) params.set("startDate", start.toISOString());
+  if (end) params.set("endDate", end.toISOString());
+
+  const amountConfig = amountRangeMap[filters.amountRange];
+  if (amountConfig.min !== undefined) params.set("minAmount", String(amountConfig.min));
+  if (amountConfig.max !== undefined) params.set("maxAmount", String(amountConfig.max));
+
+  return params;
+}
+
+/**
+ * Reduces a query string to the filters it holds, dropping the page and unknown parameters
+ */
+export function normalizeFilterQuery(query: string): string {
+  return serializeEntryFilters(parseEntryFilters(new URLSearchParams(query)).filters);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { EntryReviewError, checkReviewStep, isEntryMaker, reviewDeniedMessage } from "@/lib/entry-review";
+
+describe("checkReviewStep", () => {
+  it("approves and rejects only entries awaiting review", () => {
+    expect(checkReviewStep("PENDING_REVIEW", "APPROVE")).toMatchObject({ to: "APPROVED", checker: true });
+    expect(() => checkReviewStep("APPROVED", "APPROVE")).toThrow("Cannot approve an entry that is approved");
+    expect(() => checkReviewStep("DRAFT", "REJECT", "Wrong amount")).toThrow(EntryReviewError);
+  });
+
+  it("needs a comment to reject", () => {
+    expect(() => checkReviewStep("PENDING_REVIEW", "REJECT", "  ")).toThrow("A comment is required to reject an entry");
+    expect(checkReviewStep("PENDING_REVIEW", "REJECT", "Wrong amount")).toMatchObject({ to: "DRAFT" });
+  });
+
+  it("lets the maker resubmit a returned entry", () => {
+    expect(checkReviewStep("DRAFT", "SUBMIT")).toMatchObject({ to: "PENDING_REVIEW", checker: false });
+  });
+
+  it("takes the review permission to approve or reject, and the edit permission to submit", () => {
+    expect(checkReviewStep("PENDING_REVIEW", "APPROVE").permission).toBe("entry.review");
+    expect(checkReviewStep("PENDING_REVIEW", "REJECT", "Wrong amount").permission).toBe("entry.review");
+    expect(checkReviewStep("DRAFT", "SUBMIT").permission).toBe("entry.update");
+    expect(reviewDeniedMessage(checkReviewStep("PENDING_REVIEW", "APPROVE"))).toBe('Approve needs the "Review entries" permission');
+  });
+});
+
+describe("isEntryMaker", () => {
+  const entry = { createdById: "clerk", submittedById: "submitter", updatedById: "editor" };
+
+  it("counts whoever recorded, submitted or last changed the entry", () => {
+    expect(isEntryMaker("clerk", entry)).toBe(true);
+    expect(isEntryMaker("submitter", entry)).toBe(true);
+    expect(isEntryMaker("editor", entry)).toBe(true);
+    expect(isEntryMaker("reviewer", entry)).toBe(false);
+  });
+
+  it("never counts an unknown user as the maker", () => {
+    expect(isEntryMaker(null, { createdById: null })).toBe(false);
+  });
+});
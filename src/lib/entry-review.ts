@@ -0,0 +1,88 @@
+/**
+ * Entry review module
+ * New entries are checked by a second person before they count. An entry is
+ * submitted for review when it is recorded, and a reviewer either approves it or
+ * rejects it with a comment, which returns it to its maker as a draft to correct
+ * and resubmit. Changing an approved entry submits it for review again. Nobody
+ * may review an entry they made, and approving or rejecting takes a permission
+ * of its own. Reviews go through
+ * POST /api/entries/[id]/review. Shared by the review queue and the server, so
+ * it must stay free of server-only imports.
+ */
+
+import { permissionLabel, type Permission } from "@/lib/permissions";
+
+export class EntryReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EntryReviewError";
+  }
+}
+
+export const REVIEW_STATES = ["DRAFT", "PENDING_REVIEW", "APPROVED"] as const;
+export type ReviewState = (typeof REVIEW_STATES)[number];
+
+export const REVIEW_STATE_LABELS: Record<ReviewState, string> = {
+  DRAFT: "Returned",
+  PENDING_REVIEW: "Pending review",
+  APPROVED: "Approved",
+};
+
+export const REVIEW_DECISION_LABELS: Record<"SUBMITTED" | "APPROVED" | "REJECTED", string> = {
+  SUBMITTED: "Submitted for review",
+  APPROVED: "Approved",
+  REJECTED: "Rejected",
+};
+
+export type ReviewAction = "SUBMIT" | "APPROVE" | "REJECT";
+
+export type ReviewStep = {
+  action: ReviewAction;
+  from: ReviewState;
+  to: ReviewState;
+  decision: keyof typeof REVIEW_DECISION_LABELS;
+  /** Action label, e.g. "Approve" */
+  label: string;
+  comment: "required" | "optional";
+  permission: Permission;
+  /** Whether the entry's maker is barred from taking this step */
+  checker: boolean;
+};
+
+export const REVIEW_STEPS: ReviewStep[] = [
+  { action: "SUBMIT", from: "DRAFT", to: "PENDING_REVIEW", decision: "SUBMITTED", label: "Submit for review", comment: "optional", permission: "entry.update", checker: false },
+  { action: "APPROVE", from: "PENDING_REVIEW", to: "APPROVED", decision: "APPROVED", label: "Approve", comment: "optional", permission: "entry.review", checker: true },
+  // The maker needs to know what to correct
+  { action: "REJECT", from: "PENDING_REVIEW", to: "DRAFT", decision: "REJECTED", label: "Reject", comment: "required", permission: "entry.review", checker: true },
+];
+
+/**
+ * Whether a user made the entry under review: they recorded it, submitted
+ * the version awaiting review, or were the last to change it
+ */
+export function isEntryMaker(
+  userId: string | null | undefined,
+  entry: { createdById?: string | null; submittedById?: string | null; updatedById?: string | null }
+): boolean {
+  return !!userId && (entry.createdById === userId || entry.submittedById === userId || entry.updatedById === userId);
+}
+
+/** Why a user without the step's permission may not take it */
+export const reviewDeniedMessage = (step: ReviewStep) =>
+  `${step.label} needs the "${permissionLabel(step.permission)}" permission`;
+
+/**
+ * Looks up a review step and checks the comment rule
+ * @throws EntryReviewError if the entry is not in a state the action applies to or a required comment is missing
+ */
+export function checkReviewStep(from: ReviewState, action: ReviewAction, comment?: string | null): ReviewStep {
+  const step = REVIEW_STEPS.find((candidate) => candidate.action === action);
+  if (!step || step.from !== from) {
+    const label = step?.label ?? action.toLowerCase();
+    throw new EntryReviewError(`Cannot ${label.toLowerCase()} an entry that is ${REVIEW_STATE_LABELS[from].toLowerCase()}`);
+  }
+  if (step.comment === "required" && !comment?.trim()) {
+    throw new EntryReviewError(`A comment is required to ${step.label.toLowerCase()} an entry`);
+  }
+  return step;
+}
@@ -0,0 +1,129 @@
+/**
+ * Entry revision module
+ * Every save of an entry records a revision: a full snapshot of the entry at
+ * that version, with its borrowers and the attachment versions it held by
+ * reference rather than the files themselves. Revisions let an entry be read
+ * as it stood on any date, any two versions be compared field by field, and an
+ * admin put an entry back the way an earlier revision had it. Shared by the
+ * revisions page and the server, so it must stay free of server-only imports.
+ */
+
+import { BORROWER_ROLE_LABELS, type BorrowerRole } from "@/lib/borrowers";
+import { STATUS_LABELS, type EntryStatus } from "@/lib/document-types";
+import { NATIONAL_ID_TYPE_LABELS, type NationalIdType } from "@/lib/national-id";
+import { ENTRY_MERGE_FIELDS, ENTRY_MERGE_FIELD_LABELS, entryFieldEquals, type EntryMergeField } from "@/lib/entry-versions";
+
+export const REVISION_SOURCES = ["CREATED", "UPDATED", "STATUS_CHANGED", "DELETED", "RESTORED", "REVERTED", "IMPORTED"] as const;
+export type RevisionSource = (typeof REVISION_SOURCES)[number];
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  CREATED: "Created",
+  UPDATED: "Edited",
+  STATUS_CHANGED: "Status changed",
+  DELETED: "Deleted",
+  RESTORED: "Restored",
+  REVERTED: "Reverted",
+  IMPORTED: "Imported",
+};
+
+export type SnapshotBorrower = {
+  personId: string;
+  fullName: string;
+  nationalId: string;
+  idType: NationalIdType;
+  role: BorrowerRole;
+};
+
+/** An attachment version the entry held, by reference */
+export type SnapshotAttachment = { id: string; name: string; version: number };
+
+/** An entry as saved at one version; dates are yyyy-MM-dd strings */
+export type EntrySnapshot = {
+  no: string;
+  agreementNumber: string;
+  formNumber: string;
+  date: string;
+  branch: string;
+  island: string;
+  address: string;
+  status: EntryStatus;
+  loanAmount: string;
+  dateOfCancelled: string | null;
+  dateOfCompleted: string | null;
+  isDeleted: boolean;
+  borrowers: SnapshotBorrower[];
+  attachments: Record<string, SnapshotAttachment>;
+};
+
+export type EntryRevisionItem = {
+  id: string;
+  version: number;
+  source: RevisionSource;
+  snapshot: EntrySnapshot;
+  createdAt: string;
+  actor: { id: string; name?: string | null; email?: string | null } | null;
+};
+
+/** Fields shown when comparing revisions, in form order */
+export const REVISION_FIELDS = [...ENTRY_MERGE_FIELDS, "isDeleted"] as const;
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+export const REVISION_FIELD_LABELS: Record<RevisionField, string> = {
+  ...ENTRY_MERGE_FIELD_LABELS,
+  isDeleted: "Deleted",
+};
+
+const formatAmount = (value: string) =>
+  Number(value).toLocaleString("en-MV", { style: "currency", currency: "MVR", minimumFractionDigits: 2 });
+
+/**
+ * One field of a snapshot as display text; borrowers and documents give one line each
+ */
+export function formatSnapshotField(snapshot: EntrySnapshot, field: RevisionField): string[] {
+  switch (field) {
+    case "borrowers":
+      return snapshot.borrowers.map(
+        (borrower) =>
+          `${borrower.fullName} (${NATIONAL_ID_TYPE_LABELS[borrower.idType] ?? borrower.idType} ${borrower.nationalId}) · ${BORROWER_ROLE_LABELS[borrower.role] ?? borrower.role}`
+      );
+    case "attachments": {
+      const slots = Object.entries(snapshot.attachments).sort(([a], [b]) => a.localeCompare(b));
+      return slots.length > 0 ? slots.map(([slot, file]) => `${slot}: ${file.name} (v${file.version})`) : ["None"];
+    }
+    case "status":
+      return [STATUS_LABELS[snapshot.status] ?? snapshot.status];
+    case "loanAmount":
+      return [formatAmount(snapshot.loanAmount)];
+    case "isDeleted":
+      return [snapshot.isDeleted ? "Yes" : "No"];
+    default:
+      return [snapshot[field] || "—"];
+  }
+}
+
+export const snapshotFieldEquals = (a: EntrySnapshot, b: EntrySnapshot, field: RevisionField) =>
+  field === "isDeleted" ? a.isDeleted === b.isDeleted : entryFieldEquals(a, b, field as EntryMergeField);
+
+/**
+ * Fields that differ between two snapshots
+ */
+export function diffSnapshots(from: EntrySnapshot, to: EntrySnapshot): RevisionField[] {
+  return REVISION_FIELDS.filter((field) => !snapshotFieldEquals(from, to, field));
+}
+
+/**
+ * Audit trail form of the changes between two snapshots, field to { from, to },
+ * with borrowers listed by name. Documents are left out: their changes are
+ * recorded with version references when the files are bound.
+ */
+export function describeSnapshotChanges(from: EntrySnapshot, to: EntrySnapshot) {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const field of diffSnapshots(from, to)) {
+    if (field === "attachments") continue;
+    changes[field] =
+      field === "borrowers"
+        ? { from: formatSnapshotField(from, field).join("; "), to: formatSnapshotField(to, field).join("; ") }
+        : { from: from[field], to: to[field] };
+  }
+  return changes;
+}
@@ -0,0 +1,82 @@
+/**
+ * Entry status module
+ * An entry's status moves through a fixed set of transitions. Each transition
+ * names the permission needed to make it and whether a reason must be given; the
+ * documents required for the new status must be attached before it is made.
+ * Status changes go through POST /api/entries/[id]/transition and are kept as
+ * a timeline. Shared by the entries page and the server, so it must stay free
+ * of server-only imports.
+ */
+
+import { hasPermission, permissionLabel, type Permission } from "@/lib/permissions";
+import { STATUS_LABELS, isDocumentRequired, type DocumentTypeDefinition, type EntryStatus } from "@/lib/document-types";
+
+export class StatusTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatusTransitionError";
+  }
+}
+
+export type StatusTransition = {
+  from: EntryStatus;
+  to: EntryStatus;
+  /** Action label, e.g. "Mark completed" */
+  label: string;
+  permission: Permission;
+  reason: "required" | "optional";
+};
+
+export const STATUS_TRANSITIONS: StatusTransition[] = [
+  { from: "ONGOING", to: "COMPLETED", label: "Mark completed", permission: "entry.update", reason: "optional" },
+  { from: "ONGOING", to: "CANCELLED", label: "Cancel agreement", permission: "entry.update", reason: "required" },
+  // Undoing a closed agreement is a correction, so it takes a permission of its own and a reason
+  { from: "COMPLETED", to: "ONGOING", label: "Reopen", permission: "entry.reopen", reason: "required" },
+  { from: "CANCELLED", to: "ONGOING", label: "Reinstate", permission: "entry.reopen", reason: "required" },
+];
+
+/** The date field recording when an entry reached a status, if it has one */
+export function statusDateField(status: EntryStatus): "dateOfCancelled" | "dateOfCompleted" | null {
+  if (status === "CANCELLED") return "dateOfCancelled";
+  if (status === "COMPLETED") return "dateOfCompleted";
+  return null;
+}
+
+/**
+ * Transitions out of a status that a user holding the given permissions may make
+ */
+export function availableTransitions(from: EntryStatus, permissions?: readonly string[]): StatusTransition[] {
+  return STATUS_TRANSITIONS.filter(
+    (transition) => transition.from === from && (!permissions || hasPermission(permissions, transition.permission))
+  );
+}
+
+/** Why a user without the transition's permission may not make it */
+export const transitionDeniedMessage = (transition: StatusTransition) =>
+  `${transition.label} needs the "${permissionLabel(transition.permission)}" permission`;
+
+/**
+ * Looks up a transition and checks the reason rule
+ * @throws StatusTransitionError if the transition does not exist or a required reason is missing
+ */
+export function checkStatusTransition(from: EntryStatus, to: EntryStatus, reason?: string | null): StatusTransition {
+  const transition = STATUS_TRANSITIONS.find((candidate) => candidate.from === from && candidate.to === to);
+  if (!transition) {
+    throw new StatusTransitionError(`An entry cannot go from ${STATUS_LABELS[from]} to ${STATUS_LABELS[to]}`);
+  }
+  if (transition.reason === "required" && !reason?.trim()) {
+    throw new StatusTransitionError(`A reason is required to ${transition.label.toLowerCase()}`);
+  }
+  return transition;
+}
+
+/**
+ * Documents the new status requires that the entry does not hold yet
+ */
+export function missingTransitionDocuments(
+  transition: StatusTransition,
+  documentTypes: DocumentTypeDefinition[],
+  attachments: Record<string, { id?: string | null } | null | undefined>
+): DocumentTypeDefinition[] {
+  return documentTypes.filter((type) => isDocumentRequired(type, transition.to) && !attachments[type.key]?.id);
+}
@@ -0,0 +1,163 @@
+/**
+ * Entry version module
+ * Every save of an entry bumps its version. Editors send the version they
+ * loaded as an If-Match precondition, and a save against a newer version is
+ * rejected with the current entry and the fields that differ, so the editor can
+ * merge the other clerk's changes instead of overwriting them. Shared by the
+ * entry form and the server, so it must stay free of server-only imports.
+ */
+
+import { normalizeNationalId, type NationalIdType } from "@/lib/national-id";
+
+export class EntryVersionConflictError extends Error {
+  constructor(public readonly currentVersion: number) {
+    super("This entry was changed by someone else since it was opened");
+    this.name = "EntryVersionConflictError";
+  }
+}
+
+/** ETag for an entry version, e.g. "3" */
+export const entryEtag = (version: number) => `"${version}"`;
+
+/**
+ * Reads the version from an If-Match header
+ * @returns the version, or null when the header is missing or not an entry ETag
+ */
+export function parseIfMatch(header: string | null): number | null {
+  const match = header?.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? Number(match[1]) : null;
+}
+
+/** Entry fields compared and merged when saves collide */
+export const ENTRY_MERGE_FIELDS = [
+  "no",
+  "address",
+  "island",
+  "formNumber",
+  "date",
+  "branch",
+  "agreementNumber",
+  "status",
+  "loanAmount",
+  "dateOfCancelled",
+  "dateOfCompleted",
+  "borrowers",
+  "attachments",
+] as const;
+export type EntryMergeField = (typeof ENTRY_MERGE_FIELDS)[number];
+
+export const ENTRY_MERGE_FIELD_LABELS: Record<EntryMergeField, string> = {
+  no: "Registry number",
+  address: "Address",
+  island: "Island",
+  formNumber: "Form number",
+  date: "Date",
+  branch: "Branch",
+  agreementNumber: "Agreement number",
+  status: "Status",
+  loanAmount: "Loan amount",
+  dateOfCancelled: "Date of cancellation",
+  dateOfCompleted: "Date of completion",
+  borrowers: "Borrowers",
+  attachments: "Documents",
+};
+
+type BorrowerValue = { fullName: string; nationalId: string; idType?: NationalIdType; role?: string | null };
+
+/** An entry as the edit form holds it; dates are yyyy-MM-dd strings */
+export type EntryFormValues = {
+  no: string | number;
+  address: string;
+  island: string;
+  formNumber: string;
+  date: string;
+  branch: string;
+  agreementNumber: string;
+  status: string;
+  loanAmount: number | string;
+  dateOfCancelled?: string | null;
+  dateOfCompleted?: string | null;
+  borrowers: BorrowerValue[];
+  attachments?: Record<string, { id?: string | null } | null | undefined> | null;
+};
+
+export type EntryFieldDiff = { field: EntryMergeField; yours: unknown; theirs: unknown };
+
+const toDay = (value: unknown) => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString().slice(0, 10);
+};
+
+// Reduces each field to a plain value so the same entry compares equal however it was loaded
+function comparableValue(values: EntryFormValues, field: EntryMergeField): unknown {
+  switch (field) {
+    case "date":
+    case "dateOfCancelled":
+    case "dateOfCompleted":
+      return toDay(values[field]);
+    case "loanAmount":
+      return Number(values.loanAmount);
+    case "no":
+      return String(values.no).trim();
+    case "borrowers":
+      return values.borrowers.map((borrower) => ({
+        fullName: borrower.fullName.trim(),
+        nationalId: normalizeNationalId(borrower.nationalId, borrower.idType),
+        idType: borrower.idType ?? null,
+        role: borrower.role ?? null,
+      }));
+    case "attachments":
+      return Object.fromEntries(
+        Object.entries(values.attachments ?? {})
+          .filter(([, value]) => value?.id)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([key, value]) => [key, value!.id])
+      );
+    default:
+      return typeof values[field] === "string" ? (values[field] as string).trim() : values[field];
+  }
+}
+
+export const entryFieldEquals = (a: EntryFormValues, b: EntryFormValues, field: EntryMergeField) =>
+  JSON.stringify(comparableValue(a, field)) === JSON.stringify(comparableValue(b, field));
+
+/**
+ * Fields where a rejected save differs from the entry as it is now
+ */
+export function diffEntryFields(yours: EntryFormValues, theirs: EntryFormValues): EntryFieldDiff[] {
+  return ENTRY_MERGE_FIELDS.filter((field) => !entryFieldEquals(yours, theirs, field)).map((field) => ({
+    field,
+    yours: comparableValue(yours, field),
+    theirs: comparableValue(theirs, field),
+  }));
+}
+
+export type EntryMergePlan = {
+  /** Changed only by the other editor; taken from their version */
+  theirs: EntryMergeField[];
+  /** Changed only by you; your value is kept */
+  yours: EntryMergeField[];
+  /** Changed differently by both; needs a decision */
+  conflicts: EntryMergeField[];
+};
+
+/**
+ * Three-way comparison of the version you started from, your edits and the
+ * version now saved
+ */
+export function planEntryMerge(base: EntryFormValues, yours: EntryFormValues, theirs: EntryFormValues): EntryMergePlan {
+  const plan: EntryMergePlan = { theirs: [], yours: [], conflicts: [] };
+  for (const field of ENTRY_MERGE_FIELDS) {
+    const theyChanged = !entryFieldEquals(base, theirs, field);
+    const youChanged = !entryFieldEquals(base, yours, field);
+    if (theyChanged && youChanged) {
+      if (!entryFieldEquals(yours, theirs, field)) plan.conflicts.push(field);
+    } else if (theyChanged) {
+      plan.theirs.push(field);
+    } else if (youChanged) {
+      plan.yours.push(field);
+    }
+  }
+  return plan;
+}
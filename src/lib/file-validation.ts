@@ -1,10 +1,28 @@
 /**
  * File validation module
- * Validates uploaded files, specifically PDFs stored as data URLs
+ * Validates uploaded files against a registry of validators keyed by MIME
+ * type: PDF documents and PNG, JPEG and TIFF images of scanned or photographed
+ * paperwork. Each validator checks the file signature and, for images, that
+ * the dimensions are plausible for a legible document.
  */
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+import {
+  checkDocumentFile,
+  describeMissingDocument,
+  isDocumentRequired,
+  SUPPORTED_DOCUMENT_MIME_TYPES,
+  type DocumentTypeDefinition,
+  type EntryStatus,
+  type SupportedMimeType,
+} from './document-types';
+
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const MIN_IMAGE_DIMENSION = 100; // px, smaller images cannot be legible documents
+export const MAX_IMAGE_DIMENSION = 20000; // px per side
+export const MAX_IMAGE_PIXELS = 60_000_000; // keeps image conversion within memory
 const PDF_MAGIC_BYTES = Buffer.from([0x25, 0x50, 0x44, 0x46]); // %PDF
+const PNG_MAGIC_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_MAGIC_BYTES = Buffer.from([0xff, 0xd8, 0xff]);
 
 export class FileValidationError extends Error {
   constructor(message: string) {
@@ -14,18 +32,246 @@ export class FileValidationError extends Error {
 }
 
 /**
- * Validates a PDF data URL
- * @param dataUrl - The data URL to validate
+ * The parts of a file the validators read. Only the start and end are needed,
+ * so uploads can be checked while they stream to storage; a file held in
+ * memory is passed as both head and tail.
+ */
+export type FileSample = {
+  head: Buffer;
+  tail: Buffer;
+  size: number;
+};
+
+export type ImageDimensions = { width: number; height: number };
+
+type FileValidator = {
+  /** Short name used in error messages */
+  label: string;
+  /**
+   * Checks the file's signature and structure
+   * @returns the image dimensions, or null for formats without them
+   */
+  inspect(sample: FileSample): ImageDimensions | null;
+};
+
+/**
+ * Reads bytes at an absolute offset from whichever end of the sample holds them
+ */
+function readSample(sample: FileSample, offset: number, length: number): Buffer | null {
+  if (offset < 0 || length < 0) return null;
+  if (offset + length <= sample.head.length) return sample.head.subarray(offset, offset + length);
+  const tailStart = sample.size - sample.tail.length;
+  if (offset >= tailStart && offset + length <= sample.size) {
+    return sample.tail.subarray(offset - tailStart, offset - tailStart + length);
+  }
+  return null;
+}
+
+const pdfValidator: FileValidator = {
+  label: 'PDF',
+  inspect({ head, tail, size }) {
+    // Minimum size check (valid PDF should be at least a few bytes)
+    if (size < 100) {
+      throw new FileValidationError('File too small to be a valid PDF');
+    }
+
+    // Check PDF magic bytes at the start
+    if (!head.subarray(0, 4).equals(PDF_MAGIC_BYTES)) {
+      throw new FileValidationError('File is not a valid PDF (invalid magic bytes)');
+    }
+
+    // Additional check: PDF should contain "PDF-" version signature
+    const header = head.subarray(0, 100).toString('utf-8');
+    if (!header.includes('%PDF-')) {
+      throw new FileValidationError('Invalid PDF header signature');
+    }
+
+    // Check for PDF trailer (valid PDFs should have "%%EOF" at the end)
+    const trailer = tail.subarray(Math.max(0, tail.length - 100)).toString('utf-8');
+    if (!trailer.includes('%%EOF')) {
+      throw new FileValidationError('Invalid or corrupted PDF file (missing EOF marker)');
+    }
+    return null;
+  },
+};
+
+const pngValidator: FileValidator = {
+  label: 'PNG',
+  inspect({ head, tail }) {
+    if (!head.subarray(0, 8).equals(PNG_MAGIC_BYTES)) {
+      throw new FileValidationError('File is not a valid PNG image (invalid magic bytes)');
+    }
+    // The IHDR chunk always comes first and holds the dimensions
+    if (head.length < 24 || head.toString('latin1', 12, 16) !== 'IHDR') {
+      throw new FileValidationError('Invalid PNG header');
+    }
+    if (!tail.subarray(-12).toString('latin1').includes('IEND')) {
+      throw new FileValidationError('Invalid or corrupted PNG image (missing end chunk)');
+    }
+    return { width: head.readUInt32BE(16), height: head.readUInt32BE(20) };
+  },
+};
+
+// Start-of-frame markers carry the image size; other markers are skipped by length
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+const jpegValidator: FileValidator = {
+  label: 'JPEG',
+  inspect({ head, tail }) {
+    if (!head.subarray(0, 3).equals(JPEG_MAGIC_BYTES)) {
+      throw new FileValidationError('File is not a valid JPEG image (invalid magic bytes)');
+    }
+    if (!tail.includes(Buffer.from([0xff, 0xd9]))) {
+      throw new FileValidationError('Invalid or corrupted JPEG image (missing end marker)');
+    }
+
+    let offset = 2;
+    while (offset + 4 <= head.length) {
+      if (head[offset] !== 0xff) {
+        throw new FileValidationError('Invalid or corrupted JPEG image');
+      }
+      const marker = head[offset + 1];
+      if (marker === 0xff) {
+        offset += 1;
+        continue;
+      }
+      if (JPEG_SOF_MARKERS.has(marker)) {
+        if (offset + 9 > head.length) break;
+        return { width: head.readUInt16BE(offset + 7), height: head.readUInt16BE(offset + 5) };
+      }
+      if (marker === 0xda) {
+        throw new FileValidationError('Invalid JPEG image (image data before frame header)');
+      }
+      offset += marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7) ? 2 : 2 + head.readUInt16BE(offset + 2);
+    }
+    throw new FileValidationError('Unable to read JPEG image dimensions');
+  },
+};
+
+const tiffValidator: FileValidator = {
+  label: 'TIFF',
+  inspect(sample) {
+    const byteOrder = sample.head.toString('latin1', 0, 2);
+    const littleEndian = byteOrder === 'II';
+    if ((!littleEndian && byteOrder !== 'MM') || sample.head.length < 8) {
+      throw new FileValidationError('File is not a valid TIFF image (invalid magic bytes)');
+    }
+    const read16 = (buffer: Buffer, at = 0) => (littleEndian ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at));
+    const read32 = (buffer: Buffer, at = 0) => (littleEndian ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at));
+    if (read16(sample.head, 2) !== 42) {
+      throw new FileValidationError('File is not a valid TIFF image (invalid magic bytes)');
+    }
+
+    // Scanners may write the first directory at either end of the file
+    const directoryOffset = read32(sample.head, 4);
+    const count = readSample(sample, directoryOffset, 2);
+    const entries = count && readSample(sample, directoryOffset + 2, read16(count) * 12);
+    if (!entries) {
+      throw new FileValidationError('Unable to read TIFF image dimensions');
+    }
+
+    const dimensions: Partial<ImageDimensions> = {};
+    for (let at = 0; at < entries.length; at += 12) {
+      const tag = read16(entries, at);
+      if (tag !== 256 && tag !== 257) continue;
+      // SHORT (3) and LONG (4) values are stored inline
+      const value = read16(entries, at + 2) === 3 ? read16(entries, at + 8) : read32(entries, at + 8);
+      if (tag === 256) dimensions.width = value;
+      else dimensions.height = value;
+    }
+    if (!dimensions.width || !dimensions.height) {
+      throw new FileValidationError('Unable to read TIFF image dimensions');
+    }
+    return { width: dimensions.width, height: dimensions.height };
+  },
+};
+
+const FILE_VALIDATORS: Record<SupportedMimeType, FileValidator> = {
+  'application/pdf': pdfValidator,
+  'image/png': pngValidator,
+  'image/jpeg': jpegValidator,
+  'image/tiff': tiffValidator,
+};
+
+/**
+ * Whether a validator exists for the MIME type
+ */
+export function isSupportedMimeType(mimeType: string): mimeType is SupportedMimeType {
+  return (SUPPORTED_DOCUMENT_MIME_TYPES as readonly string[]).includes(mimeType);
+}
+
+/**
+ * Validates a file's bytes with the validator registered for its MIME type
+ * @param mimeType - The declared type of the file
+ * @param sample - The start and end of the file and its total size
+ * @param maxBytes - Largest allowed size, e.g. from the document type
+ * @returns the image dimensions, or null for PDFs
  * @throws FileValidationError if validation fails
  */
-export function validatePdfDataUrl(dataUrl: string | null | undefined): void {
+export function validateFileBytes(
+  mimeType: string,
+  sample: FileSample,
+  maxBytes: number = MAX_FILE_SIZE
+): ImageDimensions | null {
+  if (!isSupportedMimeType(mimeType)) {
+    throw new FileValidationError(`Unsupported file type: ${mimeType || 'unknown'}`);
+  }
+
+  if (sample.size > maxBytes) {
+    const maxMB = (maxBytes / 1024 / 1024).toFixed(1);
+    const actualMB = (sample.size / 1024 / 1024).toFixed(1);
+    throw new FileValidationError(
+      `File size (${actualMB}MB) exceeds ${maxMB}MB limit`
+    );
+  }
+
+  const validator = FILE_VALIDATORS[mimeType];
+  const dimensions = validator.inspect(sample);
+  if (dimensions) {
+    const { width, height } = dimensions;
+    if (width < MIN_IMAGE_DIMENSION || height < MIN_IMAGE_DIMENSION) {
+      throw new FileValidationError(
+        `${validator.label} image is too small (${width}x${height}px); it must be at least ${MIN_IMAGE_DIMENSION}px on each side`
+      );
+    }
+    if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION || width * height > MAX_IMAGE_PIXELS) {
+      throw new FileValidationError(`${validator.label} image is too large (${width}x${height}px)`);
+    }
+  }
+  return dimensions;
+}
+
+/**
+ * Validates the bytes of a PDF
+ * @param head - The first bytes of the file (at least 100)
+ * @param tail - The last bytes of the file (at least 100)
+ * @param size - Total file size in bytes
+ * @param maxBytes - Largest allowed size, e.g. from the document type
+ * @throws FileValidationError if validation fails
+ */
+export function validatePdfBytes(head: Buffer, tail: Buffer, size: number, maxBytes: number = MAX_FILE_SIZE): void {
+  validateFileBytes('application/pdf', { head, tail, size }, maxBytes);
+}
+
+/**
+ * Decodes a base64 data URL of any supported file type
+ * @param dataUrl - The data URL to decode
+ * @returns the file's MIME type and contents
+ * @throws FileValidationError if the data URL is not a valid supported file
+ */
+export function decodeFileDataUrl(dataUrl: string | null | undefined): { mimeType: SupportedMimeType; bytes: Buffer } {
   if (!dataUrl) {
     throw new FileValidationError('Data URL is required');
   }
 
   // Check format
-  if (!dataUrl.startsWith('data:application/pdf;base64,')) {
-    throw new FileValidationError('Invalid PDF data URL format. Must be data:application/pdf;base64,...');
+  const match = /^data:([a-z]+\/[a-z0-9.+-]+);base64,/.exec(dataUrl);
+  if (!match) {
+    throw new FileValidationError('Invalid data URL format. Must be data:<type>;base64,...');
+  }
+  const mimeType = match[1];
+  if (!isSupportedMimeType(mimeType)) {
+    throw new FileValidationError(`Unsupported file type: ${mimeType}`);
   }
 
   // Extract base64 data
@@ -41,17 +287,7 @@ export function validatePdfDataUrl(dataUrl: string | null | undefined): void {
     throw new FileValidationError('Invalid base64 encoding');
   }
 
-  // Check size (approximate, base64 is ~33% larger than original)
-  const sizeInBytes = (base64Data.length * 3) / 4;
-  if (sizeInBytes > MAX_FILE_SIZE) {
-    const maxMB = (MAX_FILE_SIZE / 1024 / 1024).toFixed(1);
-    const actualMB = (sizeInBytes / 1024 / 1024).toFixed(1);
-    throw new FileValidationError(
-      `File size (${actualMB}MB) exceeds ${maxMB}MB limit`
-    );
-  }
-
-  // Decode and validate magic bytes
+  // Decode and validate
   let decoded: Buffer;
   try {
     decoded = Buffer.from(base64Data, 'base64');
@@ -59,57 +295,67 @@ export function validatePdfDataUrl(dataUrl: string | null | undefined): void {
     throw new FileValidationError('Failed to decode base64 data');
   }
 
-  // Minimum size check (valid PDF should be at least a few bytes)
-  if (decoded.length < 100) {
-    throw new FileValidationError('File too small to be a valid PDF');
-  }
-
-  // Check PDF magic bytes at the start
-  if (!decoded.subarray(0, 4).equals(PDF_MAGIC_BYTES)) {
-    throw new FileValidationError(
-      'File is not a valid PDF (invalid magic bytes). Only PDF files are allowed.'
-    );
-  }
+  validateFileBytes(mimeType, { head: decoded, tail: decoded, size: decoded.length });
+  return { mimeType, bytes: decoded };
+}
 
-  // Additional check: PDF should contain "PDF-" version signature
-  const header = decoded.subarray(0, 100).toString('utf-8', 0, 100);
-  if (!header.includes('%PDF-')) {
-    throw new FileValidationError('Invalid PDF header signature');
+/**
+ * Decodes a PDF data URL, as stored by earlier versions of the entry form
+ * @param dataUrl - The data URL to decode
+ * @returns the decoded file
+ * @throws FileValidationError if the data URL is not a valid PDF
+ */
+export function decodePdfDataUrl(dataUrl: string | null | undefined): Buffer {
+  if (dataUrl && !dataUrl.startsWith('data:application/pdf;base64,')) {
+    throw new FileValidationError('Invalid PDF data URL format. Must be data:application/pdf;base64,...');
   }
+  return decodeFileDataUrl(dataUrl).bytes;
+}
 
-  // Check for PDF trailer (valid PDFs should have "%%EOF" at the end)
-  const trailer = decoded.subarray(Math.max(0, decoded.length - 100)).toString('utf-8');
-  if (!trailer.includes('%%EOF')) {
-    throw new FileValidationError('Invalid or corrupted PDF file (missing EOF marker)');
-  }
+/**
+ * Validates a PDF data URL
+ * @param dataUrl - The data URL to validate
+ * @throws FileValidationError if validation fails
+ */
+export function validatePdfDataUrl(dataUrl: string | null | undefined): void {
+  decodePdfDataUrl(dataUrl);
 }
 
 /**
- * Validates all attachments in a record
+ * Validates all attachments in a record against the document type rules.
+ * File contents are checked when they are uploaded, so this checks that
+ * required slots reference a file and that new files suit their slot. Values
+ * without a MIME type are files the entry already holds; they are not checked
+ * again, so tightening a rule does not block edits to existing entries.
  * @param attachments - Record of attachment values
- * @param requiredKeys - Optional array of keys that must have valid files
+ * @param documentTypes - Slot definitions from the DOCUMENT_TYPE settings
+ * @param status - Status the entry is saved with
  * @throws FileValidationError if validation fails
  */
 export function validateAttachmentRecord(
   attachments: Record<string, any>,
-  requiredKeys: string[] = []
+  documentTypes: DocumentTypeDefinition[],
+  status: EntryStatus
 ): void {
   const errors: string[] = [];
 
-  // Validate each attachment that has a dataUrl
-  for (const [key, value] of Object.entries(attachments)) {
-    if (value?.dataUrl) {
-      try {
-        validatePdfDataUrl(value.dataUrl);
-      } catch (error) {
-        if (error instanceof FileValidationError) {
-          errors.push(`${key}: ${error.message}`);
-        } else {
-          errors.push(`${key}: Validation failed`);
-        }
+  for (const type of documentTypes) {
+    const value = attachments[type.key];
+    if (!value?.id) {
+      if (isDocumentRequired(type, status)) {
+        errors.push(`${type.key}: ${describeMissingDocument(type, status)}`);
       }
-    } else if (requiredKeys.includes(key)) {
-      errors.push(`${key}: Required attachment is missing`);
+      continue;
+    }
+    if (value.mimeType) {
+      const error = checkDocumentFile(type, value);
+      if (error) errors.push(`${type.key}: ${error}`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(attachments)) {
+    if (value?.id && value.mimeType && !documentTypes.some(type => type.key === key)) {
+      errors.push(`${key}: Unknown document type`);
     }
   }
 
@@ -0,0 +1,89 @@
+/**
+ * Image conversion module
+ * Turns uploaded images into a PDF for document slots that store images as
+ * PDFs. Each image becomes an A4 page in the orientation that suits it, and a
+ * multi-page TIFF scan becomes a single PDF with a page per frame.
+ */
+
+import { PDFDocument, PageSizes, type PDFImage } from "pdf-lib";
+import { PNG } from "pngjs";
+import * as UTIF from "utif";
+import { FileValidationError, MAX_IMAGE_PIXELS } from "@/lib/file-validation";
+
+const MAX_TIFF_PAGES = 50;
+const PAGE_MARGIN = 24;
+
+/**
+ * Decodes each full-size frame of a TIFF into a PNG, which pdf-lib can embed
+ */
+function decodeTiffPages(bytes: Buffer): Buffer[] {
+  const frames = UTIF.decode(bytes).filter((ifd) => {
+    // Bit 0 of NewSubfileType marks reduced-resolution thumbnails
+    const subfileType = ifd.t254 as number[] | undefined;
+    return !subfileType || (subfileType[0] & 1) === 0;
+  });
+  if (frames.length === 0) throw new FileValidationError("TIFF image has no pages");
+  if (frames.length > MAX_TIFF_PAGES) {
+    throw new FileValidationError(`TIFF image has more than ${MAX_TIFF_PAGES} pages`);
+  }
+
+  return frames.map((ifd) => {
+    const width = (ifd.t256 as number[] | undefined)?.[0] ?? 0;
+    const height = (ifd.t257 as number[] | undefined)?.[0] ?? 0;
+    if (width * height > MAX_IMAGE_PIXELS) {
+      throw new FileValidationError(`TIFF page is too large (${width}x${height}px)`);
+    }
+    UTIF.decodeImage(bytes, ifd);
+    const png = new PNG({ width: ifd.width, height: ifd.height });
+    png.data = Buffer.from(UTIF.toRGBA8(ifd));
+    return PNG.sync.write(png);
+  });
+}
+
+/**
+ * Converts an image into a PDF
+ * @param bytes - The image file
+ * @param mimeType - PNG, JPEG or TIFF
+ * @param title - Document title, usually the original file name
+ * @throws FileValidationError if the image cannot be decoded
+ */
+export async function convertImageToPdf(bytes: Buffer, mimeType: string, title?: string): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  if (title) pdf.setTitle(title);
+
+  let images: PDFImage[];
+  try {
+    switch (mimeType) {
+      case "image/png":
+        images = [await pdf.embedPng(bytes)];
+        break;
+      case "image/jpeg":
+        images = [await pdf.embedJpg(bytes)];
+        break;
+      case "image/tiff":
+        images = await Promise.all(decodeTiffPages(bytes).map((page) => pdf.embedPng(page)));
+        break;
+      default:
+        throw new FileValidationError(`Cannot convert ${mimeType} files to PDF`);
+    }
+  } catch (error) {
+    if (error instanceof FileValidationError) throw error;
+    throw new FileValidationError("Unable to read image for conversion to PDF");
+  }
+
+  for (const image of images) {
+    const [shortSide, longSide] = PageSizes.A4;
+    const [pageWidth, pageHeight] = image.width > image.height ? [longSide, shortSide] : [shortSide, longSide];
+    const scale = Math.min(
+      (pageWidth - PAGE_MARGIN * 2) / image.width,
+      (pageHeight - PAGE_MARGIN * 2) / image.height,
+      1
+    );
+    const width = image.width * scale;
+    const height = image.height * scale;
+    const page = pdf.addPage([pageWidth, pageHeight]);
+    page.drawImage(image, { x: (pageWidth - width) / 2, y: (pageHeight - height) / 2, width, height });
+  }
+
+  return Buffer.from(await pdf.save());
+}
@@ -0,0 +1,86 @@
+/**
+ * Import column mapping module
+ * The entry fields an import file's columns can be mapped to, and a first guess
+ * at the mapping from the file's header row. A mapping names, for each field,
+ * the index of the column it is read from. Shared by the import page and the
+ * server, so it must stay free of server-only imports.
+ */
+
+export const IMPORT_FIELDS = [
+  "no",
+  "agreementNumber",
+  "formNumber",
+  "date",
+  "branch",
+  "island",
+  "address",
+  "status",
+  "loanAmount",
+  "dateOfCancelled",
+  "dateOfCompleted",
+  "primaryName",
+  "primaryNationalId",
+  "primaryIdType",
+  "coBorrowerName",
+  "coBorrowerNationalId",
+  "guarantorName",
+  "guarantorNationalId",
+] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export type ImportMapping = Partial<Record<ImportField, number>>;
+
+type ImportFieldDefinition = {
+  label: string;
+  required: boolean;
+  /** Header names recognised for the field, compared ignoring case and punctuation */
+  aliases: string[];
+};
+
+export const IMPORT_FIELD_DEFINITIONS: Record<ImportField, ImportFieldDefinition> = {
+  no: { label: "Registry number", required: true, aliases: ["no", "registry no", "registry number", "reg no"] },
+  agreementNumber: { label: "Agreement number", required: true, aliases: ["agreement", "agreement no", "agreement number"] },
+  formNumber: { label: "Form number", required: true, aliases: ["form", "form no", "form number"] },
+  date: { label: "Date", required: true, aliases: ["date", "agreement date", "registered on"] },
+  branch: { label: "Branch", required: true, aliases: ["branch", "bank branch"] },
+  island: { label: "Island", required: true, aliases: ["island", "atoll island"] },
+  address: { label: "Address", required: true, aliases: ["address", "property address"] },
+  status: { label: "Status", required: true, aliases: ["status"] },
+  loanAmount: { label: "Loan amount", required: true, aliases: ["amount", "loan amount", "loan", "amount mvr"] },
+  dateOfCancelled: { label: "Date of cancellation", required: false, aliases: ["cancelled", "date cancelled", "date of cancellation"] },
+  dateOfCompleted: { label: "Date of completion", required: false, aliases: ["completed", "date completed", "date of completion"] },
+  primaryName: { label: "Borrower name", required: true, aliases: ["borrower", "borrower name", "name", "full name"] },
+  primaryNationalId: { label: "Borrower ID", required: true, aliases: ["id", "national id", "borrower id", "id card", "id no"] },
+  primaryIdType: { label: "Borrower ID type", required: false, aliases: ["id type", "document type"] },
+  coBorrowerName: { label: "Co-borrower name", required: false, aliases: ["co borrower", "co borrower name"] },
+  coBorrowerNationalId: { label: "Co-borrower ID", required: false, aliases: ["co borrower id", "co borrower national id"] },
+  guarantorName: { label: "Guarantor name", required: false, aliases: ["guarantor", "guarantor name"] },
+  guarantorNationalId: { label: "Guarantor ID", required: false, aliases: ["guarantor id", "guarantor national id"] },
+};
+
+const headerKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/**
+ * Maps each field to the first column whose header matches one of its aliases
+ */
+export function suggestImportMapping(headers: string[]): ImportMapping {
+  const keys = headers.map(headerKey);
+  const mapping: ImportMapping = {};
+  const used = new Set<number>();
+  for (const field of IMPORT_FIELDS) {
+    const index = keys.findIndex((key, column) => !used.has(column) && IMPORT_FIELD_DEFINITIONS[field].aliases.includes(key));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+/** Required fields the mapping leaves without a column */
+export function unmappedRequiredFields(mapping: ImportMapping): ImportField[] {
+  return IMPORT_FIELDS.filter((field) => IMPORT_FIELD_DEFINITIONS[field].required && mapping[field] === undefined);
+}
+
+/** A problem with one row of an import file; rows are numbered as in the spreadsheet */
+export type ImportRowError = { row: number; field: string; message: string };
@@ -0,0 +1,207 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  entries: [] as { no: string; importJobId: string | null }[],
+  reservations: [] as { no: string }[],
+}));
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    registryEntry: {
+      findMany: async ({ where }: any) => db.entries.filter((entry) => where.no.in.includes(entry.no)),
+    },
+    numberReservation: {
+      findMany: async ({ where }: any) => db.reservations.filter((reservation) => where.no.in.includes(reservation.no)),
+    },
+  },
+}));
+
+vi.mock("@/lib/duplicates", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/duplicates")>()),
+  findDuplicateConflicts: vi.fn(async () => []),
+}));
+
+import { findDuplicateConflicts } from "@/lib/duplicates";
+import { suggestImportMapping } from "@/lib/import-mapping";
+import { ImportFileError, checkImportRows, importRowToEntry, parseImportFile, validateImportRows } from "@/lib/imports";
+
+const HEADERS = ["Registry No", "Agreement No", "Form No", "Date", "Branch", "Island", "Address", "Status", "Loan Amount", "Borrower Name", "National ID"];
+
+const BASE: Record<string, string> = {
+  "Registry No": "RGST001/2019",
+  "Agreement No": "LA-0012",
+  "Form No": "12/2019",
+  Date: "3/4/2019",
+  Branch: "Male",
+  Island: "Male",
+  Address: "Majeedhee Magu",
+  Status: "Active",
+  "Loan Amount": "MVR 1,250.50",
+  "Borrower Name": "Aishath Ali",
+  "National ID": "a123456",
+};
+
+const mapping = suggestImportMapping(HEADERS);
+
+const row = (overrides: Record<string, string> = {}) => HEADERS.map((header) => overrides[header] ?? BASE[header]);
+
+// A row for a different agreement, so only the fields under test repeat
+const otherRow = (index: number, overrides: Record<string, string> = {}) =>
+  row({
+    "Registry No": `RGST${String(index).padStart(3, "0")}/2019`,
+    "Agreement No": `LA-${1000 + index}`,
+    "Form No": `${100 + index}/2019`,
+    ...overrides,
+  });
+
+beforeEach(() => {
+  db.entries = [];
+  db.reservations = [];
+  vi.mocked(findDuplicateConflicts).mockClear();
+});
+
+describe("parseImportFile", () => {
+  it("reads the header row and drops blank rows", () => {
+    const csv = ["Registry No,,Branch", "RGST001/2019,x,Male", ",,", "RGST002/2019,y,Addu"].join("\n");
+    expect(parseImportFile(Buffer.from(csv))).toEqual({
+      headers: ["Registry No", "Column 2", "Branch"],
+      rows: [
+        ["RGST001/2019", "x", "Male"],
+        ["RGST002/2019", "y", "Addu"],
+      ],
+    });
+  });
+
+  it("keeps CSV cells as typed", () => {
+    const { rows } = parseImportFile(Buffer.from("Form No,Date\n007/2019,03/04/2019"));
+    expect(rows).toEqual([["007/2019", "03/04/2019"]]);
+  });
+
+  it("rejects a file with no data rows", () => {
+    expect(() => parseImportFile(Buffer.from("Registry No,Branch\n"))).toThrow(ImportFileError);
+  });
+});
+
+describe("importRowToEntry", () => {
+  it("reads a row the way the entry form would submit it", () => {
+    expect(importRowToEntry(row(), mapping)).toMatchObject({
+      no: "RGST001/2019",
+      date: "2019-04-03",
+      status: "ONGOING",
+      loanAmount: 1250.5,
+      borrowers: [{ fullName: "Aishath Ali", nationalId: "a123456", idType: "MALDIVIAN_ID", role: "PRIMARY" }],
+    });
+  });
+
+  it("reads dates day first in the formats registers use", () => {
+    for (const value of ["2019-04-03", "3/4/2019", "03-04-2019", "3.4.2019", "3 Apr 2019", "3-Apr-2019", "3 April 2019"]) {
+      expect(importRowToEntry(row({ Date: value }), mapping).date).toBe("2019-04-03");
+    }
+  });
+
+  it("maps the status words registers use", () => {
+    expect(importRowToEntry(row({ Status: "Settled" }), mapping).status).toBe("COMPLETED");
+    expect(importRowToEntry(row({ Status: "canceled" }), mapping).status).toBe("CANCELLED");
+  });
+});
+
+describe("validateImportRows", () => {
+  it("accepts clean rows", () => {
+    const { candidates, errors } = validateImportRows([row(), otherRow(2)], mapping);
+    expect(errors).toEqual([]);
+    expect(candidates.map((candidate) => candidate.row)).toEqual([2, 3]);
+    expect(candidates[0].entry.borrowers[0].nationalId).toBe("A123456");
+  });
+
+  it("reports schema problems by row and field", () => {
+    const { candidates, errors } = validateImportRows([row({ "National ID": "12345" })], mapping);
+    expect(candidates).toEqual([]);
+    expect(errors).toEqual([expect.objectContaining({ row: 2, field: "Primary borrower ID" })]);
+  });
+
+  it("rejects dates without a four-digit year", () => {
+    const { candidates, errors } = validateImportRows([row({ Date: "3/4/19" })], mapping);
+    expect(candidates).toEqual([]);
+    expect(errors).toEqual([
+      { row: 2, field: "Date", message: "Not a date with a four-digit year from 1900 to this year" },
+    ]);
+  });
+
+  it("rejects years before 1900 or after this year", () => {
+    const nextYear = new Date().getFullYear() + 1;
+    const { errors } = validateImportRows([row({ Date: "3/4/1899" }), otherRow(2, { Date: `3/4/${nextYear}` })], mapping);
+    expect(errors.map((error) => [error.row, error.field])).toEqual([
+      [2, "Date"],
+      [3, "Date"],
+    ]);
+  });
+
+  it("reports a registry number used twice in the file", () => {
+    const { candidates, errors } = validateImportRows([row(), otherRow(2, { "Registry No": "RGST001/2019" })], mapping);
+    expect(candidates).toHaveLength(1);
+    expect(errors).toEqual([
+      { row: 3, field: "Registry number", message: "Registry number RGST001/2019 is also used on row 2" },
+    ]);
+  });
+
+  it("reports an agreement listed twice in the file, ignoring case and punctuation", () => {
+    const rows = [row(), otherRow(2, { "Agreement No": "la 0012", Branch: "MALE" }), otherRow(3, { "Form No": "12/2019" })];
+    const { candidates, errors } = validateImportRows(rows, mapping);
+    expect(candidates).toHaveLength(1);
+    expect(errors).toEqual([
+      { row: 3, field: "Agreement number", message: "Same agreement number at the same branch as row 2" },
+      { row: 4, field: "Form number", message: "Same form number as row 2" },
+    ]);
+  });
+
+  it("allows the same agreement number at another branch", () => {
+    const { errors } = validateImportRows([row(), otherRow(2, { "Agreement No": "LA-0012", Branch: "Addu" })], mapping);
+    expect(errors).toEqual([]);
+  });
+});
+
+describe("checkImportRows", () => {
+  it("reports registry numbers already in use", async () => {
+    db.entries = [{ no: "RGST001/2019", importJobId: null }];
+    db.reservations = [{ no: "RGST002/2019" }];
+    const { pending, errors } = await checkImportRows("job-1", [row(), otherRow(2), otherRow(3)], mapping);
+    expect(pending.map((candidate) => candidate.entry.no)).toEqual(["RGST003/2019"]);
+    expect(errors).toEqual([
+      { row: 2, field: "Registry number", message: "Registry number RGST001/2019 is already in use" },
+      { row: 3, field: "Registry number", message: "Registry number RGST002/2019 is already in use" },
+    ]);
+  });
+
+  it("skips rows the same job imported before it stopped", async () => {
+    db.entries = [{ no: "RGST001/2019", importJobId: "job-1" }];
+    const { pending, errors, alreadyImported } = await checkImportRows("job-1", [row(), otherRow(2)], mapping);
+    expect(errors).toEqual([]);
+    expect(alreadyImported).toBe(1);
+    expect(pending.map((candidate) => candidate.entry.no)).toEqual(["RGST002/2019"]);
+  });
+
+  it("reports agreements already in the registry", async () => {
+    vi.mocked(findDuplicateConflicts).mockImplementation(async (candidate) =>
+      candidate.agreementNumber === "LA-0012"
+        ? [
+            {
+              entryId: "entry-9",
+              no: "RGST900/2018",
+              agreementNumber: "LA0012",
+              branch: "Male",
+              formNumber: "12/2019",
+              status: "ONGOING",
+              fields: ["agreementNumber", "branch", "formNumber"],
+              rules: ["AGREEMENT_AT_BRANCH", "FORM_NUMBER"],
+            },
+          ]
+        : []
+    );
+    const { pending, errors } = await checkImportRows("job-1", [row(), otherRow(2)], mapping);
+    expect(pending.map((candidate) => candidate.entry.no)).toEqual(["RGST002/2019"]);
+    expect(errors).toEqual([
+      { row: 2, field: "Agreement number", message: "Same agreement number at the same branch as entry RGST900/2018" },
+      { row: 2, field: "Form number", message: "Same form number as entry RGST900/2018" },
+    ]);
+  });
+});
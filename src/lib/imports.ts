@@ -0,0 +1,346 @@
+/**
+ * Entry import module
+ * Brings historical registers in from CSV or Excel files. An import job keeps
+ * the uploaded rows while an admin maps the file's columns to entry fields and
+ * dry-runs the import, which validates every row as the entry form would and
+ * reports each problem by row, including agreements already in the registry
+ * or listed twice. Once the file is clean the rows are written in batches,
+ * keeping the registry numbers they were recorded under, and submitted for
+ * review like entries made by hand. A job that stops part-way can be run
+ * again and picks up where it stopped.
+ */
+
+import { Prisma } from "@prisma/client";
+import type { z } from "zod";
+import { format as formatDate, isValid, parse } from "date-fns";
+import * as XLSX from "xlsx";
+import { prisma } from "@/lib/db";
+import { createEntrySchema } from "@/lib/validation";
+import { csvEscape } from "@/lib/reports";
+import { syncEntryBorrowers } from "@/lib/people";
+import { recordEntryRevision } from "@/lib/revision-store";
+import { advanceSequencesPast } from "@/lib/sequence";
+import { DUPLICATE_RULES, DUPLICATE_RULE_LABELS, findDuplicateConflicts, normalizeDuplicateKey, type DuplicateRule } from "@/lib/duplicates";
+import { BORROWER_ROLE_LABELS, type BorrowerRole } from "@/lib/borrowers";
+import { DEFAULT_NATIONAL_ID_TYPE, NATIONAL_ID_TYPES, NATIONAL_ID_TYPE_LABELS } from "@/lib/national-id";
+import { IMPORT_FIELD_DEFINITIONS, type ImportField, type ImportMapping, type ImportRowError } from "@/lib/import-mapping";
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFileError";
+  }
+}
+
+export const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 20000;
+export const IMPORT_BATCH_SIZE = 200;
+/** Row errors kept on a job and returned by a dry run; the count covers them all */
+export const MAX_REPORTED_IMPORT_ERRORS = 1000;
+
+// Historical registers come without scanned documents, so none are required
+const importEntrySchema = createEntrySchema([]);
+
+export type ImportCandidate = { row: number; entry: z.infer<typeof importEntrySchema> };
+
+const cellText = (value: unknown) =>
+  value instanceof Date ? formatDate(value, "yyyy-MM-dd") : String(value ?? "").trim();
+
+/**
+ * Reads the first sheet of a CSV or Excel file. The first row names the
+ * columns; blank rows are dropped and every cell is read as text.
+ * @throws ImportFileError if the file cannot be read, is empty or has too many rows
+ */
+export function parseImportFile(buffer: Buffer): { headers: string[]; rows: string[][] } {
+  let workbook: XLSX.WorkBook;
+  try {
+    // raw keeps CSV cells as typed instead of guessing numbers and dates
+    workbook = XLSX.read(buffer, { type: "buffer", cellDates: true, raw: true });
+  } catch {
+    throw new ImportFileError("The file could not be read as CSV or Excel");
+  }
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new ImportFileError("The file has no sheets");
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: "", blankrows: false });
+  const [headerRow, ...dataRows] = table.map((row) => row.map(cellText));
+  if (!headerRow || headerRow.every((header) => !header)) {
+    throw new ImportFileError("The first row must name the columns");
+  }
+  const rows = dataRows.filter((row) => row.some(Boolean));
+  if (rows.length === 0) throw new ImportFileError("The file has no data rows");
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`Files may have at most ${MAX_IMPORT_ROWS} rows; split the register into several files`);
+  }
+
+  return { headers: headerRow.map((header, index) => header || `Column ${index + 1}`), rows };
+}
+
+// Registers write dates day first
+const DATE_FORMATS = ["yyyy-MM-dd", "d/M/yyyy", "d-M-yyyy", "d.M.yyyy", "d MMM yyyy", "d-MMM-yyyy", "d MMMM yyyy"];
+
+// "yyyy" also reads two-digit years as they stand, e.g. 23 as the year 23
+const MIN_IMPORT_YEAR = 1900;
+
+const IMPORT_DATE_FIELDS = ["date", "dateOfCancelled", "dateOfCompleted"] as const;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// yyyy-MM-dd, or the text unchanged for validation to reject
+function normalizeDate(value: string): string | null {
+  if (!value) return null;
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(value, pattern, new Date(0));
+    if (isValid(date) && date.getFullYear() >= MIN_IMPORT_YEAR && date.getFullYear() <= new Date().getFullYear()) {
+      return formatDate(date, "yyyy-MM-dd");
+    }
+  }
+  return value;
+}
+
+const STATUS_ALIASES: Record<string, string> = {
+  active: "ONGOING",
+  ongoing: "ONGOING",
+  completed: "COMPLETED",
+  complete: "COMPLETED",
+  closed: "COMPLETED",
+  settled: "COMPLETED",
+  cancelled: "CANCELLED",
+  canceled: "CANCELLED",
+};
+
+function normalizeIdType(value: string) {
+  if (!value) return DEFAULT_NATIONAL_ID_TYPE;
+  const key = value.toLowerCase().replace(/[^a-z]+/g, "");
+  return (
+    NATIONAL_ID_TYPES.find(
+      (type) => type.toLowerCase().replace(/_/g, "") === key || NATIONAL_ID_TYPE_LABELS[type].toLowerCase().replace(/[^a-z]+/g, "") === key
+    ) ?? value
+  );
+}
+
+const BORROWER_COLUMNS: { role: BorrowerRole; name: ImportField; nationalId: ImportField }[] = [
+  { role: "PRIMARY", name: "primaryName", nationalId: "primaryNationalId" },
+  { role: "CO_BORROWER", name: "coBorrowerName", nationalId: "coBorrowerNationalId" },
+  { role: "GUARANTOR", name: "guarantorName", nationalId: "guarantorNationalId" },
+];
+
+/**
+ * Turns a row into the payload the entry form would submit
+ */
+export function importRowToEntry(cells: string[], mapping: ImportMapping) {
+  const read = (field: ImportField) => {
+    const column = mapping[field];
+    return column === undefined ? "" : (cells[column] ?? "").trim();
+  };
+  const status = read("status");
+
+  return {
+    no: read("no"),
+    agreementNumber: read("agreementNumber"),
+    formNumber: read("formNumber"),
+    date: normalizeDate(read("date")) ?? "",
+    branch: read("branch"),
+    island: read("island"),
+    address: read("address"),
+    status: STATUS_ALIASES[status.toLowerCase()] ?? status.toUpperCase(),
+    loanAmount: Number(read("loanAmount").replace(/[^0-9.\-]/g, "") || Number.NaN),
+    dateOfCancelled: normalizeDate(read("dateOfCancelled")),
+    dateOfCompleted: normalizeDate(read("dateOfCompleted")),
+    borrowers: BORROWER_COLUMNS.filter((columns) => read(columns.name) || read(columns.nationalId)).map((columns) => ({
+      fullName: read(columns.name),
+      nationalId: read(columns.nationalId),
+      idType: columns.role === "PRIMARY" ? normalizeIdType(read("primaryIdType")) : DEFAULT_NATIONAL_ID_TYPE,
+      role: columns.role,
+    })),
+    attachments: {},
+  };
+}
+
+function describeIssuePath(path: (string | number)[], candidate: ReturnType<typeof importRowToEntry>): string {
+  const [field, index, key] = path;
+  if (field === "borrowers" && typeof index === "number") {
+    const role = candidate.borrowers[index]?.role;
+    const part = key === "nationalId" ? "ID" : key === "fullName" ? "name" : key === "idType" ? "ID type" : "";
+    return `${role ? BORROWER_ROLE_LABELS[role] : "Borrower"} ${part}`.trim();
+  }
+  if (field === "borrowers") return "Borrowers";
+  return IMPORT_FIELD_DEFINITIONS[field as ImportField]?.label ?? String(field);
+}
+
+const DUPLICATE_RULE_FIELDS: Record<DuplicateRule, string> = {
+  AGREEMENT_AT_BRANCH: "Agreement number",
+  FORM_NUMBER: "Form number",
+};
+
+const duplicateKeys = (entry: ImportCandidate["entry"]): Record<DuplicateRule, string> => ({
+  AGREEMENT_AT_BRANCH: `${normalizeDuplicateKey(entry.agreementNumber)}|${normalizeDuplicateKey(entry.branch)}`,
+  FORM_NUMBER: normalizeDuplicateKey(entry.formNumber),
+});
+
+/**
+ * Validates every row with the entry schema and checks that no registry
+ * number or agreement appears twice in the file
+ */
+export function validateImportRows(rows: string[][], mapping: ImportMapping) {
+  const candidates: ImportCandidate[] = [];
+  const errors: ImportRowError[] = [];
+  const seen = new Map<string, number>();
+  const seenAgreements = new Map<string, number>();
+
+  rows.forEach((cells, index) => {
+    const row = index + 2; // the header is row 1
+    const candidate = importRowToEntry(cells, mapping);
+    // The entry schema would read dates like 1/2/23 month first
+    const badDates = IMPORT_DATE_FIELDS.filter((field) => candidate[field] && !ISO_DATE.test(candidate[field] ?? ""));
+    for (const field of badDates) {
+      const message = `Not a date with a four-digit year from ${MIN_IMPORT_YEAR} to this year`;
+      errors.push({ row, field: IMPORT_FIELD_DEFINITIONS[field].label, message });
+    }
+    const parsed = importEntrySchema.safeParse(candidate);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        errors.push({ row, field: describeIssuePath(issue.path, candidate), message: issue.message });
+      }
+      return;
+    }
+    if (badDates.length > 0) return;
+    const earlier = seen.get(parsed.data.no);
+    if (earlier) {
+      errors.push({ row, field: "Registry number", message: `Registry number ${parsed.data.no} is also used on row ${earlier}` });
+      return;
+    }
+    seen.set(parsed.data.no, row);
+
+    const keys = duplicateKeys(parsed.data);
+    const repeated = DUPLICATE_RULES.filter((rule) => seenAgreements.has(`${rule}:${keys[rule]}`));
+    if (repeated.length > 0) {
+      for (const rule of repeated) {
+        const message = `${DUPLICATE_RULE_LABELS[rule]} as row ${seenAgreements.get(`${rule}:${keys[rule]}`)}`;
+        errors.push({ row, field: DUPLICATE_RULE_FIELDS[rule], message });
+      }
+      return;
+    }
+    for (const rule of DUPLICATE_RULES) seenAgreements.set(`${rule}:${keys[rule]}`, row);
+    candidates.push({ row, entry: parsed.data });
+  });
+
+  return { candidates, errors };
+}
+
+/**
+ * Validates an import against the registry as it is now. Rows whose registry
+ * number is already taken, or whose agreement is already registered, are
+ * errors, except numbers this job imported itself before it stopped, which are
+ * skipped.
+ * @returns the rows still to import, the row errors and how many rows were already imported
+ */
+export async function checkImportRows(jobId: string, rows: string[][], mapping: ImportMapping) {
+  const { candidates, errors } = validateImportRows(rows, mapping);
+
+  const taken = new Set<string>();
+  const imported = new Set<string>();
+  const numbers = candidates.map((candidate) => candidate.entry.no);
+  for (let start = 0; start < numbers.length; start += 1000) {
+    const chunk = numbers.slice(start, start + 1000);
+    const [entries, reservations] = await Promise.all([
+      prisma.registryEntry.findMany({ where: { no: { in: chunk } }, select: { no: true, importJobId: true } }),
+      prisma.numberReservation.findMany({ where: { no: { in: chunk }, entryId: null }, select: { no: true } }),
+    ]);
+    entries.forEach((entry: any) => (entry.importJobId === jobId ? imported : taken).add(entry.no));
+    reservations.forEach((reservation: any) => taken.add(reservation.no));
+  }
+
+  const pending: ImportCandidate[] = [];
+  for (const candidate of candidates) {
+    if (imported.has(candidate.entry.no)) continue;
+    if (taken.has(candidate.entry.no)) {
+      errors.push({ row: candidate.row, field: "Registry number", message: `Registry number ${candidate.entry.no} is already in use` });
+      continue;
+    }
+    const conflicts = await findDuplicateConflicts(candidate.entry);
+    if (conflicts.length > 0) {
+      for (const rule of DUPLICATE_RULES) {
+        const conflict = conflicts.find((match) => match.rules.includes(rule));
+        if (!conflict) continue;
+        errors.push({ row: candidate.row, field: DUPLICATE_RULE_FIELDS[rule], message: `${DUPLICATE_RULE_LABELS[rule]} as entry ${conflict.no}` });
+      }
+      continue;
+    }
+    pending.push(candidate);
+  }
+  errors.sort((a, b) => a.row - b.row);
+
+  return { pending, errors, alreadyImported: imported.size };
+}
+
+/**
+ * Writes rows as entries, IMPORT_BATCH_SIZE to a transaction, and counts them
+ * on the job after each batch. Imported entries are submitted for review by
+ * someone other than the importer, as entries made by hand are. Registry
+ * counters are moved past the imported numbers.
+ * @returns the number of entries written
+ */
+export async function commitImportRows(jobId: string, candidates: ImportCandidate[], actorId?: string): Promise<number> {
+  let written = 0;
+  for (let start = 0; start < candidates.length; start += IMPORT_BATCH_SIZE) {
+    const batch = candidates.slice(start, start + IMPORT_BATCH_SIZE);
+    await prisma.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        for (const { entry: d } of batch) {
+          const entry = await tx.registryEntry.create({
+            data: {
+              no: d.no, address: d.address, island: d.island, formNumber: d.formNumber,
+              date: new Date(d.date), branch: d.branch, agreementNumber: d.agreementNumber, status: d.status as any,
+              loanAmount: d.loanAmount,
+              dateOfCancelled: d.dateOfCancelled ? new Date(d.dateOfCancelled) : null,
+              dateOfCompleted: d.dateOfCompleted ? new Date(d.dateOfCompleted) : null,
+              reviewState: "PENDING_REVIEW",
+              importJobId: jobId,
+              createdById: actorId,
+            },
+            select: { id: true, status: true },
+          });
+          await syncEntryBorrowers(tx, entry.id, d.borrowers);
+          await tx.entryStatusChange.create({ data: { entryId: entry.id, toStatus: entry.status, actorId } });
+          await tx.entryReview.create({ data: { entryId: entry.id, decision: "SUBMITTED", comment: "Imported", actorId } });
+          await recordEntryRevision(tx, entry.id, "IMPORTED", actorId);
+        }
+        // Imported numbers were not allocated, so move the counters past them
+        await advanceSequencesPast(tx, batch.map((candidate) => candidate.entry.no));
+        await tx.importJob.update({ where: { id: jobId }, data: { importedCount: { increment: batch.length } } });
+      },
+      { timeout: 120_000 }
+    );
+    written += batch.length;
+  }
+  return written;
+}
+
+/**
+ * One CSV row per problem, in row order
+ */
+export function buildImportErrorsCsv(errors: ImportRowError[]): string {
+  const rows = errors.map((error) => [error.row, error.field, error.message]);
+  return [["Row", "Field", "Problem"], ...rows].map((row) => row.map((cell) => csvEscape(cell)).join(",")).join("\r\n");
+}
+
+/** Job fields shown in the imports list, without the stored rows */
+export const importJobSelect = {
+  id: true,
+  fileName: true,
+  status: true,
+  headers: true,
+  rowCount: true,
+  mapping: true,
+  errorCount: true,
+  importedCount: true,
+  failure: true,
+  createdAt: true,
+  completedAt: true,
+  createdBy: { select: { id: true, name: true, email: true } },
+};
+
+/** How many rows of a file the mapping screen previews */
+export const IMPORT_SAMPLE_SIZE = 5;
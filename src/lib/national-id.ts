@@ -0,0 +1,89 @@
+/**
+ * National ID module
+ * Each kind of identity document a borrower can be recorded under has a
+ * validator that normalizes what was typed and checks its format. Add a kind by
+ * adding it to NATIONAL_ID_TYPES and registering a validator below. Shared by
+ * the entry form and the server, so it must stay free of server-only imports.
+ */
+
+export const NATIONAL_ID_TYPES = ["MALDIVIAN_ID", "PASSPORT", "WORK_PERMIT"] as const;
+export type NationalIdType = (typeof NATIONAL_ID_TYPES)[number];
+
+export const DEFAULT_NATIONAL_ID_TYPE: NationalIdType = "MALDIVIAN_ID";
+
+type NationalIdValidator = {
+  label: string;
+  example: string;
+  /** Human-readable format, used in error messages */
+  format: string;
+  normalize: (value: string) => string;
+  isValid: (normalized: string) => boolean;
+  /** A likely intended value for a mistyped ID, if one can be guessed */
+  suggest?: (normalized: string) => string | null;
+};
+
+const compact = (value: string) => value.replace(/[\s\-\/]+/g, "").toUpperCase();
+
+// Letters commonly typed in place of digits
+const DIGIT_LOOKALIKES: Record<string, string> = { O: "0", Q: "0", D: "0", I: "1", L: "1", Z: "2", S: "5", G: "6", B: "8" };
+
+const NATIONAL_ID_VALIDATORS: Record<NationalIdType, NationalIdValidator> = {
+  MALDIVIAN_ID: {
+    label: "Maldivian ID card",
+    example: "A123456",
+    format: "A followed by 6 digits",
+    normalize: compact,
+    isValid: (value) => /^A\d{6}$/.test(value),
+    suggest: (value) => {
+      if (!/^A[A-Z0-9]{6}$/.test(value)) return null;
+      const guess = `A${[...value.slice(1)].map((char) => DIGIT_LOOKALIKES[char] ?? char).join("")}`;
+      return /^A\d{6}$/.test(guess) ? guess : null;
+    },
+  },
+  PASSPORT: {
+    label: "Passport",
+    example: "N1234567",
+    format: "6 to 9 letters and digits, including at least one digit",
+    normalize: compact,
+    isValid: (value) => /^[A-Z0-9]{6,9}$/.test(value) && /\d/.test(value),
+  },
+  WORK_PERMIT: {
+    label: "Work permit",
+    example: "WP1234567",
+    format: "WP followed by 6 to 10 digits",
+    normalize: compact,
+    isValid: (value) => /^WP\d{6,10}$/.test(value),
+  },
+};
+
+export const NATIONAL_ID_TYPE_LABELS = Object.fromEntries(
+  NATIONAL_ID_TYPES.map((type) => [type, NATIONAL_ID_VALIDATORS[type].label])
+) as Record<NationalIdType, string>;
+
+/**
+ * Example ID for a document type, for form placeholders
+ */
+export function nationalIdExample(type: NationalIdType): string {
+  return NATIONAL_ID_VALIDATORS[type].example;
+}
+
+/**
+ * Canonical form of an ID, used to match the same person across agreements
+ */
+export function normalizeNationalId(value: string, type: NationalIdType = DEFAULT_NATIONAL_ID_TYPE): string {
+  return NATIONAL_ID_VALIDATORS[type].normalize(value);
+}
+
+/**
+ * Checks an ID against the format for its document type
+ * @returns an error message, or null when the ID is valid
+ */
+export function validateNationalId(value: string, type: NationalIdType = DEFAULT_NATIONAL_ID_TYPE): string | null {
+  const validator = NATIONAL_ID_VALIDATORS[type];
+  const normalized = validator.normalize(value);
+  if (validator.isValid(normalized)) return null;
+
+  const suggestion = validator.suggest?.(normalized);
+  const message = `${validator.label} numbers are ${validator.format}, e.g. ${validator.example}`;
+  return suggestion ? `${message}. Did you mean ${suggestion}?` : message;
+}
@@ -0,0 +1,158 @@
+/**
+ * PDF sanitizer module
+ * Parses uploaded PDFs with pdf-lib before they are stored. Encrypted and
+ * scripted PDFs are rejected; other active content (automatic actions,
+ * launch actions, embedded files, multimedia) is stripped. Files with nothing
+ * to strip are stored byte for byte so digital signatures stay intact.
+ */
+
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFObject, PDFStream } from "pdf-lib";
+import { FileValidationError } from "@/lib/file-validation";
+
+export type PdfMetadata = {
+  pageCount: number;
+  title: string | null;
+  producer: string | null;
+};
+
+// Actions that open other files or applications, or send data elsewhere
+const BLOCKED_ACTIONS = new Set(["Launch", "ImportData", "SubmitForm", "GoToE", "RichMediaExecute"]);
+// Annotations that carry embedded files or media players
+const BLOCKED_ANNOTATIONS = new Set(["FileAttachment", "RichMedia", "Movie", "Sound", "Screen", "3D"]);
+
+const name = (value: string) => PDFName.of(value);
+
+const nameOf = (dict: PDFDict, key: string) => {
+  const value = dict.lookup(name(key));
+  return value instanceof PDFName ? value.decodeText() : null;
+};
+
+/**
+ * Visits every dictionary reachable inside an object without following references
+ */
+function forEachDict(object: PDFObject, visit: (dict: PDFDict) => void, seen = new Set<PDFObject>()) {
+  if (seen.has(object)) return;
+  seen.add(object);
+  if (object instanceof PDFStream) {
+    forEachDict(object.dict, visit, seen);
+  } else if (object instanceof PDFDict) {
+    visit(object);
+    for (const [, value] of object.entries()) forEachDict(value, visit, seen);
+  } else if (object instanceof PDFArray) {
+    for (const value of object.asArray()) forEachDict(value, visit, seen);
+  }
+}
+
+const isScript = (dict: PDFDict) => dict.has(name("JS")) || nameOf(dict, "S") === "JavaScript";
+
+/**
+ * Removes active content from a parsed PDF
+ * @returns a description of each kind of content removed
+ * @throws FileValidationError if the PDF contains JavaScript
+ */
+function stripActiveContent(pdf: PDFDocument): string[] {
+  const removed = new Set<string>();
+  const objects = pdf.context.enumerateIndirectObjects();
+
+  // Look for scripts before anything is removed, including inside actions about to be stripped
+  const names = pdf.catalog.lookup(name("Names"));
+  const hasScript =
+    (names instanceof PDFDict && names.has(name("JavaScript"))) ||
+    objects.some(([, object]) => {
+      let found = false;
+      forEachDict(object, (dict) => {
+        found ||= isScript(dict);
+      });
+      return found;
+    });
+  if (hasScript) {
+    throw new FileValidationError("PDFs containing JavaScript are not allowed");
+  }
+
+  for (const [, object] of objects) {
+    forEachDict(object, (dict) => {
+      // Actions that run when the document or a page is opened, or a field changes
+      for (const key of ["OpenAction", "AA"]) {
+        if (dict.has(name(key))) {
+          dict.delete(name(key));
+          removed.add("automatic actions");
+        }
+      }
+
+      const action = dict.lookup(name("A"));
+      if (action instanceof PDFDict && BLOCKED_ACTIONS.has(nameOf(action, "S") ?? "")) {
+        dict.delete(name("A"));
+        removed.add(`${nameOf(action, "S")} actions`);
+      }
+
+      const annotations = dict.lookup(name("Annots"));
+      if (annotations instanceof PDFArray) {
+        for (let index = annotations.size() - 1; index >= 0; index -= 1) {
+          const annotation = annotations.lookup(index);
+          const subtype = annotation instanceof PDFDict ? nameOf(annotation, "Subtype") : null;
+          if (subtype && BLOCKED_ANNOTATIONS.has(subtype)) {
+            annotations.remove(index);
+            removed.add(`${subtype} annotations`);
+          }
+        }
+      }
+    });
+  }
+
+  if (names instanceof PDFDict && names.has(name("EmbeddedFiles"))) {
+    names.delete(name("EmbeddedFiles"));
+    removed.add("embedded files");
+  }
+
+  const acroForm = pdf.catalog.lookup(name("AcroForm"));
+  if (acroForm instanceof PDFDict && acroForm.has(name("XFA"))) {
+    acroForm.delete(name("XFA"));
+    removed.add("XFA forms");
+  }
+
+  // pdf-lib writes every object it parsed, so unlinked file contents must be dropped too
+  for (const [ref, object] of objects) {
+    if (object instanceof PDFStream && nameOf(object.dict, "Type") === "EmbeddedFile") {
+      pdf.context.delete(ref);
+      removed.add("embedded files");
+    }
+  }
+
+  return [...removed];
+}
+
+/**
+ * Checks a PDF, strips its active content and reads its metadata
+ * @param bytes - The whole PDF file
+ * @returns the file to store, which is the original unless content was removed
+ * @throws FileValidationError if the PDF is encrypted, scripted or unreadable
+ */
+export async function sanitizePdf(
+  bytes: Buffer
+): Promise<{ bytes: Buffer; metadata: PdfMetadata }> {
+  try {
+    // Keep the original producer rather than letting pdf-lib stamp its own
+    const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+    if (pdf.isEncrypted) {
+      throw new FileValidationError("Encrypted or password-protected PDFs are not allowed");
+    }
+
+    const removed = stripActiveContent(pdf);
+    const metadata: PdfMetadata = {
+      pageCount: pdf.getPageCount(),
+      title: pdf.getTitle()?.trim() || null,
+      producer: pdf.getProducer()?.trim() || null,
+    };
+    if (metadata.pageCount === 0) {
+      throw new FileValidationError("PDF has no pages");
+    }
+
+    return {
+      bytes: removed.length > 0 ? Buffer.from(await pdf.save()) : bytes,
+      metadata,
+    };
+  } catch (error) {
+    if (error instanceof FileValidationError) throw error;
+    throw new FileValidationError("Unable to read PDF file; it may be corrupted");
+  }
+}
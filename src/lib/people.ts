@@ -0,0 +1,308 @@
+/**
+ * People module
+ * Keeps one Person per national ID and links people to agreements through
+ * Borrower rows. Saving an entry reconciles its links instead of recreating
+ * them, so a person's history survives edits. Admins can merge people that were
+ * recorded under different IDs.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { BORROWER_ROLES, type BorrowerRole, resolveBorrowerRoles } from "@/lib/borrowers";
+import { DEFAULT_NATIONAL_ID_TYPE, type NationalIdType, normalizeNationalId } from "@/lib/national-id";
+import type { ReviewState } from "@/lib/entry-review";
+
+export class PersonMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PersonMergeError";
+  }
+}
+
+/** Lists an agreement's borrowers primary first */
+export const borrowersInclude = {
+  orderBy: [{ role: "asc" }, { fullName: "asc" }],
+} satisfies Prisma.RegistryEntry$borrowersArgs;
+
+type BorrowerInput = { fullName: string; nationalId: string; idType?: NationalIdType; role?: BorrowerRole | null };
+
+/**
+ * Links an entry to the people on it, creating people not seen before.
+ * Existing links are updated in place and links to people no longer listed
+ * are removed. An ID that belonged to a person since merged into another
+ * resolves to the person it was merged into.
+ * @returns the entry's borrowers, primary first
+ */
+export async function syncEntryBorrowers(
+  tx: Prisma.TransactionClient,
+  entryId: string,
+  borrowers: BorrowerInput[]
+) {
+  const roles = resolveBorrowerRoles(borrowers);
+  const wanted = new Map<string, { fullName: string; nationalId: string; idType: NationalIdType; role: BorrowerRole }>();
+
+  for (const [index, borrower] of borrowers.entries()) {
+    const idType = borrower.idType ?? DEFAULT_NATIONAL_ID_TYPE;
+    const nationalId = normalizeNationalId(borrower.nationalId, idType);
+    const fullName = borrower.fullName.trim();
+    const personId =
+      (await tx.person.findUnique({ where: { nationalId }, select: { id: true } }))?.id ??
+      (await findMergedPersonId(tx, entryId, nationalId)) ??
+      (
+        await tx.person.upsert({
+          where: { nationalId },
+          create: { nationalId, idType, fullName },
+          update: {},
+          select: { id: true },
+        })
+      ).id;
+    wanted.set(personId, { fullName, nationalId, idType, role: roles[index] });
+  }
+
+  const existing = await tx.borrower.findMany({
+    where: { registryEntryId: entryId },
+    select: { id: true, personId: true },
+  });
+  const removed = existing.filter((link) => !wanted.has(link.personId));
+  if (removed.length > 0) {
+    await tx.borrower.deleteMany({ where: { id: { in: removed.map((link) => link.id) } } });
+  }
+
+  for (const [personId, data] of wanted) {
+    await tx.borrower.upsert({
+      where: { registryEntryId_personId: { registryEntryId: entryId, personId } },
+      create: { ...data, registryEntryId: entryId, personId },
+      update: data,
+    });
+  }
+
+  await deleteOrphanedPeople(tx, removed.map((link) => link.personId));
+  return tx.borrower.findMany({ where: { registryEntryId: entryId }, ...borrowersInclude });
+}
+
+/**
+ * The person an ID now belongs to when its own person was merged away.
+ * Links keep the ID recorded on the agreement, so they still carry it;
+ * links on the given entry are preferred.
+ */
+async function findMergedPersonId(tx: Prisma.TransactionClient, entryId: string | undefined, nationalId: string) {
+  const onEntry = entryId
+    ? await tx.borrower.findFirst({ where: { registryEntryId: entryId, nationalId }, select: { personId: true } })
+    : null;
+  const link = onEntry ?? (await tx.borrower.findFirst({ where: { nationalId }, select: { personId: true } }));
+  return link?.personId;
+}
+
+/**
+ * Removes people who are no longer on any agreement
+ */
+export async function deleteOrphanedPeople(tx: Prisma.TransactionClient, personIds: string[]) {
+  if (personIds.length === 0) return;
+  await tx.person.deleteMany({ where: { id: { in: personIds }, borrowings: { none: {} } } });
+}
+
+export type PersonProfile = {
+  person: { id: string; nationalId: string; idType: NationalIdType; fullName: string; createdAt: Date };
+  aliases: string[];
+  agreements: {
+    id: string;
+    no: string;
+    agreementNumber: string;
+    status: "ONGOING" | "CANCELLED" | "COMPLETED";
+    reviewState: ReviewState;
+    loanAmount: string;
+    date: Date;
+    island: string;
+    branch: string;
+    role: BorrowerRole;
+    recordedName: string;
+    coParties: { personId: string; fullName: string; role: BorrowerRole }[];
+  }[];
+  exposure: { total: string; asBorrower: string; asGuarantor: string; activeAgreements: number };
+};
+
+/**
+ * Loads a person with every agreement they are party to and their exposure:
+ * the total loan amount of active, approved agreements, split by whether they
+ * borrowed or guaranteed it. Deleted entries are left out.
+ */
+export async function getPersonProfile(personId: string): Promise<PersonProfile | null> {
+  const person = await prisma.person.findUnique({
+    where: { id: personId },
+    include: {
+      borrowings: {
+        where: { registryEntry: { isDeleted: false } },
+        include: {
+          registryEntry: {
+            select: {
+              id: true,
+              no: true,
+              agreementNumber: true,
+              status: true,
+              reviewState: true,
+              loanAmount: true,
+              date: true,
+              island: true,
+              branch: true,
+              borrowers: { select: { personId: true, fullName: true, role: true }, ...borrowersInclude },
+            },
+          },
+        },
+        orderBy: { registryEntry: { date: "desc" } },
+      },
+    },
+  });
+  if (!person) return null;
+
+  let asBorrower = new Prisma.Decimal(0);
+  let asGuarantor = new Prisma.Decimal(0);
+  let activeAgreements = 0;
+  for (const borrowing of person.borrowings) {
+    if (borrowing.registryEntry.status !== "ONGOING" || borrowing.registryEntry.reviewState !== "APPROVED") continue;
+    activeAgreements += 1;
+    if (borrowing.role === "GUARANTOR") asGuarantor = asGuarantor.plus(borrowing.registryEntry.loanAmount);
+    else asBorrower = asBorrower.plus(borrowing.registryEntry.loanAmount);
+  }
+
+  // Other spellings of the name recorded on agreements
+  const aliases = [...new Set<string>(person.borrowings.map((borrowing: any) => borrowing.fullName))].filter(
+    (name) => name !== person.fullName
+  );
+
+  return {
+    person: { id: person.id, nationalId: person.nationalId, idType: person.idType, fullName: person.fullName, createdAt: person.createdAt },
+    aliases,
+    agreements: person.borrowings.map((borrowing: any) => ({
+      ...borrowing.registryEntry,
+      loanAmount: borrowing.registryEntry.loanAmount.toString(),
+      role: borrowing.role as BorrowerRole,
+      recordedName: borrowing.fullName,
+      coParties: borrowing.registryEntry.borrowers.filter((other: any) => other.personId !== person.id),
+    })),
+    exposure: {
+      total: asBorrower.plus(asGuarantor).toString(),
+      asBorrower: asBorrower.toString(),
+      asGuarantor: asGuarantor.toString(),
+      activeAgreements,
+    },
+  };
+}
+
+export type ActiveExposure = {
+  person: { id: string; fullName: string };
+  activeAgreements: number;
+  outstanding: string;
+};
+
+/**
+ * Active agreements a person is already party to, for warning clerks before
+ * they add another. An entry being edited is left out of its own warning.
+ * @returns null when the person is not on record or has no active agreements
+ */
+export async function getActiveExposure(nationalId: string, excludeEntryId?: string): Promise<ActiveExposure | null> {
+  const personSelect = { id: true, fullName: true } as const;
+  let person = await prisma.person.findUnique({ where: { nationalId }, select: personSelect });
+  if (!person) {
+    const mergedId = await findMergedPersonId(prisma, excludeEntryId, nationalId);
+    if (mergedId) person = await prisma.person.findUnique({ where: { id: mergedId }, select: personSelect });
+  }
+  if (!person) return null;
+
+  const entryWhere = {
+    status: "ONGOING",
+    reviewState: "APPROVED",
+    isDeleted: false,
+    ...(excludeEntryId && { id: { not: excludeEntryId } }),
+    borrowers: { some: { personId: person.id } },
+  };
+  const { _count, _sum } = await prisma.registryEntry.aggregate({
+    where: entryWhere,
+    _count: { _all: true },
+    _sum: { loanAmount: true },
+  });
+  if (_count._all === 0) return null;
+
+  return {
+    person,
+    activeAgreements: _count._all,
+    outstanding: (_sum.loanAmount ?? new Prisma.Decimal(0)).toString(),
+  };
+}
+
+/**
+ * Moves every agreement of the source people onto the target person and
+ * deletes the source people. Where the target is already on the same
+ * agreement, the link with the more senior role is kept. Moved links keep
+ * the ID recorded on their agreement; syncEntryBorrowers resolves it to the
+ * target when the entry is saved again.
+ * @returns the people that were merged away and how many links moved
+ * @throws PersonMergeError if a person is missing or the target is also a source
+ */
+export async function mergePeople(tx: Prisma.TransactionClient, targetId: string, sourceIds: string[]) {
+  const uniqueSourceIds = [...new Set(sourceIds)];
+  if (uniqueSourceIds.includes(targetId)) {
+    throw new PersonMergeError("A person cannot be merged into themselves");
+  }
+
+  const people = await tx.person.findMany({
+    where: { id: { in: [targetId, ...uniqueSourceIds] } },
+    select: { id: true, nationalId: true, fullName: true },
+  });
+  const target = people.find((person) => person.id === targetId);
+  const sources = people.filter((person) => person.id !== targetId);
+  if (!target) throw new PersonMergeError("Person to keep not found");
+  if (sources.length !== uniqueSourceIds.length) throw new PersonMergeError("Some people to merge were not found");
+
+  const targetLinks = await tx.borrower.findMany({
+    where: { personId: targetId },
+    select: { id: true, registryEntryId: true, role: true },
+  });
+  const targetByEntry = new Map(targetLinks.map((link) => [link.registryEntryId, link]));
+  const sourceLinks = await tx.borrower.findMany({
+    where: { personId: { in: uniqueSourceIds } },
+    select: { id: true, registryEntryId: true, role: true },
+  });
+
+  const rank = (role: string) => BORROWER_ROLES.indexOf(role as BorrowerRole);
+  let moved = 0;
+  for (const link of sourceLinks) {
+    const existing = targetByEntry.get(link.registryEntryId);
+    if (!existing) {
+      await tx.borrower.update({ where: { id: link.id }, data: { personId: targetId } });
+      targetByEntry.set(link.registryEntryId, link);
+      moved += 1;
+      continue;
+    }
+    if (rank(link.role) < rank(existing.role)) {
+      await tx.borrower.update({ where: { id: existing.id }, data: { role: link.role } });
+      existing.role = link.role;
+    }
+    await tx.borrower.delete({ where: { id: link.id } });
+  }
+
+  await tx.person.deleteMany({ where: { id: { in: uniqueSourceIds } } });
+  return { target, sources, moved };
+}
+
+/**
+ * Groups people who may be the same person recorded under different IDs:
+ * the same name once case, accents and spacing are ignored
+ */
+export async function findDuplicatePeople(limit = 50) {
+  const groups: { ids: string[] }[] = await prisma.$queryRaw`
+    SELECT array_agg(p."id" ORDER BY p."createdAt") AS "ids"
+    FROM "public"."Person" p
+    GROUP BY lower(unaccent(regexp_replace(btrim(p."fullName"), '\s+', ' ', 'g')))
+    HAVING count(*) > 1
+    ORDER BY count(*) DESC, min(p."fullName")
+    LIMIT ${limit}
+  `;
+  if (groups.length === 0) return [];
+
+  const people = await prisma.person.findMany({
+    where: { id: { in: groups.flatMap((group) => group.ids) } },
+    select: { id: true, nationalId: true, fullName: true, _count: { select: { borrowings: true } } },
+  });
+  const byId = new Map(people.map((person: any) => [person.id, person]));
+  return groups.map((group) => group.ids.map((id) => byId.get(id)).filter(Boolean));
+}
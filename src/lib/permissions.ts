@@ -0,0 +1,76 @@
+/**
+ * Permissions module
+ * What a user may do is decided by the permissions their role holds. The
+ * registry ships with three built-in roles and admins can define their own in
+ * the role editor; the Administrator role always holds every permission, so
+ * the registry cannot be locked out of its own settings. Shared by the pages
+ * and the server, so it must stay free of server-only imports.
+ */
+
+export const PERMISSIONS = [
+  { key: "entry.read", group: "Entries", label: "View entries", description: "Browse and search entries, borrowers and the dashboard" },
+  { key: "entry.create", group: "Entries", label: "Create entries", description: "Create entries, keep drafts and reserve registry numbers" },
+  { key: "entry.update", group: "Entries", label: "Edit entries", description: "Edit entries, attach documents, submit them for review and change their status" },
+  { key: "entry.review", group: "Entries", label: "Review entries", description: "Approve or reject entries other users made" },
+  { key: "entry.reopen", group: "Entries", label: "Reopen entries", description: "Reopen completed and reinstate cancelled entries" },
+  { key: "entry.delete", group: "Entries", label: "Delete entries", description: "Delete entries, keeping them restorable" },
+  { key: "entry.restore", group: "Entries", label: "Restore entries", description: "See deleted entries, restore or purge them, and revert entries to an earlier revision" },
+  { key: "entry.import", group: "Entries", label: "Import entries", description: "Import entries from spreadsheets" },
+  { key: "report.export", group: "Reports", label: "Export reports", description: "Run reports and export entries" },
+  { key: "report.duplicates", group: "Reports", label: "Review duplicates", description: "See the suspected duplicate entries report" },
+  { key: "borrower.manage", group: "Registry", label: "Manage borrowers", description: "Search borrowers and merge duplicate records" },
+  { key: "reservation.manage", group: "Registry", label: "Manage reservations", description: "Release registry numbers reserved by other users" },
+  { key: "view.manage", group: "Registry", label: "Manage shared views", description: "Edit and delete views other users have shared" },
+  { key: "settings.manage", group: "Administration", label: "Manage settings", description: "Manage settings, document types and registry number sequences" },
+  { key: "user.manage", group: "Administration", label: "Manage users", description: "Create users, assign their roles and see their activity" },
+  { key: "role.manage", group: "Administration", label: "Manage roles", description: "Define roles and the permissions they hold" },
+  { key: "audit.read", group: "Audit", label: "Read the audit log", description: "View, verify and export the audit log" },
+  { key: "audit.manage", group: "Audit", label: "Manage the audit log", description: "Set retention, archive records and sign checkpoints" },
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number]["key"];
+
+export const PERMISSION_KEYS = PERMISSIONS.map((permission) => permission.key) as Permission[];
+
+export const isPermission = (value: string): value is Permission => (PERMISSION_KEYS as string[]).includes(value);
+
+/** The role every new user gets */
+export const DEFAULT_ROLE = "VIEWER";
+
+/** The role that always holds every permission; its permissions cannot be changed and it cannot be deleted */
+export const ADMIN_ROLE = "ADMIN";
+
+/** Role keys are upper case words joined by underscores, like the built-in roles */
+export const ROLE_KEY_PATTERN = /^[A-Z][A-Z0-9_]{1,39}$/;
+
+/** The key a new role gets from its name, e.g. "Senior clerk" becomes SENIOR_CLERK */
+export const roleKeyFromName = (name: string) =>
+  name
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40);
+
+export const permissionLabel = (key: string) => PERMISSIONS.find((permission) => permission.key === key)?.label ?? key;
+
+/**
+ * Whether a set of permissions includes one of those asked for
+ */
+export const hasPermission = (
+  permissions: readonly string[] | null | undefined,
+  permission: Permission | readonly Permission[]
+) => {
+  const wanted: readonly Permission[] = typeof permission === "string" ? [permission] : permission;
+  return !!permissions && wanted.some((candidate) => permissions.includes(candidate));
+};
+
+export type RoleItem = {
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  isSystem: boolean;
+  users: number;
+  updatedAt: string;
+};
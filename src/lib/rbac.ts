@@ -1,2 +1,53 @@
-export type Role = "ADMIN" | "DATA_ENTRY" | "VIEWER";
-export const canRead = (r?:Role)=>!!r; export const canWrite=(r?:Role)=>r==='ADMIN'||r==='DATA_ENTRY'; export const canDelete=canWrite; export const isAdmin=(r?:Role)=>r==='ADMIN';
+/**
+ * Access control module
+ * Route handlers check access with requirePermission and server pages with
+ * getAccess. A user's permissions come from their role and are read again for
+ * every session, so changes made in the role editor apply straight away.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession, type Session } from "next-auth";
+import { authOptions } from "@/auth/options";
+import { hasPermission, type Permission } from "@/lib/permissions";
+
+export type Access = {
+  session: Session;
+  /** The key of the user's role */
+  role: string;
+  actorId?: string;
+  permissions: Permission[];
+  /** Whether the user holds a permission, or one of a list */
+  can: (permission: Permission | readonly Permission[]) => boolean;
+};
+
+const toAccess = (session: Session): Access => {
+  const user = session.user as any;
+  const permissions: Permission[] = user?.permissions ?? [];
+  return {
+    session,
+    role: user?.role,
+    actorId: user?.id,
+    permissions,
+    can: (permission) => hasPermission(permissions, permission),
+  };
+};
+
+/**
+ * The signed-in user's access
+ * @returns null if nobody is signed in
+ */
+export async function getAccess(): Promise<Access | null> {
+  const session = await getServerSession(authOptions);
+  return session ? toAccess(session) : null;
+}
+
+/**
+ * Checks the signed-in user holds a permission, or one of a list
+ * @returns the user's access, or the 401 or 403 response to send instead
+ */
+export async function requirePermission(permission: Permission | readonly Permission[]): Promise<Access | NextResponse> {
+  const access = await getAccess();
+  if (!access) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  if (!access.can(permission)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  return access;
+}
@@ -78,8 +78,10 @@ export const normalizeFilters = (raw: ReportRequestInput["filters"]): Normalized
 };
 
 export const buildWhereClause = (filters: NormalizedReportFilters): Prisma.RegistryEntryWhereInput => {
+  // Entries awaiting review have not been checked yet, so they are left out of reports
   const where: Prisma.RegistryEntryWhereInput = {
     isDeleted: false,
+    reviewState: "APPROVED",
   };
 
   if (filters.status) where.status = filters.status;
@@ -316,7 +318,7 @@ const buildReportTable = (type: ReportType, filters: NormalizedReportFilters): P
   return buildCustomTable(filters);
 };
 
-const csvEscape = (value: string | number) => {
+export const csvEscape = (value: string | number) => {
   const stringValue = String(value ?? "");
   if (/[",\n]/.test(stringValue)) {
     return `"${stringValue.replace(/"/g, '""')}"`;
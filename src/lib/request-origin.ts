@@ -0,0 +1,31 @@
+/**
+ * Request origin module
+ * Reads where the current request came from, for the audit log. The client
+ * address is taken from the X-Forwarded-For or X-Real-IP header set by the
+ * reverse proxy in front of the app, so it is only as trustworthy as that proxy.
+ */
+
+import { headers } from "next/headers";
+
+/** Longest user agent kept; anything longer is cut short */
+const MAX_USER_AGENT_LENGTH = 512;
+
+export type RequestOrigin = { ipAddress?: string; userAgent?: string };
+
+/**
+ * The client address and user agent of the request being handled
+ * @returns an empty origin outside a request, e.g. in scripts
+ */
+export async function requestOrigin(): Promise<RequestOrigin> {
+  let requestHeaders: Headers;
+  try {
+    requestHeaders = await headers();
+  } catch {
+    return {};
+  }
+
+  const forwardedFor = requestHeaders.get("x-forwarded-for")?.split(",")[0]?.trim();
+  const ipAddress = forwardedFor || requestHeaders.get("x-real-ip")?.trim() || undefined;
+  const userAgent = requestHeaders.get("user-agent")?.slice(0, MAX_USER_AGENT_LENGTH) || undefined;
+  return { ...(ipAddress && { ipAddress }), ...(userAgent && { userAgent }) };
+}
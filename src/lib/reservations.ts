@@ -0,0 +1,188 @@
+/**
+ * Registry number reservation module
+ * Holds a registry number for one user while they fill in the paper and
+ * on-screen forms, so the number written down is the number that gets saved.
+ * A reservation past its expiry is never used, renewed or voided, whether or
+ * not the sweep has marked it expired yet.
+ */
+
+import { AuditAction, Prisma, ReservationStatus } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { allocateRegistryNumber } from "@/lib/sequence";
+import { auditDetails } from "@/lib/audit-details";
+
+const DEFAULT_RESERVATION_TTL_MINUTES = 30;
+
+export class ReservationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReservationError";
+  }
+}
+
+/**
+ * Reads the reservation lifetime from NUMBER_RESERVATION_TTL_MINUTES
+ */
+export function getReservationTtlMinutes(): number {
+  const configured = Number(process.env.NUMBER_RESERVATION_TTL_MINUTES);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RESERVATION_TTL_MINUTES;
+}
+
+const nextExpiry = (from: Date = new Date()) => new Date(from.getTime() + getReservationTtlMinutes() * 60_000);
+
+/**
+ * Voids every active reservation whose hold has lapsed. The numbers are not
+ * handed out again; the gap is recorded in the audit log instead.
+ * @returns the number of reservations that were expired
+ */
+export async function releaseExpiredReservations(now: Date = new Date()): Promise<number> {
+  const expired = await prisma.numberReservation.findMany({
+    where: { status: ReservationStatus.ACTIVE, expiresAt: { lt: now } },
+    select: { id: true, no: true, userId: true, expiresAt: true },
+  });
+
+  let released = 0;
+  for (const reservation of expired) {
+    const didRelease = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Guard on status so a concurrent sweep or submit cannot void the same reservation twice
+      const { count } = await tx.numberReservation.updateMany({
+        where: { id: reservation.id, status: ReservationStatus.ACTIVE },
+        data: { status: ReservationStatus.EXPIRED, releasedAt: now },
+      });
+      if (count === 0) return false;
+
+      await tx.auditLog.create({
+        data: {
+          action: AuditAction.NUMBER_VOIDED,
+          ...(reservation.userId && { targetUserId: reservation.userId }),
+          details: auditDetails(AuditAction.NUMBER_VOIDED, {
+            no: reservation.no,
+            reservationId: reservation.id,
+            reason: "expired",
+            expiresAt: reservation.expiresAt.toISOString(),
+          }),
+        },
+      });
+      return true;
+    });
+    if (didRelease) released += 1;
+  }
+
+  return released;
+}
+
+/**
+ * Reserves a registry number for the user. A user holds at most one active
+ * reservation: asking again renews and returns the one they already have.
+ */
+export async function reserveRegistryNumber(userId: string) {
+  const now = new Date();
+  await releaseExpiredReservations(now);
+
+  const current = await prisma.numberReservation.findFirst({
+    where: { userId, status: ReservationStatus.ACTIVE, expiresAt: { gt: now } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (current) {
+    // Guard on status and expiry so a reservation used or voided since it was read is not renewed
+    const expiresAt = nextExpiry(now);
+    const { count } = await prisma.numberReservation.updateMany({
+      where: { id: current.id, status: ReservationStatus.ACTIVE, expiresAt: { gt: now } },
+      data: { expiresAt },
+    });
+    if (count > 0) return { ...current, expiresAt };
+  }
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const { no } = await allocateRegistryNumber(tx);
+    const reservation = await tx.numberReservation.create({
+      data: { no, userId, expiresAt: nextExpiry(now) },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        action: AuditAction.NUMBER_RESERVED,
+        actorId: userId,
+        targetUserId: userId,
+        details: auditDetails(AuditAction.NUMBER_RESERVED, {
+          no,
+          reservationId: reservation.id,
+          expiresAt: reservation.expiresAt.toISOString(),
+        }),
+      },
+    });
+
+    return reservation;
+  });
+}
+
+/**
+ * Marks a reservation as used by the create request and returns its number.
+ * Must run in the same transaction as the entry insert.
+ * @throws ReservationError if the reservation is missing, not the caller's, or no longer active
+ */
+export async function consumeReservation(
+  tx: Prisma.TransactionClient,
+  reservationId: string,
+  userId: string | undefined
+): Promise<string> {
+  const reservation = await tx.numberReservation.findUnique({ where: { id: reservationId } });
+
+  if (!reservation || !userId || reservation.userId !== userId) {
+    throw new ReservationError("Registry number reservation not found");
+  }
+
+  const { count } = await tx.numberReservation.updateMany({
+    where: { id: reservationId, status: ReservationStatus.ACTIVE, expiresAt: { gt: new Date() } },
+    data: { status: ReservationStatus.CONSUMED },
+  });
+
+  if (count === 0) {
+    throw new ReservationError(
+      `Reserved number ${reservation.no} is no longer held (expired or voided). Reserve a new number and update the paper form.`
+    );
+  }
+
+  return reservation.no;
+}
+
+/**
+ * Voids an active reservation on request, e.g. when the clerk abandons the form
+ * @throws ReservationError if the reservation cannot be voided by this user
+ */
+export async function voidReservation(reservationId: string, actorId: string, isAdminActor: boolean) {
+  const now = new Date();
+  await releaseExpiredReservations(now);
+
+  const reservation = await prisma.numberReservation.findUnique({ where: { id: reservationId } });
+
+  if (!reservation || (!isAdminActor && reservation.userId !== actorId)) {
+    throw new ReservationError("Registry number reservation not found");
+  }
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const { count } = await tx.numberReservation.updateMany({
+      where: { id: reservationId, status: ReservationStatus.ACTIVE, expiresAt: { gt: now } },
+      data: { status: ReservationStatus.RELEASED, releasedAt: now },
+    });
+    if (count === 0) {
+      throw new ReservationError("Only active reservations can be voided");
+    }
+
+    await tx.auditLog.create({
+      data: {
+        action: AuditAction.NUMBER_VOIDED,
+        actorId,
+        ...(reservation.userId && { targetUserId: reservation.userId }),
+        details: auditDetails(AuditAction.NUMBER_VOIDED, {
+          no: reservation.no,
+          reservationId: reservation.id,
+          reason: "released",
+        }),
+      },
+    });
+
+    return { ...reservation, status: ReservationStatus.RELEASED };
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * Review store module
+ * Writes the review steps that follow from other changes. An approved entry
+ * whose details change goes back for review, submitted by whoever changed it,
+ * so a change nobody has checked never counts in reports. Callers run it in
+ * the same transaction as the change.
+ */
+
+import { AuditAction, Prisma } from "@prisma/client";
+import { auditDetails } from "@/lib/audit-details";
+
+const RESUBMIT_COMMENT = "Changed after approval";
+
+/**
+ * Sends an approved entry back for review after a change
+ * @returns whether the entry was sent back; entries not yet approved are left as they are
+ */
+export async function resubmitChangedEntry(
+  tx: Prisma.TransactionClient,
+  entry: { id: string; no: string },
+  actorId?: string
+): Promise<boolean> {
+  const { count } = await tx.registryEntry.updateMany({
+    where: { id: entry.id, reviewState: "APPROVED" },
+    data: { reviewState: "PENDING_REVIEW" },
+  });
+  if (count === 0) return false;
+
+  await tx.entryReview.create({
+    data: { entryId: entry.id, decision: "SUBMITTED", comment: RESUBMIT_COMMENT, actorId },
+  });
+  await tx.auditLog.create({
+    data: {
+      action: AuditAction.ENTRY_SUBMITTED_FOR_REVIEW,
+      ...(actorId && { actorId }),
+      targetEntryId: entry.id,
+      details: auditDetails(AuditAction.ENTRY_SUBMITTED_FOR_REVIEW, {
+        no: entry.no,
+        from: "APPROVED",
+        to: "PENDING_REVIEW",
+        comment: RESUBMIT_COMMENT,
+      }),
+    },
+  });
+  return true;
+}
@@ -0,0 +1,174 @@
+/**
+ * Revision store module
+ * Records an entry revision each time an entry is saved and reads revisions
+ * back. Writers call recordEntryRevision in the same transaction as their
+ * change, once the entry's version has been bumped, so every version of an
+ * entry has exactly one revision.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { borrowersInclude, syncEntryBorrowers } from "@/lib/people";
+import { attachmentSummarySelect, restoreAttachmentVersions, toAttachmentRecord } from "@/lib/attachment-store";
+import { STATUS_LABELS, isDocumentRequired, type DocumentTypeDefinition, type EntryStatus } from "@/lib/document-types";
+import { resubmitChangedEntry } from "@/lib/review-store";
+import { diffSnapshots, type EntrySnapshot, type RevisionSource } from "@/lib/entry-revisions";
+
+export class RevisionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RevisionError";
+  }
+}
+
+/** Columns returned for a revision */
+export const entryRevisionSelect = {
+  id: true,
+  version: true,
+  source: true,
+  snapshot: true,
+  createdAt: true,
+  actor: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.EntryRevisionSelect;
+
+const snapshotInclude = {
+  borrowers: borrowersInclude,
+  files: { where: { supersededAt: null, slot: { not: null } }, select: { id: true, slot: true, fileName: true, version: true } },
+} satisfies Prisma.RegistryEntryInclude;
+
+type SnapshotSource = Prisma.RegistryEntryGetPayload<{ include: typeof snapshotInclude }>;
+
+const toDay = (value: Date | null) => (value ? value.toISOString().slice(0, 10) : null);
+
+function toEntrySnapshot(entry: SnapshotSource): EntrySnapshot {
+  return {
+    no: entry.no,
+    agreementNumber: entry.agreementNumber,
+    formNumber: entry.formNumber,
+    date: toDay(entry.date)!,
+    branch: entry.branch,
+    island: entry.island,
+    address: entry.address,
+    status: entry.status,
+    loanAmount: entry.loanAmount.toString(),
+    dateOfCancelled: toDay(entry.dateOfCancelled),
+    dateOfCompleted: toDay(entry.dateOfCompleted),
+    isDeleted: entry.isDeleted,
+    borrowers: entry.borrowers.map((borrower) => ({
+      personId: borrower.personId,
+      fullName: borrower.fullName,
+      nationalId: borrower.nationalId,
+      idType: borrower.idType,
+      role: borrower.role,
+    })),
+    attachments: Object.fromEntries(
+      entry.files.map((file) => [file.slot!, { id: file.id, name: file.fileName, version: file.version }])
+    ),
+  };
+}
+
+/**
+ * Reads an entry as it stands in the transaction
+ */
+export async function readEntrySnapshot(tx: Prisma.TransactionClient, entryId: string) {
+  const entry = await tx.registryEntry.findUniqueOrThrow({
+    where: { id: entryId },
+    include: snapshotInclude,
+    omit: { attachments: true },
+  });
+  return { version: entry.version as number, snapshot: toEntrySnapshot(entry as SnapshotSource) };
+}
+
+/**
+ * Records the entry at its current version
+ * @returns the snapshot recorded
+ */
+export async function recordEntryRevision(
+  tx: Prisma.TransactionClient,
+  entryId: string,
+  source: RevisionSource,
+  actorId?: string
+): Promise<EntrySnapshot> {
+  const { version, snapshot } = await readEntrySnapshot(tx, entryId);
+  await tx.entryRevision.create({ data: { entryId, version, source, snapshot, actorId } });
+  return snapshot;
+}
+
+/**
+ * The revision in force at a moment: the last one recorded at or before it
+ * @returns the revision, or null if the entry had not been recorded yet
+ */
+export async function findRevisionAsOf(entryId: string, at: Date) {
+  return prisma.entryRevision.findFirst({
+    where: { entryId, createdAt: { lte: at } },
+    orderBy: { version: "desc" },
+    select: entryRevisionSelect,
+  });
+}
+
+/**
+ * Puts an entry back the way a revision had it: its fields, borrowers and
+ * documents. The entry keeps its current status, which only changes through
+ * the status transitions, so the documents restored must still include those
+ * its status requires. An approved entry goes back for review, and the entry
+ * is not deleted or restored.
+ * @returns the entry before and after, and the documents that changed, or null
+ * if the entry is no longer at the expected version
+ * @throws RevisionError if the registry number has since been taken by another
+ * entry, or the revision lacks a document the entry's status requires
+ * @throws AttachmentError if a document the revision held is no longer stored
+ */
+export async function revertEntry(
+  tx: Prisma.TransactionClient,
+  entryId: string,
+  expectedVersion: number,
+  revision: { version: number; snapshot: EntrySnapshot },
+  documentTypes: DocumentTypeDefinition[],
+  actorId?: string
+) {
+  const { snapshot } = revision;
+  const before = await readEntrySnapshot(tx, entryId);
+  if (before.version !== expectedVersion) return null;
+
+  if (snapshot.no !== before.snapshot.no) {
+    const holder = await tx.registryEntry.findUnique({ where: { no: snapshot.no }, select: { id: true } });
+    if (holder && holder.id !== entryId) {
+      throw new RevisionError(`Registry number ${snapshot.no} is now used by another entry`);
+    }
+  }
+
+  const { count } = await tx.registryEntry.updateMany({
+    where: { id: entryId, version: expectedVersion },
+    data: {
+      no: snapshot.no,
+      agreementNumber: snapshot.agreementNumber,
+      formNumber: snapshot.formNumber,
+      date: new Date(snapshot.date),
+      branch: snapshot.branch,
+      island: snapshot.island,
+      address: snapshot.address,
+      loanAmount: snapshot.loanAmount,
+      updatedById: actorId,
+      version: { increment: 1 },
+    },
+  });
+  if (count === 0) return null;
+
+  await syncEntryBorrowers(tx, entryId, snapshot.borrowers);
+  const attachmentChanges = await restoreAttachmentVersions(tx, entryId, snapshot.attachments);
+
+  const status = before.snapshot.status as EntryStatus;
+  const files = await tx.attachment.findMany({ where: { entryId, supersededAt: null }, select: attachmentSummarySelect });
+  const record = toAttachmentRecord(files);
+  const missing = documentTypes.filter((type) => isDocumentRequired(type, status) && !record[type.key]?.id);
+  if (missing.length > 0) {
+    throw new RevisionError(
+      `Version ${revision.version} has no ${missing.map((type) => type.label).join(", ")}, which ${STATUS_LABELS[status].toLowerCase()} entries need`
+    );
+  }
+  const after = await recordEntryRevision(tx, entryId, "REVERTED", actorId);
+  if (diffSnapshots(before.snapshot, after).length > 0) {
+    await resubmitChangedEntry(tx, { id: entryId, no: after.no }, actorId);
+  }
+  return { before: before.snapshot, after, attachmentChanges };
+}
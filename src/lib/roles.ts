@@ -0,0 +1,205 @@
+/**
+ * Roles module
+ * Roles are stored with the permissions they hold, so admins can define new
+ * ones and change what each role may do. The built-in roles can be edited but
+ * not deleted, and a role can only be deleted once no user holds it. Whatever
+ * its stored list says, the Administrator role holds every permission.
+ */
+
+import { AuditAction, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { auditDetails, changedFields } from "@/lib/audit-details";
+import {
+  ADMIN_ROLE,
+  PERMISSION_KEYS,
+  ROLE_KEY_PATTERN,
+  isPermission,
+  roleKeyFromName,
+  type Permission,
+  type RoleItem,
+} from "@/lib/permissions";
+
+export class RoleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoleError";
+  }
+}
+
+const roleItemSelect = {
+  key: true,
+  name: true,
+  description: true,
+  permissions: true,
+  isSystem: true,
+  updatedAt: true,
+  _count: { select: { users: true } },
+} satisfies Prisma.RoleSelect;
+
+// Stored lists may name permissions that no longer exist; those are dropped
+const permissionsOf = (role: { key: string; permissions: string[] }): Permission[] =>
+  role.key === ADMIN_ROLE ? [...PERMISSION_KEYS] : role.permissions.filter(isPermission);
+
+const toRoleItem = (role: any): RoleItem => ({
+  key: role.key,
+  name: role.name,
+  description: role.description,
+  permissions: permissionsOf(role),
+  isSystem: role.isSystem,
+  users: role._count.users,
+  updatedAt: role.updatedAt.toISOString(),
+});
+
+const isUniqueViolation = (error: unknown) => (error as { code?: string })?.code === "P2002";
+
+/**
+ * A role's name and the permissions it holds
+ * @returns null if there is no such role
+ */
+export async function getRoleAccess(key?: string | null): Promise<{ name: string; permissions: Permission[] } | null> {
+  if (!key) return null;
+  const role = await prisma.role.findUnique({ where: { key }, select: { key: true, name: true, permissions: true } });
+  return role ? { name: role.name, permissions: permissionsOf(role) } : null;
+}
+
+/** Every role, built-in roles first */
+export async function listRoles(): Promise<RoleItem[]> {
+  const roles = await prisma.role.findMany({
+    select: roleItemSelect,
+    orderBy: [{ isSystem: "desc" }, { name: "asc" }],
+  });
+  return roles.map(toRoleItem);
+}
+
+/** Whether a role exists, for checking a role before it is assigned */
+export async function roleExists(key: string): Promise<boolean> {
+  return (await prisma.role.count({ where: { key } })) > 0;
+}
+
+/**
+ * Defines a new role; its key is made from its name
+ * @throws RoleError if the name does not make a usable key or is already taken
+ */
+export async function createRole(
+  input: { name: string; description?: string; permissions: Permission[] },
+  actorId?: string
+): Promise<RoleItem> {
+  const key = roleKeyFromName(input.name);
+  if (!ROLE_KEY_PATTERN.test(key)) {
+    throw new RoleError("A role name must start with a letter and contain at least two letters or digits");
+  }
+
+  try {
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const role = await tx.role.create({
+        data: { key, name: input.name, description: input.description, permissions: input.permissions },
+        select: roleItemSelect,
+      });
+      await tx.auditLog.create({
+        data: {
+          action: AuditAction.ROLE_CREATED,
+          ...(actorId && { actorId }),
+          details: auditDetails(AuditAction.ROLE_CREATED, { role: key, name: role.name, permissions: input.permissions }),
+        },
+      });
+      return toRoleItem(role);
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) throw new RoleError("A role with this name already exists");
+    throw error;
+  }
+}
+
+/**
+ * Changes a role's name, description or permissions
+ * @returns the role, or null if there is no such role
+ * @throws RoleError if the Administrator role's permissions would change or the name is taken
+ */
+export async function updateRole(
+  key: string,
+  input: { name?: string; description?: string | null; permissions?: Permission[] },
+  actorId?: string
+): Promise<RoleItem | null> {
+  try {
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const existing = await tx.role.findUnique({ where: { key }, select: roleItemSelect });
+      if (!existing) return null;
+
+      const current = permissionsOf(existing);
+      const added = (input.permissions ?? []).filter((permission) => !current.includes(permission));
+      const removed = input.permissions ? current.filter((permission) => !input.permissions!.includes(permission)) : [];
+      if (key === ADMIN_ROLE && (added.length > 0 || removed.length > 0)) {
+        throw new RoleError("The Administrator role always holds every permission");
+      }
+
+      const changes: Record<string, { from: unknown; to: unknown }> = {};
+      if (input.name !== undefined && input.name !== existing.name) {
+        changes.name = { from: existing.name, to: input.name };
+      }
+      if (input.description !== undefined && input.description !== existing.description) {
+        changes.description = { from: existing.description, to: input.description };
+      }
+      if (Object.keys(changes).length === 0 && added.length === 0 && removed.length === 0) {
+        return toRoleItem(existing);
+      }
+
+      const role = await tx.role.update({
+        where: { key },
+        data: {
+          ...(changes.name && { name: input.name }),
+          ...(changes.description && { description: input.description }),
+          ...((added.length > 0 || removed.length > 0) && { permissions: input.permissions }),
+        },
+        select: roleItemSelect,
+      });
+      await tx.auditLog.create({
+        data: {
+          action: AuditAction.ROLE_UPDATED,
+          ...(actorId && { actorId }),
+          details: auditDetails(AuditAction.ROLE_UPDATED, {
+            role: key,
+            name: role.name,
+            changes,
+            fields: changedFields(changes),
+            added,
+            removed,
+          }),
+        },
+      });
+      return toRoleItem(role);
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) throw new RoleError("A role with this name already exists");
+    throw error;
+  }
+}
+
+/**
+ * Deletes a role no user holds
+ * @returns false if there is no such role
+ * @throws RoleError if the role is built in or still held by users
+ */
+export async function deleteRole(key: string, actorId?: string): Promise<boolean> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const role = await tx.role.findUnique({ where: { key }, select: roleItemSelect });
+    if (!role) return false;
+    if (role.isSystem) {
+      throw new RoleError("Built-in roles cannot be deleted");
+    }
+    if (role._count.users > 0) {
+      throw new RoleError(
+        `${role._count.users} user${role._count.users === 1 ? " holds" : "s hold"} this role; give them another role first`
+      );
+    }
+
+    await tx.role.delete({ where: { key } });
+    await tx.auditLog.create({
+      data: {
+        action: AuditAction.ROLE_DELETED,
+        ...(actorId && { actorId }),
+        details: auditDetails(AuditAction.ROLE_DELETED, { role: key, name: role.name, permissions: role.permissions }),
+      },
+    });
+    return true;
+  });
+}
@@ -0,0 +1,29 @@
+/**
+ * Saved view module
+ * Saved views are named entries page filters. A view belongs to the user who
+ * saved it; shared views are listed for the whole team, and pinned views are
+ * listed in the sidebar with a live count of matching entries.
+ */
+
+export const savedViewSelect = {
+  id: true,
+  name: true,
+  query: true,
+  shared: true,
+  pinned: true,
+  ownerId: true,
+  owner: { select: { id: true, name: true, email: true } },
+  updatedAt: true,
+};
+
+export type SavedView = {
+  id: string;
+  name: string;
+  query: string;
+  shared: boolean;
+  pinned: boolean;
+  ownerId: string;
+  owner: { id: string; name: string | null; email: string | null };
+  updatedAt: string;
+  isOwner: boolean;
+};
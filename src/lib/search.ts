@@ -0,0 +1,191 @@
+/**
+ * Entry search module
+ * Ranked full-text search over registry entries. Database triggers keep two
+ * search columns current: a weighted tsvector for word and prefix matches, and
+ * a trigram-indexed text column for misspellings, partial transliterations and
+ * national ID fragments. Accents are ignored on both sides.
+ */
+
+import { prisma } from "@/lib/db";
+
+export const MAX_SEARCH_CANDIDATES = 1000;
+const MAX_QUERY_TOKENS = 8;
+const SNIPPET_LENGTH = 120;
+const SNIPPET_LEAD = 30;
+
+export type SearchHit = { id: string; rank: number };
+
+/** A piece of snippet text; matched pieces are highlighted by the client */
+export type SnippetSegment = { text: string; match: boolean };
+
+type SearchableEntry = {
+  no: string;
+  agreementNumber: string;
+  address: string;
+  borrowers: { fullName: string; nationalId: string }[];
+};
+
+/**
+ * Lower-cases text and strips accents, matching what the search trigger stores
+ */
+export function normalizeSearchText(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+/**
+ * Splits a query into the words matched by prefix against the index
+ */
+export function tokenizeQuery(query: string): string[] {
+  return normalizeSearchText(query)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_QUERY_TOKENS);
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+/**
+ * Finds entries matching a query, best match first. An entry matches when all
+ * query words prefix-match its words, when the query is similar to one of its
+ * words, or when the query appears anywhere in its text or national IDs.
+ */
+export async function findEntryMatches(query: string, limit: number = MAX_SEARCH_CANDIDATES): Promise<SearchHit[]> {
+  const words = normalizeSearchText(query.trim());
+  if (!words) return [];
+
+  const tsquery = tokenizeQuery(words).map((token) => `${token}:*`).join(" & ");
+  const pattern = `%${escapeLike(words)}%`;
+  const compactPattern = `%${escapeLike(words.replace(/\s+/g, ""))}%`;
+
+  const rows: { id: string; rank: number }[] = await prisma.$queryRaw`
+    SELECT e."id",
+      (coalesce(ts_rank_cd(e."searchVector", to_tsquery('simple', ${tsquery})), 0)
+        + word_similarity(${words}, e."searchText"))::float8 AS "rank"
+    FROM "public"."RegistryEntry" e
+    WHERE e."isDeleted" = false
+      AND (
+        (${tsquery} <> '' AND e."searchVector" @@ to_tsquery('simple', ${tsquery}))
+        OR ${words} <% e."searchText"
+        OR e."searchText" LIKE ${pattern}
+        OR e."searchText" LIKE ${compactPattern}
+      )
+    ORDER BY "rank" DESC, e."createdAt" DESC
+    LIMIT ${limit}
+  `;
+  return rows;
+}
+
+/**
+ * Maps each character of the normalized text back to its position in the original
+ */
+function normalizeWithOffsets(text: string) {
+  let normalized = "";
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const folded = normalizeSearchText(char);
+    for (let i = 0; i < folded.length; i += 1) offsets.push(index);
+    normalized += folded;
+    index += char.length;
+  }
+  offsets.push(text.length);
+  return { normalized, offsets };
+}
+
+/**
+ * Splits text into highlighted and plain segments. Query words are matched
+ * at the start of words; the whole query is matched anywhere, with and
+ * without spaces, so ID fragments are highlighted too.
+ * @returns the segments, or null when nothing in the text matches
+ */
+export function highlightMatches(text: string, query: string): SnippetSegment[] | null {
+  const { normalized, offsets } = normalizeWithOffsets(text);
+  const whole = normalizeSearchText(query.trim());
+  const ranges: [number, number][] = [];
+
+  for (const needle of [whole, whole.replace(/\s+/g, "")]) {
+    if (!needle) continue;
+    for (let at = normalized.indexOf(needle); at !== -1; at = normalized.indexOf(needle, at + needle.length)) {
+      ranges.push([at, at + needle.length]);
+    }
+  }
+  for (const token of tokenizeQuery(query)) {
+    const wordStart = new RegExp(`(?<![\\p{L}\\p{N}])${token}`, "gu");
+    for (const match of normalized.matchAll(wordStart)) {
+      ranges.push([match.index, match.index + token.length]);
+    }
+  }
+  if (ranges.length === 0) return null;
+
+  // Merge overlapping ranges, then map them back onto the original text
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+
+  const segments: SnippetSegment[] = [];
+  let cursor = 0;
+  for (const [start, end] of merged) {
+    const from = offsets[start];
+    const to = offsets[end];
+    if (from > cursor) segments.push({ text: text.slice(cursor, from), match: false });
+    segments.push({ text: text.slice(from, to), match: true });
+    cursor = to;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+}
+
+/**
+ * Trims long snippets to a window around the first match
+ */
+function trimSnippet(segments: SnippetSegment[]): SnippetSegment[] {
+  const length = segments.reduce((total, segment) => total + segment.text.length, 0);
+  if (length <= SNIPPET_LENGTH) return segments;
+
+  const firstMatch = segments.findIndex((segment) => segment.match);
+  const lead = segments.slice(0, firstMatch).reduce((total, segment) => total + segment.text.length, 0);
+  let skip = Math.max(0, lead - SNIPPET_LEAD);
+  let budget = SNIPPET_LENGTH;
+  const trimmed: SnippetSegment[] = [];
+
+  for (const segment of segments) {
+    if (budget <= 0) break;
+    let text = segment.text;
+    if (skip > 0) {
+      const cut = Math.min(skip, text.length);
+      text = text.slice(cut);
+      skip -= cut;
+    }
+    if (!text) continue;
+    text = text.slice(0, budget);
+    budget -= text.length;
+    trimmed.push({ text, match: segment.match });
+  }
+
+  if (lead > SNIPPET_LEAD) trimmed.unshift({ text: "…", match: false });
+  if (budget <= 0) trimmed.push({ text: "…", match: false });
+  return trimmed;
+}
+
+/**
+ * Builds a highlighted snippet from the first entry field the query matches
+ * @returns the snippet, or null when the entry only matched by similarity
+ */
+export function buildEntrySnippet(entry: SearchableEntry, query: string): SnippetSegment[] | null {
+  const fields = [
+    ...entry.borrowers.map((borrower) => borrower.fullName),
+    ...entry.borrowers.map((borrower) => `${borrower.fullName} · ${borrower.nationalId}`),
+    entry.agreementNumber,
+    entry.no,
+    entry.address,
+  ];
+  for (const field of fields) {
+    const segments = field ? highlightMatches(field, query) : null;
+    if (segments) return trimSnippet(segments);
+  }
+  return null;
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from "vitest";
+import { Prisma, SequenceOverflow } from "@prisma/client";
+
+vi.mock("@/lib/db", () => ({ prisma: {} }));
+
+import {
+  SequenceError,
+  SequenceOverflowError,
+  advanceSequencesPast,
+  allocateRegistryNumber,
+  formatRegistryNumber,
+  parseRegistryNumber,
+  validateSequenceFormat,
+  type SequenceConfig,
+} from "@/lib/sequence";
+
+type SequenceRow = SequenceConfig & { id: string; year: number; lastValue: number };
+
+const config: SequenceConfig = { prefix: "RGST", format: "{prefix}{seq}/{year}", width: 3, overflow: SequenceOverflow.EXPAND };
+
+// Just enough of a transaction client for the counter queries, kept in memory
+function fakeClient(sequences: Omit<SequenceRow, "id">[] = [], taken: string[] = []) {
+  const rows: SequenceRow[] = sequences.map((sequence, index) => ({ id: `seq-${index}`, ...sequence }));
+  const find = ({ prefix_year }: { prefix_year: { prefix: string; year: number } }) =>
+    rows.find((row) => row.prefix === prefix_year.prefix && row.year === prefix_year.year);
+
+  const client = {
+    registrySequence: {
+      findUnique: async ({ where }: any) => find(where) ?? null,
+      findFirst: async ({ where }: any) =>
+        rows.filter((row) => row.prefix === where.prefix).sort((a, b) => b.year - a.year)[0] ?? null,
+      findMany: async () => rows.map((row) => ({ ...row })),
+      upsert: async ({ where, create }: any) => {
+        const existing = find(where);
+        if (existing) return existing;
+        const row = { id: `seq-${rows.length}`, lastValue: 0, ...create };
+        rows.push(row);
+        return row;
+      },
+      update: async ({ where, data }: any) => {
+        const row = find(where)!;
+        row.lastValue += data.lastValue.increment;
+        return { ...row };
+      },
+      updateMany: async ({ where, data }: any) => {
+        const matched = rows.filter(
+          (row) => row.prefix === where.prefix && row.year === where.year && row.lastValue < where.lastValue.lt
+        );
+        matched.forEach((row) => (row.lastValue = data.lastValue));
+        return { count: matched.length };
+      },
+    },
+    registryEntry: {
+      findUnique: async ({ where }: any) => (taken.includes(where.no) ? { id: `entry-${where.no}` } : null),
+    },
+    numberReservation: {
+      findUnique: async () => null,
+    },
+  };
+  return { rows, tx: client as unknown as Prisma.TransactionClient };
+}
+
+describe("validateSequenceFormat", () => {
+  it("accepts templates built from the supported tokens", () => {
+    expect(validateSequenceFormat("{prefix}{seq}/{year}")).toBeNull();
+    expect(validateSequenceFormat("{year}-{seq}")).toBeNull();
+  });
+
+  it("requires the {seq} token", () => {
+    expect(validateSequenceFormat("{prefix}/{year}")).toBe("Format must contain the {seq} token");
+  });
+
+  it("names an unknown token", () => {
+    expect(validateSequenceFormat("{prefix}{seq}/{month}")).toMatch(/Unknown token \{month\}/);
+  });
+});
+
+describe("formatRegistryNumber", () => {
+  it("pads the counter to the configured width", () => {
+    expect(formatRegistryNumber(config, 2025, 7)).toBe("RGST007/2025");
+  });
+
+  it("lets an EXPAND counter outgrow its width", () => {
+    expect(formatRegistryNumber(config, 2025, 1234)).toBe("RGST1234/2025");
+  });
+
+  it("refuses to outgrow the width of an ERROR counter", () => {
+    const fixed = { ...config, overflow: SequenceOverflow.ERROR };
+    expect(() => formatRegistryNumber(fixed, 2025, 1000)).toThrow(SequenceOverflowError);
+  });
+});
+
+describe("parseRegistryNumber", () => {
+  it("reads back the counter value of a number the counter produces", () => {
+    expect(parseRegistryNumber(config, 2025, "RGST042/2025")).toBe(42);
+    expect(parseRegistryNumber(config, 2025, "RGST1234/2025")).toBe(1234);
+  });
+
+  it("rejects numbers the counter would never produce", () => {
+    expect(parseRegistryNumber(config, 2025, "RGST042/2024")).toBeNull();
+    expect(parseRegistryNumber(config, 2025, "RGST42/2025")).toBeNull();
+    expect(parseRegistryNumber(config, 2025, "LOAN042/2025")).toBeNull();
+  });
+
+  it("treats the prefix as text rather than a pattern", () => {
+    const dotted = { ...config, prefix: "R.G" };
+    expect(parseRegistryNumber(dotted, 2025, "R.G001/2025")).toBe(1);
+    expect(parseRegistryNumber(dotted, 2025, "RXG001/2025")).toBeNull();
+  });
+});
+
+describe("allocateRegistryNumber", () => {
+  it("starts a new year's counter at 1", async () => {
+    const { tx, rows } = fakeClient();
+    await expect(allocateRegistryNumber(tx, "RGST", 2025)).resolves.toMatchObject({ no: "RGST001/2025", value: 1 });
+    expect(rows).toHaveLength(1);
+  });
+
+  it("hands out consecutive numbers", async () => {
+    const { tx } = fakeClient([{ ...config, year: 2025, lastValue: 41 }]);
+    expect((await allocateRegistryNumber(tx, "RGST", 2025)).no).toBe("RGST042/2025");
+    expect((await allocateRegistryNumber(tx, "RGST", 2025)).no).toBe("RGST043/2025");
+  });
+
+  it("carries the previous year's template into a new year", async () => {
+    const { tx } = fakeClient([{ ...config, format: "{year}-{prefix}-{seq}", width: 5, year: 2024, lastValue: 900 }]);
+    expect((await allocateRegistryNumber(tx, "RGST", 2025)).no).toBe("2025-RGST-00001");
+  });
+
+  it("skips numbers that are already taken", async () => {
+    const { tx } = fakeClient([{ ...config, year: 2025, lastValue: 1 }], ["RGST002/2025", "RGST003/2025"]);
+    await expect(allocateRegistryNumber(tx, "RGST", 2025)).resolves.toMatchObject({ no: "RGST004/2025", value: 4 });
+  });
+
+  it("gives up when every number it tries is taken", async () => {
+    const taken = Array.from({ length: 60 }, (_, index) => formatRegistryNumber(config, 2025, index + 1));
+    const { tx } = fakeClient([{ ...config, year: 2025, lastValue: 0 }], taken);
+    await expect(allocateRegistryNumber(tx, "RGST", 2025)).rejects.toThrow(SequenceError);
+  });
+});
+
+describe("advanceSequencesPast", () => {
+  it("moves a counter past the highest number it could have produced", async () => {
+    const { tx, rows } = fakeClient([{ ...config, year: 2025, lastValue: 10 }]);
+    await advanceSequencesPast(tx, ["RGST120/2025", "RGST015/2025", "OTHER-7"], 2025);
+    expect(rows[0].lastValue).toBe(120);
+  });
+
+  it("never moves a counter back", async () => {
+    const { tx, rows } = fakeClient([{ ...config, year: 2025, lastValue: 300 }]);
+    await advanceSequencesPast(tx, ["RGST120/2025"], 2025);
+    expect(rows[0].lastValue).toBe(300);
+  });
+
+  it("creates this year's counter when imported numbers need one", async () => {
+    const { tx, rows } = fakeClient([{ ...config, year: 2024, lastValue: 500 }]);
+    await advanceSequencesPast(tx, ["RGST009/2025"], 2025);
+    expect(rows.find((row) => row.year === 2025)).toMatchObject({ format: config.format, lastValue: 9 });
+    expect(rows.find((row) => row.year === 2024)?.lastValue).toBe(500);
+  });
+});
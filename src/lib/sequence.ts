@@ -0,0 +1,227 @@
+/**
+ * Registry number sequencing module
+ * Allocates registry numbers (e.g. RGST001/2025) from a per-prefix, per-year
+ * counter row so concurrent saves can never hand out the same number.
+ */
+
+import { Prisma, SequenceOverflow } from "@prisma/client";
+import { prisma } from "@/lib/db";
+
+export const DEFAULT_SEQUENCE_PREFIX = "RGST";
+export const DEFAULT_SEQUENCE_FORMAT = "{prefix}{seq}/{year}";
+export const DEFAULT_SEQUENCE_WIDTH = 3;
+
+const MAX_COLLISION_SKIPS = 50;
+
+type SequenceClient = Prisma.TransactionClient | typeof prisma;
+
+export type SequenceConfig = {
+  prefix: string;
+  format: string;
+  width: number;
+  overflow: SequenceOverflow;
+};
+
+export class SequenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SequenceError";
+  }
+}
+
+export class SequenceOverflowError extends SequenceError {
+  constructor(value: number, width: number) {
+    super(`Sequence value ${value} does not fit in ${width} digits`);
+    this.name = "SequenceOverflowError";
+  }
+}
+
+/**
+ * Validates a format template
+ * @returns an error message, or null when the template is usable
+ */
+export function validateSequenceFormat(format: string): string | null {
+  if (!format.includes("{seq}")) {
+    return "Format must contain the {seq} token";
+  }
+  const unknown = format.match(/\{(?!prefix\}|seq\}|year\})[^}]*\}/);
+  if (unknown) {
+    return `Unknown token ${unknown[0]}. Supported tokens: {prefix}, {seq}, {year}`;
+  }
+  return null;
+}
+
+/**
+ * Renders a registry number from a counter value
+ * @throws SequenceOverflowError when the value outgrows the digit width and overflow is ERROR
+ */
+export function formatRegistryNumber(config: SequenceConfig, year: number, value: number): string {
+  const digits = String(value);
+  if (digits.length > config.width && config.overflow === SequenceOverflow.ERROR) {
+    throw new SequenceOverflowError(value, config.width);
+  }
+
+  return config.format
+    .replace(/\{prefix\}/g, config.prefix)
+    .replace(/\{year\}/g, String(year))
+    .replace(/\{seq\}/g, digits.padStart(config.width, "0"));
+}
+
+/**
+ * Checks whether a number is already used by an entry or held by a reservation
+ */
+export async function isRegistryNumberTaken(client: SequenceClient, no: string): Promise<boolean> {
+  const [entry, reservation] = await Promise.all([
+    client.registryEntry.findUnique({ where: { no }, select: { id: true } }),
+    client.numberReservation.findUnique({ where: { no }, select: { id: true } }),
+  ]);
+  return !!entry || !!reservation;
+}
+
+/**
+ * Resolves the configuration for a prefix/year counter. A year without its own
+ * counter inherits the template of the most recent counter for the same prefix.
+ */
+async function resolveSequenceConfig(client: SequenceClient, prefix: string, year: number) {
+  const existing = await client.registrySequence.findUnique({
+    where: { prefix_year: { prefix, year } },
+  });
+  if (existing) return { config: existing as SequenceConfig, existing };
+
+  const previous = await client.registrySequence.findFirst({
+    where: { prefix },
+    orderBy: { year: "desc" },
+  });
+
+  return {
+    existing: null,
+    config: {
+      prefix,
+      format: previous?.format ?? DEFAULT_SEQUENCE_FORMAT,
+      width: previous?.width ?? DEFAULT_SEQUENCE_WIDTH,
+      overflow: previous?.overflow ?? SequenceOverflow.EXPAND,
+    } satisfies SequenceConfig,
+  };
+}
+
+/**
+ * Returns the number the next allocation would produce, without consuming it
+ */
+export async function peekNextRegistryNumber(
+  prefix: string = DEFAULT_SEQUENCE_PREFIX,
+  year: number = new Date().getFullYear()
+): Promise<string> {
+  const { config, existing } = await resolveSequenceConfig(prisma, prefix, year);
+  return formatRegistryNumber(config, year, (existing?.lastValue ?? 0) + 1);
+}
+
+/**
+ * Allocates the next registry number inside the caller's transaction.
+ * The counter row stays locked until the transaction commits, so concurrent
+ * callers queue behind each other; a rollback returns the number to the pool.
+ * @throws SequenceOverflowError when the counter outgrows a fixed-width format
+ */
+export async function allocateRegistryNumber(
+  tx: Prisma.TransactionClient,
+  prefix: string = DEFAULT_SEQUENCE_PREFIX,
+  year: number = new Date().getFullYear()
+): Promise<{ no: string; value: number; sequenceId: string }> {
+  const { config, existing } = await resolveSequenceConfig(tx, prefix, year);
+
+  if (!existing) {
+    await tx.registrySequence.upsert({
+      where: { prefix_year: { prefix, year } },
+      create: { prefix, year, format: config.format, width: config.width, overflow: config.overflow },
+      update: {},
+    });
+  }
+
+  // Numbers typed in by hand, or voided reservations after a reseed, may occupy a slot; skip past them
+  for (let attempt = 0; attempt < MAX_COLLISION_SKIPS; attempt += 1) {
+    const sequence = await tx.registrySequence.update({
+      where: { prefix_year: { prefix, year } },
+      data: { lastValue: { increment: 1 } },
+    });
+    const no = formatRegistryNumber(sequence, year, sequence.lastValue);
+    if (!(await isRegistryNumberTaken(tx, no))) {
+      return { no, value: sequence.lastValue, sequenceId: sequence.id };
+    }
+  }
+
+  throw new SequenceError(`Unable to find a free registry number for ${prefix}/${year}`);
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Reads the counter value back out of a registry number
+ * @returns the value, or null if the counter would never produce this number
+ */
+export function parseRegistryNumber(config: SequenceConfig, year: number, no: string): number | null {
+  const tokens: Record<string, string> = { "{prefix}": escapeRegExp(config.prefix), "{year}": String(year), "{seq}": "(\\d+)" };
+  const pattern = config.format
+    .split(/(\{prefix\}|\{year\}|\{seq\})/)
+    .map((part) => tokens[part] ?? escapeRegExp(part))
+    .join("");
+  const match = no.match(new RegExp(`^${pattern}$`));
+  if (!match) return null;
+
+  const value = Number(match[1]);
+  try {
+    return formatRegistryNumber(config, year, value) === no ? value : null;
+  } catch (error) {
+    if (error instanceof SequenceOverflowError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Moves counters past registry numbers written without allocating them, such
+ * as imported ones, so allocation does not have to skip over each of them.
+ * Covers every existing counter and this year's counter for each prefix,
+ * creating it if need be.
+ */
+export async function advanceSequencesPast(
+  tx: Prisma.TransactionClient,
+  numbers: string[],
+  year: number = new Date().getFullYear()
+): Promise<void> {
+  if (numbers.length === 0) return;
+
+  const sequences = await tx.registrySequence.findMany();
+  const prefixes = new Set<string>([DEFAULT_SEQUENCE_PREFIX, ...sequences.map((sequence) => sequence.prefix)]);
+  const counters: { config: SequenceConfig; year: number; lastValue: number }[] = sequences.map((sequence) => ({
+    config: sequence as SequenceConfig,
+    year: sequence.year,
+    lastValue: sequence.lastValue,
+  }));
+  for (const prefix of prefixes) {
+    if (sequences.some((sequence) => sequence.prefix === prefix && sequence.year === year)) continue;
+    const { config } = await resolveSequenceConfig(tx, prefix, year);
+    counters.push({ config, year, lastValue: 0 });
+  }
+
+  for (const counter of counters) {
+    const highest = Math.max(0, ...numbers.map((no) => parseRegistryNumber(counter.config, counter.year, no) ?? 0));
+    if (highest <= counter.lastValue) continue;
+
+    const { prefix, format, width, overflow } = counter.config;
+    await tx.registrySequence.upsert({
+      where: { prefix_year: { prefix, year: counter.year } },
+      create: { prefix, year: counter.year, format, width, overflow },
+      update: {},
+    });
+    await tx.registrySequence.updateMany({
+      where: { prefix, year: counter.year, lastValue: { lt: highest } },
+      data: { lastValue: highest },
+    });
+  }
+}
+
+/**
+ * Checks whether reseeding a counter to lastValue would hand out a number already in use
+ */
+export async function findReseedCollision(config: SequenceConfig, year: number, lastValue: number) {
+  const candidate = formatRegistryNumber(config, year, lastValue + 1);
+  return (await isRegistryNumberTaken(prisma, candidate)) ? candidate : null;
+}
@@ -0,0 +1,175 @@
+/**
+ * File storage module
+ * Keeps attachment bytes out of the database. STORAGE_DRIVER selects where new
+ * files go: "local" (default) writes under UPLOAD_DIR, "s3" writes to an
+ * S3-compatible bucket such as MinIO.
+ */
+
+import { randomUUID } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rename, rm, stat } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { DeleteObjectCommand, GetObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+
+const DEFAULT_UPLOAD_DIR = "./storage/uploads";
+
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Readable, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+/**
+ * Stores files on the local filesystem, e.g. the docker-compose upload volume
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = "local";
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolveKey(key: string): string {
+    const target = path.resolve(this.root, key);
+    if (!target.startsWith(this.root + path.sep)) {
+      throw new StorageError("Invalid storage key");
+    }
+    return target;
+  }
+
+  async put(key: string, body: Readable): Promise<void> {
+    const target = this.resolveKey(key);
+    await mkdir(path.dirname(target), { recursive: true });
+
+    // Write to a temporary name so a failed upload never leaves a truncated file behind
+    const partial = `${target}.partial`;
+    try {
+      await pipeline(body, createWriteStream(partial, { flags: "wx" }));
+      await rename(partial, target);
+    } catch (error) {
+      await rm(partial, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    const target = this.resolveKey(key);
+    try {
+      await stat(target);
+    } catch {
+      throw new StorageError("Stored file not found");
+    }
+    return createReadStream(target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+}
+
+export type S3StorageOptions = {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+};
+
+/**
+ * Stores files in an S3-compatible bucket. MinIO needs an endpoint and path-style addressing.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = "s3";
+  private readonly bucket: string;
+  private readonly client: S3Client;
+
+  constructor(options: S3StorageOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      ...(options.accessKeyId &&
+        options.secretAccessKey && {
+          credentials: { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey },
+        }),
+    });
+  }
+
+  async put(key: string, body: Readable, contentType: string): Promise<void> {
+    // Multipart upload streams the body without needing its length up front
+    await new Upload({
+      client: this.client,
+      params: { Bucket: this.bucket, Key: key, Body: body, ContentType: contentType },
+    }).done();
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!result.Body) throw new StorageError("Stored file not found");
+      return result.Body as Readable;
+    } catch (error) {
+      if ((error as Error).name === "NoSuchKey") throw new StorageError("Stored file not found");
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+/**
+ * Generates a fresh, unguessable key for a new file, grouped by upload year
+ */
+export function createStorageKey(now: Date = new Date()): string {
+  return `${now.getFullYear()}/${randomUUID()}`;
+}
+
+const drivers = new Map<string, StorageDriver>();
+
+function createStorageDriver(name: string): StorageDriver {
+  switch (name) {
+    case "local":
+      return new LocalStorageDriver(process.env.UPLOAD_DIR || DEFAULT_UPLOAD_DIR);
+    case "s3":
+      if (!process.env.S3_BUCKET) throw new StorageError("S3_BUCKET is required for the s3 storage driver");
+      return new S3StorageDriver({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== "false",
+      });
+    default:
+      throw new StorageError(`Unknown storage driver "${name}"`);
+  }
+}
+
+/**
+ * Returns the storage driver by name, defaulting to the one configured for new uploads.
+ * Existing files are always read back through the driver recorded when they were stored.
+ */
+export function getStorageDriver(name: string = process.env.STORAGE_DRIVER || "local"): StorageDriver {
+  let driver = drivers.get(name);
+  if (!driver) {
+    driver = createStorageDriver(name);
+    drivers.set(name, driver);
+  }
+  return driver;
+}
@@ -0,0 +1,125 @@
+/**
+ * User activity module
+ * Gathers what one user did, and what was done to their account, from the
+ * audit log: a timeline of records, how many of each action they took month
+ * by month, and the entries they created and changed. Records are matched on
+ * the refs, which keep the user's id even where the relation was cleared.
+ */
+
+import { AuditAction, Prisma } from "@prisma/client";
+import { format as formatDate, startOfMonth, subMonths } from "date-fns";
+import { prisma } from "@/lib/db";
+
+/** Months covered by the activity chart, the current one included */
+export const ACTIVITY_MONTHS = 12;
+
+/** Most timeline records returned per page */
+export const MAX_TIMELINE_PAGE_SIZE = 100;
+
+const timelineInclude = {
+  actor: { select: { id: true, email: true, name: true } },
+  targetUser: { select: { id: true, email: true, name: true } },
+  targetEntry: { select: { id: true, no: true } },
+} satisfies Prisma.AuditLogInclude;
+
+const userTimelineWhere = (userId: string): Prisma.AuditLogWhereInput => ({
+  OR: [{ actorRef: userId }, { targetUserRef: userId }],
+});
+
+/**
+ * The user's summary: their account, last sign-in, the entries they created
+ * and changed, and their actions per month
+ * @returns null if there is no such user
+ */
+export async function getUserActivitySummary(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+      roleDefinition: { select: { name: true } },
+      isActive: true,
+      createdAt: true,
+    },
+  });
+  if (!user) return null;
+
+  const since = startOfMonth(subMonths(new Date(), ACTIVITY_MONTHS - 1));
+  const [lastSignIn, entriesCreated, updates, monthly, totals] = await Promise.all([
+    prisma.auditLog.findFirst({
+      where: { actorRef: userId, action: AuditAction.USER_SIGNED_IN },
+      select: { createdAt: true, ipAddress: true, userAgent: true },
+      orderBy: { sequence: "desc" },
+    }),
+    prisma.registryEntry.count({ where: { createdById: userId } }),
+    prisma.auditLog.groupBy({
+      by: ["targetEntryRef"],
+      where: { actorRef: userId, action: { in: [AuditAction.ENTRY_UPDATED, AuditAction.ENTRY_STATUS_CHANGED] } },
+      _count: { _all: true },
+    }),
+    prisma.$queryRaw`
+      SELECT to_char(date_trunc('month', "createdAt"), 'YYYY-MM') AS "month", "action"::text AS "action", count(*)::int AS "count"
+      FROM "AuditLog"
+      WHERE "actorRef" = ${userId} AND "createdAt" >= ${since}
+      GROUP BY 1, 2
+      ORDER BY 1, 2
+    ` as Promise<{ month: string; action: string; count: number }[]>,
+    prisma.auditLog.groupBy({
+      by: ["action"],
+      where: { actorRef: userId },
+      _count: { _all: true },
+    }),
+  ]);
+
+  // Every month in the window, so months without activity still show
+  const months = Array.from({ length: ACTIVITY_MONTHS }, (_, index) =>
+    formatDate(subMonths(new Date(), ACTIVITY_MONTHS - 1 - index), "yyyy-MM"),
+  );
+  const activity = months.map((month) => {
+    const counts: Record<string, number> = {};
+    for (const row of monthly) {
+      if (row.month === month) counts[row.action] = row.count;
+    }
+    return { month, total: Object.values(counts).reduce((sum, count) => sum + count, 0), counts };
+  });
+
+  return {
+    user,
+    lastSignIn: lastSignIn
+      ? { at: lastSignIn.createdAt, ipAddress: lastSignIn.ipAddress, userAgent: lastSignIn.userAgent }
+      : null,
+    entries: {
+      created: entriesCreated,
+      updated: updates.filter((group: any) => group.targetEntryRef).length,
+      updates: updates.reduce((sum: number, group: any) => sum + group._count._all, 0),
+    },
+    actionTotals: Object.fromEntries(totals.map((group: any) => [group.action, group._count._all])) as Record<string, number>,
+    activity,
+  };
+}
+
+/**
+ * A page of the user's timeline, newest first: records where they acted or
+ * their account was acted on
+ * @param before the sequence of the last record already shown
+ */
+export async function listUserTimeline(userId: string, options: { before?: number; limit?: number } = {}) {
+  const take = Math.min(MAX_TIMELINE_PAGE_SIZE, Math.max(1, options.limit ?? 50));
+  const logs = await prisma.auditLog.findMany({
+    where: {
+      ...userTimelineWhere(userId),
+      ...(options.before !== undefined && { sequence: { lt: options.before } }),
+    },
+    include: timelineInclude,
+    orderBy: { sequence: "desc" },
+    take: take + 1,
+  });
+  const hasMore = logs.length > take;
+  const items = hasMore ? logs.slice(0, take) : logs;
+  return {
+    logs: items.map((log: any) => ({ ...log, role: log.actorRef === userId ? "actor" : "target" })),
+    nextBefore: hasMore ? items[items.length - 1].sequence : null,
+  };
+}
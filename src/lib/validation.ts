@@ -1,13 +1,31 @@
 import { z } from "zod";
-export const BorrowerSchema = z.object({ fullName: z.string().min(1), nationalId: z.string().min(1).regex(/^[A-Z0-9\-]+$/i) });
+import { DEFAULT_DOCUMENT_TYPES, DOCUMENT_KEY_PATTERN, DocumentTypeConfigSchema, describeMissingDocument, isDocumentRequired, type DocumentTypeDefinition } from "@/lib/document-types";
+import { BORROWER_ROLES, resolveBorrowerRoles } from "@/lib/borrowers";
+import { DEFAULT_NATIONAL_ID_TYPE, NATIONAL_ID_TYPES, normalizeNationalId, validateNationalId } from "@/lib/national-id";
+import { IMPORT_FIELDS } from "@/lib/import-mapping";
+import { PERMISSION_KEYS, ROLE_KEY_PATTERN, type Permission } from "@/lib/permissions";
+// IDs are checked against the format for their document type and stored normalized
+export const BorrowerSchema = z
+  .object({
+    fullName: z.string().trim().min(1),
+    nationalId: z.string().trim().min(1),
+    idType: z.enum(NATIONAL_ID_TYPES).default(DEFAULT_NATIONAL_ID_TYPE),
+    role: z.enum(BORROWER_ROLES).optional().nullable(),
+  })
+  .superRefine((b, ctx) => {
+    const error = validateNationalId(b.nationalId, b.idType);
+    if (error) ctx.addIssue({ code: "custom", message: error, path: ["nationalId"] });
+  })
+  .transform((b) => ({ ...b, nationalId: normalizeNationalId(b.nationalId, b.idType) }));
 const AttachmentValueSchema = z.object({
+  id: z.string().min(1).optional().nullable(),
   name: z.string().optional().nullable(),
-  dataUrl: z.string().url().optional().nullable(),
   size: z.number().int().nonnegative().optional().nullable(),
+  mimeType: z.string().optional().nullable(),
 });
 
-export const EntrySchema = z.object({
-  no: z.string().regex(/^RGST\d{3}\/\d{4}$/, "Registry number must be in format RGSTXXX/YYYY"),
+const EntryObjectSchema = z.object({
+  no: z.string().trim().min(1).max(50).regex(/^[A-Z0-9][A-Z0-9\/\-]*$/i, "Registry number may only contain letters, digits, '/' and '-'"),
   address: z.string().min(1),
   island: z.string().min(1),
   formNumber: z.string().min(1).regex(/^\d{1,5}\/\d{4}$/),
@@ -19,53 +37,201 @@ export const EntrySchema = z.object({
   dateOfCancelled: z.string().optional().nullable(),
   dateOfCompleted: z.string().optional().nullable(),
   borrowers: z.array(BorrowerSchema).min(1),
-  attachments: z.record(AttachmentValueSchema).optional().default({})
-}).superRefine((d, ctx)=>{
-  if(d.status==='CANCELLED'){ 
-    if(!d.dateOfCancelled) ctx.addIssue({ code:'custom', message:'dateOfCancelled required', path:['dateOfCancelled']}); 
-    // Require cancellation bank document when status is CANCELLED
-    const cancellationDoc = d.attachments?.cancellationBankDocument;
-    if(!cancellationDoc || !cancellationDoc.dataUrl) {
-      ctx.addIssue({ code:'custom', message:'Bank document is required when status is Cancelled', path:['attachments', 'cancellationBankDocument']});
+  attachments: z.record(AttachmentValueSchema).optional().default({}),
+  reservationId: z.string().min(1).optional().nullable(),
+  // The draft this entry was typed into, discarded once the entry is saved
+  draftId: z.string().min(1).optional().nullable(),
+  // Given to save an entry despite a suspected duplicate
+  duplicateJustification: z.string().trim().min(10, "Explain in at least 10 characters why this is not a duplicate").max(1000).optional().nullable(),
+});
+
+/**
+ * Builds the entry schema for a set of document slots. The required-document
+ * rules come from the slot definitions rather than being fixed per status.
+ */
+export const createEntrySchema = (documentTypes: DocumentTypeDefinition[] = DEFAULT_DOCUMENT_TYPES) =>
+  EntryObjectSchema.superRefine((d, ctx)=>{
+    if(d.status==='CANCELLED'){ 
+      if(!d.dateOfCancelled) ctx.addIssue({ code:'custom', message:'dateOfCancelled required', path:['dateOfCancelled']}); 
     }
-  }
-  else if(d.dateOfCancelled){ ctx.addIssue({ code:'custom', message:'dateOfCancelled must be empty unless CANCELLED', path:['dateOfCancelled']}); }
-  
-  // Require completion date and bank document when status is COMPLETED
-  if(d.status==='COMPLETED'){ 
-    if(!d.dateOfCompleted) ctx.addIssue({ code:'custom', message:'dateOfCompleted required', path:['dateOfCompleted']}); 
-    const completionDoc = d.attachments?.completionBankDocument;
-    if(!completionDoc || !completionDoc.dataUrl) {
-      ctx.addIssue({ code:'custom', message:'Bank letter of completion is required when status is Completed', path:['attachments', 'completionBankDocument']});
+    else if(d.dateOfCancelled){ ctx.addIssue({ code:'custom', message:'dateOfCancelled must be empty unless CANCELLED', path:['dateOfCancelled']}); }
+    
+    if(d.status==='COMPLETED'){ 
+      if(!d.dateOfCompleted) ctx.addIssue({ code:'custom', message:'dateOfCompleted required', path:['dateOfCompleted']}); 
     }
-  }
-  else if(d.dateOfCompleted){ ctx.addIssue({ code:'custom', message:'dateOfCompleted must be empty unless COMPLETED', path:['dateOfCompleted']}); }
-});
+    else if(d.dateOfCompleted){ ctx.addIssue({ code:'custom', message:'dateOfCompleted must be empty unless COMPLETED', path:['dateOfCompleted']}); }
+
+    // One primary borrower, and each person listed once
+    if (resolveBorrowerRoles(d.borrowers).filter((r) => r === 'PRIMARY').length !== 1) {
+      ctx.addIssue({ code:'custom', message:'Exactly one borrower must be the primary borrower', path:['borrowers']});
+    }
+    const nationalIds = new Set<string>();
+    d.borrowers.forEach((b, i) => {
+      const nationalId = normalizeNationalId(b.nationalId, b.idType);
+      if (nationalIds.has(nationalId)) ctx.addIssue({ code:'custom', message:'This person is already listed on the agreement', path:['borrowers', i, 'nationalId']});
+      nationalIds.add(nationalId);
+    });
+
+    // Require the documents configured for this status
+    for (const type of documentTypes) {
+      if (isDocumentRequired(type, d.status) && !d.attachments?.[type.key]?.id) {
+        ctx.addIssue({ code:'custom', message: describeMissingDocument(type, d.status), path:['attachments', type.key]});
+      }
+    }
+  });
+
+export const EntrySchema = createEntrySchema();
 export const AdminUserCreateSchema = z.object({
   name: z.string().trim().min(1).max(120).optional().transform((v) => v?.trim() || undefined),
   email: z.string().trim().min(1).email(),
   password: z.string().min(6),
-  role: z.enum(["ADMIN","DATA_ENTRY","VIEWER"]).optional(),
+  role: z.string().regex(ROLE_KEY_PATTERN, "Unknown role").optional(),
   isActive: z.boolean().optional(),
 });
 
 export const AdminUserUpdateSchema = z
   .object({
-    role: z.enum(["ADMIN","DATA_ENTRY","VIEWER"]).optional(),
+    role: z.string().regex(ROLE_KEY_PATTERN, "Unknown role").optional(),
     isActive: z.boolean().optional(),
     resetPassword: z.string().min(6).optional(),
   })
   .refine((d) => !!d.role || d.isActive !== undefined || !!d.resetPassword, { message: "No changes provided" });
 
+const PermissionListSchema = z
+  .array(z.enum(PERMISSION_KEYS as [Permission, ...Permission[]]))
+  .transform((permissions) => Array.from(new Set(permissions)));
+
+export const RoleCreateSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(240).optional().transform((v) => v || undefined),
+  permissions: PermissionListSchema,
+});
+
+export const RoleUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(60).optional(),
+    description: z.string().trim().max(240).nullable().optional().transform((v) => (v === undefined ? undefined : v || null)),
+    permissions: PermissionListSchema.optional(),
+  })
+  .refine((d) => d.name !== undefined || d.description !== undefined || d.permissions !== undefined, { message: "No changes provided" });
+
 export const SystemSettingCreateSchema = z.object({
   category: z.enum(["ISLAND", "BANK_BRANCH", "REGION", "DOCUMENT_TYPE"]),
   value: z.string().trim().min(1).max(200),
   displayName: z.string().trim().min(1).max(200).optional().nullable(),
   sortOrder: z.number().int().default(0),
+  config: DocumentTypeConfigSchema.optional().nullable(),
+}).superRefine((d, ctx) => {
+  if (d.category === "DOCUMENT_TYPE" && !DOCUMENT_KEY_PATTERN.test(d.value)) {
+    ctx.addIssue({ code: "custom", message: "Document type key must be camelCase letters and digits, e.g. valuationReport", path: ["value"] });
+  }
+  if (d.category !== "DOCUMENT_TYPE" && d.config) {
+    ctx.addIssue({ code: "custom", message: "Only document types take a configuration", path: ["config"] });
+  }
 });
 
 export const SystemSettingUpdateSchema = z.object({
   displayName: z.string().trim().min(1).max(200).optional().nullable(),
   isActive: z.boolean().optional(),
   sortOrder: z.number().int().optional(),
-});
\ No newline at end of file
+  config: DocumentTypeConfigSchema.optional(),
+});
+
+export const RegistrySequenceCreateSchema = z.object({
+  prefix: z.string().trim().min(1).max(20).regex(/^[A-Z0-9\-]+$/i),
+  year: z.number().int().min(1900).max(9999),
+  lastValue: z.number().int().nonnegative().default(0),
+  format: z.string().trim().min(1).max(60).optional(),
+  width: z.number().int().min(1).max(12).optional(),
+  overflow: z.enum(["EXPAND", "ERROR"]).optional(),
+});
+
+export const RegistrySequenceUpdateSchema = z
+  .object({
+    lastValue: z.number().int().nonnegative().optional(),
+    format: z.string().trim().min(1).max(60).optional(),
+    width: z.number().int().min(1).max(12).optional(),
+    overflow: z.enum(["EXPAND", "ERROR"]).optional(),
+  })
+  .refine((d) => d.lastValue !== undefined || !!d.format || d.width !== undefined || !!d.overflow, { message: "No changes provided" });
+
+export const SavedViewCreateSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  query: z.string().max(2000),
+  shared: z.boolean().default(false),
+  pinned: z.boolean().default(false),
+});
+
+export const SavedViewUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(80).optional(),
+    query: z.string().max(2000).optional(),
+    shared: z.boolean().optional(),
+    pinned: z.boolean().optional(),
+  })
+  .refine((d) => Object.values(d).some((value) => value !== undefined), { message: "No changes provided" });
+
+export const PersonMergeSchema = z.object({
+  targetId: z.string().min(1),
+  sourceIds: z.array(z.string().min(1)).min(1).max(20),
+});
+
+export const EntryTransitionSchema = z.object({
+  to: z.enum(["ONGOING","CANCELLED","COMPLETED"]),
+  reason: z.string().trim().max(1000).optional().nullable(),
+  // Date of completion or cancellation; defaults to today
+  date: z.string().refine(v=>!Number.isNaN(Date.parse(v))).optional().nullable(),
+  // Documents the new status requires, uploaded with the transition
+  attachments: z.record(AttachmentValueSchema).optional().default({}),
+});
+
+export const EntryReviewSchema = z.object({
+  action: z.enum(["SUBMIT","APPROVE","REJECT"]),
+  comment: z.string().trim().max(1000).optional().nullable(),
+});
+
+// Drafts hold whatever the entry form had when it was saved; the entry schema applies on submit
+export const DraftSaveSchema = z.object({
+  entryId: z.string().min(1).optional().nullable(),
+  payload: z
+    .object({
+      data: z.record(z.unknown()),
+      attachments: z.record(z.unknown()).optional(),
+      // The entry version and state the edits started from
+      version: z.number().int().optional().nullable(),
+      base: z.unknown().optional(),
+    })
+    .passthrough(),
+});
+
+// Column index each entry field is read from
+export const ImportRunSchema = z.object({
+  mapping: z.record(z.enum(IMPORT_FIELDS), z.number().int().min(0)),
+});
+
+// A bulk action applies to every selected entry or to none of them
+const BulkEntryIdsSchema = z.array(z.string().min(1)).min(1, "Select at least one entry").max(500, "Select at most 500 entries at a time");
+
+export const BulkEntryActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("TRANSITION"),
+    ids: BulkEntryIdsSchema,
+    to: z.enum(["ONGOING","CANCELLED","COMPLETED"]),
+    reason: z.string().trim().max(1000).optional().nullable(),
+    date: z.string().refine(v=>!Number.isNaN(Date.parse(v))).optional().nullable(),
+  }),
+  z.object({
+    action: z.literal("DELETE"),
+    ids: BulkEntryIdsSchema,
+    reason: z.string().trim().min(1, "Deletion reason is required").max(1000),
+  }),
+  z.object({
+    action: z.literal("REASSIGN_BRANCH"),
+    ids: BulkEntryIdsSchema,
+    branch: z.string().trim().min(1).max(100),
+  }),
+  z.object({
+    action: z.literal("EXPORT"),
+    ids: BulkEntryIdsSchema,
+  }),
+]);